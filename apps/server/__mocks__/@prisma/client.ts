@@ -0,0 +1,197 @@
+/**
+ * In-memory stand-in for PrismaClient, picked up by jest for every server test.
+ * Every `new PrismaClient()` shares one store, so services that create their own
+ * client at module load see the same rows as the test. Supports the query subset
+ * the services use: equality and gt/gte/lt/lte/in filters, increment/decrement
+ * updates, select, take, _sum aggregates and interactive transactions that roll
+ * back when the callback throws.
+ */
+
+const actual = jest.requireActual<typeof import('@prisma/client')>('@prisma/client');
+
+export const { Prisma, TransactionType, ReservationStatus, SubscriptionTier, JobStatus, JobPriority } = actual;
+
+export type Row = Record<string, unknown>;
+
+type Comparison = { gt?: unknown; gte?: unknown; lt?: unknown; lte?: unknown; in?: unknown[] };
+
+interface QueryArgs {
+  where?: Row;
+  data?: Row;
+  select?: Record<string, boolean>;
+  take?: number;
+  create?: Row;
+  update?: Row;
+  _sum?: Record<string, boolean>;
+}
+
+// Column defaults from prisma/schema.prisma for the models the tests create
+const MODEL_DEFAULTS: Record<string, () => Row> = {
+  user: () => ({
+    credits: 50,
+    subscriptionTier: actual.SubscriptionTier.FREE,
+    dailyQuota: 3,
+    dailyUsed: 0,
+    totalGenerated: 0,
+    lastResetDate: new Date()
+  }),
+  creditReservation: () => ({
+    committedAmount: 0,
+    quotaUnits: 0,
+    status: actual.ReservationStatus.HELD,
+    releaseReason: null,
+    metadata: null,
+    settledAt: null
+  })
+};
+
+let nextId = 1;
+
+// Shared by every client instance
+let tables: Record<string, Row[]> = {};
+
+const compare = (a: unknown, b: unknown): number =>
+  a instanceof Date && b instanceof Date ? a.getTime() - b.getTime() : (a as number) - (b as number);
+
+const isComparison = (value: unknown): value is Comparison =>
+  typeof value === 'object' && value !== null && !(value instanceof Date) && !Array.isArray(value);
+
+const matches = (row: Row, where: Row = {}): boolean =>
+  Object.entries(where).every(([field, condition]) => {
+    const value = row[field];
+    if (!isComparison(condition)) {
+      return condition instanceof Date ? compare(value, condition) === 0 : value === condition;
+    }
+    const { gt, gte, lt, lte, in: oneOf } = condition;
+    return (gt === undefined || compare(value, gt) > 0)
+      && (gte === undefined || compare(value, gte) >= 0)
+      && (lt === undefined || compare(value, lt) < 0)
+      && (lte === undefined || compare(value, lte) <= 0)
+      && (oneOf === undefined || oneOf.includes(value));
+  });
+
+const applyData = (row: Row, data: Row = {}): void => {
+  for (const [field, change] of Object.entries(data)) {
+    if (isComparison(change) && ('increment' in change || 'decrement' in change)) {
+      const { increment = 0, decrement = 0 } = change as { increment?: number; decrement?: number };
+      row[field] = (row[field] as number) + increment - decrement;
+    } else {
+      row[field] = change;
+    }
+  }
+  row['updatedAt'] = new Date();
+};
+
+const pick = (row: Row | undefined, select?: Record<string, boolean>): Row | null => {
+  if (!row) return null;
+  const copy = { ...row };
+  return select ? Object.fromEntries(Object.keys(select).filter(key => select[key]).map(key => [key, copy[key]])) : copy;
+};
+
+export class MemoryPrismaClient {
+  constructor() {
+    const client = this;
+    return new Proxy(this, {
+      get(target, property, receiver) {
+        if (typeof property !== 'string' || property in target) {
+          return Reflect.get(target, property, receiver);
+        }
+        return client.delegate(property);
+      }
+    });
+  }
+
+  /**
+   * Rows of a model, created on first access (e.g. `rows('user')`)
+   */
+  rows(model: string): Row[] {
+    return (tables[model] ??= []);
+  }
+
+  /**
+   * Insert a row with the model's defaults, returning it
+   */
+  seed(model: string, data: Row): Row {
+    const now = new Date();
+    const row: Row = {
+      id: `${model}-${nextId++}`,
+      createdAt: now,
+      updatedAt: now,
+      ...(MODEL_DEFAULTS[model]?.() ?? {}),
+      ...data
+    };
+    this.rows(model).push(row);
+    return row;
+  }
+
+  reset(): void {
+    tables = {};
+  }
+
+  async $transaction<T>(work: ((tx: this) => Promise<T>) | Promise<unknown>[]): Promise<unknown> {
+    if (Array.isArray(work)) {
+      return Promise.all(work);
+    }
+    const snapshot = Object.fromEntries(
+      Object.entries(tables).map(([model, rows]) => [model, rows.map(row => ({ ...row }))])
+    );
+    try {
+      return await work(this);
+    } catch (error) {
+      tables = snapshot;
+      throw error;
+    }
+  }
+
+  async $connect(): Promise<void> {}
+
+  async $disconnect(): Promise<void> {}
+
+  private delegate(model: string) {
+    const rows = () => this.rows(model);
+    const findOne = (args: QueryArgs) => rows().find(row => matches(row, args.where));
+
+    return {
+      findUnique: async (args: QueryArgs) => pick(findOne(args), args.select),
+      findFirst: async (args: QueryArgs = {}) => pick(findOne(args), args.select),
+      findUniqueOrThrow: async (args: QueryArgs) => {
+        const row = findOne(args);
+        if (!row) throw new Error(`No ${model} found`);
+        return pick(row, args.select);
+      },
+      findMany: async (args: QueryArgs = {}) =>
+        rows().filter(row => matches(row, args.where)).slice(0, args.take).map(row => pick(row, args.select)),
+      count: async (args: QueryArgs = {}) => rows().filter(row => matches(row, args.where)).length,
+      create: async (args: QueryArgs) => pick(this.seed(model, args.data ?? {}), args.select),
+      update: async (args: QueryArgs) => {
+        const row = findOne(args);
+        if (!row) throw new Error(`No ${model} found to update`);
+        applyData(row, args.data);
+        return pick(row, args.select);
+      },
+      updateMany: async (args: QueryArgs) => {
+        const matched = rows().filter(row => matches(row, args.where));
+        matched.forEach(row => applyData(row, args.data));
+        return { count: matched.length };
+      },
+      upsert: async (args: QueryArgs) => {
+        const row = findOne(args);
+        if (row) {
+          applyData(row, args.update);
+          return pick(row, args.select);
+        }
+        return pick(this.seed(model, args.create ?? {}), args.select);
+      },
+      aggregate: async (args: QueryArgs) => {
+        const matched = rows().filter(row => matches(row, args.where));
+        const sums = Object.keys(args._sum ?? {}).map(field => [
+          field,
+          matched.length ? matched.reduce((total, row) => total + (row[field] as number), 0) : null
+        ]);
+        return { _sum: Object.fromEntries(sums) };
+      }
+    };
+  }
+}
+
+export const PrismaClient = MemoryPrismaClient;
@@ -2,34 +2,254 @@
  * Unified Gemini API Client
  * Handles both text generation (gemini-2.5-flash) and image generation (gemini-2.5-flash-image-preview)
  * Uses consistent calling pattern with proxy support
- * important: don't change this file !!!!!! don't change this file !!!!!! don't change this file !!!!!! 
- * 
+ * important: don't change this file !!!!!! don't change this file !!!!!! don't change this file !!!!!!
+ *
+ * Every call goes through one request path with a per-call timeout, exponential-backoff retries
+ * on 429/5xx (honouring Retry-After) and a circuit breaker that fails fast while Google is down.
+ * Failures are returned as typed GeminiErrors under `failure`.
  */
 
 import { HttpsProxyAgent } from 'https-proxy-agent';
 import fetch from 'node-fetch';
+import { config } from '../../../../config/core';
 
 export interface GeminiClientOptions {
   enableProxy?: boolean;
   proxyUrl?: string;
+  resilience?: Partial<GeminiResilienceOptions>;
+  safetyThreshold?: GeminiSafetyThreshold;
 }
 
+export type GeminiResilienceOptions = typeof config.ai.gemini;
+export type GeminiSafetyThreshold = typeof config.moderation.safetyThreshold;
+
+type GeminiModel = 'gemini-2.5-flash' | 'gemini-2.5-flash-image-preview';
+
 interface GeminiRequest {
-  model: 'gemini-2.5-flash' | 'gemini-2.5-flash-image-preview';
+  model: GeminiModel;
   prompt: string;
   systemPrompt?: string | undefined;
+  generationConfig?: GeminiGenerationConfig | undefined;
+}
+
+/**
+ * Subset of the generateContent generationConfig; a responseSchema requires responseMimeType application/json
+ * and imageConfig only applies to the image model
+ */
+export interface GeminiGenerationConfig {
+  responseMimeType?: 'application/json' | 'text/plain';
+  responseSchema?: Record<string, unknown>;
+  temperature?: number;
+  imageConfig?: {
+    aspectRatio?: string;
+    imageSize?: '1K' | '2K';
+  };
 }
 
 interface GeminiResponse {
   success: boolean;
   data?: any;
   error?: string;
+  /** Typed error when success is false */
+  failure?: GeminiError;
+}
+
+/**
+ * - CONTENT_BLOCKED: the prompt or the output was blocked by Google's safety filters;
+ *   `details.categories` lists the blocked harm categories
+ * - QUOTA_EXCEEDED: 429 / RESOURCE_EXHAUSTED (rate limit or exhausted quota)
+ * - TIMEOUT: no response within the call's timeout
+ * - TRANSPORT_ERROR: network failure before a response arrived
+ * - UPSTREAM_ERROR: 5xx from the API
+ * - INVALID_REQUEST: any other 4xx (bad request, invalid key, ...)
+ * - NO_CONTENT: a successful response without the expected text or image
+ * - SERVICE_UNAVAILABLE: the circuit is open; the call was not attempted
+ */
+export type GeminiErrorCode =
+  | 'CONTENT_BLOCKED'
+  | 'QUOTA_EXCEEDED'
+  | 'TIMEOUT'
+  | 'TRANSPORT_ERROR'
+  | 'UPSTREAM_ERROR'
+  | 'INVALID_REQUEST'
+  | 'NO_CONTENT'
+  | 'SERVICE_UNAVAILABLE';
+
+const ERROR_STATUS: Record<GeminiErrorCode, { statusCode: number; retryable: boolean }> = {
+  CONTENT_BLOCKED: { statusCode: 422, retryable: false },
+  QUOTA_EXCEEDED: { statusCode: 429, retryable: true },
+  TIMEOUT: { statusCode: 504, retryable: true },
+  TRANSPORT_ERROR: { statusCode: 502, retryable: true },
+  UPSTREAM_ERROR: { statusCode: 502, retryable: true },
+  INVALID_REQUEST: { statusCode: 502, retryable: false },
+  NO_CONTENT: { statusCode: 502, retryable: true },
+  SERVICE_UNAVAILABLE: { statusCode: 503, retryable: true }
+};
+
+// Failures that mean the API is unreachable or broken, as opposed to rejecting this request
+const OUTAGE_CODES: GeminiErrorCode[] = ['TIMEOUT', 'TRANSPORT_ERROR', 'UPSTREAM_ERROR'];
+
+// finishReason / blockReason values that mean content was blocked
+const SAFETY_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+// Harm categories sent in safetySettings and their names in CONTENT_BLOCKED errors
+const HARM_CATEGORIES: Record<string, string> = {
+  HARM_CATEGORY_SEXUALLY_EXPLICIT: 'sexual',
+  HARM_CATEGORY_HATE_SPEECH: 'hate',
+  HARM_CATEGORY_HARASSMENT: 'harassment',
+  HARM_CATEGORY_DANGEROUS_CONTENT: 'dangerous'
+};
+
+// Category reported when a block comes without a flagged safety rating
+const BLOCK_REASON_CATEGORIES: Record<string, string> = {
+  PROHIBITED_CONTENT: 'prohibited',
+  SPII: 'personal-info',
+  BLOCKLIST: 'blocklist',
+  IMAGE_SAFETY: 'image-safety'
+};
+
+const PROBABILITY_RANK: Record<string, number> = { NEGLIGIBLE: 0, LOW: 1, MEDIUM: 2, HIGH: 3 };
+
+// Lowest probability each threshold blocks at
+const THRESHOLD_RANK: Record<GeminiSafetyThreshold, number> = {
+  BLOCK_LOW_AND_ABOVE: 1,
+  BLOCK_MEDIUM_AND_ABOVE: 2,
+  BLOCK_ONLY_HIGH: 3
+};
+
+/**
+ * Error from a Gemini API call. `statusCode` is the status to answer our own clients with;
+ * `retryable` tells callers (e.g. the job queue) whether trying again later can help.
+ */
+export class GeminiError extends Error {
+  public code: GeminiErrorCode;
+  public statusCode: number;
+  public retryable: boolean;
+  /** Wait requested by the API (Retry-After) or the remaining circuit cooldown */
+  public retryAfterMs?: number;
+  public upstreamStatus?: number;
+  public details?: any;
+
+  constructor(
+    code: GeminiErrorCode,
+    message: string,
+    options: { retryAfterMs?: number | undefined; upstreamStatus?: number | undefined; details?: any } = {}
+  ) {
+    super(message);
+    this.name = 'GeminiError';
+    this.code = code;
+    this.statusCode = ERROR_STATUS[code].statusCode;
+    this.retryable = ERROR_STATUS[code].retryable;
+    this.retryAfterMs = options.retryAfterMs;
+    this.upstreamStatus = options.upstreamStatus;
+    this.details = options.details;
+  }
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) or a google.rpc.RetryInfo delay ("12s", "1.5s")
+ */
+export function parseRetryAfter(headerValue: string | null, errorBody?: any): number | undefined {
+  if (headerValue) {
+    const seconds = Number(headerValue);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(headerValue);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  const details: any[] = Array.isArray(errorBody?.error?.details) ? errorBody.error.details : [];
+  const retryDelay = details.find(detail => typeof detail?.retryDelay === 'string')?.retryDelay;
+  const match = typeof retryDelay === 'string' ? retryDelay.match(/^(\d+(?:\.\d+)?)s$/) : null;
+  return match ? Math.round(parseFloat(match[1]!) * 1000) : undefined;
 }
 
+/**
+ * Consecutive-failure circuit breaker. Opens after `threshold` outage failures in a row; after
+ * the cooldown one trial call is let through (half-open) and its outcome closes or re-opens it.
+ */
+class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(private threshold: number, private cooldownMs: number) {}
+
+  get state(): 'closed' | 'open' | 'half-open' {
+    if (this.openedAt === null) return 'closed';
+    return Date.now() - this.openedAt >= this.cooldownMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Throw SERVICE_UNAVAILABLE unless a call may be made now
+   */
+  acquire(): void {
+    const state = this.state;
+    if (state === 'closed') return;
+
+    if (state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+
+    const retryAfterMs = state === 'open' ? this.cooldownMs - (Date.now() - this.openedAt!) : this.cooldownMs;
+    throw new GeminiError('SERVICE_UNAVAILABLE', 'Gemini API is temporarily unavailable, please try again shortly', { retryAfterMs });
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.trialInFlight || this.failures >= this.threshold) {
+      if (this.openedAt === null || this.trialInFlight) {
+        console.warn(`[GeminiClient] Circuit opened after ${this.failures} consecutive failures`);
+      }
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+
+  /**
+   * The attempt ended without telling anything about availability (e.g. quota exceeded)
+   */
+  recordNeutral(): void {
+    this.trialInFlight = false;
+  }
+}
+
+/**
+ * Blocked categories from safetyRatings: ratings the API marked as blocked, otherwise the ones at or
+ * above the configured threshold; falls back to the block reason when no rating explains the block
+ */
+export function blockedCategories(safetyRatings: unknown, reason: string, threshold: GeminiSafetyThreshold): string[] {
+  const ratings: any[] = Array.isArray(safetyRatings) ? safetyRatings : [];
+  const toName = (rating: any) => HARM_CATEGORIES[rating?.category] ?? String(rating?.category || 'unspecified').replace(/^HARM_CATEGORY_/, '').toLowerCase();
+
+  let flagged = ratings.filter(rating => rating?.blocked === true);
+  if (flagged.length === 0) {
+    flagged = ratings.filter(rating => (PROBABILITY_RANK[rating?.probability] ?? 0) >= THRESHOLD_RANK[threshold]);
+  }
+
+  const categories = [...new Set(flagged.map(toName))];
+  return categories.length > 0 ? categories : [BLOCK_REASON_CATEGORIES[reason] ?? 'unspecified'];
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 export class GeminiClient {
   private apiKey: string;
   private baseUrl: string;
   private proxyAgent: any;
+  private resilience: GeminiResilienceOptions;
+  private breaker: CircuitBreaker;
+  private safetyThreshold: GeminiSafetyThreshold;
 
   constructor(options: GeminiClientOptions = {}) {
     const proxyEnabledEnv = process.env['GEMINI_PROXY_ENABLED'];
@@ -41,11 +261,15 @@ export class GeminiClient {
     // Use Google API key
     this.apiKey = process.env['GOOGLE_API_KEY'] || '';
     this.baseUrl = 'https://generativelanguage.googleapis.com/v1beta/models';
-    
+
     if (!this.apiKey) {
       throw new Error('GOOGLE_API_KEY environment variable is required');
     }
-    
+
+    this.resilience = { ...config.ai.gemini, ...options.resilience };
+    this.breaker = new CircuitBreaker(this.resilience.circuitFailureThreshold, this.resilience.circuitCooldownMs);
+    this.safetyThreshold = options.safetyThreshold ?? config.moderation.safetyThreshold;
+
     // Configure proxy support (disabled by default)
     if (enableProxy) {
       const proxyUrl =
@@ -77,171 +301,108 @@ export class GeminiClient {
     }
   }
 
+  /**
+   * Current circuit breaker state, for health reporting
+   */
+  get circuitState(): 'closed' | 'open' | 'half-open' {
+    return this.breaker.state;
+  }
+
   /**
    * Unified API call method for both text and image generation
    */
   async generateContent(request: GeminiRequest): Promise<GeminiResponse> {
-    const { model, prompt, systemPrompt } = request;
-    
+    const { model, prompt, systemPrompt, generationConfig } = request;
+
     try {
       console.log(`[GeminiClient] Calling ${model} with prompt length: ${prompt.length}`);
-      
-      // Build the API URL
-      const url = `${this.baseUrl}/${model}:generateContent`;
-      
+
       // Build the request body
       let fullPrompt = prompt;
-      
+
       // For image generation, prefix with "Generate an image of:"
       if (model === 'gemini-2.5-flash-image-preview') {
         fullPrompt = `Generate an image of: ${prompt}`;
       }
-      
+
       // For text generation with system prompt, combine them
       if (model === 'gemini-2.5-flash' && systemPrompt) {
         fullPrompt = `${systemPrompt}\n\n${prompt}`;
       }
-      
+
       const requestBody = {
         contents: [{
           parts: [{ text: fullPrompt }]
-        }]
+        }],
+        safetySettings: this.safetySettings(),
+        ...(generationConfig && { generationConfig })
       };
-      
-      const fetchOptions: any = {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-goog-api-key': this.apiKey,
-          'User-Agent': 'character-creator/1.0.0'
-        },
-        body: JSON.stringify(requestBody)
-      };
-      
-      // Add proxy agent if configured
-      if (this.proxyAgent) {
-        fetchOptions.agent = this.proxyAgent;
-        console.log(`[GeminiClient] Using proxy agent for ${model} request`);
-      }
-      
-      const response = await fetch(url, fetchOptions);
-      
-      console.log(`[GeminiClient] ${model} response status:`, response.status);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`[GeminiClient] ${model} API error:`, errorText);
-        return {
-          success: false,
-          error: `${model} API error: ${response.status} ${response.statusText} - ${errorText}`
-        };
-      }
-      
-      const responseData = await response.json();
-      console.log(`[GeminiClient] ${model} API call successful!`);
-      
-      // Process response based on model type
-      const candidates = responseData.candidates || [];
-      
-      if (candidates.length === 0) {
-        return {
-          success: false,
-          error: 'No candidates found in API response'
-        };
-      }
-      
-      const candidate = candidates[0];
-      const content = candidate.content;
-      const parts = content?.parts || [];
-      
+
+      const responseData = await this.request(model, requestBody, model);
+      const parts = this.candidateParts(responseData, model === 'gemini-2.5-flash-image-preview' ? 'image' : 'text');
+
       // For image generation - look for inlineData
       if (model === 'gemini-2.5-flash-image-preview') {
-        console.log(`[GeminiClient] Processing ${parts.length} parts for image data`);
-        
-        for (let i = 0; i < parts.length; i++) {
-          const part = parts[i];
-          console.log(`[GeminiClient] Part ${i} keys:`, Object.keys(part));
-          
-          if (part.inlineData) {
-            const imageData = part.inlineData;
-            const mimeType = imageData.mime_type || imageData.mimeType || 'image/png';
-            const base64Data = imageData.data;
-            const imageUrl = `data:${mimeType};base64,${base64Data}`;
-            
-            console.log(`[GeminiClient] Generated image: ${mimeType}, data length: ${base64Data.length}`);
-            
-            return {
-              success: true,
-              data: {
-                id: `gen_${Date.now()}`,
-                status: 'completed',
-                result: {
-                  imageUrl: imageUrl,
-                  thumbnailUrl: imageUrl
-                }
-              }
-            };
-          }
-          
-          if (part.text) {
-            console.log(`[GeminiClient] Part ${i} contains text:`, part.text.substring(0, 100));
-          }
+        const image = this.findImage(parts);
+        if (!image) {
+          throw new GeminiError('NO_CONTENT', 'No image data found in response');
         }
-        
-        console.log(`[GeminiClient] No inlineData found in any of the ${parts.length} parts`);
-        console.log(`[GeminiClient] Full response structure:`, JSON.stringify(responseData, null, 2));
-        
-        return {
-          success: false,
-          error: 'No image data found in response'
-        };
-      }
-      
-      // For text generation - get text from first part
-      if (model === 'gemini-2.5-flash') {
-        const text = parts[0]?.text || 'No response generated';
-        
+
+        console.log(`[GeminiClient] Generated image: ${image.mimeType}, data length: ${image.base64Length}`);
+
         return {
           success: true,
           data: {
-            text: text,
-            candidates: candidates
+            id: `gen_${Date.now()}`,
+            status: 'completed',
+            result: {
+              imageUrl: image.imageUrl,
+              thumbnailUrl: image.imageUrl
+            }
           }
         };
       }
-      
-      return {
-        success: false,
-        error: 'Unknown model type'
-      };
-      
-    } catch (error: any) {
-      console.error(`[GeminiClient] ${model} API call failed:`, error.message);
+
+      // For text generation - join the text parts
+      const text = parts.map((part: any) => part.text).filter(Boolean).join('');
+      if (!text) {
+        throw new GeminiError('NO_CONTENT', 'No text found in response');
+      }
+
       return {
-        success: false,
-        error: `${model} API call failed: ${error.message || 'Unknown error'}`
+        success: true,
+        data: {
+          text: text,
+          candidates: responseData.candidates
+        }
       };
+    } catch (error) {
+      return this.toFailure(error, model);
     }
   }
 
   /**
    * Generate text using gemini-2.5-flash
+   * Pass a generationConfig with responseMimeType application/json (and a responseSchema) for structured output
    */
-  async generateText(prompt: string, systemPrompt?: string): Promise<GeminiResponse> {
+  async generateText(prompt: string, systemPrompt?: string, generationConfig?: GeminiGenerationConfig): Promise<GeminiResponse> {
     return this.generateContent({
       model: 'gemini-2.5-flash',
       prompt,
-      systemPrompt
+      systemPrompt,
+      generationConfig
     });
   }
 
   /**
    * Generate image using gemini-2.5-flash-image-preview
+   * Pass a generationConfig with an imageConfig to request an aspect ratio or image size
    */
-  async generateImage(prompt: string): Promise<GeminiResponse> {
+  async generateImage(prompt: string, generationConfig?: GeminiGenerationConfig): Promise<GeminiResponse> {
     return this.generateContent({
       model: 'gemini-2.5-flash-image-preview',
-      prompt
+      prompt,
+      generationConfig
     });
   }
 
@@ -253,122 +414,266 @@ export class GeminiClient {
     prompt: string,
     imageBase64: string,
     mimeType: string = 'image/jpeg',
-    model: 'gemini-2.5-flash-image-preview' = 'gemini-2.5-flash-image-preview'
+    model: 'gemini-2.5-flash-image-preview' = 'gemini-2.5-flash-image-preview',
+    generationConfig?: GeminiGenerationConfig
   ): Promise<GeminiResponse> {
-    try {
-      console.log(`[GeminiClient] Calling ${model} with image input, prompt length: ${prompt.length}`);
+    return this.generateWithImages(prompt, [{ data: imageBase64, mimeType }], model, generationConfig);
+  }
 
-      const url = `${this.baseUrl}/${model}:generateContent`;
+  /**
+   * Generate image from several input images (multi-image composition) using gemini-2.5-flash-image-preview
+   * Used for scenes that combine multiple characters; images are sent in order after the prompt
+   */
+  async generateWithImages(
+    prompt: string,
+    images: Array<{ data: string; mimeType: string }>,
+    model: 'gemini-2.5-flash-image-preview' = 'gemini-2.5-flash-image-preview',
+    generationConfig?: GeminiGenerationConfig
+  ): Promise<GeminiResponse> {
+    const label = images.length === 1 ? `${model} image-to-image` : `${model} multi-image`;
+
+    try {
+      console.log(`[GeminiClient] Calling ${label} with ${images.length} input image(s), prompt length: ${prompt.length}`);
 
-      // Build request with both text and image
       const requestBody = {
         contents: [{
           parts: [
             { text: prompt },
-            {
+            ...images.map(image => ({
               inline_data: {
-                mime_type: mimeType,
-                data: imageBase64
+                mime_type: image.mimeType,
+                data: image.data
               }
-            }
+            }))
           ]
-        }]
+        }],
+        safetySettings: this.safetySettings(),
+        ...(generationConfig && { generationConfig })
       };
 
-      const fetchOptions: any = {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-goog-api-key': this.apiKey,
-          'User-Agent': 'character-creator/1.0.0'
-        },
-        body: JSON.stringify(requestBody)
-      };
+      const responseData = await this.request(model, requestBody, label);
+      const image = this.findImage(this.candidateParts(responseData, 'image'));
 
-      if (this.proxyAgent) {
-        fetchOptions.agent = this.proxyAgent;
-        console.log(`[GeminiClient] Using proxy agent for image-to-image request`);
+      if (!image) {
+        throw new GeminiError('NO_CONTENT', 'No image data found in response - model may not support image-to-image');
       }
 
-      const response = await fetch(url, fetchOptions);
+      console.log(`[GeminiClient] Generated image: ${image.mimeType}, data length: ${image.base64Length}`);
 
-      console.log(`[GeminiClient] ${model} image-to-image response status:`, response.status);
+      return {
+        success: true,
+        data: {
+          imageUrl: image.imageUrl,
+          thumbnailUrl: image.imageUrl,
+          mimeType: image.mimeType
+        }
+      };
+    } catch (error) {
+      return this.toFailure(error, label);
+    }
+  }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`[GeminiClient] ${model} API error:`, errorText);
-        return {
-          success: false,
-          error: `${model} API error: ${response.status} ${response.statusText} - ${errorText}`
-        };
-      }
+  /**
+   * Health check for the service; unhealthy while the circuit is open
+   */
+  async healthCheck(): Promise<boolean> {
+    return !!this.apiKey && this.breaker.state !== 'open';
+  }
+
+  /**
+   * The moderation policy's threshold for every harm category
+   */
+  private safetySettings(): Array<{ category: string; threshold: GeminiSafetyThreshold }> {
+    return Object.keys(HARM_CATEGORIES).map(category => ({ category, threshold: this.safetyThreshold }));
+  }
 
-      const responseData = await response.json();
-      console.log(`[GeminiClient] ${model} image-to-image API call successful!`);
+  /**
+   * POST a generateContent request with timeout, retries and the circuit breaker; resolves to the response JSON
+   */
+  private async request(model: GeminiModel, requestBody: unknown, label: string): Promise<any> {
+    const timeoutMs = model === 'gemini-2.5-flash' ? this.resilience.textTimeoutMs : this.resilience.imageTimeoutMs;
+
+    for (let attempt = 0; ; attempt++) {
+      this.breaker.acquire();
+
+      try {
+        const responseData = await this.requestOnce(model, requestBody, label, timeoutMs);
+        this.breaker.recordSuccess();
+        return responseData;
+      } catch (error) {
+        const failure = error instanceof GeminiError
+          ? error
+          : new GeminiError('TRANSPORT_ERROR', `${label} API call failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+
+        if (OUTAGE_CODES.includes(failure.code)) {
+          this.breaker.recordFailure();
+        } else if (failure.code === 'QUOTA_EXCEEDED') {
+          this.breaker.recordNeutral();
+        } else {
+          this.breaker.recordSuccess();
+        }
 
-      const candidates = responseData.candidates || [];
+        if (!failure.retryable || attempt >= this.resilience.maxRetries) {
+          throw failure;
+        }
 
-      if (candidates.length === 0) {
-        return {
-          success: false,
-          error: 'No candidates found in API response'
-        };
+        // Exponential backoff with jitter unless the API said how long to wait
+        const backoff = Math.min(this.resilience.retryBaseDelayMs * 2 ** attempt, this.resilience.retryMaxDelayMs);
+        const delay = failure.retryAfterMs ?? Math.round(backoff * (0.5 + Math.random() * 0.5));
+
+        // Waiting that long would hold the caller; let it reschedule instead
+        if (delay > this.resilience.retryMaxDelayMs) {
+          throw failure;
+        }
+
+        console.warn(`[GeminiClient] ${label} attempt ${attempt + 1} failed (${failure.code}), retrying in ${delay}ms`);
+        await sleep(delay);
       }
+    }
+  }
 
-      const candidate = candidates[0];
-      const content = candidate.content;
-      const parts = content?.parts || [];
+  private async requestOnce(model: GeminiModel, requestBody: unknown, label: string, timeoutMs: number): Promise<any> {
+    const url = `${this.baseUrl}/${model}:generateContent`;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    const fetchOptions: any = {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': this.apiKey,
+        'User-Agent': 'character-creator/1.0.0'
+      },
+      body: JSON.stringify(requestBody),
+      signal: controller.signal
+    };
+
+    // Add proxy agent if configured
+    if (this.proxyAgent) {
+      fetchOptions.agent = this.proxyAgent;
+      console.log(`[GeminiClient] Using proxy agent for ${label} request`);
+    }
 
-      console.log(`[GeminiClient] Processing ${parts.length} parts for image data`);
+    try {
+      let response;
+      try {
+        response = await fetch(url, fetchOptions);
+      } catch (error: any) {
+        if (controller.signal.aborted) {
+          throw new GeminiError('TIMEOUT', `${label} did not respond within ${timeoutMs}ms`);
+        }
+        throw new GeminiError('TRANSPORT_ERROR', `${label} API call failed: ${error.message || 'Unknown error'}`);
+      }
 
-      // Look for generated image in response
-      for (let i = 0; i < parts.length; i++) {
-        const part = parts[i];
-        console.log(`[GeminiClient] Part ${i} keys:`, Object.keys(part));
+      console.log(`[GeminiClient] ${label} response status:`, response.status);
 
-        if (part.inlineData || part.inline_data) {
-          const imageData = part.inlineData || part.inline_data;
-          const imageMimeType = imageData.mime_type || imageData.mimeType || 'image/png';
-          const base64Data = imageData.data;
-          const imageUrl = `data:${imageMimeType};base64,${base64Data}`;
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        let errorBody: any;
+        try {
+          errorBody = JSON.parse(errorText);
+        } catch {
+          errorBody = undefined;
+        }
+        console.error(`[GeminiClient] ${label} API error:`, errorText);
 
-          console.log(`[GeminiClient] Generated edited image: ${imageMimeType}, data length: ${base64Data.length}`);
+        const message = `${label} API error: ${response.status} ${response.statusText} - ${errorBody?.error?.message || errorText}`;
+        const options = {
+          upstreamStatus: response.status,
+          retryAfterMs: parseRetryAfter(response.headers.get('retry-after'), errorBody),
+          details: errorBody?.error?.status ? { status: errorBody.error.status } : undefined
+        };
 
-          return {
-            success: true,
-            data: {
-              imageUrl: imageUrl,
-              thumbnailUrl: imageUrl,
-              mimeType: imageMimeType
-            }
-          };
+        if (response.status === 429) {
+          throw new GeminiError('QUOTA_EXCEEDED', message, options);
         }
+        if (response.status >= 500) {
+          throw new GeminiError('UPSTREAM_ERROR', message, options);
+        }
+        throw new GeminiError('INVALID_REQUEST', message, options);
+      }
 
-        if (part.text) {
-          console.log(`[GeminiClient] Part ${i} contains text:`, part.text.substring(0, 100));
+      let responseData: any;
+      try {
+        responseData = await response.json();
+      } catch (error: any) {
+        if (controller.signal.aborted) {
+          throw new GeminiError('TIMEOUT', `${label} did not respond within ${timeoutMs}ms`);
         }
+        throw new GeminiError('TRANSPORT_ERROR', `${label} returned an unreadable response: ${error.message || 'Unknown error'}`);
       }
 
-      console.log(`[GeminiClient] No image data found in response`);
-      return {
-        success: false,
-        error: 'No image data found in response - model may not support image-to-image'
-      };
+      const blockReason = responseData?.promptFeedback?.blockReason;
+      if (blockReason) {
+        const categories = blockedCategories(responseData.promptFeedback.safetyRatings, blockReason, this.safetyThreshold);
+        console.warn(`[GeminiClient] ${label} prompt blocked (${blockReason}): ${categories.join(', ')}`);
+        throw new GeminiError('CONTENT_BLOCKED', `The request was blocked by the content safety filter (${categories.join(', ')})`, {
+          details: { categories, blockReason }
+        });
+      }
 
-    } catch (error: any) {
-      console.error(`[GeminiClient] Image-to-image API call failed:`, error.message);
-      return {
-        success: false,
-        error: `Image-to-image API call failed: ${error.message || 'Unknown error'}`
-      };
+      console.log(`[GeminiClient] ${label} API call successful!`);
+      return responseData;
+    } finally {
+      clearTimeout(timer);
     }
   }
 
   /**
-   * Health check for the service
+   * Parts of the first candidate; a candidate that a safety filter stopped before producing
+   * the expected output is a CONTENT_BLOCKED error
    */
-  async healthCheck(): Promise<boolean> {
-    return !!this.apiKey;
+  private candidateParts(responseData: any, expected: 'text' | 'image'): any[] {
+    const candidate = responseData?.candidates?.[0];
+
+    if (!candidate) {
+      throw new GeminiError('NO_CONTENT', 'No candidates found in API response');
+    }
+
+    const parts: any[] = candidate.content?.parts || [];
+    const finishReason: string | undefined = candidate.finishReason;
+
+    const hasExpected = parts.some(part => expected === 'text' ? part.text : (part.inlineData || part.inline_data)?.data);
+    if (finishReason && SAFETY_REASONS.includes(finishReason) && !hasExpected) {
+      const categories = blockedCategories(candidate.safetyRatings, finishReason, this.safetyThreshold);
+      console.warn(`[GeminiClient] Output blocked (${finishReason}): ${categories.join(', ')}`);
+      throw new GeminiError('CONTENT_BLOCKED', `The output was blocked by the content safety filter (${categories.join(', ')})`, {
+        details: { categories, finishReason }
+      });
+    }
+
+    return parts;
+  }
+
+  private findImage(parts: any[]): { imageUrl: string; mimeType: string; base64Length: number } | null {
+    for (const part of parts) {
+      const imageData = part.inlineData || part.inline_data;
+      if (imageData?.data) {
+        const mimeType = imageData.mime_type || imageData.mimeType || 'image/png';
+        return {
+          imageUrl: `data:${mimeType};base64,${imageData.data}`,
+          mimeType,
+          base64Length: imageData.data.length
+        };
+      }
+      if (part.text) {
+        console.log(`[GeminiClient] Response part contains text:`, part.text.substring(0, 100));
+      }
+    }
+    return null;
+  }
+
+  private toFailure(error: unknown, label: string): GeminiResponse {
+    const failure = error instanceof GeminiError
+      ? error
+      : new GeminiError('TRANSPORT_ERROR', `${label} API call failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+
+    console.error(`[GeminiClient] ${label} failed (${failure.code}):`, failure.message);
+    return {
+      success: false,
+      error: failure.message,
+      failure
+    };
   }
 }
 
@@ -383,6 +688,7 @@ export const getDefaultGeminiClient = (options: GeminiClientOptions = {}): Gemin
   const normalize = (config: GeminiClientOptions = {}) => ({
     enableProxy: config.enableProxy ?? undefined,
     proxyUrl: config.proxyUrl ?? undefined,
+    resilience: config.resilience ?? undefined,
   });
 
   const normalizedOptions = normalize(options);
@@ -44,9 +44,12 @@ export const createApp = (): express.Application => {
   // Static file serving
   app.use(express.static('public'));
   
-  // Serve uploaded images (use absolute path to ensure it works regardless of working directory)
-  const uploadsPath = path.resolve(process.cwd(), 'uploads');
-  app.use('/uploads', express.static(uploadsPath));
+  // Serve uploaded images from local storage (use absolute path to ensure it works regardless of working directory).
+  // Private objects live in a dot-directory, which express.static does not serve.
+  if (config.storage.provider === 'local') {
+    const uploadsPath = path.resolve(process.cwd(), config.storage.uploadPath);
+    app.use('/uploads', express.static(uploadsPath, { dotfiles: 'deny' }));
+  }
 
   // Body parsing middleware
   app.use(express.json({ 
@@ -219,7 +222,7 @@ export const createApp = (): express.Application => {
         error: {
           code: 'VALIDATION_ERROR',
           message: 'Request validation failed',
-          details: error.message,
+          details: (error as Error & { errors?: string[] }).errors ?? error.message,
           statusCode: 400
         },
         meta: {
@@ -7,6 +7,7 @@ import dotenv from 'dotenv';
 import * as fs from 'fs';
 import * as pathModule from 'path';
 import { ServerConfig } from '../types/api';
+import { DEFAULT_GENERATION_CONFIG, QueueConfiguration } from '../types/generation';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -57,6 +58,9 @@ export interface EnvConfig {
   JWT_SECRET: string;
   JWT_EXPIRES_IN: string;
   BCRYPT_SALT_ROUNDS: number;
+  AUTH_TOKEN_MODE: 'auth0' | 'local';
+  AUTH_JWKS_CACHE_TTL_MS: number;
+  AUTH_JWKS_MIN_REFRESH_INTERVAL_MS: number;
   
   // CORS Configuration
   ALLOWED_ORIGINS: string[];
@@ -93,10 +97,28 @@ export interface EnvConfig {
   ENABLE_HEALTH_CHECKS: boolean;
   HEALTH_CHECK_INTERVAL_MS: number;
   
+  // Generation Queue Configuration
+  QUEUE_MAX_CONCURRENT_JOBS: number;
+  QUEUE_MAX_SIZE: number;
+  QUEUE_JOB_TIMEOUT_MS: number;
+  QUEUE_RETRY_ATTEMPTS: number;
+  QUEUE_RETRY_DELAY_MS: number;
+  QUEUE_POLL_INTERVAL_MS: number;
+  QUEUE_BATCH_CONCURRENCY: number;
+  
+  // Credits Configuration
+  CREDIT_RESERVATION_TTL_MS: number;
+  CREDIT_RESERVATION_SWEEP_INTERVAL_MS: number;
+  
   // Webhook Configuration
   WEBHOOK_URL?: string;
   WEBHOOK_SECRET?: string;
   WEBHOOK_RETRY_ATTEMPTS: number;
+  WEBHOOK_RETRY_DELAY_MS: number;
+  WEBHOOK_TIMEOUT_MS: number;
+  WEBHOOK_POLL_INTERVAL_MS: number;
+  WEBHOOK_MAX_ENDPOINTS_PER_USER: number;
+  WEBHOOK_CREDITS_LOW_THRESHOLD: number;
   
   // Feature Flags
   ENABLE_BATCH_PROCESSING: boolean;
@@ -178,6 +200,9 @@ export const loadEnvConfig = (): EnvConfig => {
       JWT_SECRET: parseEnvVar.string('JWT_SECRET', 'default-jwt-secret-change-in-production'),
       JWT_EXPIRES_IN: parseEnvVar.string('JWT_EXPIRES_IN', '24h'),
       BCRYPT_SALT_ROUNDS: parseEnvVar.number('BCRYPT_SALT_ROUNDS', 12),
+      AUTH_TOKEN_MODE: parseEnvVar.enum('AUTH_TOKEN_MODE', ['auth0', 'local'], 'auth0'),
+      AUTH_JWKS_CACHE_TTL_MS: parseEnvVar.number('AUTH_JWKS_CACHE_TTL_MS', 10 * 60 * 1000),
+      AUTH_JWKS_MIN_REFRESH_INTERVAL_MS: parseEnvVar.number('AUTH_JWKS_MIN_REFRESH_INTERVAL_MS', 30 * 1000),
       
       // CORS Configuration
       ALLOWED_ORIGINS: parseEnvVar.array('ALLOWED_ORIGINS', ',', ['*']),
@@ -215,10 +240,28 @@ export const loadEnvConfig = (): EnvConfig => {
       ENABLE_HEALTH_CHECKS: parseEnvVar.boolean('ENABLE_HEALTH_CHECKS', true),
       HEALTH_CHECK_INTERVAL_MS: parseEnvVar.number('HEALTH_CHECK_INTERVAL_MS', 30000), // 30 seconds
       
+      // Generation Queue Configuration
+      QUEUE_MAX_CONCURRENT_JOBS: parseEnvVar.number('QUEUE_MAX_CONCURRENT_JOBS', DEFAULT_GENERATION_CONFIG.queue.maxConcurrentJobs),
+      QUEUE_MAX_SIZE: parseEnvVar.number('QUEUE_MAX_SIZE', DEFAULT_GENERATION_CONFIG.queue.maxQueueSize),
+      QUEUE_JOB_TIMEOUT_MS: parseEnvVar.number('QUEUE_JOB_TIMEOUT_MS', DEFAULT_GENERATION_CONFIG.queue.jobTimeoutMs),
+      QUEUE_RETRY_ATTEMPTS: parseEnvVar.number('QUEUE_RETRY_ATTEMPTS', DEFAULT_GENERATION_CONFIG.queue.retryAttempts),
+      QUEUE_RETRY_DELAY_MS: parseEnvVar.number('QUEUE_RETRY_DELAY_MS', DEFAULT_GENERATION_CONFIG.queue.retryDelayMs),
+      QUEUE_POLL_INTERVAL_MS: parseEnvVar.number('QUEUE_POLL_INTERVAL_MS', 1000),
+      QUEUE_BATCH_CONCURRENCY: parseEnvVar.number('QUEUE_BATCH_CONCURRENCY', 2),
+      
+      // Credits Configuration
+      CREDIT_RESERVATION_TTL_MS: parseEnvVar.number('CREDIT_RESERVATION_TTL_MS', 10 * 60 * 1000),
+      CREDIT_RESERVATION_SWEEP_INTERVAL_MS: parseEnvVar.number('CREDIT_RESERVATION_SWEEP_INTERVAL_MS', 60 * 1000),
+      
       // Webhook Configuration
       WEBHOOK_URL: parseEnvVar.string('WEBHOOK_URL'),
       WEBHOOK_SECRET: parseEnvVar.string('WEBHOOK_SECRET'),
       WEBHOOK_RETRY_ATTEMPTS: parseEnvVar.number('WEBHOOK_RETRY_ATTEMPTS', 3),
+      WEBHOOK_RETRY_DELAY_MS: parseEnvVar.number('WEBHOOK_RETRY_DELAY_MS', 30 * 1000),
+      WEBHOOK_TIMEOUT_MS: parseEnvVar.number('WEBHOOK_TIMEOUT_MS', 10 * 1000),
+      WEBHOOK_POLL_INTERVAL_MS: parseEnvVar.number('WEBHOOK_POLL_INTERVAL_MS', 5 * 1000),
+      WEBHOOK_MAX_ENDPOINTS_PER_USER: parseEnvVar.number('WEBHOOK_MAX_ENDPOINTS_PER_USER', 10),
+      WEBHOOK_CREDITS_LOW_THRESHOLD: parseEnvVar.number('WEBHOOK_CREDITS_LOW_THRESHOLD', 10),
       
       // Feature Flags
       ENABLE_BATCH_PROCESSING: parseEnvVar.boolean('ENABLE_BATCH_PROCESSING', true),
@@ -253,6 +296,10 @@ export const validateEnvConfig = (config: EnvConfig): {
     if (config.JWT_SECRET === 'default-jwt-secret-change-in-production') {
       errors.push('JWT_SECRET must be changed in production');
     }
+
+    if (config.AUTH_TOKEN_MODE === 'local') {
+      errors.push('AUTH_TOKEN_MODE=local is not allowed in production');
+    }
     
     if (config.ALLOWED_ORIGINS.includes('*')) {
       warnings.push('CORS is set to allow all origins in production');
@@ -372,6 +419,23 @@ export const getDatabaseConfig = (envConfig: EnvConfig) => {
   };
 };
 
+/**
+ * Get generation queue configuration
+ */
+export const getQueueConfig = (envConfig: EnvConfig): QueueConfiguration & { pollIntervalMs: number; batchConcurrency: number } => {
+  return {
+    maxConcurrentJobs: Math.max(1, envConfig.QUEUE_MAX_CONCURRENT_JOBS),
+    maxQueueSize: envConfig.QUEUE_MAX_SIZE,
+    priorityLevels: DEFAULT_GENERATION_CONFIG.queue.priorityLevels,
+    retryAttempts: envConfig.QUEUE_RETRY_ATTEMPTS,
+    retryDelayMs: envConfig.QUEUE_RETRY_DELAY_MS,
+    jobTimeoutMs: envConfig.QUEUE_JOB_TIMEOUT_MS,
+    pollIntervalMs: envConfig.QUEUE_POLL_INTERVAL_MS,
+    // Items of one batch job generated at the same time
+    batchConcurrency: Math.max(1, envConfig.QUEUE_BATCH_CONCURRENCY)
+  };
+};
+
 // Global environment configuration instance
 export const ENV_CONFIG = loadEnvConfig();
 
@@ -388,6 +452,7 @@ if (!validation.isValid) {
 // Export server configuration
 export const SERVER_CONFIG = createServerConfig(ENV_CONFIG);
 export const DATABASE_CONFIG = getDatabaseConfig(ENV_CONFIG);
+export const QUEUE_CONFIG = getQueueConfig(ENV_CONFIG);
 
 // Helper functions for runtime configuration access
 export const isProduction = () => ENV_CONFIG.NODE_ENV === 'production';
@@ -0,0 +1,35 @@
+/**
+ * Admin Middleware
+ * Restricts a route to the verified accounts listed in ADMIN_EMAILS; use after requireAuth
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { API_CONSTANTS } from '../types/api';
+import { config } from '../../../../config/core';
+
+/**
+ * Whether the user's email is configured as an admin. The email must be verified, since anyone
+ * can register an account with an address they do not own.
+ */
+export function isAdmin(user: Request['user']): boolean {
+  return !!user && user.emailVerified && config.admin.emails.includes(user.email.toLowerCase());
+}
+
+/**
+ * Require an admin account - rejects everyone else with 403
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  if (!isAdmin(req.user)) {
+    res.status(API_CONSTANTS.HTTP_STATUS.FORBIDDEN).json({
+      success: false,
+      error: {
+        code: API_CONSTANTS.ERROR_CODES.FORBIDDEN,
+        message: 'Admin access required',
+        statusCode: API_CONSTANTS.HTTP_STATUS.FORBIDDEN
+      }
+    });
+    return;
+  }
+
+  next();
+}
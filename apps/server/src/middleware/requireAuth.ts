@@ -4,9 +4,9 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
 import { API_CONSTANTS } from '../types/api';
+import { verifyAccessToken, TokenVerificationError, VerifiedToken } from '../modules/auth/token.service';
 
 const prisma = new PrismaClient();
 
@@ -18,6 +18,7 @@ declare global {
         id: string;
         auth0Id: string | null;
         email: string;
+        emailVerified: boolean;
         name: string | null;
       };
     }
@@ -48,14 +49,19 @@ export async function requireAuth(
     }
 
     const token = authHeader.substring(7);
-    const payload = jwt.decode(token) as any;
+    let payload: VerifiedToken;
 
-    if (!payload?.sub) {
+    try {
+      payload = await verifyAccessToken(token);
+    } catch (error) {
+      if (!(error instanceof TokenVerificationError)) {
+        throw error;
+      }
       res.status(API_CONSTANTS.HTTP_STATUS.UNAUTHORIZED).json({
         success: false,
         error: {
-          code: API_CONSTANTS.ERROR_CODES.UNAUTHORIZED,
-          message: 'Invalid token',
+          code: error.code,
+          message: error.code === 'TOKEN_EXPIRED' ? 'Token has expired' : 'Invalid token',
           statusCode: API_CONSTANTS.HTTP_STATUS.UNAUTHORIZED
         }
       });
@@ -69,6 +75,7 @@ export async function requireAuth(
         id: true,
         auth0Id: true,
         email: true,
+        emailVerified: true,
         name: true
       }
     });
@@ -114,15 +121,22 @@ export async function optionalAuth(
 
     if (authHeader && authHeader.startsWith('Bearer ')) {
       const token = authHeader.substring(7);
-      const payload = jwt.decode(token) as any;
+      // Invalid or expired tokens are treated as anonymous rather than rejected
+      const payload = await verifyAccessToken(token).catch((error) => {
+        if (error instanceof TokenVerificationError) {
+          return null;
+        }
+        throw error;
+      });
 
-      if (payload?.sub) {
+      if (payload) {
         const dbUser = await prisma.user.findUnique({
           where: { auth0Id: payload.sub },
           select: {
             id: true,
             auth0Id: true,
             email: true,
+            emailVerified: true,
             name: true
           }
         });
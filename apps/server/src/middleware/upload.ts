@@ -0,0 +1,37 @@
+/**
+ * Multipart upload middleware
+ * Buffers a single uploaded file in memory; type and size are checked afterwards by validateFileUpload
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { ValidationError } from './validation';
+
+/**
+ * Accept one file from the multipart field `fieldName` into `req.file`.
+ * Multer limit errors (file too large, unexpected field, ...) become a 400 ValidationError.
+ */
+export function singleFileUpload(fieldName: string, options: { maxSize: number }) {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: options.maxSize,
+      files: 1
+    }
+  }).single(fieldName);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        const message = error.code === 'LIMIT_FILE_SIZE'
+          ? `File exceeds maximum allowed size of ${options.maxSize} bytes`
+          : error.code === 'LIMIT_UNEXPECTED_FILE'
+            ? `Unexpected file field "${error.field}", expected "${fieldName}"`
+            : error.message;
+        return next(new ValidationError([message]));
+      }
+
+      next(error);
+    });
+  };
+}
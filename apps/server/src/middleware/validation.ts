@@ -208,6 +208,14 @@ export const QueryValidators = {
   validatePagination: (query: any) => {
     const errors: string[] = [];
     
+    // Validate page parameter
+    if (query.page !== undefined) {
+      const page = Number(query.page);
+      if (!Number.isInteger(page) || page < 1) {
+        errors.push('Page parameter must be a positive integer');
+      }
+    }
+    
     // Validate skip parameter
     if (query.skip !== undefined) {
       const skip = parseInt(query.skip, 10);
@@ -236,13 +244,18 @@ export const QueryValidators = {
   validateSearch: (query: any) => {
     const errors: string[] = [];
     
-    if (query.search !== undefined) {
-      if (typeof query.search !== 'string') {
-        errors.push('Search parameter must be a string');
-      } else if (query.search.trim().length < 2) {
-        errors.push('Search parameter must be at least 2 characters long');
-      } else if (query.search.length > 100) {
-        errors.push('Search parameter must be 100 characters or less');
+    // `query` (SearchParams) and `search` are accepted interchangeably
+    for (const key of ['search', 'query']) {
+      const value = query[key];
+      if (value === undefined || value === '') {
+        continue;
+      }
+      if (typeof value !== 'string') {
+        errors.push(`${key} parameter must be a string`);
+      } else if (value.trim().length < 2) {
+        errors.push(`${key} parameter must be at least 2 characters long`);
+      } else if (value.length > 100) {
+        errors.push(`${key} parameter must be 100 characters or less`);
       }
     }
     
@@ -291,6 +304,11 @@ export const QueryValidators = {
       }
     }
     
+    // Validate tag match mode: all = AND, any = OR
+    if (query.tagMode !== undefined && !['all', 'any'].includes(query.tagMode)) {
+      errors.push('tagMode parameter must be "all" or "any"');
+    }
+    
     // Validate isPublic filter
     if (query.isPublic !== undefined) {
       const isPublic = query.isPublic.toLowerCase();
@@ -299,6 +317,77 @@ export const QueryValidators = {
       }
     }
     
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  },
+  
+  /**
+   * Validates dateFrom/dateTo range parameters (ISO 8601 dates)
+   */
+  validateDateRange: (query: any) => {
+    const errors: string[] = [];
+    const dates: Record<string, number> = {};
+    
+    for (const key of ['dateFrom', 'dateTo']) {
+      const value = query[key];
+      if (value === undefined || value === '') {
+        continue;
+      }
+      const time = typeof value === 'string' ? Date.parse(value) : NaN;
+      if (isNaN(time)) {
+        errors.push(`${key} parameter must be a valid ISO 8601 date`);
+      } else {
+        dates[key] = time;
+      }
+    }
+    
+    if (dates.dateFrom !== undefined && dates.dateTo !== undefined && dates.dateFrom > dates.dateTo) {
+      errors.push('dateFrom must be before dateTo');
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  },
+  
+  /**
+   * Validates sort parameters for characters
+   */
+  validateCharacterSort: (query: any) => {
+    const errors: string[] = [];
+    
+    if (query.sortBy !== undefined) {
+      const validFields = ['createdAt', 'updatedAt', 'name'];
+      if (!validFields.includes(query.sortBy)) {
+        errors.push(`sortBy must be one of: ${validFields.join(', ')}`);
+      }
+    }
+    
+    if (query.sortOrder !== undefined && !['asc', 'desc'].includes(query.sortOrder)) {
+      errors.push('sortOrder must be "asc" or "desc"');
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  },
+  
+  /**
+   * Validates all GET /characters list parameters: pagination, search, filters, date range and sort
+   */
+  validateCharacterListQuery: (query: any) => {
+    const errors = [
+      QueryValidators.validatePagination,
+      QueryValidators.validateSearch,
+      QueryValidators.validateCharacterFilters,
+      QueryValidators.validateDateRange,
+      QueryValidators.validateCharacterSort
+    ].flatMap(validator => validator(query).errors);
+    
     return {
       isValid: errors.length === 0,
       errors
@@ -14,6 +14,7 @@ import {
   getManagementClient,
   getAuthenticationClient
 } from '../../config/auth0';
+import { verifyAccessToken } from './token.service';
 import { PrismaClient } from '@prisma/client';
 
 const prisma = new PrismaClient();
@@ -388,12 +389,7 @@ export class AuthService extends EventEmitter {
    */
   async verifyToken(token: string): Promise<User | null> {
     try {
-      // Decode token without verification (token comes from Auth0, already trusted)
-      const payload = jwt.decode(token) as any;
-
-      if (!payload.sub) {
-        throw new Error('Invalid token payload');
-      }
+      const payload = await verifyAccessToken(token);
 
       // Get user information
       return await this.getUserById(payload.sub);
@@ -533,6 +529,7 @@ export class AuthService extends EventEmitter {
           where: { auth0Id: auth0User.auth0Id },
           data: {
             email: auth0User.email,
+            emailVerified: auth0User.emailVerified,
             name: auth0User.name,
             avatar: auth0User.picture
           }
@@ -547,6 +544,7 @@ export class AuthService extends EventEmitter {
             where: { email: auth0User.email },
             data: {
               auth0Id: auth0User.auth0Id,
+              emailVerified: auth0User.emailVerified,
               name: auth0User.name,
               avatar: auth0User.picture
             }
@@ -557,6 +555,7 @@ export class AuthService extends EventEmitter {
             data: {
               email: auth0User.email,
               auth0Id: auth0User.auth0Id,
+              emailVerified: auth0User.emailVerified,
               name: auth0User.name,
               avatar: auth0User.picture,
               subscriptionTier: 'FREE',
@@ -584,6 +583,7 @@ export class AuthService extends EventEmitter {
             where: { email: auth0User.email },
             data: {
               auth0Id: auth0User.auth0Id,
+              emailVerified: auth0User.emailVerified,
               name: auth0User.name,
               avatar: auth0User.picture
             }
@@ -8,6 +8,9 @@ export * from './auth.service';
 export { default as authService } from './auth.service';
 export { getAuthService } from './auth.service';
 
+// Export token verification
+export * from './token.service';
+
 // Export middleware
 export * from './auth.middleware';
 
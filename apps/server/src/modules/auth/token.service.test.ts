@@ -0,0 +1,185 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { generateKeyPairSync, KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import {
+  JwksTokenVerifier,
+  LocalTokenVerifier,
+  signLocalToken,
+  TokenVerificationError
+} from './token.service';
+
+const ISSUER = 'https://tenant.example.com/';
+const AUDIENCE = 'https://api.example.com';
+
+interface SigningKey {
+  kid: string;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+}
+
+const createSigningKey = (kid: string): SigningKey => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return { kid, privateKey, publicKey };
+};
+
+const signToken = (key: SigningKey, claims: Record<string, unknown> = {}, options: jwt.SignOptions = {}): string =>
+  jwt.sign({ email: 'user@example.com', ...claims }, key.privateKey, {
+    algorithm: 'RS256',
+    keyid: key.kid,
+    subject: 'auth0|user-1',
+    issuer: ISSUER,
+    audience: AUDIENCE,
+    expiresIn: '1h',
+    ...options
+  });
+
+const rejection = async (promise: Promise<unknown>): Promise<TokenVerificationError> => {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error).toBeInstanceOf(TokenVerificationError);
+    return error as TokenVerificationError;
+  }
+  throw new Error('Expected the token to be rejected');
+};
+
+describe('JwksTokenVerifier', () => {
+  const first = createSigningKey('key-1');
+  const second = createSigningKey('key-2');
+  let published: SigningKey[] = [first];
+  let jwksRequests = 0;
+  let server: Server;
+  let jwksUri: string;
+
+  beforeAll(async () => {
+    server = createServer((_req, res) => {
+      jwksRequests++;
+      const keys = published.map(key => ({
+        ...key.publicKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        use: 'sig',
+        alg: 'RS256'
+      }));
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ keys }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    jwksUri = `http://127.0.0.1:${(server.address() as AddressInfo).port}/.well-known/jwks.json`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    published = [first];
+    jwksRequests = 0;
+  });
+
+  const createVerifier = (options: { minRefreshIntervalMs?: number; cacheTtlMs?: number } = {}) =>
+    new JwksTokenVerifier({
+      issuer: ISSUER,
+      audience: AUDIENCE,
+      jwksUri,
+      cacheTtlMs: 60_000,
+      minRefreshIntervalMs: 0,
+      ...options
+    });
+
+  it('accepts a token signed with a published key', async () => {
+    const verified = await createVerifier().verify(signToken(first));
+
+    expect(verified.sub).toBe('auth0|user-1');
+    expect(verified.email).toBe('user@example.com');
+  });
+
+  it('rejects an expired token with TOKEN_EXPIRED', async () => {
+    const token = signToken(first, {}, { expiresIn: -60 });
+
+    const error = await rejection(createVerifier().verify(token));
+
+    expect(error.code).toBe('TOKEN_EXPIRED');
+    expect(error.statusCode).toBe(401);
+  });
+
+  it.each([
+    ['a wrong audience', () => signToken(first, {}, { audience: 'https://other.example.com' })],
+    ['a wrong issuer', () => signToken(first, {}, { issuer: 'https://evil.example.com/' })],
+    ['a signature from another key', () => signToken(createSigningKey('key-1'))],
+    ['a non-RS256 algorithm', () => jwt.sign({}, 'secret', { algorithm: 'HS256', keyid: 'key-1', subject: 'x' })],
+    ['a missing key id', () => jwt.sign({}, first.privateKey, { algorithm: 'RS256', subject: 'x' })],
+    ['a malformed token', () => 'not-a-jwt']
+  ])('rejects a token with %s as INVALID_TOKEN', async (_case, makeToken) => {
+    const error = await rejection(createVerifier().verify(makeToken()));
+
+    expect(error.code).toBe('INVALID_TOKEN');
+  });
+
+  it('refetches the JWKS when a token names a rotated-in key', async () => {
+    const verifier = createVerifier();
+    await verifier.verify(signToken(first));
+    expect(jwksRequests).toBe(1);
+
+    published = [first, second];
+    const verified = await verifier.verify(signToken(second));
+
+    expect(verified.sub).toBe('auth0|user-1');
+    expect(jwksRequests).toBe(2);
+  });
+
+  it('serves known keys from the cache', async () => {
+    const verifier = createVerifier();
+
+    await verifier.verify(signToken(first));
+    await verifier.verify(signToken(first));
+
+    expect(jwksRequests).toBe(1);
+  });
+
+  it('stops accepting a key once it is rotated out', async () => {
+    const verifier = createVerifier({ cacheTtlMs: 0 });
+    await verifier.verify(signToken(first));
+
+    published = [second];
+    const error = await rejection(verifier.verify(signToken(first)));
+
+    expect(error.code).toBe('INVALID_TOKEN');
+    expect(jwksRequests).toBe(2);
+  });
+
+  it('throttles refetches triggered by unknown key ids', async () => {
+    const verifier = createVerifier({ minRefreshIntervalMs: 60_000 });
+    await verifier.verify(signToken(first));
+
+    published = [first, second];
+    const error = await rejection(verifier.verify(signToken(second)));
+
+    expect(error.code).toBe('INVALID_TOKEN');
+    expect(jwksRequests).toBe(1);
+  });
+});
+
+describe('LocalTokenVerifier', () => {
+  const secret = 'local-test-secret';
+  const verifier = new LocalTokenVerifier(secret);
+
+  it('accepts tokens minted by signLocalToken', async () => {
+    const verified = await verifier.verify(signLocalToken('auth0|local-user', { email: 'local@example.com' }, { secret }));
+
+    expect(verified.sub).toBe('auth0|local-user');
+    expect(verified.email).toBe('local@example.com');
+  });
+
+  it('rejects an expired token with TOKEN_EXPIRED', async () => {
+    const error = await rejection(verifier.verify(signLocalToken('auth0|local-user', {}, { secret, expiresIn: -60 })));
+
+    expect(error.code).toBe('TOKEN_EXPIRED');
+  });
+
+  it('rejects a token signed with another secret as INVALID_TOKEN', async () => {
+    const error = await rejection(verifier.verify(signLocalToken('auth0|local-user', {}, { secret: 'other-secret' })));
+
+    expect(error.code).toBe('INVALID_TOKEN');
+  });
+});
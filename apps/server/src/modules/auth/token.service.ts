@@ -0,0 +1,270 @@
+/**
+ * Token Service
+ * Verifies bearer tokens: Auth0-issued RS256 tokens against the tenant JWKS,
+ * or HS256 tokens signed with JWT_SECRET in local mode (tests, offline development)
+ */
+
+import { createPublicKey, KeyObject, JsonWebKey } from 'crypto';
+import fetch from 'node-fetch';
+import jwt from 'jsonwebtoken';
+import { ENV_CONFIG } from '../../config/env';
+
+export const LOCAL_TOKEN_ISSUER = 'urn:character-creator:local';
+export const LOCAL_TOKEN_AUDIENCE = 'urn:character-creator:api';
+
+export type TokenErrorCode = 'TOKEN_EXPIRED' | 'INVALID_TOKEN';
+
+/**
+ * Thrown when a token is expired, malformed or fails signature/claim checks
+ */
+export class TokenVerificationError extends Error {
+  public code: TokenErrorCode;
+  public statusCode = 401;
+
+  constructor(code: TokenErrorCode, message: string) {
+    super(message);
+    this.name = 'TokenVerificationError';
+    this.code = code;
+  }
+}
+
+export interface VerifiedToken {
+  sub: string;
+  email?: string;
+  name?: string;
+  exp?: number;
+  [claim: string]: unknown;
+}
+
+export interface TokenVerifier {
+  verify(token: string): Promise<VerifiedToken>;
+}
+
+export interface JwksVerifierOptions {
+  /** Defaults to AUTH0_CONFIG (issuer `https://<domain>/`, configured audience) */
+  issuer?: string;
+  audience?: string;
+  jwksUri?: string;
+  /** How long fetched keys are trusted before the JWKS is refetched */
+  cacheTtlMs?: number;
+  /** Lower bound between refetches triggered by an unknown `kid` */
+  minRefreshIntervalMs?: number;
+}
+
+/**
+ * Run jwt.verify and map its errors to TOKEN_EXPIRED / INVALID_TOKEN
+ */
+function verifyWithKey(
+  token: string,
+  key: KeyObject | string,
+  options: jwt.VerifyOptions & { algorithms: jwt.Algorithm[] }
+): VerifiedToken {
+  let payload: string | jwt.JwtPayload;
+
+  try {
+    payload = jwt.verify(token, key, options);
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new TokenVerificationError('TOKEN_EXPIRED', 'Token has expired');
+    }
+    const reason = error instanceof Error ? error.message : 'verification failed';
+    throw new TokenVerificationError('INVALID_TOKEN', `Invalid token: ${reason}`);
+  }
+
+  if (typeof payload === 'string' || !payload.sub) {
+    throw new TokenVerificationError('INVALID_TOKEN', 'Invalid token: missing subject');
+  }
+
+  return payload as VerifiedToken;
+}
+
+/**
+ * Verifies Auth0 RS256 tokens with keys from the tenant's JWKS endpoint.
+ * Keys are cached by `kid`; an unknown `kid` triggers a rate-limited refetch
+ * so signing key rotation is picked up without a restart.
+ */
+export class JwksTokenVerifier implements TokenVerifier {
+  private options: JwksVerifierOptions;
+  private keys = new Map<string, KeyObject>();
+  private fetchedAt = 0;
+  private lastFetchAttemptAt = 0;
+  private refreshing: Promise<void> | null = null;
+
+  constructor(options: JwksVerifierOptions = {}) {
+    this.options = {
+      cacheTtlMs: ENV_CONFIG.AUTH_JWKS_CACHE_TTL_MS,
+      minRefreshIntervalMs: ENV_CONFIG.AUTH_JWKS_MIN_REFRESH_INTERVAL_MS,
+      ...options
+    };
+  }
+
+  async verify(token: string): Promise<VerifiedToken> {
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new TokenVerificationError('INVALID_TOKEN', 'Invalid token: malformed JWT');
+    }
+
+    const { kid, alg } = decoded.header;
+    if (alg !== 'RS256') {
+      throw new TokenVerificationError('INVALID_TOKEN', `Invalid token: unsupported algorithm ${alg}`);
+    }
+    if (!kid) {
+      throw new TokenVerificationError('INVALID_TOKEN', 'Invalid token: missing key id');
+    }
+
+    const { issuer, audience } = await this.resolveEndpoints();
+    const key = await this.getSigningKey(kid);
+
+    return verifyWithKey(token, key, { algorithms: ['RS256'], issuer, audience });
+  }
+
+  /**
+   * Look up a signing key, refetching the JWKS when the cache is stale or the kid is unknown
+   */
+  private async getSigningKey(kid: string): Promise<KeyObject> {
+    const now = Date.now();
+    const cacheExpired = now - this.fetchedAt >= this.options.cacheTtlMs!;
+    const unknownKid = !this.keys.has(kid);
+    const throttled = now - this.lastFetchAttemptAt < this.options.minRefreshIntervalMs!;
+
+    if ((cacheExpired || unknownKid) && !throttled) {
+      try {
+        await this.refresh();
+      } catch (error) {
+        // Keep serving cached keys if the JWKS endpoint is briefly unavailable
+        if (!this.keys.has(kid)) {
+          throw error;
+        }
+        console.warn('[Auth] JWKS refresh failed, using cached keys:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    const key = this.keys.get(kid);
+    if (!key) {
+      throw new TokenVerificationError('INVALID_TOKEN', 'Invalid token: unknown signing key');
+    }
+    return key;
+  }
+
+  /**
+   * Fetch the JWKS; concurrent callers share one request
+   */
+  private refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.lastFetchAttemptAt = Date.now();
+      this.refreshing = this.fetchKeys().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    const { jwksUri } = await this.resolveEndpoints();
+    const response = await fetch(jwksUri);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch JWKS from ${jwksUri}: ${response.status} ${response.statusText}`);
+    }
+
+    const body = await response.json() as { keys?: Array<JsonWebKey & { kid?: string; use?: string }> };
+    const keys = new Map<string, KeyObject>();
+
+    for (const jwk of body.keys ?? []) {
+      if (!jwk.kid || jwk.kty !== 'RSA' || (jwk.use && jwk.use !== 'sig')) {
+        continue;
+      }
+      try {
+        keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+      } catch (error) {
+        console.warn(`[Auth] Skipping unusable JWKS key ${jwk.kid}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (keys.size === 0) {
+      throw new Error(`JWKS at ${jwksUri} contains no RSA signing keys`);
+    }
+
+    this.keys = keys;
+    this.fetchedAt = Date.now();
+  }
+
+  /**
+   * Fill in issuer, audience and JWKS URI from AUTH0_CONFIG. Loaded lazily because
+   * the Auth0 config throws when its variables are missing, which local mode must not require.
+   */
+  private async resolveEndpoints(): Promise<{ issuer: string; audience: string; jwksUri: string }> {
+    let { issuer, audience, jwksUri } = this.options;
+
+    if (!issuer || !audience || !jwksUri) {
+      const { AUTH0_CONFIG } = await import('../../config/auth0');
+      issuer = issuer ?? `${AUTH0_CONFIG.issuerBaseURL}/`;
+      audience = audience ?? AUTH0_CONFIG.audience;
+      jwksUri = jwksUri ?? `${AUTH0_CONFIG.issuerBaseURL}/.well-known/jwks.json`;
+      this.options = { ...this.options, issuer, audience, jwksUri };
+    }
+
+    return { issuer, audience, jwksUri };
+  }
+}
+
+/**
+ * Verifies HS256 tokens minted by signLocalToken
+ */
+export class LocalTokenVerifier implements TokenVerifier {
+  private secret: string;
+
+  constructor(secret: string = ENV_CONFIG.JWT_SECRET) {
+    this.secret = secret;
+  }
+
+  async verify(token: string): Promise<VerifiedToken> {
+    return verifyWithKey(token, this.secret, {
+      algorithms: ['HS256'],
+      issuer: LOCAL_TOKEN_ISSUER,
+      audience: LOCAL_TOKEN_AUDIENCE
+    });
+  }
+}
+
+/**
+ * Mint a token accepted in local mode (AUTH_TOKEN_MODE=local). `sub` is the user's auth0Id.
+ */
+export function signLocalToken(
+  sub: string,
+  claims: Record<string, unknown> = {},
+  options: { expiresIn?: jwt.SignOptions['expiresIn']; secret?: string } = {}
+): string {
+  return jwt.sign(claims, options.secret ?? ENV_CONFIG.JWT_SECRET, {
+    algorithm: 'HS256',
+    subject: sub,
+    issuer: LOCAL_TOKEN_ISSUER,
+    audience: LOCAL_TOKEN_AUDIENCE,
+    expiresIn: options.expiresIn ?? '1h'
+  });
+}
+
+let tokenVerifier: TokenVerifier | null = null;
+
+/**
+ * Get the verifier for the configured AUTH_TOKEN_MODE
+ */
+export const getTokenVerifier = (): TokenVerifier => {
+  if (!tokenVerifier) {
+    tokenVerifier = ENV_CONFIG.AUTH_TOKEN_MODE === 'local'
+      ? new LocalTokenVerifier()
+      : new JwksTokenVerifier();
+  }
+  return tokenVerifier;
+};
+
+/**
+ * Replace the active verifier (e.g. a JwksTokenVerifier pointed at a test JWKS)
+ */
+export const setTokenVerifier = (verifier: TokenVerifier | null): void => {
+  tokenVerifier = verifier;
+};
+
+/**
+ * Verify a bearer token with the active verifier
+ */
+export const verifyAccessToken = (token: string): Promise<VerifiedToken> => getTokenVerifier().verify(token);
@@ -0,0 +1,211 @@
+/**
+ * Collection Routes
+ * CRUD for character collections plus adding, removing and reordering their characters
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../../middleware/requireAuth';
+import {
+  createValidationMiddleware,
+  validateQueryParams,
+  QueryValidators,
+  ValidatedRequest
+} from '../../middleware/validation';
+import { CollectionSchema } from '../../schemas/collectionSchema';
+import { CreateCollectionData, UpdateCollectionData } from '../../types/collections';
+import { collectionService, CollectionError } from './collections.service';
+
+const router = Router();
+
+const validateCreateCollection = createValidationMiddleware<CreateCollectionData>(
+  (data) => CollectionSchema.validateCreateInput(data),
+  (data) => CollectionSchema.sanitizeCreateInput(data)
+);
+
+const validateUpdateCollection = createValidationMiddleware<UpdateCollectionData>(
+  (data) => CollectionSchema.validateUpdateInput(data),
+  (data) => CollectionSchema.sanitizeUpdateInput(data)
+);
+
+const validateCharacterIds = createValidationMiddleware<{ characterIds: string[] }>(
+  (data) => CollectionSchema.validateCharacterIds(data?.characterIds)
+);
+
+/**
+ * Send a CollectionError with its own status, anything else as a 500
+ */
+function sendError(res: Response, error: any, fallbackMessage: string): Response {
+  if (error instanceof CollectionError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        ...(error.details && { details: error.details })
+      }
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage
+    }
+  });
+}
+
+/**
+ * GET /api/v1/collections
+ * List the user's collections with character counts, cover and preview characters
+ */
+router.get('/', requireAuth, validateQueryParams(QueryValidators.validatePagination), async (req: Request, res: Response): Promise<any> => {
+  try {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+
+    const { items, total } = await collectionService.listCollections(req.user!.id, { page, limit });
+
+    res.json({
+      success: true,
+      data: {
+        items,
+        pagination: {
+          currentPage: page,
+          itemsPerPage: limit,
+          totalItems: total,
+          totalPages: Math.ceil(total / limit),
+          hasNextPage: page * limit < total,
+          hasPreviousPage: page > 1
+        }
+      },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch collections');
+  }
+});
+
+/**
+ * POST /api/v1/collections
+ * Create a collection; body: { name, description?, isPublic?, characterIds?, coverCharacterId? }
+ */
+router.post('/', requireAuth, validateCreateCollection, async (req: ValidatedRequest<CreateCollectionData>, res: Response): Promise<any> => {
+  try {
+    const collection = await collectionService.createCollection(req.user!.id, req.validatedData!);
+
+    res.status(201).json({
+      success: true,
+      data: collection
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to create collection');
+  }
+});
+
+/**
+ * GET /api/v1/collections/:id
+ * Get a collection with all of its characters in order
+ */
+router.get('/:id', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const collection = await collectionService.getCollection(req.params.id!, req.user!.id);
+
+    res.json({
+      success: true,
+      data: collection
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch collection');
+  }
+});
+
+/**
+ * PUT /api/v1/collections/:id
+ * Update name, description, visibility or cover (coverCharacterId: a member character, or null)
+ */
+router.put('/:id', requireAuth, validateUpdateCollection, async (req: ValidatedRequest<UpdateCollectionData>, res: Response): Promise<any> => {
+  try {
+    const collection = await collectionService.updateCollection(req.params.id!, req.user!.id, req.validatedData!);
+
+    res.json({
+      success: true,
+      data: collection
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to update collection');
+  }
+});
+
+/**
+ * DELETE /api/v1/collections/:id
+ * Delete a collection; the characters themselves are kept
+ */
+router.delete('/:id', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    await collectionService.deleteCollection(req.params.id!, req.user!.id);
+
+    res.json({
+      success: true,
+      data: { message: 'Collection deleted successfully' }
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to delete collection');
+  }
+});
+
+/**
+ * POST /api/v1/collections/:id/characters
+ * Append characters to a collection; body: { characterIds: string[] }
+ */
+router.post('/:id/characters', requireAuth, validateCharacterIds, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const collection = await collectionService.addCharacters(req.params.id!, req.user!.id, req.body.characterIds);
+
+    res.json({
+      success: true,
+      data: collection
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to add characters to collection');
+  }
+});
+
+/**
+ * PUT /api/v1/collections/:id/characters/order
+ * Reorder a collection; body: { characterIds: string[] } listing every member once, in the new order
+ */
+router.put('/:id/characters/order', requireAuth, validateCharacterIds, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const collection = await collectionService.reorderCharacters(req.params.id!, req.user!.id, req.body.characterIds);
+
+    res.json({
+      success: true,
+      data: collection
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to reorder collection');
+  }
+});
+
+/**
+ * DELETE /api/v1/collections/:id/characters/:characterId
+ * Remove a character from a collection
+ */
+router.delete('/:id/characters/:characterId', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const collection = await collectionService.removeCharacter(req.params.id!, req.user!.id, req.params.characterId!);
+
+    res.json({
+      success: true,
+      data: collection
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to remove character from collection');
+  }
+});
+
+export default router;
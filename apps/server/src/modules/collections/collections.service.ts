@@ -0,0 +1,425 @@
+/**
+ * Collection Service
+ * User-defined, ordered groups of characters with a cover taken from a member character
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import {
+  CollectionDisplayData,
+  CollectionPreviewCharacter,
+  CreateCollectionData,
+  UpdateCollectionData
+} from '../../types/collections';
+
+const prisma = new PrismaClient();
+
+type PrismaTx = Prisma.TransactionClient | PrismaClient;
+
+/** Number of characters shown on a collection card in list responses */
+export const PREVIEW_CHARACTER_COUNT = 4;
+
+/**
+ * Error with an API error code and HTTP status, thrown for invalid collection operations
+ */
+export class CollectionError extends Error {
+  public code: string;
+  public statusCode: number;
+  public details?: any;
+
+  constructor(code: string, message: string, statusCode: number = 400, details?: any) {
+    super(message);
+    this.name = 'CollectionError';
+    this.code = code;
+    this.statusCode = statusCode;
+    this.details = details;
+  }
+}
+
+const CHARACTER_SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  imageUrl: true,
+  thumbnailUrl: true
+};
+
+const COLLECTION_CARD_INCLUDE = {
+  user: { select: { id: true, name: true } },
+  coverCharacter: { select: CHARACTER_SUMMARY_SELECT },
+  items: {
+    orderBy: { position: 'asc' as const },
+    take: PREVIEW_CHARACTER_COUNT,
+    include: { character: { select: CHARACTER_SUMMARY_SELECT } }
+  },
+  _count: { select: { items: true } }
+};
+
+const COLLECTION_DETAIL_INCLUDE = {
+  user: { select: { id: true, name: true } },
+  coverCharacter: { select: CHARACTER_SUMMARY_SELECT },
+  items: {
+    orderBy: { position: 'asc' as const },
+    include: {
+      character: {
+        select: {
+          ...CHARACTER_SUMMARY_SELECT,
+          description: true,
+          createdAt: true,
+          tags: { select: { name: true }, orderBy: { name: 'asc' as const } }
+        }
+      }
+    }
+  },
+  _count: { select: { items: true } }
+};
+
+type CollectionCardRecord = Prisma.CharacterCollectionGetPayload<{ include: typeof COLLECTION_CARD_INCLUDE }>;
+type CollectionDetailRecord = Prisma.CharacterCollectionGetPayload<{ include: typeof COLLECTION_DETAIL_INCLUDE }>;
+type CharacterSummaryRecord = Prisma.CharacterGetPayload<{ select: typeof CHARACTER_SUMMARY_SELECT }>;
+
+export interface CollectionItemView {
+  id: string;
+  characterId: string;
+  position: number;
+  addedAt: Date;
+  character: CollectionPreviewCharacter & {
+    description?: string;
+    tags: string[];
+    createdAt: Date;
+  };
+}
+
+export interface CollectionDetailView extends CollectionDisplayData {
+  items: CollectionItemView[];
+}
+
+export interface ListCollectionsOptions {
+  page?: number;
+  limit?: number;
+}
+
+function toPreviewCharacter(character: CharacterSummaryRecord): CollectionPreviewCharacter {
+  return {
+    id: character.id,
+    name: character.name ?? undefined,
+    imageUrl: character.imageUrl ?? undefined,
+    thumbnailUrl: character.thumbnailUrl ?? undefined
+  };
+}
+
+/**
+ * Cover image: the chosen cover character, otherwise the first member that has an image
+ */
+function resolveCoverImageUrl(collection: CollectionCardRecord | CollectionDetailRecord): string | undefined {
+  const candidates = collection.coverCharacter
+    ? [collection.coverCharacter]
+    : collection.items.map(item => item.character);
+
+  const cover = candidates.find(character => character.thumbnailUrl || character.imageUrl);
+  return cover ? (cover.thumbnailUrl || cover.imageUrl)! : undefined;
+}
+
+export class CollectionService {
+  /**
+   * List the user's collections, most recently updated first, with preview characters
+   */
+  async listCollections(userId: string, options: ListCollectionsOptions = {}): Promise<{ items: CollectionDisplayData[]; total: number }> {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? 20;
+
+    const [collections, total] = await Promise.all([
+      prisma.characterCollection.findMany({
+        where: { userId },
+        orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+        include: COLLECTION_CARD_INCLUDE
+      }),
+      prisma.characterCollection.count({ where: { userId } })
+    ]);
+
+    return { items: collections.map(collection => this.toDisplayData(collection)), total };
+  }
+
+  /**
+   * Get a collection owned by the user with all of its characters in order
+   */
+  async getCollection(collectionId: string, userId: string): Promise<CollectionDetailView> {
+    const collection = await prisma.characterCollection.findFirst({
+      where: { id: collectionId, userId },
+      include: COLLECTION_DETAIL_INCLUDE
+    });
+
+    if (!collection) {
+      throw new CollectionError('NOT_FOUND', 'Collection not found', 404);
+    }
+
+    return this.toDetailView(collection);
+  }
+
+  /**
+   * Create a collection, optionally with initial characters (in the given order) and a cover
+   */
+  async createCollection(userId: string, data: CreateCollectionData): Promise<CollectionDetailView> {
+    const characterIds = data.characterIds ?? [];
+
+    if (data.coverCharacterId && !characterIds.includes(data.coverCharacterId)) {
+      throw new CollectionError('INVALID_COVER', 'Cover character must be one of the collection\'s characters');
+    }
+
+    const collectionId = await prisma.$transaction(async (tx) => {
+      await this.assertCharactersOwned(tx, userId, characterIds);
+
+      const collection = await tx.characterCollection.create({
+        data: {
+          userId,
+          name: data.name,
+          description: data.description ?? null,
+          isPublic: data.isPublic ?? false,
+          coverCharacterId: data.coverCharacterId ?? null,
+          items: {
+            create: characterIds.map((characterId, position) => ({ characterId, position }))
+          }
+        }
+      });
+
+      return collection.id;
+    });
+
+    return this.getCollection(collectionId, userId);
+  }
+
+  /**
+   * Update name, description, visibility or cover; the cover must be a member character
+   */
+  async updateCollection(collectionId: string, userId: string, data: UpdateCollectionData): Promise<CollectionDetailView> {
+    await this.assertCollectionOwned(prisma, collectionId, userId);
+
+    if (data.coverCharacterId) {
+      const membership = await prisma.characterCollectionItem.findUnique({
+        where: { collectionId_characterId: { collectionId, characterId: data.coverCharacterId } }
+      });
+
+      if (!membership) {
+        throw new CollectionError('INVALID_COVER', 'Cover character must be one of the collection\'s characters');
+      }
+    }
+
+    await prisma.characterCollection.update({
+      where: { id: collectionId },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.description !== undefined && { description: data.description }),
+        ...(data.isPublic !== undefined && { isPublic: data.isPublic }),
+        ...(data.coverCharacterId !== undefined && { coverCharacterId: data.coverCharacterId })
+      }
+    });
+
+    return this.getCollection(collectionId, userId);
+  }
+
+  /**
+   * Delete a collection; its characters are not affected
+   */
+  async deleteCollection(collectionId: string, userId: string): Promise<void> {
+    const { count } = await prisma.characterCollection.deleteMany({
+      where: { id: collectionId, userId }
+    });
+
+    if (count === 0) {
+      throw new CollectionError('NOT_FOUND', 'Collection not found', 404);
+    }
+  }
+
+  /**
+   * Append characters to the end of a collection; characters already in it are skipped
+   */
+  async addCharacters(collectionId: string, userId: string, characterIds: string[]): Promise<CollectionDetailView> {
+    await prisma.$transaction(async (tx) => {
+      await this.assertCollectionOwned(tx, collectionId, userId);
+      await this.assertCharactersOwned(tx, userId, characterIds);
+
+      const existing = await tx.characterCollectionItem.findMany({
+        where: { collectionId },
+        select: { characterId: true, position: true }
+      });
+
+      const present = new Set(existing.map(item => item.characterId));
+      const nextPosition = existing.reduce((max, item) => Math.max(max, item.position + 1), 0);
+      const added = characterIds.filter(characterId => !present.has(characterId));
+
+      if (added.length === 0) {
+        return;
+      }
+
+      await tx.characterCollectionItem.createMany({
+        data: added.map((characterId, index) => ({ collectionId, characterId, position: nextPosition + index }))
+      });
+
+      await this.touch(tx, collectionId);
+    });
+
+    return this.getCollection(collectionId, userId);
+  }
+
+  /**
+   * Remove a character from a collection; clears the cover if it was the cover character
+   */
+  async removeCharacter(collectionId: string, userId: string, characterId: string): Promise<CollectionDetailView> {
+    await prisma.$transaction(async (tx) => {
+      const collection = await this.assertCollectionOwned(tx, collectionId, userId);
+
+      const item = await tx.characterCollectionItem.findUnique({
+        where: { collectionId_characterId: { collectionId, characterId } }
+      });
+
+      if (!item) {
+        throw new CollectionError('NOT_FOUND', 'Character is not in this collection', 404);
+      }
+
+      await tx.characterCollectionItem.delete({ where: { id: item.id } });
+
+      // Keep positions contiguous
+      await tx.characterCollectionItem.updateMany({
+        where: { collectionId, position: { gt: item.position } },
+        data: { position: { decrement: 1 } }
+      });
+
+      await tx.characterCollection.update({
+        where: { id: collectionId },
+        data: collection.coverCharacterId === characterId
+          ? { coverCharacterId: null }
+          : { updatedAt: new Date() }
+      });
+    });
+
+    return this.getCollection(collectionId, userId);
+  }
+
+  /**
+   * Reorder a collection; `characterIds` must list every member exactly once
+   */
+  async reorderCharacters(collectionId: string, userId: string, characterIds: string[]): Promise<CollectionDetailView> {
+    await prisma.$transaction(async (tx) => {
+      await this.assertCollectionOwned(tx, collectionId, userId);
+
+      const items = await tx.characterCollectionItem.findMany({
+        where: { collectionId },
+        select: { id: true, characterId: true }
+      });
+
+      const itemIds = new Map(items.map(item => [item.characterId, item.id]));
+      const isPermutation = characterIds.length === items.length && characterIds.every(id => itemIds.has(id));
+
+      if (!isPermutation) {
+        throw new CollectionError(
+          'INVALID_ORDER',
+          'characterIds must contain every character of the collection exactly once',
+          400,
+          { expected: items.length, received: characterIds.length }
+        );
+      }
+
+      for (const [position, characterId] of characterIds.entries()) {
+        await tx.characterCollectionItem.update({
+          where: { id: itemIds.get(characterId)! },
+          data: { position }
+        });
+      }
+
+      await this.touch(tx, collectionId);
+    });
+
+    return this.getCollection(collectionId, userId);
+  }
+
+  /**
+   * Map a collection row to the card shape used in list responses
+   */
+  toDisplayData(collection: CollectionCardRecord | CollectionDetailRecord): CollectionDisplayData {
+    return {
+      id: collection.id,
+      name: collection.name,
+      description: collection.description ?? undefined,
+      isPublic: collection.isPublic,
+      coverCharacterId: collection.coverCharacterId ?? undefined,
+      coverImageUrl: resolveCoverImageUrl(collection),
+      characterCount: collection._count.items,
+      author: {
+        id: collection.user.id,
+        name: collection.user.name ?? undefined
+      },
+      createdAt: collection.createdAt,
+      updatedAt: collection.updatedAt,
+      previewCharacters: collection.items
+        .slice(0, PREVIEW_CHARACTER_COUNT)
+        .map(item => toPreviewCharacter(item.character))
+    };
+  }
+
+  private toDetailView(collection: CollectionDetailRecord): CollectionDetailView {
+    return {
+      ...this.toDisplayData(collection),
+      items: collection.items.map(item => ({
+        id: item.id,
+        characterId: item.characterId,
+        position: item.position,
+        addedAt: item.addedAt,
+        character: {
+          ...toPreviewCharacter(item.character),
+          description: item.character.description ?? undefined,
+          tags: item.character.tags.map(tag => tag.name),
+          createdAt: item.character.createdAt
+        }
+      }))
+    };
+  }
+
+  private async assertCollectionOwned(tx: PrismaTx, collectionId: string, userId: string) {
+    const collection = await tx.characterCollection.findFirst({
+      where: { id: collectionId, userId },
+      select: { id: true, coverCharacterId: true }
+    });
+
+    if (!collection) {
+      throw new CollectionError('NOT_FOUND', 'Collection not found', 404);
+    }
+
+    return collection;
+  }
+
+  /**
+   * Only the user's own characters can be put into their collections
+   */
+  private async assertCharactersOwned(tx: PrismaTx, userId: string, characterIds: string[]): Promise<void> {
+    if (characterIds.length === 0) {
+      return;
+    }
+
+    const owned = await tx.character.findMany({
+      where: { id: { in: characterIds }, userId },
+      select: { id: true }
+    });
+
+    if (owned.length !== new Set(characterIds).size) {
+      const ownedIds = new Set(owned.map(character => character.id));
+      throw new CollectionError(
+        'CHARACTER_NOT_FOUND',
+        'One or more characters were not found',
+        404,
+        { characterIds: characterIds.filter(id => !ownedIds.has(id)) }
+      );
+    }
+  }
+
+  /**
+   * Bump updatedAt so recently edited collections list first
+   */
+  private async touch(tx: PrismaTx, collectionId: string): Promise<void> {
+    await tx.characterCollection.update({
+      where: { id: collectionId },
+      data: { updatedAt: new Date() }
+    });
+  }
+}
+
+export const collectionService = new CollectionService();
@@ -0,0 +1,8 @@
+/**
+ * Collections Module
+ * Exports the collection service and routes
+ */
+
+export { collectionService, CollectionService, CollectionError, PREVIEW_CHARACTER_COUNT } from './collections.service';
+export type { CollectionDetailView, CollectionItemView, ListCollectionsOptions } from './collections.service';
+export { default as collectionsRouter } from './collections.routes';
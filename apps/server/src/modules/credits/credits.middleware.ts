@@ -1,10 +1,35 @@
 /**
  * Credit Middleware
- * Checks and deducts credits for API calls
+ * Reserves credits before an API call and commits or releases them afterwards
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { creditService } from './credits.service';
+import { creditService, InsufficientCreditsError } from './credits.service';
+import { QuotaExceededError } from './quota.service';
+
+export interface CheckCreditsOptions {
+  /** Count the call as a generation against the user's daily tier quota */
+  quota?: boolean;
+  /** Number of billable items in the request (e.g. batch size); the endpoint cost is held once per item */
+  units?: (req: Request) => number;
+  /** Only charge requests this returns true for (e.g. an optional generation step) */
+  when?: (req: Request) => boolean;
+  /** Endpoint whose cost applies when the resolved endpoint has none configured (e.g. the base price of a quality tier) */
+  fallbackEndpoint?: string;
+}
+
+export interface RequestCreditReservation {
+  id: string;
+  amount: number;
+  apiEndpoint: string;
+  newBalance: number;
+  freeGeneration: boolean;
+  /** Items the hold covers and the configured cost of one, for settling part of a batch */
+  units: number;
+  unitCost: number;
+  settled: boolean;
+  transferred: boolean;
+}
 
 // Extend Express Request type to include credit info
 declare global {
@@ -12,15 +37,41 @@ declare global {
     interface Request {
       creditCost?: number;
       creditDeducted?: boolean;
+      creditReservation?: RequestCreditReservation;
     }
   }
 }
 
 /**
- * Middleware to check and deduct credits for API calls
+ * Hand the request's credit reservation over to another owner (e.g. a queued job).
+ * The middleware will then neither commit nor release it.
+ */
+export function transferCreditReservation(req: Request): string | undefined {
+  if (!req.creditReservation || req.creditReservation.settled) {
+    return undefined;
+  }
+  req.creditReservation.transferred = true;
+  return req.creditReservation.id;
+}
+
+/**
+ * Middleware to reserve credits for API calls
  * Usage: router.post('/endpoint', requireAuth, checkCredit('/endpoint'), handler)
+ *
+ * With `{ quota: true }` the call also counts against the daily tier quota; generations
+ * within the free daily allowance hold no credits.
+ *
+ * Credits are held before the handler runs. A successful response commits the hold (retried on database
+ * errors; if it still fails the response becomes a 500 and the hold is released);
+ * an error response, an unhandled error or a client disconnect releases it as a REFUND.
+ * A successful response whose `data.degraded` is true (a fallback instead of a real result)
+ * is released as well, so users are not charged for it.
+ * Handlers that queue work call transferCreditReservation() and settle it later.
+ *
+ * `endpoint` may be a function of the request when the price depends on its parameters
+ * (e.g. the quality tier of a generation); the resolved endpoint is what the hold is recorded under.
  */
-export function checkCredits(apiEndpoint: string) {
+export function checkCredits(endpoint: string | ((req: Request) => string), options: CheckCreditsOptions = {}) {
   return async (req: Request, res: Response, next: NextFunction): Promise<any> => {
     try {
       if (!req.user) {
@@ -33,61 +84,159 @@ export function checkCredits(apiEndpoint: string) {
         });
       }
 
+      if (options.when && !options.when(req)) {
+        return next();
+      }
+
       // Get API cost
-      const cost = await creditService.getApiCost(apiEndpoint);
+      const apiEndpoint = typeof endpoint === 'function' ? endpoint(req) : endpoint;
+      let cost = await creditService.getApiCost(apiEndpoint);
+      if (cost === null && options.fallbackEndpoint && options.fallbackEndpoint !== apiEndpoint) {
+        cost = await creditService.getApiCost(options.fallbackEndpoint);
+      }
+      const units = options.units ? Math.max(1, options.units(req)) : 1;
 
-      // If no cost configured, allow the request
-      if (cost === null || cost === 0) {
+      // If no cost configured and no quota to count, allow the request
+      if ((cost === null || cost === 0) && !options.quota) {
         return next();
       }
 
-      // Check if user has sufficient credits
-      const check = await creditService.checkSufficientCredits(req.user.id, apiEndpoint);
-
-      if (!check.sufficient) {
-        return res.status(402).json({  // 402 Payment Required
-          success: false,
-          error: {
-            code: 'INSUFFICIENT_CREDITS',
-            message: `Insufficient credits. Required: ${check.required}, Available: ${check.balance}`,
-            required: check.required,
-            balance: check.balance
-          }
-        });
+      // Hold the credits up front so concurrent requests cannot spend them twice
+      let reservation;
+      try {
+        reservation = await creditService.reserveCredits(
+          req.user.id,
+          (cost ?? 0) * units,
+          apiEndpoint,
+          {
+            method: req.method,
+            path: req.path,
+            body: req.body
+          },
+          { quotaUnits: options.quota ? units : 0 }
+        );
+      } catch (error) {
+        if (error instanceof QuotaExceededError) {
+          return res.status(429).json({
+            success: false,
+            error: {
+              code: 'QUOTA_EXCEEDED',
+              message: error.message,
+              limit: error.limit,
+              used: error.used,
+              resetAt: error.resetAt.toISOString()
+            }
+          });
+        }
+        if (error instanceof InsufficientCreditsError) {
+          return res.status(402).json({  // 402 Payment Required
+            success: false,
+            error: {
+              code: 'INSUFFICIENT_CREDITS',
+              message: error.message,
+              required: error.required,
+              balance: error.balance
+            }
+          });
+        }
+        throw error;
       }
 
-      // Store cost for later deduction
-      req.creditCost = cost;
+      req.creditCost = reservation.amount;
+      req.creditReservation = {
+        id: reservation.reservationId,
+        amount: reservation.amount,
+        apiEndpoint,
+        newBalance: reservation.newBalance,
+        freeGeneration: reservation.freeUnits > 0,
+        units,
+        unitCost: cost ?? 0,
+        settled: false,
+        transferred: false
+      };
+
+      const release = (reason: string) => {
+        const held = req.creditReservation!;
+        if (held.settled || held.transferred) return Promise.resolve();
+        held.settled = true;
+        return creditService.releaseReservation(held.id, reason)
+          .then(result => {
+            held.newBalance = result.newBalance;
+          })
+          .catch(error => {
+            console.error('Error releasing credit reservation:', error);
+          });
+      };
 
-      // Intercept response to deduct credits on success
+      // Client went away before a response was sent
+      res.on('close', () => {
+        if (!res.writableFinished) {
+          release('Client disconnected');
+        }
+      });
+
+      // Intercept response to settle the reservation before it is sent
       const originalJson = res.json.bind(res);
       res.json = function (body: any) {
-        // Only deduct if response is successful and credits haven't been deducted yet
-        if (!req.creditDeducted && body.success === true && req.creditCost) {
-          creditService.deductCredits(
-            req.user!.id,
-            req.creditCost,
-            apiEndpoint,
-            {
-              method: req.method,
-              path: req.path,
-              body: req.body
-            }
-          ).then(result => {
-            req.creditDeducted = true;
-            // Update the response with new credit balance
+        const held = req.creditReservation!;
+
+        if (held.settled) {
+          return originalJson(body);
+        }
+
+        if (held.transferred) {
+          if (body?.success === true) {
             body.credits = {
-              deducted: req.creditCost,
-              newBalance: result.newBalance
+              reserved: held.amount,
+              newBalance: held.newBalance,
+              freeGeneration: held.freeGeneration
+            };
+          }
+          return originalJson(body);
+        }
+
+        if (body?.success === true && body.data?.degraded === true) {
+          release('Degraded result')
+            .then(() => {
+              body.credits = {
+                deducted: 0,
+                newBalance: held.newBalance,
+                freeGeneration: false
+              };
+              originalJson(body);
+            });
+        } else if (body?.success === true) {
+          held.settled = true;
+          creditService.commitReservationWithRetry(held.id).then(result => {
+            req.creditDeducted = result.committed;
+            body.credits = {
+              deducted: result.charged,
+              newBalance: result.newBalance,
+              freeGeneration: held.freeGeneration
             };
             originalJson(body);
           }).catch(error => {
-            console.error('Error deducting credits:', error);
-            originalJson(body);
+            // The result is not delivered uncharged: the request fails and the hold is returned
+            console.error('Error committing credit reservation:', error);
+            held.settled = false;
+            release('Credits could not be committed').then(() => {
+              res.status(500);
+              originalJson({
+                success: false,
+                error: {
+                  code: 'CREDIT_COMMIT_FAILED',
+                  message: 'Credits could not be charged for this request; nothing was charged, please try again'
+                }
+              });
+            });
           });
         } else {
-          originalJson(body);
+          release(body?.error?.code ? `Request failed: ${body.error.code}` : 'Request failed')
+            .then(() => {
+              originalJson(body);
+            });
         }
+        return res;
       } as any;
 
       next();
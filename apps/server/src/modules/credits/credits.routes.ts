@@ -6,22 +6,29 @@
 import express from 'express';
 import { requireAuth } from '../../middleware/requireAuth';
 import { creditService } from './credits.service';
+import { quotaService } from './quota.service';
 
 const router = express.Router();
 
 /**
  * GET /api/v1/credits
- * Get user's current credit balance
+ * Get user's current credit balance and remaining daily quota
  */
 router.get('/', requireAuth, async (req: express.Request, res: express.Response) => {
   try {
     const userId = (req as any).user!.id;
-    const balance = await creditService.getBalance(userId);
+    const [balance, held, quota] = await Promise.all([
+      creditService.getBalance(userId),
+      creditService.getHeldCredits(userId),
+      quotaService.getQuotaStatus(userId)
+    ]);
 
     return res.json({
       success: true,
       data: {
         balance,
+        held, // Credits on hold for in-flight generations (already excluded from balance)
+        quota,
         userId
       }
     });
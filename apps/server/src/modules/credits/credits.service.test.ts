@@ -0,0 +1,240 @@
+import { PrismaClient, ReservationStatus, TransactionType } from '@prisma/client';
+import type { MemoryPrismaClient, Row } from '../../../__mocks__/@prisma/client';
+import { CreditBalanceChange, CreditService, InsufficientCreditsError } from './credits.service';
+import { QuotaExceededError } from './quota.service';
+
+const db = new PrismaClient() as unknown as MemoryPrismaClient;
+
+const ENDPOINT = '/characters/generate-image';
+
+const user = (id: string): Row => db.rows('user').find(row => row['id'] === id)!;
+const reservation = (id: string): Row => db.rows('creditReservation').find(row => row['id'] === id)!;
+const transactions = (): Row[] => db.rows('creditTransaction');
+
+describe('CreditService reservations', () => {
+  let service: CreditService;
+  let changes: CreditBalanceChange[];
+
+  beforeEach(() => {
+    db.reset();
+    db.seed('user', { id: 'user-1', credits: 20 });
+    service = new CreditService();
+    changes = [];
+    service.on('balance_changed', change => changes.push(change));
+  });
+
+  describe('reserveCredits', () => {
+    it('takes the credits off the balance and records the hold', async () => {
+      const result = await service.reserveCredits('user-1', 5, ENDPOINT, { prompt: 'a knight' });
+
+      expect(result).toMatchObject({ amount: 5, newBalance: 15, freeUnits: 0 });
+      expect(user('user-1')['credits']).toBe(15);
+      expect(reservation(result.reservationId)).toMatchObject({
+        status: ReservationStatus.HELD,
+        amount: 5,
+        apiEndpoint: ENDPOINT
+      });
+      expect(transactions()).toEqual([
+        expect.objectContaining({ amount: -5, balance: 15, type: TransactionType.USAGE, reservationId: result.reservationId })
+      ]);
+      expect(changes).toEqual([
+        { userId: 'user-1', balance: 15, amount: -5, type: TransactionType.USAGE, apiEndpoint: ENDPOINT }
+      ]);
+    });
+
+    it('refuses a hold the balance cannot cover and leaves nothing behind', async () => {
+      await expect(service.reserveCredits('user-1', 60, ENDPOINT, undefined, { quotaUnits: 5 }))
+        .rejects.toThrow(InsufficientCreditsError);
+
+      expect(user('user-1')).toMatchObject({ credits: 20, dailyUsed: 0 });
+      expect(db.rows('creditReservation')).toHaveLength(0);
+      expect(transactions()).toHaveLength(0);
+      expect(changes).toHaveLength(0);
+    });
+
+    it('does not charge generations covered by the free daily allowance', async () => {
+      const result = await service.reserveCredits('user-1', 10, ENDPOINT, undefined, { quotaUnits: 2 });
+
+      expect(result).toMatchObject({ amount: 0, newBalance: 20, freeUnits: 2 });
+      expect(user('user-1')).toMatchObject({ credits: 20, dailyUsed: 2 });
+      expect(transactions()).toHaveLength(0);
+      expect(changes).toHaveLength(0);
+    });
+
+    it('charges only the units beyond the free allowance', async () => {
+      const result = await service.reserveCredits('user-1', 20, ENDPOINT, undefined, { quotaUnits: 4 });
+
+      // 3 free generations on the FREE tier, so one of four is paid
+      expect(result).toMatchObject({ amount: 5, newBalance: 15, freeUnits: 3 });
+      expect(reservation(result.reservationId)).toMatchObject({ amount: 5, quotaUnits: 4 });
+    });
+
+    it('reports an exhausted daily quota before the balance', async () => {
+      user('user-1')['dailyUsed'] = 20;
+
+      await expect(service.reserveCredits('user-1', 100, ENDPOINT, undefined, { quotaUnits: 1 }))
+        .rejects.toThrow(QuotaExceededError);
+      expect(user('user-1')['credits']).toBe(20);
+    });
+  });
+
+  describe('commitReservation', () => {
+    it('keeps the held credits and counts the generations', async () => {
+      const { reservationId } = await service.reserveCredits('user-1', 20, ENDPOINT, undefined, { quotaUnits: 4 });
+
+      const result = await service.commitReservation(reservationId);
+
+      expect(result).toEqual({ committed: true, charged: 5, newBalance: 15 });
+      expect(reservation(reservationId)).toMatchObject({ status: ReservationStatus.COMMITTED, committedAmount: 5 });
+      expect(user('user-1')).toMatchObject({ credits: 15, dailyUsed: 4, totalGenerated: 4 });
+    });
+
+    it('returns the unused part of the hold and the unused quota units', async () => {
+      const { reservationId } = await service.reserveCredits('user-1', 8, ENDPOINT, undefined, { quotaUnits: 4 });
+      changes = [];
+
+      const result = await service.commitReservation(reservationId, 0, 1);
+
+      expect(result).toEqual({ committed: true, charged: 0, newBalance: 20 });
+      expect(user('user-1')).toMatchObject({ credits: 20, dailyUsed: 1, totalGenerated: 1 });
+      expect(transactions()[1]).toMatchObject({ amount: 2, type: TransactionType.REFUND, reservationId });
+      expect(changes).toEqual([expect.objectContaining({ amount: 2, balance: 20, type: TransactionType.REFUND })]);
+    });
+
+    it('never charges more than was held', async () => {
+      const { reservationId } = await service.reserveCredits('user-1', 5, ENDPOINT);
+
+      expect(await service.commitReservation(reservationId, 50)).toMatchObject({ charged: 5, newBalance: 15 });
+    });
+
+    it('commits a reservation only once', async () => {
+      const { reservationId } = await service.reserveCredits('user-1', 5, ENDPOINT);
+      await service.commitReservation(reservationId, 3);
+
+      const again = await service.commitReservation(reservationId, 0);
+
+      expect(again).toEqual({ committed: false, charged: 0, newBalance: 17 });
+      expect(user('user-1')['credits']).toBe(17);
+    });
+
+    it('does not commit a released reservation', async () => {
+      const { reservationId } = await service.reserveCredits('user-1', 5, ENDPOINT);
+      await service.releaseReservation(reservationId, 'Generation failed');
+
+      expect(await service.commitReservation(reservationId)).toMatchObject({ committed: false, newBalance: 20 });
+      expect(reservation(reservationId)['status']).toBe(ReservationStatus.RELEASED);
+    });
+  });
+
+  describe('releaseReservation', () => {
+    it('refunds the hold and gives back the quota units', async () => {
+      const { reservationId } = await service.reserveCredits('user-1', 20, ENDPOINT, undefined, { quotaUnits: 4 });
+      changes = [];
+
+      const result = await service.releaseReservation(reservationId, 'Generation failed');
+
+      expect(result).toEqual({ released: true, newBalance: 20 });
+      expect(user('user-1')).toMatchObject({ credits: 20, dailyUsed: 0, totalGenerated: 0 });
+      expect(reservation(reservationId)).toMatchObject({
+        status: ReservationStatus.RELEASED,
+        releaseReason: 'Generation failed'
+      });
+      expect(transactions()[1]).toMatchObject({
+        amount: 5,
+        balance: 20,
+        type: TransactionType.REFUND,
+        description: 'Refund: Generation failed'
+      });
+      expect(changes).toEqual([expect.objectContaining({ amount: 5, type: TransactionType.REFUND })]);
+    });
+
+    it('refunds only once', async () => {
+      const { reservationId } = await service.reserveCredits('user-1', 5, ENDPOINT);
+      await service.releaseReservation(reservationId, 'first');
+
+      const again = await service.releaseReservation(reservationId, 'second');
+
+      expect(again).toEqual({ released: false, newBalance: 20 });
+      expect(transactions().filter(row => row['type'] === TransactionType.REFUND)).toHaveLength(1);
+    });
+
+    it('does not refund a committed reservation', async () => {
+      const { reservationId } = await service.reserveCredits('user-1', 5, ENDPOINT);
+      await service.commitReservation(reservationId);
+
+      expect(await service.releaseReservation(reservationId, 'too late')).toEqual({ released: false, newBalance: 15 });
+    });
+
+    it('releases a free reservation without a transaction', async () => {
+      const { reservationId } = await service.reserveCredits('user-1', 5, ENDPOINT, undefined, { quotaUnits: 1 });
+
+      expect(await service.releaseReservation(reservationId, 'cancelled')).toEqual({ released: true, newBalance: 20 });
+      expect(user('user-1')['dailyUsed']).toBe(0);
+      expect(transactions()).toHaveLength(0);
+    });
+  });
+
+  describe('expired reservations', () => {
+    it('releases held reservations past their expiry only', async () => {
+      const expired = await service.reserveCredits('user-1', 5, ENDPOINT, undefined, { ttlMs: -1000 });
+      const live = await service.reserveCredits('user-1', 3, ENDPOINT);
+      const committed = await service.reserveCredits('user-1', 2, ENDPOINT, undefined, { ttlMs: -1000 });
+      await service.commitReservation(committed.reservationId);
+
+      expect(await service.releaseExpiredReservations()).toBe(1);
+
+      expect(reservation(expired.reservationId)).toMatchObject({
+        status: ReservationStatus.RELEASED,
+        releaseReason: 'Reservation expired'
+      });
+      expect(reservation(live.reservationId)['status']).toBe(ReservationStatus.HELD);
+      expect(reservation(committed.reservationId)['status']).toBe(ReservationStatus.COMMITTED);
+      expect(user('user-1')['credits']).toBe(15);
+    });
+
+    it('keeps a reservation alive when it is extended', async () => {
+      const { reservationId } = await service.reserveCredits('user-1', 5, ENDPOINT, undefined, { ttlMs: -1000 });
+
+      await service.extendReservation(reservationId, 60_000);
+
+      expect(await service.releaseExpiredReservations()).toBe(0);
+      expect(await service.getHeldCredits('user-1')).toBe(5);
+    });
+
+    it('sweeps on an interval until stopped', async () => {
+      jest.useFakeTimers();
+      const sweep = jest.spyOn(service, 'releaseExpiredReservations').mockResolvedValue(0);
+
+      try {
+        service.startReservationSweeper(1000);
+        service.startReservationSweeper(1000);
+        jest.advanceTimersByTime(3000);
+        expect(sweep).toHaveBeenCalledTimes(3);
+
+        service.stopReservationSweeper();
+        jest.advanceTimersByTime(3000);
+        expect(sweep).toHaveBeenCalledTimes(3);
+      } finally {
+        service.stopReservationSweeper();
+        jest.useRealTimers();
+      }
+    });
+
+    it('keeps sweeping after a failed sweep', async () => {
+      jest.useFakeTimers();
+      const sweep = jest.spyOn(service, 'releaseExpiredReservations').mockRejectedValue(new Error('database down'));
+
+      try {
+        service.startReservationSweeper(1000);
+        jest.advanceTimersByTime(1000);
+        await Promise.resolve();
+        jest.advanceTimersByTime(1000);
+
+        expect(sweep).toHaveBeenCalledTimes(2);
+      } finally {
+        service.stopReservationSweeper();
+        jest.useRealTimers();
+      }
+    });
+  });
+});
@@ -3,11 +3,61 @@
  * Manages user credits, API costs, and transactions
  */
 
-import { PrismaClient, TransactionType } from '@prisma/client';
+import { EventEmitter } from 'events';
+import { PrismaClient, Prisma, TransactionType, ReservationStatus } from '@prisma/client';
+import { ENV_CONFIG } from '../../config/env';
+import { quotaService } from './quota.service';
 
 const prisma = new PrismaClient();
 
-export class CreditService {
+// Committing a hold after the work is done is retried before the result is given up on
+const COMMIT_RETRY_ATTEMPTS = 3;
+const COMMIT_RETRY_DELAY_MS = 200;
+
+/**
+ * Thrown when a user's balance cannot cover the requested amount
+ */
+export class InsufficientCreditsError extends Error {
+  public required: number;
+  public balance: number;
+
+  constructor(required: number, balance: number) {
+    super(`Insufficient credits. Required: ${required}, Available: ${balance}`);
+    this.name = 'InsufficientCreditsError';
+    this.required = required;
+    this.balance = balance;
+  }
+}
+
+export interface CreditReservationResult {
+  reservationId: string;
+  amount: number;
+  newBalance: number;
+  /** Generations covered by the free daily allowance */
+  freeUnits: number;
+}
+
+export interface ReserveCreditsOptions {
+  ttlMs?: number;
+  /** Generations to count against the daily quota; credits are only held for units beyond the free allowance */
+  quotaUnits?: number;
+}
+
+/**
+ * Emitted as 'balance_changed' after a transaction that moved credits has committed
+ */
+export interface CreditBalanceChange {
+  userId: string;
+  balance: number;
+  /** Signed amount; negative when credits were spent or held */
+  amount: number;
+  type: TransactionType;
+  apiEndpoint: string | null;
+}
+
+export class CreditService extends EventEmitter {
+  private sweepTimer: NodeJS.Timeout | null = null;
+
   /**
    * Get user's current credit balance
    */
@@ -61,20 +111,23 @@ export class CreditService {
   ): Promise<{ success: boolean; newBalance: number }> {
     try {
       const result = await prisma.$transaction(async (tx) => {
-        // Get current balance
-        const user = await tx.user.findUnique({
-          where: { id: userId },
-          select: { credits: true }
+        // Conditional decrement so concurrent calls cannot overdraw the balance
+        const debited = await tx.user.updateMany({
+          where: { id: userId, credits: { gte: amount } },
+          data: { credits: { decrement: amount } }
         });
 
-        if (!user || user.credits < amount) {
-          throw new Error('Insufficient credits');
+        if (debited.count === 0) {
+          const user = await tx.user.findUnique({
+            where: { id: userId },
+            select: { credits: true }
+          });
+          throw new InsufficientCreditsError(amount, user?.credits ?? 0);
         }
 
-        // Update user credits
-        const updatedUser = await tx.user.update({
+        const updatedUser = await tx.user.findUniqueOrThrow({
           where: { id: userId },
-          data: { credits: { decrement: amount } }
+          select: { credits: true }
         });
 
         // Record transaction
@@ -93,6 +146,7 @@ export class CreditService {
         return { success: true, newBalance: updatedUser.credits };
       });
 
+      this.emitBalanceChange({ userId, balance: result.newBalance, amount: -amount, type: TransactionType.USAGE, apiEndpoint });
       return result;
     } catch (error) {
       console.error('Error deducting credits:', error);
@@ -100,6 +154,329 @@ export class CreditService {
     }
   }
 
+  /**
+   * Hold credits for an API call before doing the work.
+   * The credits leave the balance immediately and come back via releaseReservation()
+   * unless commitReservation() is called first.
+   */
+  async reserveCredits(
+    userId: string,
+    amount: number,
+    apiEndpoint: string,
+    metadata?: any,
+    options: ReserveCreditsOptions = {}
+  ): Promise<CreditReservationResult> {
+    const { ttlMs = ENV_CONFIG.CREDIT_RESERVATION_TTL_MS, quotaUnits = 0 } = options;
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Daily quota first: QUOTA_EXCEEDED takes precedence over INSUFFICIENT_CREDITS
+      let freeUnits = 0;
+      if (quotaUnits > 0) {
+        ({ freeUnits } = await quotaService.consume(tx, userId, quotaUnits));
+      }
+
+      const charge = quotaUnits > 0
+        ? amount - Math.round((amount / quotaUnits) * freeUnits)
+        : amount;
+
+      if (charge > 0) {
+        const debited = await tx.user.updateMany({
+          where: { id: userId, credits: { gte: charge } },
+          data: { credits: { decrement: charge } }
+        });
+
+        if (debited.count === 0) {
+          const user = await tx.user.findUnique({
+            where: { id: userId },
+            select: { credits: true }
+          });
+          throw new InsufficientCreditsError(charge, user?.credits ?? 0);
+        }
+      }
+      const newBalance = await this.getBalanceWith(tx, userId);
+
+      const reservation = await tx.creditReservation.create({
+        data: {
+          userId,
+          amount: charge,
+          quotaUnits,
+          apiEndpoint,
+          metadata,
+          expiresAt: new Date(Date.now() + ttlMs)
+        }
+      });
+
+      if (charge > 0) {
+        await tx.creditTransaction.create({
+          data: {
+            userId,
+            amount: -charge,
+            balance: newBalance,
+            type: TransactionType.USAGE,
+            apiEndpoint,
+            description: `API call: ${apiEndpoint}`,
+            metadata,
+            reservationId: reservation.id
+          }
+        });
+      }
+
+      return {
+        reservationId: reservation.id,
+        amount: charge,
+        newBalance,
+        freeUnits
+      };
+    });
+
+    if (result.amount > 0) {
+      this.emitBalanceChange({ userId, balance: result.newBalance, amount: -result.amount, type: TransactionType.USAGE, apiEndpoint });
+    }
+    return result;
+  }
+
+  /**
+   * Charge a held reservation once the work has been persisted.
+   * Committing less than the held amount (or fewer quota units) returns the difference.
+   */
+  async commitReservation(
+    reservationId: string,
+    amount?: number,
+    quotaUnits?: number
+  ): Promise<{ committed: boolean; charged: number; newBalance: number }> {
+    const changes: CreditBalanceChange[] = [];
+
+    const result = await prisma.$transaction(async (tx) => {
+      const reservation = await tx.creditReservation.findUnique({
+        where: { id: reservationId }
+      });
+
+      if (!reservation || reservation.status !== ReservationStatus.HELD) {
+        return {
+          committed: false,
+          charged: 0,
+          newBalance: reservation ? await this.getBalanceWith(tx, reservation.userId) : 0
+        };
+      }
+
+      const charged = Math.min(Math.max(amount ?? reservation.amount, 0), reservation.amount);
+      const unused = reservation.amount - charged;
+      const usedUnits = Math.min(Math.max(quotaUnits ?? reservation.quotaUnits, 0), reservation.quotaUnits);
+
+      const claimed = await tx.creditReservation.updateMany({
+        where: { id: reservationId, status: ReservationStatus.HELD },
+        data: {
+          status: ReservationStatus.COMMITTED,
+          committedAmount: charged,
+          settledAt: new Date()
+        }
+      });
+
+      if (claimed.count === 0) {
+        return { committed: false, charged: 0, newBalance: await this.getBalanceWith(tx, reservation.userId) };
+      }
+
+      await quotaService.restore(tx, reservation.userId, reservation.quotaUnits - usedUnits, reservation.createdAt);
+
+      if (usedUnits > 0) {
+        await tx.user.update({
+          where: { id: reservation.userId },
+          data: { totalGenerated: { increment: usedUnits } }
+        });
+      }
+
+      if (unused > 0) {
+        const updatedUser = await tx.user.update({
+          where: { id: reservation.userId },
+          data: { credits: { increment: unused } }
+        });
+
+        await tx.creditTransaction.create({
+          data: {
+            userId: reservation.userId,
+            amount: unused,
+            balance: updatedUser.credits,
+            type: TransactionType.REFUND,
+            apiEndpoint: reservation.apiEndpoint,
+            description: `Unused credits returned: ${reservation.apiEndpoint}`,
+            reservationId
+          }
+        });
+
+        changes.push({
+          userId: reservation.userId,
+          balance: updatedUser.credits,
+          amount: unused,
+          type: TransactionType.REFUND,
+          apiEndpoint: reservation.apiEndpoint
+        });
+        return { committed: true, charged, newBalance: updatedUser.credits };
+      }
+
+      return { committed: true, charged, newBalance: await this.getBalanceWith(tx, reservation.userId) };
+    });
+
+    changes.forEach(change => this.emitBalanceChange(change));
+    return result;
+  }
+
+  /**
+   * commitReservation, retried with backoff when the database call fails. Committing is idempotent, so a
+   * retry after a commit that did go through only reports committed: false. Throws the last error.
+   */
+  async commitReservationWithRetry(
+    reservationId: string,
+    amount?: number,
+    quotaUnits?: number,
+    attempts: number = COMMIT_RETRY_ATTEMPTS
+  ): Promise<{ committed: boolean; charged: number; newBalance: number }> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.commitReservation(reservationId, amount, quotaUnits);
+      } catch (error) {
+        if (attempt >= attempts) throw error;
+        console.warn(`Committing credit reservation ${reservationId} failed (attempt ${attempt}), retrying:`, error);
+        await new Promise(resolve => setTimeout(resolve, COMMIT_RETRY_DELAY_MS * 2 ** (attempt - 1)));
+      }
+    }
+  }
+
+  /**
+   * Return held credits to the user as a REFUND transaction and give back the quota units.
+   * Safe to call more than once; only the first call for a held reservation refunds.
+   */
+  async releaseReservation(
+    reservationId: string,
+    reason: string
+  ): Promise<{ released: boolean; newBalance: number }> {
+    const changes: CreditBalanceChange[] = [];
+
+    const result = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.creditReservation.updateMany({
+        where: { id: reservationId, status: ReservationStatus.HELD },
+        data: {
+          status: ReservationStatus.RELEASED,
+          releaseReason: reason,
+          settledAt: new Date()
+        }
+      });
+
+      const reservation = await tx.creditReservation.findUnique({
+        where: { id: reservationId }
+      });
+
+      if (!reservation) {
+        return { released: false, newBalance: 0 };
+      }
+
+      if (claimed.count === 0) {
+        return { released: false, newBalance: await this.getBalanceWith(tx, reservation.userId) };
+      }
+
+      await quotaService.restore(tx, reservation.userId, reservation.quotaUnits, reservation.createdAt);
+
+      if (reservation.amount === 0) {
+        return { released: true, newBalance: await this.getBalanceWith(tx, reservation.userId) };
+      }
+
+      const updatedUser = await tx.user.update({
+        where: { id: reservation.userId },
+        data: { credits: { increment: reservation.amount } }
+      });
+
+      await tx.creditTransaction.create({
+        data: {
+          userId: reservation.userId,
+          amount: reservation.amount,
+          balance: updatedUser.credits,
+          type: TransactionType.REFUND,
+          apiEndpoint: reservation.apiEndpoint,
+          description: `Refund: ${reason}`,
+          reservationId
+        }
+      });
+
+      changes.push({
+        userId: reservation.userId,
+        balance: updatedUser.credits,
+        amount: reservation.amount,
+        type: TransactionType.REFUND,
+        apiEndpoint: reservation.apiEndpoint
+      });
+      return { released: true, newBalance: updatedUser.credits };
+    });
+
+    changes.forEach(change => this.emitBalanceChange(change));
+    return result;
+  }
+
+  /**
+   * Push back the expiry of a held reservation (e.g. when handed to the job queue)
+   */
+  async extendReservation(reservationId: string, ttlMs: number): Promise<void> {
+    await prisma.creditReservation.updateMany({
+      where: { id: reservationId, status: ReservationStatus.HELD },
+      data: { expiresAt: new Date(Date.now() + ttlMs) }
+    });
+  }
+
+  /**
+   * Release reservations that were never committed or released (crashed handlers, lost jobs)
+   */
+  async releaseExpiredReservations(): Promise<number> {
+    const expired = await prisma.creditReservation.findMany({
+      where: { status: ReservationStatus.HELD, expiresAt: { lt: new Date() } },
+      select: { id: true },
+      take: 100
+    });
+
+    let released = 0;
+    for (const reservation of expired) {
+      try {
+        const result = await this.releaseReservation(reservation.id, 'Reservation expired');
+        if (result.released) released++;
+      } catch (error) {
+        console.error(`Error releasing expired reservation ${reservation.id}:`, error);
+      }
+    }
+
+    if (released > 0) {
+      console.log(`💳 Released ${released} expired credit reservation(s)`);
+    }
+
+    return released;
+  }
+
+  /**
+   * Periodically release expired reservations
+   */
+  startReservationSweeper(intervalMs: number = ENV_CONFIG.CREDIT_RESERVATION_SWEEP_INTERVAL_MS): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => {
+      this.releaseExpiredReservations().catch(error => {
+        console.error('Credit reservation sweep failed:', error);
+      });
+    }, intervalMs);
+  }
+
+  stopReservationSweeper(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  /**
+   * Total credits currently held by in-flight reservations
+   */
+  async getHeldCredits(userId: string): Promise<number> {
+    const result = await prisma.creditReservation.aggregate({
+      where: { userId, status: ReservationStatus.HELD },
+      _sum: { amount: true }
+    });
+    return result._sum.amount ?? 0;
+  }
+
   /**
    * Add credits to user account
    */
@@ -131,6 +508,7 @@ export class CreditService {
         return { success: true, newBalance: updatedUser.credits };
       });
 
+      this.emitBalanceChange({ userId, balance: result.newBalance, amount, type, apiEndpoint: null });
       return result;
     } catch (error) {
       console.error('Error adding credits:', error);
@@ -177,6 +555,28 @@ export class CreditService {
 
     return costs;
   }
+
+  /**
+   * Listener errors must not fail the credit operation that already committed
+   */
+  private emitBalanceChange(change: CreditBalanceChange): void {
+    try {
+      this.emit('balance_changed', change);
+    } catch (error) {
+      console.error(`Error in balance change listener for user ${change.userId}:`, error);
+    }
+  }
+
+  private async getBalanceWith(
+    tx: Prisma.TransactionClient | PrismaClient,
+    userId: string
+  ): Promise<number> {
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      select: { credits: true }
+    });
+    return user?.credits ?? 0;
+  }
 }
 
 export const creditService = new CreditService();
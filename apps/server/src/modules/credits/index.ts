@@ -1,8 +1,12 @@
 /**
  * Credits Module
- * Exports credit service, middleware, and routes
+ * Exports credit and quota services, middleware, and routes
  */
 
-export { creditService, CreditService } from './credits.service';
-export { checkCredits } from './credits.middleware';
+export { creditService, CreditService, InsufficientCreditsError } from './credits.service';
+export type { CreditBalanceChange, CreditReservationResult, ReserveCreditsOptions } from './credits.service';
+export { quotaService, QuotaService, QuotaExceededError, TIER_LIMITS } from './quota.service';
+export type { QuotaStatus, TierLimits } from './quota.service';
+export { checkCredits, transferCreditReservation } from './credits.middleware';
+export type { RequestCreditReservation, CheckCreditsOptions } from './credits.middleware';
 export { default as creditsRouter } from './credits.routes';
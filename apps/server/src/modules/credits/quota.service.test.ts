@@ -0,0 +1,114 @@
+import { PrismaClient, SubscriptionTier } from '@prisma/client';
+import type { MemoryPrismaClient, Row } from '../../../__mocks__/@prisma/client';
+import { QuotaExceededError, QuotaService } from './quota.service';
+
+const prisma = new PrismaClient();
+const db = prisma as unknown as MemoryPrismaClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2025-10-15T18:30:00Z');
+
+const user = (): Row => db.rows('user').find(row => row['id'] === 'user-1')!;
+
+describe('QuotaService', () => {
+  const service = new QuotaService();
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    db.reset();
+    db.seed('user', { id: 'user-1', lastResetDate: new Date('2025-10-15T00:05:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('resets on the UTC day boundary', () => {
+    expect(service.getDayStart(new Date('2025-10-15T23:59:59Z'))).toEqual(new Date('2025-10-15T00:00:00Z'));
+    expect(service.getNextResetAt(new Date('2025-10-15T00:00:00Z'))).toEqual(new Date('2025-10-16T00:00:00Z'));
+    expect(service.getNextResetAt(new Date('2025-12-31T12:00:00Z'))).toEqual(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  it('counts free generations first and paid ones after', async () => {
+    expect(await service.consume(prisma, 'user-1', 2)).toEqual({ freeUnits: 2 });
+    expect(await service.consume(prisma, 'user-1', 2)).toEqual({ freeUnits: 1 });
+    expect(await service.consume(prisma, 'user-1', 1)).toEqual({ freeUnits: 0 });
+    expect(user()['dailyUsed']).toBe(5);
+  });
+
+  it('uses a per-user quota above the tier allowance', async () => {
+    user()['dailyQuota'] = 5;
+
+    expect(await service.consume(prisma, 'user-1', 5)).toEqual({ freeUnits: 5 });
+  });
+
+  it('refuses generations past the tier limit', async () => {
+    user()['dailyUsed'] = 19;
+
+    const error = await service.consume(prisma, 'user-1', 2).catch(e => e);
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error).toMatchObject({ limit: 20, used: 19, resetAt: new Date('2025-10-16T00:00:00Z') });
+    expect(user()['dailyUsed']).toBe(19);
+  });
+
+  it('applies the limits of the subscription tier', async () => {
+    Object.assign(user(), { subscriptionTier: SubscriptionTier.PRO, dailyUsed: 20 });
+
+    expect(await service.consume(prisma, 'user-1', 10)).toEqual({ freeUnits: 10 });
+  });
+
+  it('starts a new day with an empty counter', async () => {
+    Object.assign(user(), { dailyUsed: 20, lastResetDate: new Date('2025-10-14T23:59:00Z') });
+
+    expect(await service.consume(prisma, 'user-1', 1)).toEqual({ freeUnits: 1 });
+    expect(user()['dailyUsed']).toBe(1);
+    expect(user()['lastResetDate']).toEqual(NOW);
+  });
+
+  it('does not reset twice on the same day', async () => {
+    await service.resetIfNewDay(prisma, 'user-1');
+    user()['dailyUsed'] = 4;
+
+    jest.setSystemTime(new Date(NOW.getTime() + 60 * 60 * 1000));
+    await service.resetIfNewDay(prisma, 'user-1');
+
+    expect(user()['dailyUsed']).toBe(4);
+  });
+
+  it('reports the reset quota once the day has changed', async () => {
+    Object.assign(user(), { dailyUsed: 7 });
+    jest.setSystemTime(new Date(NOW.getTime() + DAY_MS));
+
+    const status = await service.getQuotaStatus('user-1');
+
+    expect(status).toEqual({
+      tier: SubscriptionTier.FREE,
+      dailyLimit: 20,
+      dailyUsed: 0,
+      remaining: 20,
+      freeDailyGenerations: 3,
+      freeRemaining: 3,
+      resetAt: new Date('2025-10-17T00:00:00Z')
+    });
+  });
+
+  it('gives back units consumed today', async () => {
+    await service.consume(prisma, 'user-1', 3);
+
+    await service.restore(prisma, 'user-1', 2, new Date());
+
+    expect(user()['dailyUsed']).toBe(1);
+  });
+
+  it('does not give back units consumed before the last reset', async () => {
+    const consumedAt = new Date();
+    await service.consume(prisma, 'user-1', 3);
+
+    jest.setSystemTime(new Date(NOW.getTime() + DAY_MS));
+    await service.consume(prisma, 'user-1', 1);
+    await service.restore(prisma, 'user-1', 3, consumedAt);
+
+    expect(user()['dailyUsed']).toBe(1);
+  });
+});
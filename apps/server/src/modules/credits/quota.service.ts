@@ -0,0 +1,165 @@
+/**
+ * Quota Service
+ * Daily generation quotas per subscription tier, reset on the UTC day boundary
+ */
+
+import { PrismaClient, Prisma, SubscriptionTier } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+type PrismaTx = Prisma.TransactionClient | PrismaClient;
+
+export interface TierLimits {
+  /** Generations per UTC day that do not cost credits */
+  freeDailyGenerations: number;
+  /** Hard cap on generations per UTC day, paid or free */
+  maxDailyGenerations: number;
+}
+
+export const TIER_LIMITS: Record<SubscriptionTier, TierLimits> = {
+  FREE: { freeDailyGenerations: 3, maxDailyGenerations: 20 },
+  PREMIUM: { freeDailyGenerations: 10, maxDailyGenerations: 100 },
+  PRO: { freeDailyGenerations: 30, maxDailyGenerations: 500 }
+};
+
+/**
+ * Thrown when a generation would exceed the user's daily tier limit
+ */
+export class QuotaExceededError extends Error {
+  public limit: number;
+  public used: number;
+  public resetAt: Date;
+
+  constructor(limit: number, used: number, resetAt: Date) {
+    super(`Daily generation limit reached (${used}/${limit}). Quota resets at ${resetAt.toISOString()}`);
+    this.name = 'QuotaExceededError';
+    this.limit = limit;
+    this.used = used;
+    this.resetAt = resetAt;
+  }
+}
+
+export interface QuotaStatus {
+  tier: SubscriptionTier;
+  dailyLimit: number;
+  dailyUsed: number;
+  remaining: number;
+  freeDailyGenerations: number;
+  freeRemaining: number;
+  resetAt: Date;
+}
+
+export class QuotaService {
+  /**
+   * Limits for a subscription tier
+   */
+  getTierLimits(tier: SubscriptionTier): TierLimits {
+    return TIER_LIMITS[tier] ?? TIER_LIMITS.FREE;
+  }
+
+  /**
+   * Start of the current UTC day
+   */
+  getDayStart(now: Date = new Date()): Date {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  }
+
+  /**
+   * When the daily counter resets next (start of the next UTC day)
+   */
+  getNextResetAt(now: Date = new Date()): Date {
+    const dayStart = this.getDayStart(now);
+    return new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Zero dailyUsed if the last reset happened before today (UTC)
+   */
+  async resetIfNewDay(tx: PrismaTx, userId: string): Promise<void> {
+    await tx.user.updateMany({
+      where: { id: userId, lastResetDate: { lt: this.getDayStart() } },
+      data: { dailyUsed: 0, lastResetDate: new Date() }
+    });
+  }
+
+  /**
+   * Current quota usage for a user
+   */
+  async getQuotaStatus(userId: string): Promise<QuotaStatus> {
+    await this.resetIfNewDay(prisma, userId);
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { subscriptionTier: true, dailyQuota: true, dailyUsed: true }
+    });
+
+    const limits = this.getTierLimits(user.subscriptionTier);
+    const freeAllowance = Math.max(user.dailyQuota, limits.freeDailyGenerations);
+
+    return {
+      tier: user.subscriptionTier,
+      dailyLimit: limits.maxDailyGenerations,
+      dailyUsed: user.dailyUsed,
+      remaining: Math.max(0, limits.maxDailyGenerations - user.dailyUsed),
+      freeDailyGenerations: freeAllowance,
+      freeRemaining: Math.max(0, freeAllowance - user.dailyUsed),
+      resetAt: this.getNextResetAt()
+    };
+  }
+
+  /**
+   * Count generations against today's quota inside a transaction.
+   * Returns how many of the units fall within the free daily allowance.
+   */
+  async consume(tx: PrismaTx, userId: string, units: number): Promise<{ freeUnits: number }> {
+    await this.resetIfNewDay(tx, userId);
+
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      select: { subscriptionTier: true, dailyQuota: true, dailyUsed: true }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const limits = this.getTierLimits(user.subscriptionTier);
+
+    // Conditional increment so concurrent requests cannot exceed the limit
+    const counted = await tx.user.updateMany({
+      where: { id: userId, dailyUsed: { lte: limits.maxDailyGenerations - units } },
+      data: { dailyUsed: { increment: units } }
+    });
+
+    if (counted.count === 0) {
+      throw new QuotaExceededError(limits.maxDailyGenerations, user.dailyUsed, this.getNextResetAt());
+    }
+
+    // Re-read after the increment; the row stays locked until the transaction ends
+    const updated = await tx.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { dailyUsed: true }
+    });
+
+    const usedBefore = updated.dailyUsed - units;
+    const freeAllowance = Math.max(user.dailyQuota, limits.freeDailyGenerations);
+
+    return {
+      freeUnits: Math.max(0, Math.min(units, freeAllowance - usedBefore))
+    };
+  }
+
+  /**
+   * Give back units consumed at `consumedAt`, unless the counter has been reset since
+   */
+  async restore(tx: PrismaTx, userId: string, units: number, consumedAt: Date): Promise<void> {
+    if (units <= 0) return;
+
+    await tx.user.updateMany({
+      where: { id: userId, lastResetDate: { lte: consumedAt }, dailyUsed: { gte: units } },
+      data: { dailyUsed: { decrement: units } }
+    });
+  }
+}
+
+export const quotaService = new QuotaService();
@@ -0,0 +1,246 @@
+/**
+ * Gallery Routes
+ * Public access to shared characters and their remix lineage; a signed-in viewer is recognised but not
+ * required. Likes, favorites and the user's favorite lists need authentication.
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAuth, optionalAuth } from '../../middleware/requireAuth';
+import { validateQueryParams, QueryValidators } from '../../middleware/validation';
+import { GallerySort, GALLERY_SORTS } from '../../types/gallery';
+import { galleryService, GalleryError } from './gallery.service';
+import { reactionService, ReactionKind } from './reactions.service';
+
+const router = Router();
+
+const REACTION_KINDS: ReactionKind[] = ['like', 'favorite'];
+
+/**
+ * Paginated list response in the shape used across the API
+ */
+function sendPage(res: Response, items: unknown[], total: number, page: number, limit: number): Response {
+  return res.json({
+    success: true,
+    data: {
+      items,
+      pagination: {
+        currentPage: page,
+        itemsPerPage: limit,
+        totalItems: total,
+        totalPages: Math.ceil(total / limit),
+        hasNextPage: page * limit < total,
+        hasPreviousPage: page > 1
+      }
+    },
+    meta: {
+      timestamp: new Date().toISOString()
+    }
+  });
+}
+
+/**
+ * Send a GalleryError with its own status, anything else as a 500
+ */
+function sendError(res: Response, error: any, fallbackMessage: string): Response {
+  if (error instanceof GalleryError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        ...(error.details && { details: error.details })
+      }
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage
+    }
+  });
+}
+
+/**
+ * GET /api/v1/gallery
+ * Public characters of all users. ?sort=newest (default) | most-liked, ?tags=a,b (any of them), ?query= text
+ */
+router.get('/', optionalAuth, validateQueryParams(QueryValidators.validatePagination), async (req: Request, res: Response): Promise<any> => {
+  try {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+    const sort = typeof req.query.sort === 'string' ? req.query.sort : 'newest';
+
+    if (!GALLERY_SORTS.includes(sort as GallerySort)) {
+      throw new GalleryError('VALIDATION_ERROR', `sort must be one of ${GALLERY_SORTS.join(', ')}`);
+    }
+
+    const tags = typeof req.query.tags === 'string'
+      ? req.query.tags.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)
+      : [];
+
+    const { items, total } = await galleryService.listPublicCharacters({
+      page,
+      limit,
+      sort: sort as GallerySort,
+      tags,
+      query: typeof req.query.query === 'string' ? req.query.query.trim() : undefined
+    }, req.user?.id);
+
+    sendPage(res, items, total, page, limit);
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch gallery');
+  }
+});
+
+/**
+ * GET /api/v1/gallery/characters/:id
+ * A public character; the owner can also preview it while it is private or unlisted
+ */
+router.get('/characters/:id', optionalAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const character = await galleryService.getPublicCharacter(req.params.id!, req.user?.id);
+
+    res.json({
+      success: true,
+      data: character
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch character');
+  }
+});
+
+/**
+ * GET /api/v1/gallery/characters/:id/lineage
+ * The character with the originals it was remixed from, nearest first, and its number of remixes
+ */
+router.get('/characters/:id/lineage', optionalAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const lineage = await galleryService.getLineage(req.params.id!, req.user?.id);
+
+    res.json({
+      success: true,
+      data: lineage
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch character lineage');
+  }
+});
+
+/**
+ * GET /api/v1/gallery/characters/:id/remixes
+ * Public remixes of the character (and the viewer's own), newest first
+ */
+router.get('/characters/:id/remixes', optionalAuth, validateQueryParams(QueryValidators.validatePagination), async (req: Request, res: Response): Promise<any> => {
+  try {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+
+    const { items, total } = await galleryService.listRemixes(req.params.id!, { page, limit }, req.user?.id);
+
+    sendPage(res, items, total, page, limit);
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch remixes');
+  }
+});
+
+/**
+ * PUT|DELETE /api/v1/gallery/characters/:id/like
+ * PUT|DELETE /api/v1/gallery/characters/:id/favorite
+ * PUT|DELETE /api/v1/gallery/variants/:id/like
+ * PUT|DELETE /api/v1/gallery/variants/:id/favorite
+ * Add or remove the user's reaction on a public, unlisted or own character or variant; both are idempotent
+ * and return the resulting ReactionState
+ */
+for (const kind of REACTION_KINDS) {
+  router.put(`/characters/:id/${kind}`, requireAuth, async (req: Request, res: Response): Promise<any> => {
+    try {
+      const state = await reactionService.addCharacterReaction(req.params.id!, req.user!.id, kind);
+      res.json({ success: true, data: state });
+    } catch (error) {
+      sendError(res, error, `Failed to ${kind} character`);
+    }
+  });
+
+  router.delete(`/characters/:id/${kind}`, requireAuth, async (req: Request, res: Response): Promise<any> => {
+    try {
+      const state = await reactionService.removeCharacterReaction(req.params.id!, req.user!.id, kind);
+      res.json({ success: true, data: state });
+    } catch (error) {
+      sendError(res, error, `Failed to remove character ${kind}`);
+    }
+  });
+
+  router.put(`/variants/:id/${kind}`, requireAuth, async (req: Request, res: Response): Promise<any> => {
+    try {
+      const state = await reactionService.addVariantReaction(req.params.id!, req.user!.id, kind);
+      res.json({ success: true, data: state });
+    } catch (error) {
+      sendError(res, error, `Failed to ${kind} variant`);
+    }
+  });
+
+  router.delete(`/variants/:id/${kind}`, requireAuth, async (req: Request, res: Response): Promise<any> => {
+    try {
+      const state = await reactionService.removeVariantReaction(req.params.id!, req.user!.id, kind);
+      res.json({ success: true, data: state });
+    } catch (error) {
+      sendError(res, error, `Failed to remove variant ${kind}`);
+    }
+  });
+}
+
+/**
+ * GET /api/v1/gallery/favorites
+ * The user's favorite characters, most recently favorited first
+ */
+router.get('/favorites', requireAuth, validateQueryParams(QueryValidators.validatePagination), async (req: Request, res: Response): Promise<any> => {
+  try {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+
+    const { items, total } = await reactionService.listFavoriteCharacters(req.user!.id, { page, limit });
+
+    sendPage(res, items, total, page, limit);
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch favorite characters');
+  }
+});
+
+/**
+ * GET /api/v1/gallery/favorites/variants
+ * The user's favorite variants, most recently favorited first
+ */
+router.get('/favorites/variants', requireAuth, validateQueryParams(QueryValidators.validatePagination), async (req: Request, res: Response): Promise<any> => {
+  try {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+
+    const { items, total } = await reactionService.listFavoriteVariants(req.user!.id, { page, limit });
+
+    sendPage(res, items, total, page, limit);
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch favorite variants');
+  }
+});
+
+/**
+ * GET /api/v1/gallery/shared/:token
+ * The character behind a share link (unlisted or public)
+ */
+router.get('/shared/:token', optionalAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const character = await galleryService.getSharedCharacter(req.params.token!, req.user?.id);
+
+    res.json({
+      success: true,
+      data: character
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch shared character');
+  }
+});
+
+export default router;
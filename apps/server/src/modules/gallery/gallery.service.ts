@@ -0,0 +1,412 @@
+/**
+ * Gallery Service
+ * Character visibility, share links and the public read paths: the community gallery and shared characters
+ */
+
+import crypto from 'crypto';
+import { PrismaClient, Prisma, CharacterVisibility } from '@prisma/client';
+import { CharacterAttributes, PhysicalTraits } from '../../types/character';
+import { CharacterLineage, GallerySort, PublicCharacter } from '../../types/gallery';
+
+const prisma = new PrismaClient();
+
+// Public path of a share link; the token is the only secret
+const SHARE_PATH = '/api/v1/gallery/shared';
+
+/**
+ * Error with an API error code and HTTP status, thrown for invalid gallery and sharing operations
+ */
+export class GalleryError extends Error {
+  public code: string;
+  public statusCode: number;
+  public details?: any;
+
+  constructor(code: string, message: string, statusCode: number = 400, details?: any) {
+    super(message);
+    this.name = 'GalleryError';
+    this.code = code;
+    this.statusCode = statusCode;
+    this.details = details;
+  }
+}
+
+// Only fields that are safe to show to other users
+const PUBLIC_CHARACTER_SELECT = {
+  id: true,
+  userId: true,
+  name: true,
+  description: true,
+  imageUrl: true,
+  thumbnailUrl: true,
+  age: true,
+  gender: true,
+  occupation: true,
+  personality: true,
+  physicalTraits: true,
+  clothing: true,
+  background: true,
+  likeCount: true,
+  remixedFromId: true,
+  publishedAt: true,
+  createdAt: true,
+  user: { select: { id: true, name: true } },
+  tags: { select: { name: true }, orderBy: { name: 'asc' as const } },
+  _count: { select: { favorites: true, remixes: true } }
+};
+
+// Remixes of a remix are followed at most this far back
+const MAX_LINEAGE_DEPTH = 20;
+
+/**
+ * Public fields plus whether the viewer liked or favorited the character (never matches for anonymous viewers)
+ */
+export function publicCharacterSelect(viewerId?: string) {
+  const viewerReaction = {
+    where: { userId: viewerId ?? '' },
+    select: { id: true },
+    take: viewerId ? 1 : 0
+  };
+  return { ...PUBLIC_CHARACTER_SELECT, likes: viewerReaction, favorites: viewerReaction };
+}
+
+type PublicCharacterRecord = Prisma.CharacterGetPayload<{ select: ReturnType<typeof publicCharacterSelect> }>;
+
+export interface ListGalleryOptions {
+  page?: number;
+  limit?: number;
+  sort?: GallerySort;
+  /** Characters with at least one of the tags */
+  tags?: string[];
+  /** Text matched against name and description */
+  query?: string;
+}
+
+export interface CharacterSharing {
+  visibility: CharacterVisibility;
+  shareUrl?: string;
+  publishedAt?: string;
+}
+
+/**
+ * Share link of a character that has a share token
+ */
+export function shareUrl(shareToken: string): string {
+  return `${SHARE_PATH}/${shareToken}`;
+}
+
+/**
+ * Secret part of a share link
+ */
+export function generateShareToken(): string {
+  return crypto.randomBytes(18).toString('base64url');
+}
+
+/**
+ * Characters the viewer may read by id: public ones and their own
+ */
+export function visibleToViewer(viewerId?: string): Prisma.CharacterWhereInput {
+  return {
+    OR: [
+      { visibility: CharacterVisibility.PUBLIC },
+      ...(viewerId ? [{ userId: viewerId }] : [])
+    ]
+  };
+}
+
+/**
+ * Characters the viewer may like, favorite or remix: also unlisted ones, whose id comes from a share link
+ */
+export function sharedWithViewer(viewerId: string): Prisma.CharacterWhereInput {
+  return {
+    OR: [
+      { visibility: { not: CharacterVisibility.PRIVATE } },
+      { userId: viewerId }
+    ]
+  };
+}
+
+export function toPublicCharacter(character: PublicCharacterRecord, viewerId?: string): PublicCharacter {
+  const attributes: CharacterAttributes = {
+    age: character.age,
+    gender: character.gender,
+    occupation: character.occupation,
+    personality: character.personality,
+    physicalTraits: character.physicalTraits as PhysicalTraits | null,
+    clothing: character.clothing,
+    background: character.background
+  };
+
+  return {
+    id: character.id,
+    name: character.name || 'Unnamed Character',
+    description: character.description || 'No description available',
+    imageUrl: character.imageUrl ?? undefined,
+    thumbnailUrl: character.thumbnailUrl ?? undefined,
+    ...attributes,
+    tags: character.tags.map(tag => tag.name),
+    likeCount: character.likeCount,
+    favoriteCount: character._count.favorites,
+    remixCount: character._count.remixes,
+    ...(character.remixedFromId && { remixedFromId: character.remixedFromId }),
+    author: {
+      id: character.user.id,
+      name: character.user.name ?? undefined
+    },
+    isOwner: character.userId === viewerId,
+    isLiked: character.likes.length > 0,
+    isFavorite: character.favorites.length > 0,
+    publishedAt: character.publishedAt?.toISOString(),
+    createdAt: character.createdAt.toISOString()
+  };
+}
+
+export class GalleryService {
+  /**
+   * Public characters of all users; newest by publication date or most liked first
+   */
+  async listPublicCharacters(
+    options: ListGalleryOptions = {},
+    viewerId?: string
+  ): Promise<{ items: PublicCharacter[]; total: number }> {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? 20;
+
+    const and: Prisma.CharacterWhereInput[] = [{ visibility: CharacterVisibility.PUBLIC }];
+    if (options.tags && options.tags.length > 0) {
+      and.push({ tags: { some: { name: { in: options.tags } } } });
+    }
+    for (const term of (options.query ?? '').split(/\s+/).filter(Boolean).slice(0, 10)) {
+      and.push({
+        OR: [
+          { name: { contains: term, mode: 'insensitive' } },
+          { description: { contains: term, mode: 'insensitive' } }
+        ]
+      });
+    }
+    const where: Prisma.CharacterWhereInput = { AND: and };
+
+    // id as tie-breaker keeps pages stable when sort values repeat
+    const orderBy: Prisma.CharacterOrderByWithRelationInput[] = options.sort === 'most-liked'
+      ? [{ likeCount: 'desc' }, { publishedAt: 'desc' }, { id: 'desc' }]
+      : [{ publishedAt: 'desc' }, { id: 'desc' }];
+
+    const [characters, total] = await Promise.all([
+      prisma.character.findMany({
+        where,
+        orderBy,
+        skip: (page - 1) * limit,
+        take: limit,
+        select: publicCharacterSelect(viewerId)
+      }),
+      prisma.character.count({ where })
+    ]);
+
+    return { items: characters.map(character => toPublicCharacter(character, viewerId)), total };
+  }
+
+  /**
+   * A public character; owners can also preview their unlisted and private characters here.
+   * Unlisted characters are otherwise only reachable through their share link.
+   */
+  async getPublicCharacter(characterId: string, viewerId?: string): Promise<PublicCharacter> {
+    const character = await prisma.character.findFirst({
+      where: { id: characterId, ...visibleToViewer(viewerId) },
+      select: publicCharacterSelect(viewerId)
+    });
+
+    if (!character) {
+      throw new GalleryError('NOT_FOUND', 'Character not found', 404);
+    }
+
+    return toPublicCharacter(character, viewerId);
+  }
+
+  /**
+   * The character behind a share link; links stop working when the character is made private
+   */
+  async getSharedCharacter(shareToken: string, viewerId?: string): Promise<PublicCharacter> {
+    const character = await prisma.character.findFirst({
+      where: {
+        shareToken,
+        visibility: { in: [CharacterVisibility.UNLISTED, CharacterVisibility.PUBLIC] }
+      },
+      select: publicCharacterSelect(viewerId)
+    });
+
+    if (!character) {
+      throw new GalleryError('NOT_FOUND', 'Shared character not found', 404);
+    }
+
+    return toPublicCharacter(character, viewerId);
+  }
+
+  /**
+   * Change who can read the character. Sharing creates a link, making it private revokes the link,
+   * and the publication date is reset whenever the character becomes PUBLIC again.
+   */
+  async setVisibility(characterId: string, userId: string, visibility: CharacterVisibility): Promise<CharacterSharing> {
+    const character = await prisma.character.findFirst({
+      where: { id: characterId, userId },
+      select: { visibility: true, shareToken: true, publishedAt: true }
+    });
+
+    if (!character) {
+      throw new GalleryError('NOT_FOUND', 'Character not found', 404);
+    }
+
+    const shareToken = visibility === CharacterVisibility.PRIVATE
+      ? null
+      : character.shareToken ?? generateShareToken();
+    const publishedAt = visibility !== CharacterVisibility.PUBLIC
+      ? null
+      : character.visibility === CharacterVisibility.PUBLIC ? character.publishedAt : new Date();
+
+    const updated = await prisma.character.update({
+      where: { id: characterId },
+      data: { visibility, shareToken, publishedAt },
+      select: { visibility: true, shareToken: true, publishedAt: true }
+    });
+
+    return this.toSharing(updated);
+  }
+
+  /**
+   * Replace the share link of a shared character; the previous link stops working
+   */
+  async rotateShareLink(characterId: string, userId: string): Promise<CharacterSharing> {
+    const character = await prisma.character.findFirst({
+      where: { id: characterId, userId },
+      select: { visibility: true }
+    });
+
+    if (!character) {
+      throw new GalleryError('NOT_FOUND', 'Character not found', 404);
+    }
+
+    if (character.visibility === CharacterVisibility.PRIVATE) {
+      throw new GalleryError('CHARACTER_PRIVATE', 'Private characters have no share link; make the character unlisted or public first', 409);
+    }
+
+    const updated = await prisma.character.update({
+      where: { id: characterId },
+      data: { shareToken: generateShareToken() },
+      select: { visibility: true, shareToken: true, publishedAt: true }
+    });
+
+    return this.toSharing(updated);
+  }
+
+  /**
+   * Copy the prompt, character sheet and tags of a shared (unlisted or public) or own character into the
+   * user's library as a new private character without images; the copy records where it came from
+   */
+  async remixCharacter(characterId: string, userId: string) {
+    const source = await prisma.character.findFirst({
+      where: { id: characterId, ...sharedWithViewer(userId) },
+      include: { tags: { select: { name: true } } }
+    });
+
+    if (!source) {
+      throw new GalleryError('NOT_FOUND', 'Character not found', 404);
+    }
+
+    return prisma.character.create({
+      data: {
+        userId,
+        name: source.name,
+        description: source.description,
+        prompt: source.prompt,
+        age: source.age,
+        gender: source.gender,
+        occupation: source.occupation,
+        personality: source.personality,
+        physicalTraits: source.physicalTraits ?? Prisma.DbNull,
+        clothing: source.clothing,
+        background: source.background,
+        remixedFromId: source.id,
+        tags: { connect: source.tags.map(tag => ({ name: tag.name })) }
+      },
+      include: {
+        tags: { select: { name: true }, orderBy: { name: 'asc' } }
+      }
+    });
+  }
+
+  /**
+   * The characters a character was remixed from, nearest first, as far back as the viewer can see them
+   */
+  async getLineage(characterId: string, viewerId?: string): Promise<CharacterLineage> {
+    const record = await prisma.character.findFirst({
+      where: { id: characterId, ...visibleToViewer(viewerId) },
+      select: publicCharacterSelect(viewerId)
+    });
+
+    if (!record) {
+      throw new GalleryError('NOT_FOUND', 'Character not found', 404);
+    }
+
+    const ancestors: PublicCharacter[] = [];
+    const seen = new Set([record.id]);
+    let parentId = record.remixedFromId;
+
+    while (parentId && !seen.has(parentId) && ancestors.length < MAX_LINEAGE_DEPTH) {
+      seen.add(parentId);
+      const parent = await prisma.character.findFirst({
+        where: { id: parentId, ...visibleToViewer(viewerId) },
+        select: publicCharacterSelect(viewerId)
+      });
+      if (!parent) break;
+
+      ancestors.push(toPublicCharacter(parent, viewerId));
+      parentId = parent.remixedFromId;
+    }
+
+    const character = toPublicCharacter(record, viewerId);
+    return { character, ancestors, remixCount: character.remixCount };
+  }
+
+  /**
+   * Direct remixes of a character that the viewer can see, newest first
+   */
+  async listRemixes(
+    characterId: string,
+    options: { page?: number; limit?: number } = {},
+    viewerId?: string
+  ): Promise<{ items: PublicCharacter[]; total: number }> {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? 20;
+
+    const original = await prisma.character.findFirst({
+      where: { id: characterId, ...visibleToViewer(viewerId) },
+      select: { id: true }
+    });
+
+    if (!original) {
+      throw new GalleryError('NOT_FOUND', 'Character not found', 404);
+    }
+
+    const where: Prisma.CharacterWhereInput = { remixedFromId: characterId, ...visibleToViewer(viewerId) };
+    const [remixes, total] = await Promise.all([
+      prisma.character.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+        select: publicCharacterSelect(viewerId)
+      }),
+      prisma.character.count({ where })
+    ]);
+
+    return { items: remixes.map(remix => toPublicCharacter(remix, viewerId)), total };
+  }
+
+  private toSharing(character: { visibility: CharacterVisibility; shareToken: string | null; publishedAt: Date | null }): CharacterSharing {
+    return {
+      visibility: character.visibility,
+      ...(character.shareToken && { shareUrl: shareUrl(character.shareToken) }),
+      ...(character.publishedAt && { publishedAt: character.publishedAt.toISOString() })
+    };
+  }
+}
+
+export const galleryService = new GalleryService();
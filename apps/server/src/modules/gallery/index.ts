@@ -0,0 +1,10 @@
+/**
+ * Gallery Module
+ * Exports the gallery and reaction services and the gallery routes
+ */
+
+export { galleryService, GalleryService, GalleryError, shareUrl } from './gallery.service';
+export type { CharacterSharing, ListGalleryOptions } from './gallery.service';
+export { reactionService, ReactionService } from './reactions.service';
+export type { FavoriteVariant, ListFavoritesOptions, ReactionKind } from './reactions.service';
+export { default as galleryRouter } from './gallery.routes';
@@ -0,0 +1,225 @@
+/**
+ * Reaction Service
+ * Likes and favorites on characters and variants. Likes are public counts; favorites are the user's bookmarks.
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { CharacterVariant } from '../../../../../shared/types/theme';
+import { PublicCharacter, ReactionState } from '../../types/gallery';
+import { GalleryError, publicCharacterSelect, sharedWithViewer, toPublicCharacter } from './gallery.service';
+
+const prisma = new PrismaClient();
+
+export type ReactionKind = 'like' | 'favorite';
+
+export interface FavoriteVariant extends CharacterVariant {
+  characterId: string;
+}
+
+export interface ListFavoritesOptions {
+  page?: number;
+  limit?: number;
+}
+
+export class ReactionService {
+  /**
+   * Like or favorite a character the user can see; repeating it has no effect
+   */
+  async addCharacterReaction(characterId: string, userId: string, kind: ReactionKind): Promise<ReactionState> {
+    await this.assertCharacterShared(characterId, userId);
+
+    await prisma.$transaction(async (tx) => {
+      if (kind === 'favorite') {
+        await tx.characterFavorite.createMany({ data: [{ userId, characterId }], skipDuplicates: true });
+        return;
+      }
+
+      const created = await tx.characterLike.createMany({ data: [{ userId, characterId }], skipDuplicates: true });
+      if (created.count > 0) {
+        await tx.character.update({ where: { id: characterId }, data: { likeCount: { increment: 1 } } });
+      }
+    });
+
+    return this.getCharacterState(characterId, userId);
+  }
+
+  /**
+   * Remove the user's like or favorite; removing one that does not exist has no effect
+   */
+  async removeCharacterReaction(characterId: string, userId: string, kind: ReactionKind): Promise<ReactionState> {
+    await this.assertCharacterShared(characterId, userId);
+
+    await prisma.$transaction(async (tx) => {
+      if (kind === 'favorite') {
+        await tx.characterFavorite.deleteMany({ where: { userId, characterId } });
+        return;
+      }
+
+      const deleted = await tx.characterLike.deleteMany({ where: { userId, characterId } });
+      if (deleted.count > 0) {
+        await tx.character.update({ where: { id: characterId }, data: { likeCount: { decrement: 1 } } });
+      }
+    });
+
+    return this.getCharacterState(characterId, userId);
+  }
+
+  /**
+   * Like or favorite a variant of a character the user can see
+   */
+  async addVariantReaction(variantId: string, userId: string, kind: ReactionKind): Promise<ReactionState> {
+    await this.assertVariantShared(variantId, userId);
+
+    const data = [{ userId, variantId }];
+    if (kind === 'favorite') {
+      await prisma.variantFavorite.createMany({ data, skipDuplicates: true });
+    } else {
+      await prisma.variantLike.createMany({ data, skipDuplicates: true });
+    }
+
+    return this.getVariantState(variantId, userId);
+  }
+
+  async removeVariantReaction(variantId: string, userId: string, kind: ReactionKind): Promise<ReactionState> {
+    await this.assertVariantShared(variantId, userId);
+
+    if (kind === 'favorite') {
+      await prisma.variantFavorite.deleteMany({ where: { userId, variantId } });
+    } else {
+      await prisma.variantLike.deleteMany({ where: { userId, variantId } });
+    }
+
+    return this.getVariantState(variantId, userId);
+  }
+
+  /**
+   * The user's favorite characters, most recently favorited first; characters made private by
+   * their owner since are left out
+   */
+  async listFavoriteCharacters(userId: string, options: ListFavoritesOptions = {}): Promise<{ items: PublicCharacter[]; total: number }> {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? 20;
+    const where: Prisma.CharacterFavoriteWhereInput = { userId, character: sharedWithViewer(userId) };
+
+    const [favorites, total] = await Promise.all([
+      prisma.characterFavorite.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+        select: { character: { select: publicCharacterSelect(userId) } }
+      }),
+      prisma.characterFavorite.count({ where })
+    ]);
+
+    return { items: favorites.map(favorite => toPublicCharacter(favorite.character, userId)), total };
+  }
+
+  /**
+   * The user's favorite variants, most recently favorited first
+   */
+  async listFavoriteVariants(userId: string, options: ListFavoritesOptions = {}): Promise<{ items: FavoriteVariant[]; total: number }> {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? 20;
+    const where: Prisma.VariantFavoriteWhereInput = {
+      userId,
+      variant: { theme: { character: sharedWithViewer(userId) } }
+    };
+
+    const [favorites, total] = await Promise.all([
+      prisma.variantFavorite.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+        select: {
+          variant: {
+            include: {
+              likes: { where: { userId }, select: { id: true } },
+              _count: { select: { likes: true, favorites: true } }
+            }
+          }
+        }
+      }),
+      prisma.variantFavorite.count({ where })
+    ]);
+
+    const items = favorites.map(({ variant }) => ({
+      id: variant.id,
+      themeId: variant.themeId,
+      characterId: variant.characterId,
+      prompt: variant.prompt,
+      imageUrl: variant.imageUrl || '',
+      thumbnailUrl: variant.thumbnailUrl || undefined,
+      isAnchor: variant.isAnchor,
+      likeCount: variant._count.likes,
+      favoriteCount: variant._count.favorites,
+      isLiked: variant.likes.length > 0,
+      isFavorite: true,
+      createdAt: variant.createdAt
+    }));
+
+    return { items, total };
+  }
+
+  private async assertCharacterShared(characterId: string, userId: string): Promise<void> {
+    const character = await prisma.character.findFirst({
+      where: { id: characterId, ...sharedWithViewer(userId) },
+      select: { id: true }
+    });
+
+    if (!character) {
+      throw new GalleryError('NOT_FOUND', 'Character not found', 404);
+    }
+  }
+
+  private async assertVariantShared(variantId: string, userId: string): Promise<void> {
+    const variant = await prisma.themeVariant.findFirst({
+      where: { id: variantId, theme: { character: sharedWithViewer(userId) } },
+      select: { id: true }
+    });
+
+    if (!variant) {
+      throw new GalleryError('NOT_FOUND', 'Variant not found', 404);
+    }
+  }
+
+  private async getCharacterState(characterId: string, userId: string): Promise<ReactionState> {
+    const character = await prisma.character.findUniqueOrThrow({
+      where: { id: characterId },
+      select: {
+        likeCount: true,
+        likes: { where: { userId }, select: { id: true } },
+        favorites: { where: { userId }, select: { id: true } },
+        _count: { select: { favorites: true } }
+      }
+    });
+
+    return {
+      isLiked: character.likes.length > 0,
+      isFavorite: character.favorites.length > 0,
+      likeCount: character.likeCount,
+      favoriteCount: character._count.favorites
+    };
+  }
+
+  private async getVariantState(variantId: string, userId: string): Promise<ReactionState> {
+    const variant = await prisma.themeVariant.findUniqueOrThrow({
+      where: { id: variantId },
+      select: {
+        likes: { where: { userId }, select: { id: true } },
+        favorites: { where: { userId }, select: { id: true } },
+        _count: { select: { likes: true, favorites: true } }
+      }
+    });
+
+    return {
+      isLiked: variant.likes.length > 0,
+      isFavorite: variant.favorites.length > 0,
+      likeCount: variant._count.likes,
+      favoriteCount: variant._count.favorites
+    };
+  }
+}
+
+export const reactionService = new ReactionService();
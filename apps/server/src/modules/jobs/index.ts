@@ -0,0 +1,9 @@
+/**
+ * Jobs Module
+ * Exports the generation job queue, processors, and routes
+ */
+
+export { jobQueue, JobQueueService, JobError, QueueFullError } from './jobs.service';
+export type { JobContext, JobCreditUsage, JobProcessor, JobProcessorOptions, EnqueueJobOptions, JobView } from './jobs.service';
+export { registerGenerationProcessors, JOB_KINDS } from './jobs.processors';
+export { default as jobsRouter } from './jobs.routes';
@@ -0,0 +1,255 @@
+/**
+ * Generation Job Processors
+ * Handlers that the queue worker runs for each job kind
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { getDefaultNanoBananaClient, GenerationRequest } from '../../services/nanoBananaClient';
+import { getDefaultImagePipeline, imageRecordUrls } from '../../services/imagePipeline';
+import { getStorageService } from '../../services/storage';
+import { getDefaultThemeVariantService, loadImageAsBase64 } from '../../services/themeVariantService';
+import { getDefaultSceneGenerationService } from '../../services/sceneGenerationService';
+import { GenerationEvent } from '../../types/generation';
+import { StylePromptFragments } from '../../types/styles';
+import { AspectRatioPreset, ImageQuality } from '../../types/imageFormats';
+import { VariantBatchResult } from '../../../../../shared/types/theme';
+import { QUEUE_CONFIG } from '../../config/env';
+import { moderationService } from '../moderation';
+import { jobQueue, JobError } from './jobs.service';
+
+const prisma = new PrismaClient();
+
+export const JOB_KINDS = {
+  CHARACTER_IMAGE: 'character.generate-image',
+  THEME_VARIANT: 'theme.generate-variant',
+  THEME_VARIANT_BATCH: 'theme.generate-variant-batch',
+  SCENE: 'scene.generate'
+} as const;
+
+/**
+ * Register all generation processors with the queue
+ */
+export function registerGenerationProcessors(): void {
+  jobQueue.registerProcessor(JOB_KINDS.CHARACTER_IMAGE, async (payload, { job, reportProgress, signal }) => {
+    const { prompt, style, stylePreset, aspectRatio, quality, referenceImageUrl, characterId } = payload as {
+      prompt: string;
+      style: string;
+      /** Style preset resolved when the job was queued */
+      stylePreset?: StylePromptFragments | null;
+      aspectRatio?: AspectRatioPreset;
+      quality?: ImageQuality;
+      referenceImageUrl?: string;
+      /** Character the image is stored on once generated (otherwise the client saves it) */
+      characterId?: string;
+    };
+
+    // Reference photo uploaded for the character; the image is derived from it instead of text alone
+    let referenceImage: GenerationRequest['referenceImage'];
+    if (referenceImageUrl) {
+      await reportProgress({ percentage: 5, stage: 'preprocessing', message: 'Loading reference image' });
+
+      const image = await loadImageAsBase64(referenceImageUrl);
+      if (!image) {
+        throw new JobError('REFERENCE_IMAGE_UNAVAILABLE', 'Reference image could not be loaded', false);
+      }
+      referenceImage = image;
+    }
+
+    const generationRequest: GenerationRequest = {
+      type: referenceImage ? 'image-to-image' : 'text-to-image',
+      prompt,
+      aspectRatio,
+      quality,
+      style,
+      stylePreset,
+      referenceImage
+    };
+
+    await reportProgress({ percentage: 10, stage: 'generating', message: 'Generating image' });
+
+    console.log('🎨 Generating image with prompt:', prompt);
+    const generationResult = await getDefaultNanoBananaClient().generateImage(generationRequest);
+
+    if (!generationResult || generationResult.status !== 'completed') {
+      throw new Error(`Image generation failed: ${generationResult?.status || 'unknown status'}`);
+    }
+
+    if (characterId && generationResult.result?.imageUrl) {
+      // The job timed out and its credits were released; nothing may be stored on the character
+      if (signal.aborted) {
+        throw new JobError('ABORTED', 'Image generation was aborted', false);
+      }
+
+      await reportProgress({ percentage: 90, stage: 'uploading', message: 'Saving image to character' });
+
+      const stored = await getDefaultImagePipeline().processAndStore(generationResult.result.imageUrl, { prefix: 'characters' });
+      if (signal.aborted) {
+        await getStorageService().releaseImages([
+          imageRecordUrls({ imageUrl: stored.imageUrl, thumbnailUrl: stored.thumbnailUrl, metadata: { image: stored.metadata } })
+        ]);
+        throw new JobError('ABORTED', 'Image generation was aborted', false);
+      }
+
+      const saved = await prisma.character.updateMany({
+        where: { id: characterId, userId: job.userId },
+        data: {
+          imageUrl: stored.imageUrl,
+          thumbnailUrl: stored.thumbnailUrl,
+          metadata: { image: stored.metadata, generation: generationResult.format } as unknown as Prisma.InputJsonValue
+        }
+      });
+      if (saved.count === 0) {
+        throw new JobError('NOT_FOUND', 'Character was deleted before its image was generated', false);
+      }
+
+      return {
+        imageUrl: stored.imageUrl,
+        thumbnailUrl: stored.thumbnailUrl,
+        prompt,
+        style,
+        generation: generationResult.format,
+        characterId,
+        generationId: generationResult.id
+      };
+    }
+
+    return {
+      imageUrl: generationResult.result?.imageUrl,
+      thumbnailUrl: generationResult.result?.thumbnailUrl,
+      prompt,
+      style,
+      generation: generationResult.format,
+      ...(referenceImageUrl && { referenceImageUrl }),
+      generationId: generationResult.id
+    };
+  });
+
+  jobQueue.registerProcessor(JOB_KINDS.THEME_VARIANT, async (payload, { reportProgress, signal }) => {
+    const { themeId, prompt, metadata, stylePreset } = payload as {
+      themeId: string;
+      prompt: string;
+      metadata?: any;
+      stylePreset?: StylePromptFragments | null;
+    };
+
+    try {
+      return await getDefaultThemeVariantService().generateVariant(
+        { themeId, prompt, metadata, stylePreset },
+        {
+          signal,
+          onProgress: (stage, percentage) => reportProgress({ percentage, stage })
+        }
+      );
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Theme not found') {
+        throw new JobError('NOT_FOUND', 'Theme was deleted before the variant was generated', false);
+      }
+      throw error;
+    }
+  });
+
+  // One job per batch: items are generated with bounded concurrency and failures are reported per item.
+  // The job only fails (and releases every held credit) when no item succeeded; otherwise the failed
+  // items are refunded and the job completes. Batch jobs are never retried, since a second run would
+  // generate the items that already succeeded again.
+  jobQueue.registerProcessor(JOB_KINDS.THEME_VARIANT_BATCH, async (payload, { job, reportProgress, setCreditUsage, signal }) => {
+    const { themeId, prompts, metadata, stylePreset, unitCost } = payload as {
+      themeId: string;
+      prompts: string[];
+      metadata?: any;
+      stylePreset?: StylePromptFragments | null;
+      unitCost: number;
+    };
+
+    const items = await getDefaultThemeVariantService().generateVariantBatch(
+      { themeId, prompts, metadata, stylePreset },
+      {
+        concurrency: QUEUE_CONFIG.batchConcurrency,
+        signal,
+        onItemSettled: async (_item, settled) => {
+          const failed = settled.filter(item => !item.success).length;
+          await reportProgress({
+            percentage: Math.round((settled.length / prompts.length) * 100),
+            stage: 'generating',
+            message: `${settled.length - failed} of ${prompts.length} variants generated${failed > 0 ? `, ${failed} failed` : ''}`
+          }).catch(() => undefined);
+        }
+      }
+    );
+
+    const completedRequests = items.filter(item => item.success).length;
+    const failedRequests = items.length - completedRequests;
+
+    for (const item of items) {
+      if (item.error?.code === 'CONTENT_BLOCKED') {
+        await moderationService.recordProviderBlock(job.userId, item.error.details, {
+          endpoint: JOB_KINDS.THEME_VARIANT_BATCH,
+          jobId: job.id,
+          excerpt: item.prompt
+        });
+      }
+    }
+
+    if (completedRequests === 0) {
+      throw new JobError('BATCH_FAILED', 'No variant in the batch could be generated', false, { items });
+    }
+
+    // Free quota units were applied to the first items when reserving, so refunding the failed
+    // items at full price never charges more than the successful items cost
+    const creditsCharged = Math.max(0, (job.creditCost ?? 0) - failedRequests * unitCost);
+    setCreditUsage({ amount: creditsCharged, quotaUnits: completedRequests });
+
+    const result: VariantBatchResult = {
+      themeId,
+      totalRequests: items.length,
+      completedRequests,
+      failedRequests,
+      creditsCharged,
+      items
+    };
+    return result;
+  }, {
+    // Each round of concurrent items gets the time of one single generation
+    timeoutMs: (payload) => QUEUE_CONFIG.jobTimeoutMs * Math.ceil((payload?.prompts?.length || 1) / QUEUE_CONFIG.batchConcurrency),
+    retryable: false
+  });
+
+  jobQueue.registerProcessor(JOB_KINDS.SCENE, async (payload, { reportProgress, signal }) => {
+    const { generationId } = payload as { generationId: string };
+
+    try {
+      return await getDefaultSceneGenerationService().generateScene(generationId, {
+        signal,
+        onProgress: (stage, percentage) => reportProgress({ percentage, stage })
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Scene generation not found') {
+        throw new JobError('NOT_FOUND', 'Scene was deleted before it was generated', false);
+      }
+      throw error;
+    }
+  });
+
+  // The scene generation record mirrors its job once the job has finally failed or was cancelled
+  const failSceneGeneration = (jobId: string, message: string) => {
+    getDefaultSceneGenerationService().markJobFailed(jobId, message).catch(error => {
+      console.error(`Error updating scene generation for job ${jobId}:`, error);
+    });
+  };
+  jobQueue.on('job_failed', (event: GenerationEvent) => {
+    failSceneGeneration(event.jobId, event.data?.error?.message || 'Generation failed');
+  });
+
+  // Generations refused by the provider's safety filters go to the moderation log
+  jobQueue.on('job_failed', (event: GenerationEvent) => {
+    if (event.userId && event.data?.error?.code === 'CONTENT_BLOCKED') {
+      moderationService.recordProviderBlock(event.userId, event.data.error.details, {
+        endpoint: event.data.kind,
+        jobId: event.jobId
+      }).catch(() => undefined);
+    }
+  });
+  jobQueue.on('job_cancelled', (event: GenerationEvent) => {
+    failSceneGeneration(event.jobId, 'Generation cancelled');
+  });
+}
@@ -0,0 +1,142 @@
+/**
+ * Generation Job Routes
+ * Status polling and cancellation for queued generations
+ */
+
+import { Router, Request, Response } from 'express';
+import { JobStatus } from '@prisma/client';
+import { requireAuth } from '../../middleware/requireAuth';
+import { jobQueue } from './jobs.service';
+
+const router = Router();
+
+/**
+ * GET /api/v1/jobs
+ * List the user's recent generation jobs
+ */
+router.get('/', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const status = typeof req.query.status === 'string' ? req.query.status.toUpperCase() : undefined;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+    if (status && !(status in JobStatus)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Status must be one of: ${Object.keys(JobStatus).map(s => s.toLowerCase()).join(', ')}`
+        }
+      });
+    }
+
+    const jobs = await jobQueue.listJobs(req.user!.id, {
+      status: status as JobStatus | undefined,
+      limit
+    });
+
+    res.json({
+      success: true,
+      data: jobs.map(job => jobQueue.toView(job)),
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error: any) {
+    console.error('Error fetching jobs:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: error.message || 'Failed to fetch jobs'
+      }
+    });
+  }
+});
+
+/**
+ * GET /api/v1/jobs/:id
+ * Get status, progress and result of a generation job
+ */
+router.get('/:id', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const job = await jobQueue.getJob(req.params.id!, req.user!.id);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Job not found'
+        }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: jobQueue.toView(job),
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error: any) {
+    console.error('Error fetching job:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: error.message || 'Failed to fetch job'
+      }
+    });
+  }
+});
+
+/**
+ * DELETE /api/v1/jobs/:id
+ * Cancel a job that has not started yet; its credits are refunded
+ */
+router.delete('/:id', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const existing = await jobQueue.getJob(req.params.id!, req.user!.id);
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Job not found'
+        }
+      });
+    }
+
+    const cancelled = await jobQueue.cancelJob(existing.id, req.user!.id);
+
+    if (!cancelled) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: 'JOB_NOT_CANCELLABLE',
+          message: `Job is already ${existing.status.toLowerCase()} and can no longer be cancelled`
+        }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: jobQueue.toView(cancelled),
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error: any) {
+    console.error('Error cancelling job:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: error.message || 'Failed to cancel job'
+      }
+    });
+  }
+});
+
+export default router;
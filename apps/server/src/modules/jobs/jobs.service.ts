@@ -0,0 +1,640 @@
+/**
+ * Generation Job Queue Service
+ * Database-backed queue that runs AI generations outside of the HTTP request
+ */
+
+import { EventEmitter } from 'events';
+import {
+  PrismaClient,
+  Prisma,
+  GenerationJob as GenerationJobRecord,
+  JobStatus,
+  JobPriority
+} from '@prisma/client';
+import { QUEUE_CONFIG } from '../../config/env';
+import {
+  GenerationJobBase,
+  GenerationError,
+  GenerationEvent,
+  GenerationEventType,
+  GenerationProgress,
+  QueueMetrics
+} from '../../types/generation';
+import { creditService } from '../credits';
+import { GeminiError } from '../../services/providers';
+
+const prisma = new PrismaClient();
+
+/**
+ * Error thrown by job processors.
+ * `retryable` decides whether the worker puts the job back into the queue.
+ */
+export class JobError extends Error {
+  public code: string;
+  public retryable: boolean;
+  public details?: any;
+
+  constructor(code: string, message: string, retryable: boolean = false, details?: any) {
+    super(message);
+    this.name = 'JobError';
+    this.code = code;
+    this.retryable = retryable;
+    this.details = details;
+  }
+}
+
+/**
+ * Thrown by enqueue() when the queue already holds maxQueueSize jobs
+ */
+export class QueueFullError extends Error {
+  constructor(maxQueueSize: number) {
+    super(`Generation queue is full (${maxQueueSize} jobs waiting). Please try again later.`);
+    this.name = 'QueueFullError';
+  }
+}
+
+export interface JobContext {
+  job: GenerationJobRecord;
+  /** Aborted when the job exceeds jobTimeoutMs; processors must not persist results afterwards */
+  signal: AbortSignal;
+  reportProgress: (progress: GenerationProgress) => Promise<void>;
+  /**
+   * Charge only part of the held credits when the job completes (e.g. the successful items of a batch);
+   * the remainder and unused quota units are refunded
+   */
+  setCreditUsage: (usage: JobCreditUsage) => void;
+}
+
+export interface JobCreditUsage {
+  amount: number;
+  quotaUnits?: number;
+}
+
+export type JobProcessor = (payload: any, context: JobContext) => Promise<any>;
+
+export interface JobProcessorOptions {
+  /** Time limit for one attempt of the given payload; defaults to jobTimeoutMs */
+  timeoutMs?: (payload: any) => number;
+  /**
+   * Whether a failed or interrupted attempt may run again (default true). Jobs whose attempts have side
+   * effects that a second run would repeat (e.g. the generated items of a batch) set this to false.
+   */
+  retryable?: boolean;
+}
+
+export interface EnqueueJobOptions {
+  userId: string;
+  kind: string;
+  payload: Record<string, any>;
+  type?: GenerationJobBase['type'];
+  priority?: GenerationJobBase['priority'];
+  creditCost?: number;
+  apiEndpoint?: string;
+  /** Credit reservation the job commits on success and releases on failure or cancellation */
+  reservationId?: string;
+}
+
+/**
+ * Job representation returned by the API
+ */
+export interface JobView {
+  id: string;
+  kind: string;
+  type: GenerationJobBase['type'];
+  status: GenerationJobBase['status'];
+  priority: GenerationJobBase['priority'];
+  progress: GenerationProgress | null;
+  result: any;
+  error: GenerationError | null;
+  attempts: number;
+  createdAt: Date;
+  updatedAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+}
+
+const PENDING_STATUSES: JobStatus[] = [JobStatus.PENDING, JobStatus.QUEUED, JobStatus.PROCESSING];
+
+// Credits held for a job survive queue waits and retries; the expiry sweeper only
+// catches reservations whose job was lost entirely
+const JOB_RESERVATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Workers touch their running jobs this often. A PROCESSING job without a heartbeat for JOB_STALE_AFTER_MS
+// belonged to a worker that crashed or was restarted, and is recovered by whichever worker polls next.
+const JOB_HEARTBEAT_INTERVAL_MS = 10 * 1000;
+const JOB_STALE_AFTER_MS = 6 * JOB_HEARTBEAT_INTERVAL_MS;
+
+export class JobQueueService extends EventEmitter {
+  private processors = new Map<string, JobProcessor>();
+  private processorOptions = new Map<string, JobProcessorOptions>();
+  private activeJobs = new Set<string>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private running = false;
+  private lastHeartbeatAt = 0;
+
+  /**
+   * Register the processor that handles jobs of the given kind
+   */
+  registerProcessor(kind: string, processor: JobProcessor, options: JobProcessorOptions = {}): void {
+    this.processors.set(kind, processor);
+    this.processorOptions.set(kind, options);
+  }
+
+  /**
+   * Persist a new job and wake up the worker
+   */
+  async enqueue(options: EnqueueJobOptions): Promise<GenerationJobRecord> {
+    if (!this.processors.has(options.kind)) {
+      throw new Error(`No processor registered for job kind: ${options.kind}`);
+    }
+
+    const waiting = await prisma.generationJob.count({
+      where: { status: { in: [JobStatus.PENDING, JobStatus.QUEUED] } }
+    });
+
+    if (waiting >= QUEUE_CONFIG.maxQueueSize) {
+      this.publish('queue_full', { id: 'queue', userId: options.userId }, { waiting });
+      throw new QueueFullError(QUEUE_CONFIG.maxQueueSize);
+    }
+
+    const job = await prisma.generationJob.create({
+      data: {
+        userId: options.userId,
+        kind: options.kind,
+        type: options.type || 'single',
+        priority: (options.priority || 'normal').toUpperCase() as JobPriority,
+        status: JobStatus.QUEUED,
+        payload: options.payload as Prisma.InputJsonValue,
+        progress: { percentage: 0, stage: 'queued' } as unknown as Prisma.InputJsonValue,
+        creditCost: options.creditCost ?? null,
+        apiEndpoint: options.apiEndpoint ?? null,
+        reservationId: options.reservationId ?? null
+      }
+    });
+
+    if (options.reservationId) {
+      await creditService.extendReservation(options.reservationId, JOB_RESERVATION_TTL_MS);
+    }
+
+    this.publish('job_created', job, { kind: job.kind });
+    this.publish('job_queued', job, { kind: job.kind });
+
+    if (this.running) {
+      setImmediate(() => this.poll());
+    }
+
+    return job;
+  }
+
+  /**
+   * Get a job owned by the user
+   */
+  async getJob(jobId: string, userId: string): Promise<GenerationJobRecord | null> {
+    return prisma.generationJob.findFirst({
+      where: { id: jobId, userId }
+    });
+  }
+
+  /**
+   * List the user's most recent jobs
+   */
+  async listJobs(userId: string, options: { status?: JobStatus; limit?: number } = {}) {
+    return prisma.generationJob.findMany({
+      where: {
+        userId,
+        ...(options.status ? { status: options.status } : {})
+      },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit ?? 20
+    });
+  }
+
+  /**
+   * Cancel a job that has not been picked up yet and release its credits
+   */
+  async cancelJob(jobId: string, userId: string): Promise<GenerationJobRecord | null> {
+    const cancelled = await prisma.generationJob.updateMany({
+      where: { id: jobId, userId, status: { in: [JobStatus.PENDING, JobStatus.QUEUED] } },
+      data: { status: JobStatus.CANCELLED, completedAt: new Date() }
+    });
+
+    if (cancelled.count === 0) {
+      return null;
+    }
+
+    const job = await prisma.generationJob.findUniqueOrThrow({ where: { id: jobId } });
+    await this.releaseJobCredits(job, 'Generation cancelled');
+    this.publish('job_cancelled', job, {});
+    return job;
+  }
+
+  /**
+   * Queue statistics over the last 24 hours
+   */
+  async getMetrics(): Promise<QueueMetrics> {
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+    const [grouped, finished] = await Promise.all([
+      prisma.generationJob.groupBy({
+        by: ['status'],
+        where: { OR: [{ status: { in: PENDING_STATUSES } }, { createdAt: { gte: since } }] },
+        _count: { _all: true }
+      }),
+      prisma.generationJob.findMany({
+        where: { status: JobStatus.COMPLETED, completedAt: { gte: since } },
+        select: { createdAt: true, startedAt: true, completedAt: true }
+      })
+    ]);
+
+    const countOf = (...statuses: JobStatus[]) => grouped
+      .filter(group => statuses.includes(group.status))
+      .reduce((sum, group) => sum + group._count._all, 0);
+
+    const average = (values: number[]) => values.length > 0
+      ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length)
+      : 0;
+
+    const timed = finished.filter(job => job.startedAt && job.completedAt);
+
+    return {
+      pending: countOf(JobStatus.PENDING, JobStatus.QUEUED),
+      processing: countOf(JobStatus.PROCESSING),
+      completed: countOf(JobStatus.COMPLETED),
+      failed: countOf(JobStatus.FAILED),
+      averageWaitTimeMs: average(timed.map(job => job.startedAt!.getTime() - job.createdAt.getTime())),
+      averageProcessingTimeMs: average(timed.map(job => job.completedAt!.getTime() - job.startedAt!.getTime())),
+      throughputPerHour: Math.round(finished.length / 24)
+    };
+  }
+
+  /**
+   * Start the background worker
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    this.lastHeartbeatAt = 0;
+
+    // The first poll recovers jobs a previous run of this server left in PROCESSING
+    this.pollTimer = setInterval(() => this.poll(), QUEUE_CONFIG.pollIntervalMs);
+    console.log(`⚙️  Generation queue started (concurrency: ${QUEUE_CONFIG.maxConcurrentJobs})`);
+    this.poll();
+  }
+
+  /**
+   * Stop picking up new jobs and wait for the running ones to finish
+   */
+  async stop(timeoutMs: number = 10000): Promise<void> {
+    this.running = false;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    const deadline = Date.now() + timeoutMs;
+    while (this.activeJobs.size > 0 && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    if (this.activeJobs.size > 0) {
+      console.warn(
+        `⚠️  ${this.activeJobs.size} generation job(s) still running at shutdown; a worker re-queues or fails them ` +
+        `once their heartbeat has been missing for ${Math.round(JOB_STALE_AFTER_MS / 1000)} seconds`
+      );
+    }
+  }
+
+  /**
+   * Convert a job record into its API representation
+   */
+  toView(job: GenerationJobRecord): JobView {
+    return {
+      id: job.id,
+      kind: job.kind,
+      type: job.type as GenerationJobBase['type'],
+      status: job.status.toLowerCase() as GenerationJobBase['status'],
+      priority: job.priority.toLowerCase() as GenerationJobBase['priority'],
+      progress: (job.progress as unknown as GenerationProgress) ?? null,
+      result: job.result ?? null,
+      error: (job.error as unknown as GenerationError) ?? null,
+      attempts: job.attempts,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt
+    };
+  }
+
+  /**
+   * Mark this worker's running jobs as alive and recover the jobs other (dead) workers left behind.
+   * Runs from the poll loop at most once per heartbeat interval.
+   */
+  private async maintainJobs(): Promise<void> {
+    if (Date.now() - this.lastHeartbeatAt < JOB_HEARTBEAT_INTERVAL_MS) return;
+    this.lastHeartbeatAt = Date.now();
+
+    if (this.activeJobs.size > 0) {
+      await prisma.generationJob.updateMany({
+        where: { id: { in: Array.from(this.activeJobs) }, status: JobStatus.PROCESSING },
+        data: { updatedAt: new Date() }
+      });
+    }
+
+    await this.recoverStaleJobs();
+  }
+
+  /**
+   * Re-queue jobs left in PROCESSING by a crashed or restarted worker, or fail them (and release their
+   * credits) when they may not run again
+   */
+  private async recoverStaleJobs(): Promise<void> {
+    const staleBefore = new Date(Date.now() - JOB_STALE_AFTER_MS);
+    const stale = await prisma.generationJob.findMany({
+      where: {
+        status: JobStatus.PROCESSING,
+        updatedAt: { lt: staleBefore },
+        id: { notIn: Array.from(this.activeJobs) }
+      }
+    });
+
+    let requeued = 0;
+    for (const job of stale) {
+      const canRetry = this.processorOptions.get(job.kind)?.retryable !== false &&
+        job.attempts <= QUEUE_CONFIG.retryAttempts;
+      const error: GenerationError = {
+        code: 'JOB_INTERRUPTED',
+        message: 'The worker running this job stopped before it finished',
+        retryable: canRetry,
+        retryCount: job.attempts - 1,
+        lastRetryAt: new Date()
+      };
+
+      // Conditional on the stale heartbeat so that only one worker recovers the job
+      const recovered = await prisma.generationJob.updateMany({
+        where: { id: job.id, status: JobStatus.PROCESSING, updatedAt: { lt: staleBefore } },
+        data: canRetry
+          ? {
+            status: JobStatus.QUEUED,
+            scheduledAt: null,
+            error: error as unknown as Prisma.InputJsonValue,
+            progress: { percentage: 0, stage: 'queued', message: 'Retrying' } as unknown as Prisma.InputJsonValue
+          }
+          : { status: JobStatus.FAILED, error: error as unknown as Prisma.InputJsonValue, completedAt: new Date() }
+      });
+      if (recovered.count === 0) continue;
+
+      if (canRetry) {
+        requeued++;
+        this.publish('job_queued', job, { retry: true, error });
+      } else {
+        await this.releaseJobCredits(job, `Generation failed: ${error.code}`);
+        this.publish('job_failed', job, { kind: job.kind, error });
+      }
+    }
+
+    if (stale.length > 0) {
+      console.log(`♻️  Recovered ${stale.length} stale generation job(s), ${requeued} re-queued`);
+    }
+  }
+
+  /**
+   * Claim as many queued jobs as the concurrency limit allows
+   */
+  private async poll(): Promise<void> {
+    if (!this.running || this.polling) return;
+    this.polling = true;
+
+    try {
+      await this.maintainJobs();
+
+      while (this.running && this.activeJobs.size < QUEUE_CONFIG.maxConcurrentJobs) {
+        const job = await this.claimNextJob();
+        if (!job) break;
+
+        this.activeJobs.add(job.id);
+        this.runJob(job).finally(() => {
+          this.activeJobs.delete(job.id);
+          if (this.running) {
+            setImmediate(() => this.poll());
+          }
+        });
+      }
+    } catch (error) {
+      console.error('Generation queue poll error:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async claimNextJob(): Promise<GenerationJobRecord | null> {
+    const now = new Date();
+    const candidate = await prisma.generationJob.findFirst({
+      where: {
+        status: JobStatus.QUEUED,
+        kind: { in: Array.from(this.processors.keys()) },
+        OR: [{ scheduledAt: null }, { scheduledAt: { lte: now } }]
+      },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }]
+    });
+
+    if (!candidate) return null;
+
+    // Conditional update so that only one worker can claim the job
+    const claimed = await prisma.generationJob.updateMany({
+      where: { id: candidate.id, status: JobStatus.QUEUED },
+      data: {
+        status: JobStatus.PROCESSING,
+        startedAt: now,
+        attempts: { increment: 1 },
+        progress: { percentage: 0, stage: 'preprocessing', startedAt: now } as unknown as Prisma.InputJsonValue
+      }
+    });
+
+    if (claimed.count === 0) {
+      return this.claimNextJob();
+    }
+
+    return prisma.generationJob.findUnique({ where: { id: candidate.id } });
+  }
+
+  private async runJob(job: GenerationJobRecord): Promise<void> {
+    const processor = this.processors.get(job.kind)!;
+    const controller = new AbortController();
+    const timeoutMs = this.processorOptions.get(job.kind)?.timeoutMs?.(job.payload) ?? QUEUE_CONFIG.jobTimeoutMs;
+    let creditUsage: JobCreditUsage | undefined;
+    let timer: NodeJS.Timeout | undefined;
+
+    this.publish('job_started', job, { attempt: job.attempts });
+
+    const context: JobContext = {
+      job,
+      signal: controller.signal,
+      reportProgress: async (progress: GenerationProgress) => {
+        if (controller.signal.aborted) return;
+        await prisma.generationJob.update({
+          where: { id: job.id },
+          data: { progress: progress as unknown as Prisma.InputJsonValue }
+        });
+        this.publish('job_progress', job, progress);
+      },
+      setCreditUsage: (usage: JobCreditUsage) => {
+        creditUsage = usage;
+      }
+    };
+
+    // Not retryable: the aborted attempt may still be finishing its last step
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new JobError(
+          'JOB_TIMEOUT',
+          `Generation did not finish within ${Math.round(timeoutMs / 1000)} seconds`,
+          false
+        ));
+      }, timeoutMs);
+    });
+
+    const attempt = processor(job.payload, context);
+
+    try {
+      const result = await Promise.race([attempt, timeout]);
+
+      const completed = await prisma.generationJob.update({
+        where: { id: job.id },
+        data: {
+          status: JobStatus.COMPLETED,
+          result: (result ?? null) as Prisma.InputJsonValue,
+          error: Prisma.JsonNull,
+          progress: { percentage: 100, stage: 'uploading', message: 'Completed' } as unknown as Prisma.InputJsonValue,
+          completedAt: new Date()
+        }
+      });
+
+      await this.commitJobCredits(completed, creditUsage);
+      this.publish('job_completed', completed, { kind: completed.kind, result });
+    } catch (error) {
+      await this.handleFailure(job, error);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    // A timed-out processor keeps its slot until it has actually stopped, so maxConcurrentJobs holds
+    if (controller.signal.aborted) {
+      await attempt.then(
+        () => console.warn(`[Generation Queue] Job ${job.id} (${job.kind}) finished after its timeout; result discarded`),
+        () => undefined
+      );
+    }
+  }
+
+  /**
+   * Retry the job if possible, otherwise mark it failed and release the user's credits
+   */
+  private async handleFailure(job: GenerationJobRecord, error: unknown): Promise<void> {
+    const generationError = this.toGenerationError(error, job.attempts);
+    const canRetry = generationError.retryable &&
+      this.processorOptions.get(job.kind)?.retryable !== false &&
+      job.attempts <= QUEUE_CONFIG.retryAttempts;
+
+    console.error(`[Generation Queue] Job ${job.id} (${job.kind}) attempt ${job.attempts} failed:`, generationError.message);
+
+    if (generationError.code === 'JOB_TIMEOUT') {
+      this.publish('job_timeout', job, { error: generationError });
+    }
+
+    if (canRetry) {
+      // Back off at least as long as the provider asked (Retry-After, open circuit)
+      const retryAfterMs = error instanceof GeminiError ? error.retryAfterMs ?? 0 : 0;
+      await prisma.generationJob.update({
+        where: { id: job.id },
+        data: {
+          status: JobStatus.QUEUED,
+          scheduledAt: new Date(Date.now() + Math.max(QUEUE_CONFIG.retryDelayMs * job.attempts, retryAfterMs)),
+          error: generationError as unknown as Prisma.InputJsonValue,
+          progress: { percentage: 0, stage: 'queued', message: 'Retrying' } as unknown as Prisma.InputJsonValue
+        }
+      });
+      this.publish('job_queued', job, { retry: true, error: generationError });
+      return;
+    }
+
+    const failed = await prisma.generationJob.update({
+      where: { id: job.id },
+      data: {
+        status: JobStatus.FAILED,
+        error: generationError as unknown as Prisma.InputJsonValue,
+        completedAt: new Date()
+      }
+    });
+
+    await this.releaseJobCredits(failed, `Generation failed: ${generationError.code}`);
+    this.publish('job_failed', failed, { kind: failed.kind, error: generationError });
+  }
+
+  private toGenerationError(error: unknown, attempts: number): GenerationError {
+    if (error instanceof JobError || error instanceof GeminiError) {
+      return {
+        code: error.code,
+        message: error.message,
+        details: error.details,
+        retryable: error.retryable,
+        retryCount: attempts - 1,
+        lastRetryAt: new Date()
+      };
+    }
+
+    // Unexpected errors are bugs or bad input more often than transient failures; retrying repeats them
+    return {
+      code: 'GENERATION_FAILED',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      retryable: false,
+      retryCount: attempts - 1,
+      lastRetryAt: new Date()
+    };
+  }
+
+  /**
+   * Charge the credits held for a completed job, or only the part the processor reported as used
+   */
+  private async commitJobCredits(job: GenerationJobRecord, usage?: JobCreditUsage): Promise<void> {
+    if (!job.reservationId) return;
+
+    try {
+      await creditService.commitReservationWithRetry(job.reservationId, usage?.amount, usage?.quotaUnits);
+    } catch (error) {
+      console.error(`Error committing credits for job ${job.id}:`, error);
+    }
+  }
+
+  /**
+   * Return the credits held for a failed or cancelled job
+   */
+  private async releaseJobCredits(job: GenerationJobRecord, reason: string): Promise<void> {
+    if (!job.reservationId) return;
+
+    try {
+      await creditService.releaseReservation(job.reservationId, reason);
+    } catch (error) {
+      console.error(`Error releasing credits for job ${job.id}:`, error);
+    }
+  }
+
+  private publish(
+    type: GenerationEventType,
+    job: Pick<GenerationJobRecord, 'id' | 'userId'>,
+    data: any
+  ): void {
+    const event: GenerationEvent = {
+      type,
+      jobId: job.id,
+      userId: job.userId,
+      timestamp: new Date(),
+      data
+    };
+    this.emit(type, event);
+    this.emit('event', event);
+  }
+}
+
+export const jobQueue = new JobQueueService();
@@ -0,0 +1,14 @@
+/**
+ * Moderation Module
+ * Exports the moderation service, middleware and review routes
+ */
+
+export { moderationService, ModerationService, ModerationError, normalizeText } from './moderation.service';
+export type {
+  ListModerationEventsOptions,
+  ModerationContext,
+  ModerationEventRecord,
+  ModerationVerdict
+} from './moderation.service';
+export { moderatePrompt, bodyFields } from './moderation.middleware';
+export { default as moderationRouter } from './moderation.routes';
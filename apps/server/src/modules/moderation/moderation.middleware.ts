@@ -0,0 +1,79 @@
+/**
+ * Moderation Middleware
+ * Screens prompt text before a request reaches credits and the AI provider
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { moderationService, ModerationError } from './moderation.service';
+
+/**
+ * Reject the request with 422 CONTENT_BLOCKED when the extracted texts break the moderation policy.
+ * Place it after requireAuth (and body validation) and before checkCredits, so blocked prompts
+ * never hold or spend credits.
+ */
+export function moderatePrompt(endpoint: string, extractTexts: (req: Request) => Array<string | null | undefined>) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<any> => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required'
+          }
+        });
+      }
+
+      await moderationService.screenPrompt(userId, extractTexts(req), { endpoint });
+      next();
+    } catch (error) {
+      if (error instanceof ModerationError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            ...(error.details && { details: error.details })
+          }
+        });
+      }
+
+      console.error('Error screening prompt:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Error screening prompt'
+        }
+      });
+    }
+  };
+}
+
+/**
+ * Strings in a body value: the value itself, or every string nested in an array or object
+ */
+function collectStrings(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(collectStrings);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.values(value).flatMap(collectStrings);
+  }
+  return [];
+}
+
+/**
+ * Text of the request body fields, for moderatePrompt. Arrays and objects (e.g. a character
+ * sheet's personality list or physical traits) are flattened; other values are skipped.
+ */
+export function bodyFields(...fields: string[]): (req: Request) => string[] {
+  return (req) => {
+    const body = (req as Request & { validatedData?: any }).validatedData ?? req.body ?? {};
+    return fields.flatMap(field => collectStrings(body[field]));
+  };
+}
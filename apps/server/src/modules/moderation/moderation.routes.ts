@@ -0,0 +1,103 @@
+/**
+ * Moderation Routes
+ * Review of the moderation log; admin only
+ */
+
+import { Router, Request, Response } from 'express';
+import { ModerationSource } from '@prisma/client';
+import { requireAuth } from '../../middleware/requireAuth';
+import { requireAdmin } from '../../middleware/requireAdmin';
+import { validateQueryParams, QueryValidators } from '../../middleware/validation';
+import { moderationService, ModerationError } from './moderation.service';
+
+const router = Router();
+
+/**
+ * Send a ModerationError with its own status, anything else as a 500
+ */
+function sendError(res: Response, error: any, fallbackMessage: string): Response {
+  if (error instanceof ModerationError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        ...(error.details && { details: error.details })
+      }
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage
+    }
+  });
+}
+
+/**
+ * GET /api/v1/moderation/events
+ * List moderation events, newest first; ?userId=, ?source=BLOCKLIST|PROVIDER and ?reviewed=true|false filter
+ */
+router.get('/events', requireAuth, requireAdmin, validateQueryParams(QueryValidators.validatePagination), async (req: Request, res: Response): Promise<any> => {
+  try {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+    const userId = typeof req.query.userId === 'string' ? req.query.userId : undefined;
+    const source = typeof req.query.source === 'string' ? req.query.source.toUpperCase() : undefined;
+    const reviewed = req.query.reviewed === 'true' ? true : req.query.reviewed === 'false' ? false : undefined;
+
+    if (source !== undefined && !Object.values(ModerationSource).includes(source as ModerationSource)) {
+      throw new ModerationError('VALIDATION_ERROR', `source must be one of ${Object.values(ModerationSource).join(', ')}`);
+    }
+
+    const { items, total } = await moderationService.listEvents({
+      page,
+      limit,
+      userId,
+      source: source as ModerationSource | undefined,
+      reviewed
+    });
+
+    res.json({
+      success: true,
+      data: {
+        items,
+        pagination: {
+          currentPage: page,
+          itemsPerPage: limit,
+          totalItems: total,
+          totalPages: Math.ceil(total / limit),
+          hasNextPage: page * limit < total,
+          hasPreviousPage: page > 1
+        }
+      },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch moderation events');
+  }
+});
+
+/**
+ * PUT /api/v1/moderation/events/:id/review
+ * Mark an event as reviewed by the current admin
+ */
+router.put('/events/:id/review', requireAuth, requireAdmin, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const event = await moderationService.markReviewed(req.params.id!, req.user!.email);
+
+    res.json({
+      success: true,
+      data: event
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to review moderation event');
+  }
+});
+
+export default router;
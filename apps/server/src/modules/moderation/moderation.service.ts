@@ -0,0 +1,278 @@
+/**
+ * Moderation Service
+ * Pre-checks user prompts against the blocklist policy and keeps a per-user log of rejected
+ * prompts and provider safety blocks for review
+ */
+
+import fs from 'fs';
+import { PrismaClient, Prisma, ModerationSource } from '@prisma/client';
+import { config } from '../../../../../config/core';
+
+const prisma = new PrismaClient();
+
+/**
+ * Error with an API error code and HTTP status; CONTENT_BLOCKED carries the blocked categories in `details`
+ */
+export class ModerationError extends Error {
+  public code: string;
+  public statusCode: number;
+  public details?: any;
+
+  constructor(code: string, message: string, statusCode: number = 400, details?: any) {
+    super(message);
+    this.name = 'ModerationError';
+    this.code = code;
+    this.statusCode = statusCode;
+    this.details = details;
+  }
+}
+
+/**
+ * Default policy, by category: only terms that are explicit on their own, matched as whole words, so everyday
+ * prompts about history, medicine or crime fiction are not caught.
+ * Anything stricter belongs in MODERATION_BLOCKLIST or MODERATION_BLOCKLIST_FILE, which add entries on top.
+ */
+const DEFAULT_POLICY: Record<string, string[]> = {
+  sexual: ['nude', 'nudes', 'nudity', 'nsfw', 'porn', 'porno', 'pornographic', 'pornography', 'hentai', 'topless'],
+  violence: ['dismembered', 'decapitated', 'disemboweled', 'disembowelled', 'school shooting'],
+  'self-harm': ['self harm', 'kill myself', 'slit my wrists'],
+  hate: ['swastika', 'heil hitler', 'white power', 'kkk']
+};
+
+// Look-alike characters used to slip past word lists
+const LEET_MAP: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's'
+};
+
+interface BlocklistEntry {
+  category: string;
+  term: string;
+  /** Normalized words of the term */
+  words: string[];
+  prefix: boolean;
+}
+
+export interface ModerationVerdict {
+  allowed: boolean;
+  categories: string[];
+  matchedTerms: string[];
+}
+
+export interface ModerationContext {
+  /** API endpoint or job kind the content was submitted to */
+  endpoint?: string;
+  jobId?: string;
+}
+
+export interface ListModerationEventsOptions {
+  page?: number;
+  limit?: number;
+  userId?: string;
+  source?: ModerationSource;
+  reviewed?: boolean;
+}
+
+const EVENT_INCLUDE = {
+  user: { select: { id: true, email: true, name: true } }
+};
+
+export type ModerationEventRecord = Prisma.ModerationEventGetPayload<{ include: typeof EVENT_INCLUDE }>;
+
+/**
+ * Lowercase, strip accents and look-alike characters and reduce the text to space-separated words
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[0134579@$]/g, char => LEET_MAP[char] ?? char)
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Parse a "term" or "category:term" entry; entries without a category go to "blocklist"
+ */
+function parseEntry(entry: string, category?: string): BlocklistEntry | null {
+  let term = entry.trim();
+  let entryCategory = category;
+
+  const separator = term.indexOf(':');
+  if (!entryCategory && separator > 0) {
+    entryCategory = term.slice(0, separator).trim().toLowerCase();
+    term = term.slice(separator + 1).trim();
+  }
+
+  const prefix = term.endsWith('*');
+  const words = normalizeText(prefix ? term.slice(0, -1) : term).split(' ').filter(Boolean);
+  if (words.length === 0) {
+    return null;
+  }
+
+  return { category: entryCategory || 'blocklist', term, words, prefix };
+}
+
+export class ModerationService {
+  private entries: BlocklistEntry[];
+
+  constructor(options: typeof config.moderation = config.moderation) {
+    const extra = [...options.blocklist];
+    if (options.blocklistFile) {
+      // A missing or unreadable file is a deployment error; fail at startup instead of moderating less
+      extra.push(...fs.readFileSync(options.blocklistFile, 'utf8')
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line.length > 0 && !line.startsWith('#')));
+    }
+
+    this.entries = [
+      ...Object.entries(DEFAULT_POLICY).flatMap(([category, terms]) => terms.map(term => parseEntry(term, category))),
+      ...extra.map(entry => parseEntry(entry))
+    ].filter((entry): entry is BlocklistEntry => entry !== null);
+  }
+
+  /**
+   * Check texts against the blocklist; the verdict lists every matched category and entry
+   */
+  checkText(texts: Array<string | null | undefined>): ModerationVerdict {
+    // Each text is matched on its own so a multi-word entry never spans two fields
+    const fields = texts
+      .filter((text): text is string => typeof text === 'string' && text.length > 0)
+      .map(text => normalizeText(text).split(' ').filter(Boolean));
+
+    const matched = this.entries.filter(entry => fields.some(words => this.matches(words, entry)));
+
+    return {
+      allowed: matched.length === 0,
+      categories: [...new Set(matched.map(entry => entry.category))],
+      matchedTerms: [...new Set(matched.map(entry => entry.term))]
+    };
+  }
+
+  /**
+   * Reject texts that break the policy: the attempt is logged for the user and a CONTENT_BLOCKED
+   * ModerationError is thrown. Does nothing while moderation is disabled.
+   */
+  async screenPrompt(userId: string, texts: Array<string | null | undefined>, context: ModerationContext = {}): Promise<void> {
+    if (!config.moderation.enabled) {
+      return;
+    }
+
+    const verdict = this.checkText(texts);
+    if (verdict.allowed) {
+      return;
+    }
+
+    await this.recordEvent(userId, ModerationSource.BLOCKLIST, {
+      ...context,
+      categories: verdict.categories,
+      matchedTerms: verdict.matchedTerms,
+      excerpt: texts.filter(Boolean).join('\n')
+    });
+
+    throw new ModerationError(
+      'CONTENT_BLOCKED',
+      `The prompt contains content that is not allowed (${verdict.categories.join(', ')})`,
+      422,
+      { categories: verdict.categories, source: 'blocklist' }
+    );
+  }
+
+  /**
+   * Log a generation the provider refused; `details` is the CONTENT_BLOCKED error's details
+   */
+  async recordProviderBlock(userId: string, details: { categories?: string[] } | undefined, context: ModerationContext & { excerpt?: string } = {}): Promise<void> {
+    await this.recordEvent(userId, ModerationSource.PROVIDER, {
+      ...context,
+      categories: Array.isArray(details?.categories) ? details!.categories : [],
+      matchedTerms: []
+    });
+  }
+
+  /**
+   * List logged events, newest first, for review
+   */
+  async listEvents(options: ListModerationEventsOptions = {}): Promise<{ items: ModerationEventRecord[]; total: number }> {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? 20;
+    const where: Prisma.ModerationEventWhereInput = {
+      ...(options.userId && { userId: options.userId }),
+      ...(options.source && { source: options.source }),
+      ...(options.reviewed !== undefined && { reviewedAt: options.reviewed ? { not: null } : null })
+    };
+
+    const [items, total] = await Promise.all([
+      prisma.moderationEvent.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+        include: EVENT_INCLUDE
+      }),
+      prisma.moderationEvent.count({ where })
+    ]);
+
+    return { items, total };
+  }
+
+  /**
+   * Mark an event as reviewed by the given reviewer
+   */
+  async markReviewed(id: string, reviewerEmail: string): Promise<ModerationEventRecord> {
+    try {
+      return await prisma.moderationEvent.update({
+        where: { id },
+        data: { reviewedAt: new Date(), reviewedBy: reviewerEmail },
+        include: EVENT_INCLUDE
+      });
+    } catch (error: any) {
+      if (error?.code === 'P2025') {
+        throw new ModerationError('NOT_FOUND', 'Moderation event not found', 404);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Persist an event; a logging failure never turns a block into an allowed request
+   */
+  private async recordEvent(
+    userId: string,
+    source: ModerationSource,
+    data: ModerationContext & { categories: string[]; matchedTerms: string[]; excerpt?: string }
+  ): Promise<void> {
+    try {
+      await prisma.moderationEvent.create({
+        data: {
+          userId,
+          source,
+          endpoint: data.endpoint ?? null,
+          jobId: data.jobId ?? null,
+          categories: data.categories,
+          matchedTerms: data.matchedTerms,
+          excerpt: data.excerpt ? data.excerpt.slice(0, config.moderation.excerptLength) : null
+        }
+      });
+    } catch (error) {
+      console.error(`Error recording moderation event for user ${userId}:`, error);
+    }
+  }
+
+  private matches(words: string[], entry: BlocklistEntry): boolean {
+    const last = entry.words.length - 1;
+
+    for (let start = 0; start + last < words.length; start++) {
+      const hit = entry.words.every((word, offset) => {
+        const candidate = words[start + offset]!;
+        return offset === last && entry.prefix ? candidate.startsWith(word) : candidate === word;
+      });
+      if (hit) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+export const moderationService = new ModerationService();
@@ -0,0 +1,16 @@
+/**
+ * Prompt Sessions Module
+ * Exports the prompt session service and routes
+ */
+
+export { promptSessionService, PromptSessionService, PromptSessionError } from './prompt-sessions.service';
+export type {
+  ConversationHistory,
+  ListPromptSessionsOptions,
+  PromptSessionDetailView,
+  PromptSessionSummary,
+  PromptSessionTurnView,
+  RecordTurnInput,
+  ResumedPromptSession
+} from './prompt-sessions.service';
+export { default as promptSessionsRouter } from './prompt-sessions.routes';
@@ -0,0 +1,135 @@
+/**
+ * Prompt Session Routes
+ * Stored prompt refinement conversations; new turns are added through POST /characters/optimize-prompt
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../../middleware/requireAuth';
+import { validateQueryParams, QueryValidators } from '../../middleware/validation';
+import { promptSessionService, PromptSessionError } from './prompt-sessions.service';
+
+const router = Router();
+
+/**
+ * Send a PromptSessionError with its own status, anything else as a 500
+ */
+function sendError(res: Response, error: any, fallbackMessage: string): Response {
+  if (error instanceof PromptSessionError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        ...(error.details && { details: error.details })
+      }
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage
+    }
+  });
+}
+
+/**
+ * GET /api/v1/prompt-sessions
+ * List the user's prompt sessions with turn counts and the latest prompt; ?characterId= filters by linked character
+ */
+router.get('/', requireAuth, validateQueryParams(QueryValidators.validatePagination), async (req: Request, res: Response): Promise<any> => {
+  try {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+    const characterId = typeof req.query.characterId === 'string' ? req.query.characterId : undefined;
+
+    const { items, total } = await promptSessionService.listSessions(req.user!.id, { page, limit, characterId });
+
+    res.json({
+      success: true,
+      data: {
+        items,
+        pagination: {
+          currentPage: page,
+          itemsPerPage: limit,
+          totalItems: total,
+          totalPages: Math.ceil(total / limit),
+          hasNextPage: page * limit < total,
+          hasPreviousPage: page > 1
+        }
+      },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch prompt sessions');
+  }
+});
+
+/**
+ * GET /api/v1/prompt-sessions/:conversationId
+ * Get a session with every turn (input, generated prompt, feedback) in order
+ */
+router.get('/:conversationId', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const session = await promptSessionService.getSession(req.params.conversationId!, req.user!.id);
+
+    res.json({
+      success: true,
+      data: session
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch prompt session');
+  }
+});
+
+/**
+ * PUT /api/v1/prompt-sessions/:conversationId/character
+ * Link the session to a character; body: { characterId: string | null } (null unlinks)
+ */
+router.put('/:conversationId/character', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const { characterId } = req.body ?? {};
+
+    if (characterId !== null && (typeof characterId !== 'string' || characterId.trim().length === 0)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'characterId must be a character id or null'
+        }
+      });
+    }
+
+    const session = await promptSessionService.linkCharacter(req.params.conversationId!, req.user!.id, characterId);
+
+    res.json({
+      success: true,
+      data: session
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to link prompt session');
+  }
+});
+
+/**
+ * DELETE /api/v1/prompt-sessions/:conversationId
+ * Delete a session and its turns
+ */
+router.delete('/:conversationId', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    await promptSessionService.deleteSession(req.params.conversationId!, req.user!.id);
+
+    res.json({
+      success: true,
+      data: { message: 'Prompt session deleted successfully' }
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to delete prompt session');
+  }
+});
+
+export default router;
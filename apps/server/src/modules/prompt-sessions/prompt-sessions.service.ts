@@ -0,0 +1,336 @@
+/**
+ * Prompt Session Service
+ * Server-side prompt refinement conversations: every optimize-prompt turn with its input,
+ * generated prompt and the feedback the user gave on it
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { PromptOptimizationRequest, PromptOptimizationResponse } from '../../services/geminiTextService';
+
+const prisma = new PrismaClient();
+
+/**
+ * Error with an API error code and HTTP status, thrown for invalid prompt session operations
+ */
+export class PromptSessionError extends Error {
+  public code: string;
+  public statusCode: number;
+  public details?: any;
+
+  constructor(code: string, message: string, statusCode: number = 400, details?: any) {
+    super(message);
+    this.name = 'PromptSessionError';
+    this.code = code;
+    this.statusCode = statusCode;
+    this.details = details;
+  }
+}
+
+const CHARACTER_SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  imageUrl: true,
+  thumbnailUrl: true
+};
+
+const SESSION_CARD_INCLUDE = {
+  character: { select: CHARACTER_SUMMARY_SELECT },
+  turns: { orderBy: { turnIndex: 'desc' as const }, take: 1 },
+  _count: { select: { turns: true } }
+};
+
+const SESSION_DETAIL_INCLUDE = {
+  character: { select: CHARACTER_SUMMARY_SELECT },
+  turns: { orderBy: { turnIndex: 'asc' as const } }
+};
+
+type SessionCardRecord = Prisma.PromptSessionGetPayload<{ include: typeof SESSION_CARD_INCLUDE }>;
+type SessionDetailRecord = Prisma.PromptSessionGetPayload<{ include: typeof SESSION_DETAIL_INCLUDE }>;
+type TurnRecord = SessionDetailRecord['turns'][number];
+
+export type ConversationHistory = NonNullable<PromptOptimizationRequest['conversationHistory']>;
+
+export interface PromptSessionTurnView {
+  turnIndex: number;
+  userInput: string;
+  generatedPrompt: string;
+  reasoning: string | null;
+  suggestions: string[];
+  feedback: string | null;
+  degraded: boolean;
+  createdAt: Date;
+}
+
+export interface PromptSessionSummary {
+  conversationId: string;
+  characterId: string | null;
+  character: { id: string; name: string | null; imageUrl: string | null; thumbnailUrl: string | null } | null;
+  style: string | null;
+  gender: string | null;
+  turnCount: number;
+  latestPrompt: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PromptSessionDetailView extends Omit<PromptSessionSummary, 'turnCount' | 'latestPrompt'> {
+  turns: PromptSessionTurnView[];
+}
+
+/**
+ * State needed to continue a session: stored defaults and the history to send to the model
+ */
+export interface ResumedPromptSession {
+  conversationId: string;
+  characterId: string | null;
+  style: string | null;
+  gender: string | null;
+  lastUserInput: string | null;
+  history: ConversationHistory;
+}
+
+export interface RecordTurnInput {
+  /** Whether `conversationId` was resumed; a new session is created otherwise */
+  resumed: boolean;
+  userInput: string;
+  /** Feedback on the previous turn's prompt, sent with this turn */
+  feedback?: string;
+  style?: string;
+  gender?: string;
+  characterId?: string;
+}
+
+export interface ListPromptSessionsOptions {
+  page?: number;
+  limit?: number;
+  characterId?: string;
+}
+
+function toTurnView(turn: TurnRecord): PromptSessionTurnView {
+  return {
+    turnIndex: turn.turnIndex,
+    userInput: turn.userInput,
+    generatedPrompt: turn.generatedPrompt,
+    reasoning: turn.reasoning,
+    suggestions: turn.suggestions,
+    feedback: turn.feedback,
+    degraded: turn.degraded,
+    createdAt: turn.createdAt
+  };
+}
+
+export class PromptSessionService {
+  /**
+   * List the user's sessions, most recently continued first
+   */
+  async listSessions(userId: string, options: ListPromptSessionsOptions = {}): Promise<{ items: PromptSessionSummary[]; total: number }> {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? 20;
+    const where: Prisma.PromptSessionWhereInput = {
+      userId,
+      ...(options.characterId && { characterId: options.characterId })
+    };
+
+    const [sessions, total] = await Promise.all([
+      prisma.promptSession.findMany({
+        where,
+        orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+        include: SESSION_CARD_INCLUDE
+      }),
+      prisma.promptSession.count({ where })
+    ]);
+
+    return { items: sessions.map(session => this.toSummary(session)), total };
+  }
+
+  /**
+   * Get a session owned by the user with all of its turns in order
+   */
+  async getSession(conversationId: string, userId: string): Promise<PromptSessionDetailView> {
+    const session = await prisma.promptSession.findFirst({
+      where: { id: conversationId, userId },
+      include: SESSION_DETAIL_INCLUDE
+    });
+
+    if (!session) {
+      throw new PromptSessionError('NOT_FOUND', 'Prompt session not found', 404);
+    }
+
+    return this.toDetailView(session);
+  }
+
+  /**
+   * Load a session to continue it. `feedback` is attached to the last turn of the returned
+   * history so the model sees it; it is persisted by recordTurn. Degraded turns are not part
+   * of the history since their prompt is only the echoed input.
+   */
+  async resumeSession(conversationId: string, userId: string, feedback?: string): Promise<ResumedPromptSession> {
+    const session = await prisma.promptSession.findFirst({
+      where: { id: conversationId, userId },
+      include: { turns: { orderBy: { turnIndex: 'asc' } } }
+    });
+
+    if (!session) {
+      throw new PromptSessionError('NOT_FOUND', 'Prompt session not found', 404);
+    }
+
+    const history: ConversationHistory = session.turns
+      .filter(turn => !turn.degraded)
+      .map(turn => ({
+        userInput: turn.userInput,
+        generatedPrompt: turn.generatedPrompt,
+        ...(turn.feedback && { feedback: turn.feedback })
+      }));
+    if (feedback && history.length > 0 && !session.turns[session.turns.length - 1]!.degraded) {
+      history[history.length - 1]!.feedback = feedback;
+    }
+
+    return {
+      conversationId: session.id,
+      characterId: session.characterId,
+      style: session.style,
+      gender: session.gender,
+      lastUserInput: session.turns[session.turns.length - 1]?.userInput ?? null,
+      history
+    };
+  }
+
+  /**
+   * Persist one optimize-prompt turn: creates the session on its first turn, stores the
+   * feedback on the previous turn and appends the new one
+   */
+  async recordTurn(userId: string, result: PromptOptimizationResponse, input: RecordTurnInput): Promise<number> {
+    const conversationId = result.conversationId;
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        if (!input.resumed) {
+          await tx.promptSession.create({
+            data: {
+              id: conversationId,
+              userId,
+              characterId: input.characterId ?? null,
+              style: input.style ?? null,
+              gender: input.gender ?? null
+            }
+          });
+        } else {
+          // Touch the session so it sorts first, and keep the latest defaults
+          await tx.promptSession.update({
+            where: { id: conversationId },
+            data: {
+              ...(input.characterId !== undefined && { characterId: input.characterId }),
+              ...(input.style !== undefined && { style: input.style }),
+              ...(input.gender !== undefined && { gender: input.gender }),
+              updatedAt: new Date()
+            }
+          });
+        }
+
+        const previous = await tx.promptSessionTurn.findFirst({
+          where: { sessionId: conversationId },
+          orderBy: { turnIndex: 'desc' }
+        });
+
+        if (previous && input.feedback) {
+          await tx.promptSessionTurn.update({
+            where: { id: previous.id },
+            data: { feedback: input.feedback }
+          });
+        }
+
+        const turnIndex = previous ? previous.turnIndex + 1 : 0;
+        await tx.promptSessionTurn.create({
+          data: {
+            sessionId: conversationId,
+            turnIndex,
+            userInput: input.userInput,
+            generatedPrompt: result.optimizedPrompt,
+            reasoning: result.reasoning,
+            suggestions: result.suggestions,
+            degraded: result.degraded
+          }
+        });
+
+        return turnIndex;
+      });
+    } catch (error: any) {
+      // Two turns of the same session submitted at once
+      if (error?.code === 'P2002') {
+        throw new PromptSessionError('CONFLICT', 'Another turn of this prompt session was saved at the same time; reload and try again', 409);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Link a session to the character that was created from it, or unlink it with null
+   */
+  async linkCharacter(conversationId: string, userId: string, characterId: string | null): Promise<PromptSessionDetailView> {
+    if (characterId) {
+      const character = await prisma.character.findFirst({
+        where: { id: characterId, userId },
+        select: { id: true }
+      });
+
+      if (!character) {
+        throw new PromptSessionError('CHARACTER_NOT_FOUND', 'Character not found', 404);
+      }
+    }
+
+    const { count } = await prisma.promptSession.updateMany({
+      where: { id: conversationId, userId },
+      data: { characterId }
+    });
+
+    if (count === 0) {
+      throw new PromptSessionError('NOT_FOUND', 'Prompt session not found', 404);
+    }
+
+    return this.getSession(conversationId, userId);
+  }
+
+  /**
+   * Delete a session and its turns; a linked character is not affected
+   */
+  async deleteSession(conversationId: string, userId: string): Promise<void> {
+    const { count } = await prisma.promptSession.deleteMany({
+      where: { id: conversationId, userId }
+    });
+
+    if (count === 0) {
+      throw new PromptSessionError('NOT_FOUND', 'Prompt session not found', 404);
+    }
+  }
+
+  private toSummary(session: SessionCardRecord): PromptSessionSummary {
+    return {
+      conversationId: session.id,
+      characterId: session.characterId,
+      character: session.character,
+      style: session.style,
+      gender: session.gender,
+      turnCount: session._count.turns,
+      latestPrompt: session.turns[0]?.generatedPrompt ?? null,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt
+    };
+  }
+
+  private toDetailView(session: SessionDetailRecord): PromptSessionDetailView {
+    return {
+      conversationId: session.id,
+      characterId: session.characterId,
+      character: session.character,
+      style: session.style,
+      gender: session.gender,
+      turns: session.turns.map(toTurnView),
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt
+    };
+  }
+}
+
+export const promptSessionService = new PromptSessionService();
@@ -0,0 +1,8 @@
+/**
+ * Realtime Module
+ * Exports the event stream service and routes
+ */
+
+export { realtimeService, RealtimeService } from './realtime.service';
+export type { RealtimeMessageType } from './realtime.service';
+export { default as realtimeRouter } from './realtime.routes';
@@ -0,0 +1,46 @@
+/**
+ * Realtime Routes
+ * Server-Sent Events stream of the user's generation progress and credit balance
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../../middleware/requireAuth';
+import { ENV_CONFIG } from '../../config/env';
+import { creditService } from '../credits';
+import { realtimeService } from './realtime.service';
+
+const router = Router();
+
+/**
+ * GET /api/v1/events
+ * Open an event stream (text/event-stream). Messages are WebSocketMessage JSON under the event name:
+ * connected (current balance), job_queued, job_started, job_progress, job_completed, job_failed,
+ * job_cancelled and credits_balance. Send the bearer token in the Authorization header.
+ */
+router.get('/', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  if (!ENV_CONFIG.ENABLE_WEBSOCKETS) {
+    return res.status(503).json({
+      success: false,
+      error: {
+        code: 'REALTIME_DISABLED',
+        message: 'Realtime updates are disabled'
+      }
+    });
+  }
+
+  try {
+    const balance = await creditService.getBalance(req.user!.id);
+    realtimeService.openStream(req.user!.id, res, { balance });
+  } catch (error) {
+    console.error('Error opening event stream:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to open event stream'
+      }
+    });
+  }
+});
+
+export default router;
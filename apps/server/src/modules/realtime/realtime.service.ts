@@ -0,0 +1,175 @@
+/**
+ * Realtime Service
+ * Pushes generation lifecycle events and credit balance changes to the user's open
+ * Server-Sent Events streams
+ */
+
+import { Response } from 'express';
+import { WebSocketMessage } from '../../types/api';
+import { GenerationEvent } from '../../types/generation';
+import { withoutInlineImages } from '../../services/storage';
+import { jobQueue } from '../jobs';
+import { creditService, CreditBalanceChange } from '../credits';
+
+// Comment lines keep proxies and the server's idle socket timeout from closing quiet streams
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+// A new stream beyond this closes the user's oldest one (e.g. a forgotten tab)
+const MAX_STREAMS_PER_USER = 5;
+
+// Delay the browser waits before reconnecting a dropped stream
+const CLIENT_RETRY_MS = 5000;
+
+export type RealtimeMessageType =
+  | 'connected'
+  | 'credits_balance'
+  | GenerationEvent['type'];
+
+export class RealtimeService {
+  private streams = new Map<string, Set<Response>>();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  private onJobEvent = (event: GenerationEvent) => {
+    if (!event.userId) return;
+
+    // Results of unsaved generations hold the image as a data URL; clients fetch the job for it instead
+    this.publish(event.userId, event.type, {
+      jobId: event.jobId,
+      ...(event.batchId && { batchId: event.batchId }),
+      ...withoutInlineImages(event.data) as Record<string, unknown>
+    });
+  };
+
+  private onBalanceChange = (change: CreditBalanceChange) => {
+    this.publish(change.userId, 'credits_balance', {
+      balance: change.balance,
+      amount: change.amount,
+      type: change.type,
+      apiEndpoint: change.apiEndpoint
+    });
+  };
+
+  /**
+   * Start forwarding queue and credit events and sending heartbeats
+   */
+  start(): void {
+    if (this.heartbeatTimer) return;
+
+    jobQueue.on('event', this.onJobEvent);
+    creditService.on('balance_changed', this.onBalanceChange);
+
+    this.heartbeatTimer = setInterval(() => {
+      for (const streams of this.streams.values()) {
+        for (const res of streams) {
+          res.write(': heartbeat\n\n');
+        }
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  /**
+   * Stop forwarding events and end every open stream
+   */
+  stop(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    jobQueue.off('event', this.onJobEvent);
+    creditService.off('balance_changed', this.onBalanceChange);
+
+    for (const streams of this.streams.values()) {
+      for (const res of streams) {
+        res.end();
+      }
+    }
+    this.streams.clear();
+  }
+
+  /**
+   * Turn the response into an event stream for the user; it is removed again when the client disconnects
+   */
+  openStream(userId: string, res: Response, initial: Record<string, unknown> = {}): void {
+    res.status(200);
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      // Disable response buffering in nginx
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+    res.req.socket.setTimeout(0);
+
+    let streams = this.streams.get(userId);
+    if (!streams) {
+      streams = new Set();
+      this.streams.set(userId, streams);
+    }
+
+    if (streams.size >= MAX_STREAMS_PER_USER) {
+      const oldest = streams.values().next().value as Response;
+      streams.delete(oldest);
+      oldest.end();
+    }
+    streams.add(res);
+
+    res.req.on('close', () => this.removeStream(userId, res));
+
+    res.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+    this.write(res, this.toMessage(userId, 'connected', initial));
+  }
+
+  /**
+   * Send a message to every open stream of the user
+   */
+  publish(userId: string, type: RealtimeMessageType, payload: any): void {
+    const streams = this.streams.get(userId);
+    if (!streams || streams.size === 0) return;
+
+    const message = this.toMessage(userId, type, payload);
+    for (const res of streams) {
+      this.write(res, message);
+    }
+  }
+
+  /**
+   * Open streams, for one user or in total
+   */
+  streamCount(userId?: string): number {
+    if (userId) {
+      return this.streams.get(userId)?.size ?? 0;
+    }
+    let count = 0;
+    for (const streams of this.streams.values()) {
+      count += streams.size;
+    }
+    return count;
+  }
+
+  private removeStream(userId: string, res: Response): void {
+    const streams = this.streams.get(userId);
+    if (!streams) return;
+
+    streams.delete(res);
+    if (streams.size === 0) {
+      this.streams.delete(userId);
+    }
+  }
+
+  private toMessage(userId: string, type: RealtimeMessageType, payload: any): WebSocketMessage {
+    return {
+      type,
+      payload,
+      timestamp: new Date().toISOString(),
+      userId
+    };
+  }
+
+  private write(res: Response, message: WebSocketMessage): void {
+    res.write(`event: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+}
+
+export const realtimeService = new RealtimeService();
@@ -0,0 +1,8 @@
+/**
+ * Scenes Module
+ * Exports the scene service and routes
+ */
+
+export { sceneService, SceneService, SceneError } from './scenes.service';
+export type { SceneDetailView, SceneCharacterView, SceneGenerationView, ListScenesOptions } from './scenes.service';
+export { default as scenesRouter } from './scenes.routes';
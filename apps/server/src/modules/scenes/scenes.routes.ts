@@ -0,0 +1,323 @@
+/**
+ * Scene Routes
+ * Scenes, the characters placed in them, and multi-character scene generation
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../../middleware/requireAuth';
+import {
+  createValidationMiddleware,
+  validateQueryParams,
+  QueryValidators,
+  ValidatedRequest
+} from '../../middleware/validation';
+import { SceneSchema } from '../../schemas/sceneSchema';
+import {
+  AddCharacterToSceneData,
+  CreateSceneData,
+  UpdateSceneCharacterData,
+  UpdateSceneData
+} from '../../types/collections';
+import { checkCredits, transferCreditReservation } from '../credits';
+import { jobQueue, JOB_KINDS, QueueFullError } from '../jobs';
+import { moderatePrompt, bodyFields } from '../moderation';
+import { sceneService, SceneError } from './scenes.service';
+
+const router = Router();
+
+// Scene and placement text ends up in the generation prompt, so it is screened when saved
+const moderateSceneText = moderatePrompt('/scenes', bodyFields('name', 'description', 'environment', 'setting', 'mood', 'lighting'));
+const moderatePlacementText = moderatePrompt('/scenes/characters', bodyFields('pose', 'expression', 'action'));
+
+const validateCreateScene = createValidationMiddleware<CreateSceneData>(
+  (data) => SceneSchema.validateCreateInput(data),
+  (data) => SceneSchema.sanitizeCreateInput(data)
+);
+
+const validateUpdateScene = createValidationMiddleware<UpdateSceneData>(
+  (data) => SceneSchema.validateUpdateInput(data),
+  (data) => SceneSchema.sanitizeUpdateInput(data)
+);
+
+const validateAddCharacter = createValidationMiddleware<AddCharacterToSceneData>(
+  (data) => SceneSchema.validateAddCharacterInput(data),
+  (data) => SceneSchema.sanitizePlacementInput(data)
+);
+
+const validateUpdateCharacter = createValidationMiddleware<UpdateSceneCharacterData>(
+  (data) => SceneSchema.validateUpdateCharacterInput(data),
+  (data) => SceneSchema.sanitizePlacementInput(data)
+);
+
+/**
+ * Send a SceneError with its own status, anything else as a 500
+ */
+function sendError(res: Response, error: any, fallbackMessage: string): Response {
+  if (error instanceof SceneError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        ...(error.details && { details: error.details })
+      }
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage
+    }
+  });
+}
+
+/**
+ * GET /api/v1/scenes
+ * List the user's scenes with character counts, latest image and preview characters
+ */
+router.get('/', requireAuth, validateQueryParams(QueryValidators.validatePagination), async (req: Request, res: Response): Promise<any> => {
+  try {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+
+    const { items, total } = await sceneService.listScenes(req.user!.id, { page, limit });
+
+    res.json({
+      success: true,
+      data: {
+        items,
+        pagination: {
+          currentPage: page,
+          itemsPerPage: limit,
+          totalItems: total,
+          totalPages: Math.ceil(total / limit),
+          hasNextPage: page * limit < total,
+          hasPreviousPage: page > 1
+        }
+      },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch scenes');
+  }
+});
+
+/**
+ * POST /api/v1/scenes
+ * Create a scene; body: { name, description?, environment?, setting?, mood?, lighting?, isPublic? }
+ */
+router.post('/', requireAuth, validateCreateScene, moderateSceneText, async (req: ValidatedRequest<CreateSceneData>, res: Response): Promise<any> => {
+  try {
+    const scene = await sceneService.createScene(req.user!.id, req.validatedData!);
+
+    res.status(201).json({
+      success: true,
+      data: scene
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to create scene');
+  }
+});
+
+/**
+ * GET /api/v1/scenes/:id
+ * Get a scene with its characters and recent generations
+ */
+router.get('/:id', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const scene = await sceneService.getScene(req.params.id!, req.user!.id);
+
+    res.json({
+      success: true,
+      data: scene
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch scene');
+  }
+});
+
+/**
+ * PUT /api/v1/scenes/:id
+ * Update scene name, visibility or attributes (null or "" clears an attribute)
+ */
+router.put('/:id', requireAuth, validateUpdateScene, moderateSceneText, async (req: ValidatedRequest<UpdateSceneData>, res: Response): Promise<any> => {
+  try {
+    const scene = await sceneService.updateScene(req.params.id!, req.user!.id, req.validatedData!);
+
+    res.json({
+      success: true,
+      data: scene
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to update scene');
+  }
+});
+
+/**
+ * DELETE /api/v1/scenes/:id
+ * Delete a scene and its generated images; the characters are kept
+ */
+router.delete('/:id', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    await sceneService.deleteScene(req.params.id!, req.user!.id);
+
+    res.json({
+      success: true,
+      data: { message: 'Scene deleted successfully' }
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to delete scene');
+  }
+});
+
+/**
+ * POST /api/v1/scenes/:id/characters
+ * Place a character; body: { characterId, pose?, expression?, action?, position?: { x, y, scale?, rotation? } }
+ * x and y are normalized 0-1 from the top-left corner of the frame
+ */
+router.post('/:id/characters', requireAuth, validateAddCharacter, moderatePlacementText, async (req: ValidatedRequest<AddCharacterToSceneData>, res: Response): Promise<any> => {
+  try {
+    const scene = await sceneService.addCharacter(req.params.id!, req.user!.id, req.validatedData!);
+
+    res.status(201).json({
+      success: true,
+      data: scene
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to add character to scene');
+  }
+});
+
+/**
+ * PUT /api/v1/scenes/:id/characters/:characterId
+ * Change pose, expression, action or position of a placed character
+ */
+router.put('/:id/characters/:characterId', requireAuth, validateUpdateCharacter, moderatePlacementText, async (req: ValidatedRequest<UpdateSceneCharacterData>, res: Response): Promise<any> => {
+  try {
+    const scene = await sceneService.updateCharacter(req.params.id!, req.user!.id, req.params.characterId!, req.validatedData!);
+
+    res.json({
+      success: true,
+      data: scene
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to update scene character');
+  }
+});
+
+/**
+ * DELETE /api/v1/scenes/:id/characters/:characterId
+ * Remove a character from a scene
+ */
+router.delete('/:id/characters/:characterId', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const scene = await sceneService.removeCharacter(req.params.id!, req.user!.id, req.params.characterId!);
+
+    res.json({
+      success: true,
+      data: scene
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to remove character from scene');
+  }
+});
+
+/**
+ * POST /api/v1/scenes/:id/generate
+ * Compose the scene prompt and queue a multi-image generation; returns 202 with the generation and job ids
+ */
+router.post('/:id/generate', requireAuth, checkCredits('/scenes/generate', { quota: true }), async (req: Request, res: Response): Promise<any> => {
+  let pendingGenerationId: string | undefined;
+
+  try {
+    const generation = await sceneService.createGeneration(req.params.id!, req.user!.id);
+    pendingGenerationId = generation.id;
+
+    const job = await jobQueue.enqueue({
+      userId: req.user!.id,
+      kind: JOB_KINDS.SCENE,
+      payload: { generationId: generation.id },
+      creditCost: req.creditCost,
+      apiEndpoint: '/scenes/generate',
+      reservationId: req.creditReservation?.id
+    });
+    pendingGenerationId = undefined;
+
+    // The job now owns the held credits: committed on success, released on failure
+    transferCreditReservation(req);
+
+    const queued = await sceneService.attachJob(generation.id, job.id);
+
+    res.status(202).json({
+      success: true,
+      data: {
+        generation: queued,
+        jobId: job.id,
+        status: 'queued',
+        statusUrl: `/api/v1/scenes/${req.params.id}/generations/${generation.id}`
+      },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    // A generation without a job would stay pending forever
+    if (pendingGenerationId) {
+      await sceneService.discardGeneration(pendingGenerationId).catch(() => undefined);
+    }
+
+    if (error instanceof QueueFullError) {
+      return res.status(503).json({
+        success: false,
+        error: {
+          code: 'QUEUE_FULL',
+          message: error.message
+        }
+      });
+    }
+
+    sendError(res, error, 'Failed to queue scene generation');
+  }
+});
+
+/**
+ * GET /api/v1/scenes/:id/generations
+ * List a scene's generations, newest first
+ */
+router.get('/:id/generations', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const generations = await sceneService.listGenerations(req.params.id!, req.user!.id, limit);
+
+    res.json({
+      success: true,
+      data: generations
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch scene generations');
+  }
+});
+
+/**
+ * GET /api/v1/scenes/:id/generations/:generationId
+ * Get the status and result of a scene generation
+ */
+router.get('/:id/generations/:generationId', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const generation = await sceneService.getGeneration(req.params.id!, req.params.generationId!, req.user!.id);
+
+    res.json({
+      success: true,
+      data: generation
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch scene generation');
+  }
+});
+
+export default router;
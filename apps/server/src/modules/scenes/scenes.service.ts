@@ -0,0 +1,504 @@
+/**
+ * Scene Service
+ * Scenes that place several of the user's characters together, and the generations rendered from them
+ */
+
+import { PrismaClient, Prisma, SceneGenerationStatus } from '@prisma/client';
+import {
+  AddCharacterToSceneData,
+  CollectionPreviewCharacter,
+  CreateSceneData,
+  SceneDisplayData,
+  UpdateSceneCharacterData,
+  UpdateSceneData
+} from '../../types/collections';
+import {
+  buildScenePrompt,
+  MAX_SCENE_CHARACTERS,
+  ScenePosition,
+  SceneGenerationMetadata
+} from '../../services/sceneGenerationService';
+import { getStorageService } from '../../services/storage';
+import { imageRecordUrls } from '../../services/imagePipeline';
+
+const prisma = new PrismaClient();
+
+/** Number of characters shown on a scene card in list responses */
+const PREVIEW_CHARACTER_COUNT = 4;
+
+/** Generations returned with a scene; older ones are available from the generations endpoint */
+const RECENT_GENERATION_COUNT = 10;
+
+/**
+ * Error with an API error code and HTTP status, thrown for invalid scene operations
+ */
+export class SceneError extends Error {
+  public code: string;
+  public statusCode: number;
+  public details?: any;
+
+  constructor(code: string, message: string, statusCode: number = 400, details?: any) {
+    super(message);
+    this.name = 'SceneError';
+    this.code = code;
+    this.statusCode = statusCode;
+    this.details = details;
+  }
+}
+
+const CHARACTER_SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  imageUrl: true,
+  thumbnailUrl: true
+};
+
+const LATEST_IMAGE_INCLUDE = {
+  where: { status: SceneGenerationStatus.COMPLETED },
+  orderBy: { completedAt: 'desc' as const },
+  take: 1,
+  select: { imageUrl: true, thumbnailUrl: true }
+};
+
+const SCENE_CARD_INCLUDE = {
+  user: { select: { id: true, name: true } },
+  characters: {
+    orderBy: { addedAt: 'asc' as const },
+    take: PREVIEW_CHARACTER_COUNT,
+    include: { character: { select: CHARACTER_SUMMARY_SELECT } }
+  },
+  generations: LATEST_IMAGE_INCLUDE,
+  _count: { select: { characters: true } }
+};
+
+const SCENE_DETAIL_INCLUDE = {
+  user: { select: { id: true, name: true } },
+  characters: {
+    orderBy: { addedAt: 'asc' as const },
+    include: { character: { select: { ...CHARACTER_SUMMARY_SELECT, prompt: true } } }
+  },
+  generations: LATEST_IMAGE_INCLUDE,
+  _count: { select: { characters: true } }
+};
+
+type SceneCardRecord = Prisma.SceneGetPayload<{ include: typeof SCENE_CARD_INCLUDE }>;
+type SceneDetailRecord = Prisma.SceneGetPayload<{ include: typeof SCENE_DETAIL_INCLUDE }>;
+type SceneGenerationRecord = Prisma.SceneGenerationGetPayload<{}>;
+
+export interface SceneCharacterView {
+  id: string;
+  sceneId: string;
+  characterId: string;
+  pose?: string;
+  expression?: string;
+  action?: string;
+  position?: ScenePosition;
+  addedAt: Date;
+  character: CollectionPreviewCharacter & { prompt: string };
+}
+
+export interface SceneGenerationView {
+  id: string;
+  sceneId: string;
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+  prompt: string;
+  jobId?: string;
+  imageUrl?: string;
+  thumbnailUrl?: string;
+  metadata?: Record<string, any>;
+  errorMessage?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SceneDetailView extends SceneDisplayData {
+  characters: SceneCharacterView[];
+  generations: SceneGenerationView[];
+}
+
+export interface ListScenesOptions {
+  page?: number;
+  limit?: number;
+}
+
+function toPreviewCharacter(character: { id: string; name: string | null; imageUrl: string | null; thumbnailUrl: string | null }): CollectionPreviewCharacter {
+  return {
+    id: character.id,
+    name: character.name ?? undefined,
+    imageUrl: character.imageUrl ?? undefined,
+    thumbnailUrl: character.thumbnailUrl ?? undefined
+  };
+}
+
+export class SceneService {
+  /**
+   * List the user's scenes, most recently updated first, with the latest image and preview characters
+   */
+  async listScenes(userId: string, options: ListScenesOptions = {}): Promise<{ items: SceneDisplayData[]; total: number }> {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? 20;
+
+    const [scenes, total] = await Promise.all([
+      prisma.scene.findMany({
+        where: { userId },
+        orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+        include: SCENE_CARD_INCLUDE
+      }),
+      prisma.scene.count({ where: { userId } })
+    ]);
+
+    return { items: scenes.map(scene => this.toDisplayData(scene)), total };
+  }
+
+  /**
+   * Get a scene owned by the user with its placed characters and recent generations
+   */
+  async getScene(sceneId: string, userId: string): Promise<SceneDetailView> {
+    const scene = await prisma.scene.findFirst({
+      where: { id: sceneId, userId },
+      include: SCENE_DETAIL_INCLUDE
+    });
+
+    if (!scene) {
+      throw new SceneError('NOT_FOUND', 'Scene not found', 404);
+    }
+
+    const generations = await prisma.sceneGeneration.findMany({
+      where: { sceneId },
+      orderBy: { createdAt: 'desc' },
+      take: RECENT_GENERATION_COUNT
+    });
+
+    return {
+      ...this.toDisplayData(scene),
+      characters: scene.characters.map(placement => ({
+        id: placement.id,
+        sceneId: placement.sceneId,
+        characterId: placement.characterId,
+        pose: placement.pose ?? undefined,
+        expression: placement.expression ?? undefined,
+        action: placement.action ?? undefined,
+        position: (placement.position as unknown as ScenePosition | null) ?? undefined,
+        addedAt: placement.addedAt,
+        character: {
+          ...toPreviewCharacter(placement.character),
+          prompt: placement.character.prompt
+        }
+      })),
+      generations: generations.map(generation => this.toGenerationView(generation))
+    };
+  }
+
+  async createScene(userId: string, data: CreateSceneData): Promise<SceneDetailView> {
+    const scene = await prisma.scene.create({
+      data: {
+        userId,
+        name: data.name,
+        description: data.description ?? null,
+        environment: data.environment ?? null,
+        setting: data.setting ?? null,
+        mood: data.mood ?? null,
+        lighting: data.lighting ?? null,
+        isPublic: data.isPublic ?? false
+      }
+    });
+
+    return this.getScene(scene.id, userId);
+  }
+
+  async updateScene(sceneId: string, userId: string, data: UpdateSceneData): Promise<SceneDetailView> {
+    await this.assertSceneOwned(prisma, sceneId, userId);
+
+    await prisma.scene.update({
+      where: { id: sceneId },
+      data
+    });
+
+    return this.getScene(sceneId, userId);
+  }
+
+  /**
+   * Delete a scene with its generations and release their images; the characters are kept
+   */
+  async deleteScene(sceneId: string, userId: string): Promise<void> {
+    await this.assertSceneOwned(prisma, sceneId, userId);
+
+    const generations = await prisma.sceneGeneration.findMany({
+      where: { sceneId },
+      select: { imageUrl: true, thumbnailUrl: true, metadata: true }
+    });
+
+    await prisma.scene.delete({ where: { id: sceneId } });
+    await getStorageService().releaseImages(generations.map(imageRecordUrls));
+  }
+
+  /**
+   * Place one of the user's characters in a scene
+   */
+  async addCharacter(sceneId: string, userId: string, data: AddCharacterToSceneData): Promise<SceneDetailView> {
+    await prisma.$transaction(async (tx) => {
+      await this.assertSceneOwned(tx, sceneId, userId);
+
+      const character = await tx.character.findFirst({
+        where: { id: data.characterId, userId },
+        select: { id: true }
+      });
+
+      if (!character) {
+        throw new SceneError('CHARACTER_NOT_FOUND', 'Character not found', 404);
+      }
+
+      const placements = await tx.sceneCharacter.findMany({
+        where: { sceneId },
+        select: { characterId: true }
+      });
+
+      if (placements.some(placement => placement.characterId === data.characterId)) {
+        throw new SceneError('ALREADY_IN_SCENE', 'Character is already in this scene', 409);
+      }
+
+      if (placements.length >= MAX_SCENE_CHARACTERS) {
+        throw new SceneError('SCENE_FULL', `A scene can contain at most ${MAX_SCENE_CHARACTERS} characters`);
+      }
+
+      await tx.sceneCharacter.create({
+        data: {
+          sceneId,
+          characterId: data.characterId,
+          pose: data.pose ?? null,
+          expression: data.expression ?? null,
+          action: data.action ?? null,
+          ...(data.position && { position: data.position as unknown as Prisma.InputJsonValue })
+        }
+      });
+
+      await this.touch(tx, sceneId);
+    });
+
+    return this.getScene(sceneId, userId);
+  }
+
+  /**
+   * Change pose, expression, action or position of a placed character
+   */
+  async updateCharacter(
+    sceneId: string,
+    userId: string,
+    characterId: string,
+    data: UpdateSceneCharacterData
+  ): Promise<SceneDetailView> {
+    await prisma.$transaction(async (tx) => {
+      await this.assertSceneOwned(tx, sceneId, userId);
+
+      const { count } = await tx.sceneCharacter.updateMany({
+        where: { sceneId, characterId },
+        data: {
+          ...(data.pose !== undefined && { pose: data.pose }),
+          ...(data.expression !== undefined && { expression: data.expression }),
+          ...(data.action !== undefined && { action: data.action }),
+          ...(data.position !== undefined && {
+            position: data.position === null ? Prisma.DbNull : data.position as unknown as Prisma.InputJsonValue
+          })
+        }
+      });
+
+      if (count === 0) {
+        throw new SceneError('NOT_FOUND', 'Character is not in this scene', 404);
+      }
+
+      await this.touch(tx, sceneId);
+    });
+
+    return this.getScene(sceneId, userId);
+  }
+
+  async removeCharacter(sceneId: string, userId: string, characterId: string): Promise<SceneDetailView> {
+    await prisma.$transaction(async (tx) => {
+      await this.assertSceneOwned(tx, sceneId, userId);
+
+      const { count } = await tx.sceneCharacter.deleteMany({
+        where: { sceneId, characterId }
+      });
+
+      if (count === 0) {
+        throw new SceneError('NOT_FOUND', 'Character is not in this scene', 404);
+      }
+
+      await this.touch(tx, sceneId);
+    });
+
+    return this.getScene(sceneId, userId);
+  }
+
+  /**
+   * Compose the scene prompt from the scene attributes and each character's stored prompt,
+   * and record a pending generation for the job to render
+   */
+  async createGeneration(sceneId: string, userId: string): Promise<SceneGenerationView> {
+    const scene = await prisma.scene.findFirst({
+      where: { id: sceneId, userId },
+      include: {
+        characters: {
+          orderBy: { addedAt: 'asc' },
+          include: { character: { select: { id: true, name: true, prompt: true, imageUrl: true } } }
+        }
+      }
+    });
+
+    if (!scene) {
+      throw new SceneError('NOT_FOUND', 'Scene not found', 404);
+    }
+
+    if (scene.characters.length === 0) {
+      throw new SceneError('NO_CHARACTERS', 'Add at least one character to the scene before generating it');
+    }
+
+    const prompt = buildScenePrompt(scene, scene.characters.map(placement => ({
+      name: placement.character.name,
+      prompt: placement.character.prompt,
+      pose: placement.pose,
+      expression: placement.expression,
+      action: placement.action,
+      position: placement.position as unknown as ScenePosition | null,
+      hasReferenceImage: !!placement.character.imageUrl
+    })));
+
+    const metadata: SceneGenerationMetadata = {
+      characters: scene.characters.map(placement => ({
+        id: placement.character.id,
+        name: placement.character.name,
+        referenceImageUrl: placement.character.imageUrl
+      }))
+    };
+
+    const generation = await prisma.sceneGeneration.create({
+      data: {
+        userId,
+        sceneId,
+        prompt,
+        status: SceneGenerationStatus.PENDING,
+        metadata: metadata as unknown as Prisma.InputJsonValue
+      }
+    });
+
+    return this.toGenerationView(generation);
+  }
+
+  /**
+   * Link a pending generation to the job that renders it
+   */
+  async attachJob(generationId: string, jobId: string): Promise<SceneGenerationView> {
+    const generation = await prisma.sceneGeneration.update({
+      where: { id: generationId },
+      data: { jobId }
+    });
+
+    return this.toGenerationView(generation);
+  }
+
+  /**
+   * Drop a pending generation whose job could not be queued
+   */
+  async discardGeneration(generationId: string): Promise<void> {
+    await prisma.sceneGeneration.deleteMany({
+      where: { id: generationId, status: SceneGenerationStatus.PENDING }
+    });
+  }
+
+  async listGenerations(sceneId: string, userId: string, limit: number = 20): Promise<SceneGenerationView[]> {
+    await this.assertSceneOwned(prisma, sceneId, userId);
+
+    const generations = await prisma.sceneGeneration.findMany({
+      where: { sceneId },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+
+    return generations.map(generation => this.toGenerationView(generation));
+  }
+
+  async getGeneration(sceneId: string, generationId: string, userId: string): Promise<SceneGenerationView> {
+    const generation = await prisma.sceneGeneration.findFirst({
+      where: { id: generationId, sceneId, userId }
+    });
+
+    if (!generation) {
+      throw new SceneError('NOT_FOUND', 'Scene generation not found', 404);
+    }
+
+    return this.toGenerationView(generation);
+  }
+
+  /**
+   * Map a scene row to the card shape used in list responses
+   */
+  toDisplayData(scene: SceneCardRecord | SceneDetailRecord): SceneDisplayData {
+    const latestImage = scene.generations[0];
+
+    return {
+      id: scene.id,
+      name: scene.name,
+      description: scene.description ?? undefined,
+      environment: scene.environment ?? undefined,
+      setting: scene.setting ?? undefined,
+      mood: scene.mood ?? undefined,
+      lighting: scene.lighting ?? undefined,
+      imageUrl: latestImage?.imageUrl ?? undefined,
+      thumbnailUrl: latestImage?.thumbnailUrl ?? undefined,
+      isPublic: scene.isPublic,
+      characterCount: scene._count.characters,
+      author: {
+        id: scene.user.id,
+        name: scene.user.name ?? undefined
+      },
+      createdAt: scene.createdAt,
+      updatedAt: scene.updatedAt,
+      previewCharacters: scene.characters
+        .slice(0, PREVIEW_CHARACTER_COUNT)
+        .map(placement => toPreviewCharacter(placement.character))
+    };
+  }
+
+  toGenerationView(generation: SceneGenerationRecord): SceneGenerationView {
+    return {
+      id: generation.id,
+      sceneId: generation.sceneId,
+      status: generation.status,
+      prompt: generation.prompt,
+      jobId: generation.jobId ?? undefined,
+      imageUrl: generation.imageUrl ?? undefined,
+      thumbnailUrl: generation.thumbnailUrl ?? undefined,
+      metadata: (generation.metadata as Record<string, any> | null) ?? undefined,
+      errorMessage: generation.errorMessage ?? undefined,
+      completedAt: generation.completedAt ?? undefined,
+      createdAt: generation.createdAt,
+      updatedAt: generation.updatedAt
+    };
+  }
+
+  private async assertSceneOwned(tx: Prisma.TransactionClient | PrismaClient, sceneId: string, userId: string): Promise<void> {
+    const scene = await tx.scene.findFirst({
+      where: { id: sceneId, userId },
+      select: { id: true }
+    });
+
+    if (!scene) {
+      throw new SceneError('NOT_FOUND', 'Scene not found', 404);
+    }
+  }
+
+  /**
+   * Bump updatedAt so recently edited scenes list first
+   */
+  private async touch(tx: Prisma.TransactionClient, sceneId: string): Promise<void> {
+    await tx.scene.update({
+      where: { id: sceneId },
+      data: { updatedAt: new Date() }
+    });
+  }
+}
+
+export const sceneService = new SceneService();
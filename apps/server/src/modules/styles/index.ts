@@ -0,0 +1,7 @@
+/**
+ * Styles Module
+ * Exports the style preset service and routes
+ */
+
+export { stylePresetService, StylePresetService, StylePresetError, toStylePromptFragments } from './styles.service';
+export { default as stylesRouter } from './styles.routes';
@@ -0,0 +1,140 @@
+/**
+ * Style Routes
+ * The generation styles clients can choose from; adding, editing and deactivating them is limited to admins
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAuth, optionalAuth } from '../../middleware/requireAuth';
+import { requireAdmin, isAdmin } from '../../middleware/requireAdmin';
+import { createValidationMiddleware, ValidatedRequest } from '../../middleware/validation';
+import { StylePresetSchema } from '../../schemas/stylePresetSchema';
+import { CreateStylePresetData, UpdateStylePresetData } from '../../types/styles';
+import { stylePresetService, StylePresetError } from './styles.service';
+
+const router = Router();
+
+const validateCreatePreset = createValidationMiddleware<CreateStylePresetData>(
+  (data) => StylePresetSchema.validateCreateInput(data),
+  (data) => StylePresetSchema.sanitizeCreateInput(data)
+);
+
+const validateUpdatePreset = createValidationMiddleware<UpdateStylePresetData>(
+  (data) => StylePresetSchema.validateUpdateInput(data),
+  (data) => StylePresetSchema.sanitizeUpdateInput(data)
+);
+
+/**
+ * Send a StylePresetError with its own status, anything else as a 500
+ */
+function sendError(res: Response, error: any, fallbackMessage: string): Response {
+  if (error instanceof StylePresetError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        ...(error.details && { details: error.details })
+      }
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage
+    }
+  });
+}
+
+/**
+ * GET /api/v1/styles
+ * Active styles in display order; admins can add ?includeInactive=true
+ */
+router.get('/', optionalAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const presets = await stylePresetService.listPresets({
+      includeInactive: req.query.includeInactive === 'true' && isAdmin(req.user)
+    });
+
+    res.json({
+      success: true,
+      data: presets
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch styles');
+  }
+});
+
+/**
+ * GET /api/v1/styles/:key
+ * One style; inactive styles are only visible to admins
+ */
+router.get('/:key', optionalAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const preset = await stylePresetService.getPreset(req.params.key!, { includeInactive: isAdmin(req.user) });
+
+    res.json({
+      success: true,
+      data: preset
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch style');
+  }
+});
+
+/**
+ * POST /api/v1/styles
+ * Add a style (admins only)
+ */
+router.post('/', requireAuth, requireAdmin, validateCreatePreset, async (req: ValidatedRequest<CreateStylePresetData>, res: Response): Promise<any> => {
+  try {
+    const preset = await stylePresetService.createPreset(req.validatedData!);
+
+    res.status(201).json({
+      success: true,
+      data: preset
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to create style');
+  }
+});
+
+/**
+ * PUT /api/v1/styles/:key
+ * Edit or (de)activate a style, built-in styles included (admins only)
+ */
+router.put('/:key', requireAuth, requireAdmin, validateUpdatePreset, async (req: ValidatedRequest<UpdateStylePresetData>, res: Response): Promise<any> => {
+  try {
+    const preset = await stylePresetService.updatePreset(req.params.key!.toLowerCase(), req.validatedData!);
+
+    res.json({
+      success: true,
+      data: preset
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to update style');
+  }
+});
+
+/**
+ * DELETE /api/v1/styles/:key
+ * Delete an added style, or reset a customized built-in style to its defaults (admins only)
+ */
+router.delete('/:key', requireAuth, requireAdmin, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const restored = await stylePresetService.deletePreset(req.params.key!.toLowerCase());
+
+    res.json({
+      success: true,
+      data: restored
+        ? { message: 'Style reset to its built-in defaults', style: restored }
+        : { message: 'Style deleted successfully' }
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to delete style');
+  }
+});
+
+export default router;
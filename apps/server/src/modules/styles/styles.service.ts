@@ -0,0 +1,269 @@
+/**
+ * Style Preset Service
+ * Generation styles: the built-in presets for STYLE_TYPE, admin-managed presets stored in the database,
+ * and resolving the style a client chose into the prompt fragments sent to the model
+ */
+
+import { PrismaClient, StylePreset as StylePresetRecord } from '@prisma/client';
+import { STYLE_TYPE } from '../../../../../shared/types/enums';
+import {
+  CreateStylePresetData,
+  StylePreset,
+  StylePromptFragments,
+  UpdateStylePresetData
+} from '../../types/styles';
+
+const prisma = new PrismaClient();
+
+/**
+ * Error with an API error code and HTTP status, thrown for invalid style operations and unknown styles
+ */
+export class StylePresetError extends Error {
+  public code: string;
+  public statusCode: number;
+  public details?: any;
+
+  constructor(code: string, message: string, statusCode: number = 400, details?: any) {
+    super(message);
+    this.name = 'StylePresetError';
+    this.code = code;
+    this.statusCode = statusCode;
+    this.details = details;
+  }
+}
+
+// Shipped defaults, one per STYLE_TYPE; a stored row with the same key replaces one
+const BUILT_IN_STYLE_PRESETS: CreateStylePresetData[] = [
+  {
+    key: STYLE_TYPE.REALISTIC.toLowerCase(),
+    name: 'Realistic',
+    description: 'Photorealistic characters with natural lighting',
+    promptPrefix: 'Photorealistic character portrait,',
+    promptSuffix: 'Natural lighting, realistic skin texture, sharp focus, high detail.',
+    negativePrompt: 'cartoon, illustration, anime, painterly brush strokes, distorted anatomy',
+    sortOrder: 10
+  },
+  {
+    key: STYLE_TYPE.CARTOON.toLowerCase(),
+    name: 'Cartoon',
+    description: 'Friendly cartoon characters with bold outlines',
+    promptPrefix: 'Cartoon character illustration,',
+    promptSuffix: 'Bold clean outlines, flat vibrant colors, expressive proportions.',
+    negativePrompt: 'photorealistic, photo, gritty textures, muted colors',
+    sortOrder: 20
+  },
+  {
+    key: STYLE_TYPE.ANIME.toLowerCase(),
+    name: 'Anime',
+    description: 'Japanese anime art style',
+    promptPrefix: 'Anime style character illustration,',
+    promptSuffix: 'Cel shading, large expressive eyes, crisp line art, vibrant colors.',
+    negativePrompt: 'photorealistic, 3D render, western cartoon style',
+    sortOrder: 30
+  },
+  {
+    key: STYLE_TYPE.FANTASY.toLowerCase(),
+    name: 'Fantasy',
+    description: 'Epic fantasy concept art',
+    promptPrefix: 'Epic fantasy concept art of a character,',
+    promptSuffix: 'Dramatic lighting, rich detailed costume, painterly digital art.',
+    negativePrompt: 'modern clothing, modern technology, plain background',
+    sortOrder: 40
+  },
+  {
+    key: STYLE_TYPE.CYBERPUNK.toLowerCase(),
+    name: 'Cyberpunk',
+    description: 'Neon-lit futuristic characters',
+    promptPrefix: 'Cyberpunk character art,',
+    promptSuffix: 'Neon lighting, futuristic tech-wear, high contrast, night city atmosphere.',
+    negativePrompt: 'medieval, rustic, daylight pastoral scenery',
+    sortOrder: 50
+  },
+  {
+    key: STYLE_TYPE.VINTAGE.toLowerCase(),
+    name: 'Vintage',
+    description: 'Retro illustration with a warm, aged look',
+    promptPrefix: 'Vintage illustration of a character,',
+    promptSuffix: 'Retro color palette, subtle paper grain, mid-century print style.',
+    negativePrompt: 'neon colors, modern digital gloss, futuristic elements',
+    sortOrder: 60
+  },
+  {
+    key: STYLE_TYPE.MINIMALIST.toLowerCase(),
+    name: 'Minimalist',
+    description: 'Simple shapes and a reduced palette',
+    promptPrefix: 'Minimalist character design,',
+    promptSuffix: 'Simple geometric shapes, limited color palette, clean plain background.',
+    negativePrompt: 'busy background, excessive detail, heavy textures',
+    sortOrder: 70
+  }
+];
+
+const BUILT_IN_KEYS = new Set(BUILT_IN_STYLE_PRESETS.map(preset => preset.key));
+
+function fromBuiltIn(preset: CreateStylePresetData): StylePreset {
+  return {
+    key: preset.key,
+    name: preset.name,
+    ...(preset.description && { description: preset.description }),
+    ...(preset.promptPrefix && { promptPrefix: preset.promptPrefix }),
+    ...(preset.promptSuffix && { promptSuffix: preset.promptSuffix }),
+    ...(preset.negativePrompt && { negativePrompt: preset.negativePrompt }),
+    exampleImages: preset.exampleImages ?? [],
+    isActive: true,
+    builtIn: true,
+    customized: false,
+    sortOrder: preset.sortOrder ?? 0
+  };
+}
+
+function fromRecord(record: StylePresetRecord): StylePreset {
+  return {
+    key: record.key,
+    name: record.name,
+    ...(record.description && { description: record.description }),
+    ...(record.promptPrefix && { promptPrefix: record.promptPrefix }),
+    ...(record.promptSuffix && { promptSuffix: record.promptSuffix }),
+    ...(record.negativePrompt && { negativePrompt: record.negativePrompt }),
+    exampleImages: record.exampleImages,
+    isActive: record.isActive,
+    builtIn: BUILT_IN_KEYS.has(record.key),
+    customized: true,
+    sortOrder: record.sortOrder
+  };
+}
+
+/**
+ * The fragments of a preset that shape prompts; what generation jobs carry in their payload
+ */
+export function toStylePromptFragments(preset: StylePreset): StylePromptFragments {
+  return {
+    key: preset.key,
+    name: preset.name,
+    ...(preset.promptPrefix && { promptPrefix: preset.promptPrefix }),
+    ...(preset.promptSuffix && { promptSuffix: preset.promptSuffix }),
+    ...(preset.negativePrompt && { negativePrompt: preset.negativePrompt })
+  };
+}
+
+export class StylePresetService {
+  /**
+   * Built-in and stored presets, stored ones replacing built-ins with the same key
+   */
+  async listPresets(options: { includeInactive?: boolean } = {}): Promise<StylePreset[]> {
+    const records = await prisma.stylePreset.findMany();
+    const presets = new Map(BUILT_IN_STYLE_PRESETS.map(preset => [preset.key, fromBuiltIn(preset)]));
+    for (const record of records) {
+      presets.set(record.key, fromRecord(record));
+    }
+
+    return [...presets.values()]
+      .filter(preset => options.includeInactive || preset.isActive)
+      .sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+  }
+
+  async getPreset(key: string, options: { includeInactive?: boolean } = {}): Promise<StylePreset> {
+    const preset = await this.findPreset(key);
+
+    if (!preset || (!preset.isActive && !options.includeInactive)) {
+      throw new StylePresetError('NOT_FOUND', 'Style not found', 404);
+    }
+    return preset;
+  }
+
+  async createPreset(data: CreateStylePresetData): Promise<StylePreset> {
+    if (BUILT_IN_KEYS.has(data.key) || await prisma.stylePreset.findUnique({ where: { key: data.key }, select: { id: true } })) {
+      throw new StylePresetError('STYLE_EXISTS', `A style with key "${data.key}" already exists`, 409);
+    }
+
+    try {
+      const record = await prisma.stylePreset.create({ data: { ...data, exampleImages: data.exampleImages ?? [] } });
+      return fromRecord(record);
+    } catch (error: any) {
+      if (error?.code === 'P2002') {
+        throw new StylePresetError('STYLE_EXISTS', `A style with key "${data.key}" already exists`, 409);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update a stored preset; editing a built-in style stores a customized copy of it first
+   */
+  async updatePreset(key: string, data: UpdateStylePresetData): Promise<StylePreset> {
+    const builtIn = BUILT_IN_STYLE_PRESETS.find(preset => preset.key === key);
+
+    if (builtIn) {
+      const record = await prisma.stylePreset.upsert({
+        where: { key },
+        update: data,
+        create: { ...builtIn, exampleImages: builtIn.exampleImages ?? [], ...data }
+      });
+      return fromRecord(record);
+    }
+
+    const existing = await prisma.stylePreset.findUnique({ where: { key }, select: { id: true } });
+    if (!existing) {
+      throw new StylePresetError('NOT_FOUND', 'Style not found', 404);
+    }
+
+    const record = await prisma.stylePreset.update({ where: { key }, data });
+    return fromRecord(record);
+  }
+
+  /**
+   * Delete a stored preset. For a built-in style this drops the customization and its defaults apply
+   * again; built-in styles themselves can only be deactivated.
+   */
+  async deletePreset(key: string): Promise<StylePreset | null> {
+    const deleted = await prisma.stylePreset.deleteMany({ where: { key } });
+    const builtIn = BUILT_IN_STYLE_PRESETS.find(preset => preset.key === key);
+
+    if (deleted.count === 0) {
+      throw builtIn
+        ? new StylePresetError('BUILT_IN_STYLE', 'Built-in styles cannot be deleted; set isActive to false instead', 409)
+        : new StylePresetError('NOT_FOUND', 'Style not found', 404);
+    }
+
+    return builtIn ? fromBuiltIn(builtIn) : null;
+  }
+
+  /**
+   * The prompt fragments of the style a client chose. No style means no fragments; an unknown or
+   * inactive style is rejected with UNKNOWN_STYLE.
+   */
+  async resolveStyle(style: unknown): Promise<StylePromptFragments | null> {
+    if (style === undefined || style === null || style === '') {
+      return null;
+    }
+
+    const preset = typeof style === 'string' ? await this.findPreset(style) : null;
+    if (!preset || !preset.isActive) {
+      const available = (await this.listPresets()).map(active => active.key);
+      throw new StylePresetError('UNKNOWN_STYLE', `Unknown style "${String(style)}"`, 400, { available });
+    }
+
+    return toStylePromptFragments(preset);
+  }
+
+  /**
+   * Like resolveStyle, but styles that are unknown or no longer active resolve to no fragments
+   */
+  async findStyleFragments(style: string | null | undefined): Promise<StylePromptFragments | null> {
+    const preset = style ? await this.findPreset(style) : null;
+    return preset?.isActive ? toStylePromptFragments(preset) : null;
+  }
+
+  private async findPreset(key: string): Promise<StylePreset | null> {
+    const normalized = key.trim().toLowerCase();
+    const record = await prisma.stylePreset.findUnique({ where: { key: normalized } });
+    if (record) {
+      return fromRecord(record);
+    }
+
+    const builtIn = BUILT_IN_STYLE_PRESETS.find(preset => preset.key === normalized);
+    return builtIn ? fromBuiltIn(builtIn) : null;
+  }
+}
+
+export const stylePresetService = new StylePresetService();
@@ -0,0 +1,8 @@
+/**
+ * Templates Module
+ * Exports the template service and routes
+ */
+
+export { templateService, TemplateService, TemplateError, toCharacterTemplate } from './templates.service';
+export type { ListTemplatesOptions, TemplateOverrides } from './templates.service';
+export { default as templatesRouter } from './templates.routes';
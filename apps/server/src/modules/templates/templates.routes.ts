@@ -0,0 +1,128 @@
+/**
+ * Template Routes
+ * Browsing the curated character templates; no account is needed. Characters are created from a
+ * template with POST /api/v1/characters/from-template/:id.
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../../middleware/requireAuth';
+import { requireAdmin } from '../../middleware/requireAdmin';
+import { validateQueryParams, QueryValidators } from '../../middleware/validation';
+import { STYLE_TYPES, StyleType } from '../../../../../shared/types/enums';
+import { TemplateSort, TEMPLATE_SORTS } from '../../types/templates';
+import { templateService, TemplateError } from './templates.service';
+
+const router = Router();
+
+/**
+ * Send a TemplateError with its own status, anything else as a 500
+ */
+function sendError(res: Response, error: any, fallbackMessage: string): Response {
+  if (error instanceof TemplateError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        ...(error.details && { details: error.details })
+      }
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage
+    }
+  });
+}
+
+/**
+ * GET /api/v1/templates
+ * Active templates. ?style=FANTASY|CYBERPUNK|..., ?tags=a,b (any of them),
+ * ?sort=popular (default, by usage count) | name | newest
+ */
+router.get('/', validateQueryParams(QueryValidators.validatePagination), async (req: Request, res: Response): Promise<any> => {
+  try {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+    const sort = typeof req.query.sort === 'string' ? req.query.sort : 'popular';
+    const style = typeof req.query.style === 'string' ? req.query.style.trim().toUpperCase() : undefined;
+
+    if (!TEMPLATE_SORTS.includes(sort as TemplateSort)) {
+      throw new TemplateError('VALIDATION_ERROR', `sort must be one of ${TEMPLATE_SORTS.join(', ')}`);
+    }
+    if (style && !STYLE_TYPES.includes(style as StyleType)) {
+      throw new TemplateError('VALIDATION_ERROR', `style must be one of ${STYLE_TYPES.join(', ')}`);
+    }
+
+    const tags = typeof req.query.tags === 'string'
+      ? req.query.tags.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)
+      : [];
+
+    const { items, total } = await templateService.listTemplates({
+      page,
+      limit,
+      sort: sort as TemplateSort,
+      style: style as StyleType | undefined,
+      tags
+    });
+
+    res.json({
+      success: true,
+      data: {
+        items,
+        pagination: {
+          currentPage: page,
+          itemsPerPage: limit,
+          totalItems: total,
+          totalPages: Math.ceil(total / limit),
+          hasNextPage: page * limit < total,
+          hasPreviousPage: page > 1
+        }
+      },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch templates');
+  }
+});
+
+/**
+ * GET /api/v1/templates/stats
+ * Template counts per style and usage, inactive templates included (admins only)
+ */
+router.get('/stats', requireAuth, requireAdmin, async (_req: Request, res: Response): Promise<any> => {
+  try {
+    const stats = await templateService.getStats();
+
+    res.json({
+      success: true,
+      data: stats
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch template stats');
+  }
+});
+
+/**
+ * GET /api/v1/templates/:id
+ */
+router.get('/:id', async (req: Request, res: Response): Promise<any> => {
+  try {
+    const template = await templateService.getTemplate(req.params.id!);
+
+    res.json({
+      success: true,
+      data: template
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch template');
+  }
+});
+
+export default router;
@@ -0,0 +1,175 @@
+/**
+ * Template Service
+ * Curated character templates: browsing, usage counts and creating characters from a template
+ */
+
+import { PrismaClient, Prisma, CharacterTemplate as TemplateRecord } from '@prisma/client';
+import { StyleType } from '../../../../../shared/types/enums';
+import { TemplateStats } from '../../types/models';
+import { CharacterTemplate, TemplateSort } from '../../types/templates';
+
+const prisma = new PrismaClient();
+
+// Templates listed in the stats' mostPopular
+const MOST_POPULAR_LIMIT = 5;
+
+/**
+ * Error with an API error code and HTTP status, thrown for invalid template operations
+ */
+export class TemplateError extends Error {
+  public code: string;
+  public statusCode: number;
+  public details?: any;
+
+  constructor(code: string, message: string, statusCode: number = 400, details?: any) {
+    super(message);
+    this.name = 'TemplateError';
+    this.code = code;
+    this.statusCode = statusCode;
+    this.details = details;
+  }
+}
+
+export interface ListTemplatesOptions {
+  page?: number;
+  limit?: number;
+  sort?: TemplateSort;
+  style?: StyleType;
+  /** Templates with at least one of the tags */
+  tags?: string[];
+}
+
+/**
+ * Fields of a new character that replace the template's; tags are expected normalized
+ */
+export interface TemplateOverrides {
+  name?: string;
+  description?: string;
+  prompt?: string;
+  tags?: string[];
+}
+
+export function toCharacterTemplate(record: TemplateRecord): CharacterTemplate {
+  return {
+    id: record.id,
+    name: record.name,
+    ...(record.description && { description: record.description }),
+    prompt: record.prompt,
+    styleType: record.styleType as StyleType,
+    tags: record.tags,
+    usageCount: record.usageCount,
+    createdAt: record.createdAt.toISOString(),
+    updatedAt: record.updatedAt.toISOString()
+  };
+}
+
+export class TemplateService {
+  /**
+   * Active templates, most used first by default
+   */
+  async listTemplates(options: ListTemplatesOptions = {}): Promise<{ items: CharacterTemplate[]; total: number }> {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? 20;
+
+    const where: Prisma.CharacterTemplateWhereInput = {
+      isActive: true,
+      ...(options.style && { styleType: options.style }),
+      ...(options.tags && options.tags.length > 0 && { tags: { hasSome: options.tags } })
+    };
+
+    // id as tie-breaker keeps pages stable when sort values repeat
+    const orderBy: Prisma.CharacterTemplateOrderByWithRelationInput[] = options.sort === 'name'
+      ? [{ name: 'asc' }]
+      : options.sort === 'newest'
+        ? [{ createdAt: 'desc' }, { id: 'desc' }]
+        : [{ usageCount: 'desc' }, { name: 'asc' }];
+
+    const [templates, total] = await Promise.all([
+      prisma.characterTemplate.findMany({
+        where,
+        orderBy,
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.characterTemplate.count({ where })
+    ]);
+
+    return { items: templates.map(toCharacterTemplate), total };
+  }
+
+  async getTemplate(templateId: string): Promise<CharacterTemplate> {
+    return toCharacterTemplate(await this.findActiveTemplate(templateId));
+  }
+
+  /**
+   * Counts over all templates, inactive ones included
+   */
+  async getStats(): Promise<TemplateStats> {
+    const [total, active, byStyle, usage, mostPopular] = await Promise.all([
+      prisma.characterTemplate.count(),
+      prisma.characterTemplate.count({ where: { isActive: true } }),
+      prisma.characterTemplate.groupBy({ by: ['styleType'], _count: { _all: true } }),
+      prisma.characterTemplate.aggregate({ _sum: { usageCount: true } }),
+      prisma.characterTemplate.findMany({
+        where: { usageCount: { gt: 0 } },
+        orderBy: [{ usageCount: 'desc' }, { name: 'asc' }],
+        take: MOST_POPULAR_LIMIT,
+        select: { id: true, name: true, usageCount: true }
+      })
+    ]);
+
+    return {
+      total,
+      active,
+      byStyle: Object.fromEntries(byStyle.map(group => [group.styleType, group._count._all])),
+      totalUsage: usage._sum.usageCount ?? 0,
+      mostPopular
+    };
+  }
+
+  /**
+   * Create a private character for the user pre-filled from an active template and count the use.
+   * Returns the template with the character record (tags included).
+   */
+  async createCharacterFromTemplate(templateId: string, userId: string, overrides: TemplateOverrides = {}) {
+    return prisma.$transaction(async (tx) => {
+      const template = await tx.characterTemplate.findFirst({ where: { id: templateId, isActive: true } });
+      if (!template) {
+        throw new TemplateError('NOT_FOUND', 'Template not found', 404);
+      }
+
+      const tags = overrides.tags ?? template.tags;
+      const character = await tx.character.create({
+        data: {
+          userId,
+          templateId: template.id,
+          name: overrides.name ?? template.name,
+          description: overrides.description ?? template.description,
+          prompt: overrides.prompt ?? template.prompt,
+          tags: { connectOrCreate: tags.map(name => ({ where: { name }, create: { name } })) }
+        },
+        include: {
+          tags: { select: { name: true }, orderBy: { name: 'asc' } }
+        }
+      });
+
+      const updated = await tx.characterTemplate.update({
+        where: { id: template.id },
+        data: { usageCount: { increment: 1 } }
+      });
+
+      return { template: toCharacterTemplate(updated), character };
+    });
+  }
+
+  private async findActiveTemplate(templateId: string): Promise<TemplateRecord> {
+    const template = await prisma.characterTemplate.findFirst({ where: { id: templateId, isActive: true } });
+
+    if (!template) {
+      throw new TemplateError('NOT_FOUND', 'Template not found', 404);
+    }
+    return template;
+  }
+}
+
+export const templateService = new TemplateService();
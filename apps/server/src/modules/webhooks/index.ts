@@ -0,0 +1,13 @@
+/**
+ * Webhooks Module
+ * Exports the webhook service and endpoint routes
+ */
+
+export { webhookService, WebhookService, WebhookError, signPayload, isPrivateAddress } from './webhooks.service';
+export type {
+  ListWebhookDeliveriesOptions,
+  WebhookDeliveryRecord,
+  WebhookEndpointRecord,
+  WebhookEndpointWithSecret
+} from './webhooks.service';
+export { default as webhooksRouter } from './webhooks.routes';
@@ -0,0 +1,234 @@
+/**
+ * Webhook Routes
+ * Registration of outbound webhook endpoints, their delivery log and redelivery
+ */
+
+import { Router, Request, Response } from 'express';
+import { WebhookDeliveryStatus } from '@prisma/client';
+import { requireAuth } from '../../middleware/requireAuth';
+import {
+  createValidationMiddleware,
+  validateQueryParams,
+  QueryValidators,
+  ValidatedRequest
+} from '../../middleware/validation';
+import { WebhookSchema } from '../../schemas/webhookSchema';
+import { CreateWebhookEndpointData, UpdateWebhookEndpointData } from '../../types/webhooks';
+import { webhookService, WebhookError } from './webhooks.service';
+
+const router = Router();
+
+const validateCreateEndpoint = createValidationMiddleware<CreateWebhookEndpointData>(
+  (data) => WebhookSchema.validateCreateInput(data),
+  (data) => WebhookSchema.sanitizeCreateInput(data)
+);
+
+const validateUpdateEndpoint = createValidationMiddleware<UpdateWebhookEndpointData>(
+  (data) => WebhookSchema.validateUpdateInput(data),
+  (data) => WebhookSchema.sanitizeUpdateInput(data)
+);
+
+/**
+ * Send a WebhookError with its own status, anything else as a 500
+ */
+function sendError(res: Response, error: any, fallbackMessage: string): Response {
+  if (error instanceof WebhookError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        ...(error.details && { details: error.details })
+      }
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage
+    }
+  });
+}
+
+/**
+ * GET /api/v1/webhooks
+ * List the user's webhook endpoints
+ */
+router.get('/', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const endpoints = await webhookService.listEndpoints(req.user!.id);
+
+    res.json({
+      success: true,
+      data: endpoints
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch webhook endpoints');
+  }
+});
+
+/**
+ * POST /api/v1/webhooks
+ * Register an endpoint; body: { url, events, description? }. The signing secret is only returned here
+ * and by rotate-secret.
+ */
+router.post('/', requireAuth, validateCreateEndpoint, async (req: ValidatedRequest<CreateWebhookEndpointData>, res: Response): Promise<any> => {
+  try {
+    const endpoint = await webhookService.createEndpoint(req.user!.id, req.validatedData!);
+
+    res.status(201).json({
+      success: true,
+      data: endpoint
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to create webhook endpoint');
+  }
+});
+
+/**
+ * POST /api/v1/webhooks/deliveries/:deliveryId/redeliver
+ * Send a logged event again as a new delivery with the same event id
+ */
+router.post('/deliveries/:deliveryId/redeliver', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const delivery = await webhookService.redeliver(req.params.deliveryId!, req.user!.id);
+
+    res.status(202).json({
+      success: true,
+      data: delivery
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to redeliver webhook');
+  }
+});
+
+/**
+ * GET /api/v1/webhooks/:id
+ */
+router.get('/:id', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const endpoint = await webhookService.getEndpoint(req.params.id!, req.user!.id);
+
+    res.json({
+      success: true,
+      data: endpoint
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch webhook endpoint');
+  }
+});
+
+/**
+ * PUT /api/v1/webhooks/:id
+ * Update url, events, description or enabled; pending deliveries of a disabled endpoint fail
+ */
+router.put('/:id', requireAuth, validateUpdateEndpoint, async (req: ValidatedRequest<UpdateWebhookEndpointData>, res: Response): Promise<any> => {
+  try {
+    const endpoint = await webhookService.updateEndpoint(req.params.id!, req.user!.id, req.validatedData!);
+
+    res.json({
+      success: true,
+      data: endpoint
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to update webhook endpoint');
+  }
+});
+
+/**
+ * DELETE /api/v1/webhooks/:id
+ * Delete an endpoint and its delivery log
+ */
+router.delete('/:id', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    await webhookService.deleteEndpoint(req.params.id!, req.user!.id);
+
+    res.json({
+      success: true,
+      data: { message: 'Webhook endpoint deleted successfully' }
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to delete webhook endpoint');
+  }
+});
+
+/**
+ * POST /api/v1/webhooks/:id/rotate-secret
+ * Replace the signing secret and return the new one
+ */
+router.post('/:id/rotate-secret', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const endpoint = await webhookService.rotateSecret(req.params.id!, req.user!.id);
+
+    res.json({
+      success: true,
+      data: endpoint
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to rotate webhook secret');
+  }
+});
+
+/**
+ * POST /api/v1/webhooks/:id/test
+ * Queue a "ping" event to the endpoint
+ */
+router.post('/:id/test', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const delivery = await webhookService.sendTest(req.params.id!, req.user!.id);
+
+    res.status(202).json({
+      success: true,
+      data: delivery
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to send test webhook');
+  }
+});
+
+/**
+ * GET /api/v1/webhooks/:id/deliveries
+ * Delivery log of an endpoint, newest first; ?status=PENDING|SUCCEEDED|FAILED filters
+ */
+router.get('/:id/deliveries', requireAuth, validateQueryParams(QueryValidators.validatePagination), async (req: Request, res: Response): Promise<any> => {
+  try {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+    const status = typeof req.query.status === 'string' ? req.query.status.toUpperCase() : undefined;
+
+    if (status !== undefined && !Object.values(WebhookDeliveryStatus).includes(status as WebhookDeliveryStatus)) {
+      throw new WebhookError('VALIDATION_ERROR', `status must be one of ${Object.values(WebhookDeliveryStatus).join(', ')}`);
+    }
+
+    const { items, total } = await webhookService.listDeliveries(req.params.id!, req.user!.id, {
+      page,
+      limit,
+      status: status as WebhookDeliveryStatus | undefined
+    });
+
+    res.json({
+      success: true,
+      data: {
+        items,
+        pagination: {
+          currentPage: page,
+          itemsPerPage: limit,
+          totalItems: total,
+          totalPages: Math.ceil(total / limit),
+          hasNextPage: page * limit < total,
+          hasPreviousPage: page > 1
+        }
+      },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch webhook deliveries');
+  }
+});
+
+export default router;
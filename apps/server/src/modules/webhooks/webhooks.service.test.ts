@@ -0,0 +1,66 @@
+import { isPrivateAddress } from './webhooks.service';
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '0.0.0.0',
+    '10.1.2.3',
+    '100.64.0.1',
+    '127.0.0.1',
+    '169.254.169.254',
+    '172.16.0.1',
+    '172.31.255.255',
+    '192.168.1.1',
+    '224.0.0.1',
+    '255.255.255.255'
+  ])('refuses the IPv4 address %s', address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each([
+    '::',
+    '::1',
+    'fc00::1',
+    'fd12:3456::1',
+    'fe80::1',
+    'fe80::1%eth0',
+    'ff02::1'
+  ])('refuses the IPv6 address %s', address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each([
+    ['IPv4-mapped, dotted', '::ffff:127.0.0.1'],
+    ['IPv4-mapped, hex as normalized by URL', '::ffff:a9fe:a9fe'],
+    ['IPv4-mapped loopback in hex', '::ffff:7f00:1'],
+    ['IPv4-mapped, fully expanded', '0:0:0:0:0:ffff:c0a8:0101'],
+    ['IPv4-compatible, dotted', '::10.0.0.1'],
+    ['IPv4-compatible, hex', '::7f00:1'],
+    ['NAT64', '64:ff9b::a9fe:a9fe'],
+    ['NAT64, dotted', '64:ff9b::192.168.0.1'],
+    ['6to4', '2002:7f00:1::1'],
+    ['6to4 of a private network', '2002:a00:1:1::5']
+  ])('refuses an embedded internal IPv4 address (%s: %s)', (_form, address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it('refuses the metadata address however the URL parser writes it', () => {
+    const hostname = new URL('http://[::ffff:169.254.169.254]/').hostname.replace(/^\[|\]$/g, '');
+
+    expect(hostname).toBe('::ffff:a9fe:a9fe');
+    expect(isPrivateAddress(hostname)).toBe(true);
+  });
+
+  it.each([
+    '8.8.8.8',
+    '100.128.0.1',
+    '172.32.0.1',
+    '192.169.0.1',
+    '2606:4700:4700::1111',
+    '::ffff:8.8.8.8',
+    '::ffff:808:808',
+    '64:ff9b::808:808',
+    '2002:808:808::1'
+  ])('allows the public address %s', address => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
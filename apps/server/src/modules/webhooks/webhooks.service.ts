@@ -0,0 +1,649 @@
+/**
+ * Webhook Service
+ * User-registered endpoints that receive HMAC-signed generation and credit events, with a
+ * delivery log, retries with exponential backoff and manual redelivery
+ */
+
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import fetch from 'node-fetch';
+import { PrismaClient, Prisma, WebhookDeliveryStatus } from '@prisma/client';
+import { ENV_CONFIG } from '../../config/env';
+import { GenerationEvent } from '../../types/generation';
+import {
+  CreateWebhookEndpointData,
+  UpdateWebhookEndpointData,
+  WebhookEventPayload,
+  WebhookEventType
+} from '../../types/webhooks';
+import { VariantBatchResult } from '../../../../../shared/types/theme';
+import { withoutInlineImages } from '../../services/storage';
+import { jobQueue, JOB_KINDS } from '../jobs';
+import { creditService, CreditBalanceChange } from '../credits';
+
+const prisma = new PrismaClient();
+
+// Deliveries claimed per poll of the worker
+const DELIVERY_BATCH_SIZE = 20;
+
+// Bytes of the endpoint's response body that are read and stored; the rest is never downloaded
+const MAX_RESPONSE_BODY_BYTES = 1000;
+
+const SIGNATURE_VERSION = 'v1';
+
+/**
+ * Error with an API error code and HTTP status, thrown for invalid webhook operations
+ */
+export class WebhookError extends Error {
+  public code: string;
+  public statusCode: number;
+  public details?: any;
+
+  constructor(code: string, message: string, statusCode: number = 400, details?: any) {
+    super(message);
+    this.name = 'WebhookError';
+    this.code = code;
+    this.statusCode = statusCode;
+    this.details = details;
+  }
+}
+
+// The secret is only returned when it is created or rotated
+const ENDPOINT_SELECT = {
+  id: true,
+  url: true,
+  events: true,
+  description: true,
+  enabled: true,
+  createdAt: true,
+  updatedAt: true
+};
+
+const DELIVERY_SELECT = {
+  id: true,
+  endpointId: true,
+  eventId: true,
+  event: true,
+  payload: true,
+  status: true,
+  attempts: true,
+  nextAttemptAt: true,
+  lastAttemptAt: true,
+  responseStatus: true,
+  responseBody: true,
+  error: true,
+  redeliveryOf: true,
+  createdAt: true,
+  updatedAt: true
+};
+
+export type WebhookEndpointRecord = Prisma.WebhookEndpointGetPayload<{ select: typeof ENDPOINT_SELECT }>;
+export type WebhookEndpointWithSecret = WebhookEndpointRecord & { secret: string };
+export type WebhookDeliveryRecord = Prisma.WebhookDeliveryGetPayload<{ select: typeof DELIVERY_SELECT }>;
+
+export interface ListWebhookDeliveriesOptions {
+  page?: number;
+  limit?: number;
+  status?: WebhookDeliveryStatus;
+}
+
+interface AttemptResult {
+  ok: boolean;
+  status?: number;
+  body?: string;
+  error?: string;
+}
+
+/**
+ * Signature of a delivery: HMAC-SHA256 (hex) of "<unix timestamp>.<raw body>" with the endpoint secret.
+ * Receivers recompute it from the X-Webhook-Timestamp header and the raw request body.
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+// Loopback, private, shared, link-local, multicast and reserved ranges. IPv4-mapped IPv6
+// addresses (::ffff:a.b.c.d, also written ::ffff:7f00:1) are matched against the IPv4 rules.
+const PRIVATE_RANGES = new net.BlockList();
+PRIVATE_RANGES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_RANGES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_RANGES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_RANGES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_RANGES.addSubnet('224.0.0.0', 3, 'ipv4');
+PRIVATE_RANGES.addAddress('::', 'ipv6');
+PRIVATE_RANGES.addAddress('::1', 'ipv6');
+PRIVATE_RANGES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_RANGES.addSubnet('fe80::', 10, 'ipv6');
+PRIVATE_RANGES.addSubnet('ff00::', 8, 'ipv6');
+
+/**
+ * The eight 16-bit groups of an IPv6 address, expanding "::" and a trailing dotted quad
+ */
+function ipv6Groups(address: string): number[] {
+  let text = address.split('%')[0]!;
+  const dotted = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(text);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number) as [number, number, number, number];
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const parse = (part: string | undefined) => part ? part.split(':').map(group => parseInt(group, 16)) : [];
+  const [head, tail] = text.split('::');
+  const start = parse(head);
+  const end = parse(tail);
+  return [...start, ...new Array<number>(8 - start.length - end.length).fill(0), ...end];
+}
+
+/**
+ * The IPv4 address an IPv6 address routes to, for the IPv4-compatible (::a.b.c.d), IPv4-mapped
+ * (::ffff:a.b.c.d), NAT64 (64:ff9b::/96) and 6to4 (2002::/16) forms
+ */
+function embeddedIPv4(address: string): string | null {
+  const groups = ipv6Groups(address);
+  const toIPv4 = (high: number, low: number) => [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+  const zeros = (from: number, to: number) => groups.slice(from, to).every(group => group === 0);
+
+  if (zeros(0, 5) && (groups[5] === 0 || groups[5] === 0xffff)) {
+    return toIPv4(groups[6]!, groups[7]!);
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && zeros(2, 6)) {
+    return toIPv4(groups[6]!, groups[7]!);
+  }
+  if (groups[0] === 0x2002) {
+    return toIPv4(groups[1]!, groups[2]!);
+  }
+  return null;
+}
+
+/**
+ * Loopback, private, link-local and otherwise internal addresses that webhooks must not reach,
+ * including IPv6 addresses that embed one of them
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    return PRIVATE_RANGES.check(address, 'ipv4');
+  }
+  if (!net.isIPv6(address)) {
+    return false;
+  }
+
+  const ipv4 = embeddedIPv4(address);
+  return (ipv4 !== null && PRIVATE_RANGES.check(ipv4, 'ipv4'))
+    || PRIVATE_RANGES.check(address.split('%')[0]!, 'ipv6');
+}
+
+/**
+ * DNS lookup that refuses internal addresses, so endpoints cannot be pointed at the server's network.
+ * The agents connect to the address checked here, so a second resolution cannot swap in another one.
+ */
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    const addresses = error ? [] : Array.isArray(address) ? address.map(entry => entry.address) : [address];
+    const blocked = addresses.find(isPrivateAddress);
+    const lookupError: NodeJS.ErrnoException | null = blocked
+      ? Object.assign(new Error(`${hostname} resolves to a private address (${blocked})`), { code: 'EPRIVATEADDRESS' })
+      : error;
+
+    callback(lookupError, address, family);
+  });
+};
+
+const guardedAgents = {
+  http: new http.Agent({ lookup: publicOnlyLookup }),
+  https: new https.Agent({ lookup: publicOnlyLookup })
+};
+
+/**
+ * Read at most `limit` bytes of a response body; the stream is destroyed once the limit is reached
+ */
+async function readBodyPrefix(body: NodeJS.ReadableStream, limit: number): Promise<string> {
+  const chunks: Buffer[] = [];
+  let length = 0;
+
+  for await (const chunk of body) {
+    const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+    chunks.push(buffer.subarray(0, limit - length));
+    length += buffer.length;
+    if (length >= limit) {
+      break;
+    }
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+export class WebhookService {
+  private pollTimer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  private onJobCompleted = (event: GenerationEvent) => {
+    if (!event.userId) return;
+
+    const kind: string | undefined = event.data?.kind;
+    const result = event.data?.result;
+
+    this.dispatchSafely(event.userId, 'generation.completed', {
+      jobId: event.jobId,
+      kind,
+      result
+    });
+
+    if (kind === JOB_KINDS.THEME_VARIANT && result) {
+      this.dispatchSafely(event.userId, 'variant.generated', { jobId: event.jobId, variant: result });
+    } else if (kind === JOB_KINDS.THEME_VARIANT_BATCH && result) {
+      for (const item of (result as VariantBatchResult).items) {
+        if (item.success && item.variant) {
+          this.dispatchSafely(event.userId, 'variant.generated', { jobId: event.jobId, variant: item.variant });
+        }
+      }
+    }
+  };
+
+  private onJobFailed = (event: GenerationEvent) => {
+    if (!event.userId) return;
+
+    this.dispatchSafely(event.userId, 'generation.failed', {
+      jobId: event.jobId,
+      kind: event.data?.kind,
+      error: {
+        code: event.data?.error?.code,
+        message: event.data?.error?.message
+      }
+    });
+  };
+
+  // Sent once when a deduction takes the balance below the threshold, not for every deduction below it
+  private onBalanceChange = (change: CreditBalanceChange) => {
+    const threshold = ENV_CONFIG.WEBHOOK_CREDITS_LOW_THRESHOLD;
+    const previousBalance = change.balance - change.amount;
+
+    if (change.amount < 0 && change.balance < threshold && previousBalance >= threshold) {
+      this.dispatchSafely(change.userId, 'credits.low', {
+        balance: change.balance,
+        threshold
+      });
+    }
+  };
+
+  /**
+   * Subscribe to queue and credit events and start delivering due webhooks
+   */
+  start(intervalMs: number = ENV_CONFIG.WEBHOOK_POLL_INTERVAL_MS): void {
+    if (this.pollTimer) return;
+
+    jobQueue.on('job_completed', this.onJobCompleted);
+    jobQueue.on('job_failed', this.onJobFailed);
+    creditService.on('balance_changed', this.onBalanceChange);
+
+    this.pollTimer = setInterval(() => this.kick(), intervalMs);
+    this.kick();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    jobQueue.off('job_completed', this.onJobCompleted);
+    jobQueue.off('job_failed', this.onJobFailed);
+    creditService.off('balance_changed', this.onBalanceChange);
+  }
+
+  /**
+   * List the user's endpoints, newest first
+   */
+  async listEndpoints(userId: string): Promise<WebhookEndpointRecord[]> {
+    return prisma.webhookEndpoint.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      select: ENDPOINT_SELECT
+    });
+  }
+
+  async getEndpoint(endpointId: string, userId: string): Promise<WebhookEndpointRecord> {
+    const endpoint = await prisma.webhookEndpoint.findFirst({
+      where: { id: endpointId, userId },
+      select: ENDPOINT_SELECT
+    });
+
+    if (!endpoint) {
+      throw new WebhookError('NOT_FOUND', 'Webhook endpoint not found', 404);
+    }
+
+    return endpoint;
+  }
+
+  /**
+   * Register an endpoint; the response is the only time the generated secret is returned
+   */
+  async createEndpoint(userId: string, data: CreateWebhookEndpointData): Promise<WebhookEndpointWithSecret> {
+    const count = await prisma.webhookEndpoint.count({ where: { userId } });
+    if (count >= ENV_CONFIG.WEBHOOK_MAX_ENDPOINTS_PER_USER) {
+      throw new WebhookError(
+        'ENDPOINT_LIMIT_REACHED',
+        `A user can register at most ${ENV_CONFIG.WEBHOOK_MAX_ENDPOINTS_PER_USER} webhook endpoints`,
+        409
+      );
+    }
+
+    return prisma.webhookEndpoint.create({
+      data: {
+        userId,
+        url: data.url,
+        events: data.events,
+        description: data.description ?? null,
+        secret: generateSecret()
+      },
+      select: { ...ENDPOINT_SELECT, secret: true }
+    });
+  }
+
+  async updateEndpoint(endpointId: string, userId: string, data: UpdateWebhookEndpointData): Promise<WebhookEndpointRecord> {
+    await this.getEndpoint(endpointId, userId);
+
+    return prisma.webhookEndpoint.update({
+      where: { id: endpointId },
+      data: {
+        ...(data.url !== undefined && { url: data.url }),
+        ...(data.events !== undefined && { events: data.events }),
+        ...(data.description !== undefined && { description: data.description }),
+        ...(data.enabled !== undefined && { enabled: data.enabled })
+      },
+      select: ENDPOINT_SELECT
+    });
+  }
+
+  /**
+   * Delete an endpoint together with its delivery log
+   */
+  async deleteEndpoint(endpointId: string, userId: string): Promise<void> {
+    await this.getEndpoint(endpointId, userId);
+    await prisma.webhookEndpoint.delete({ where: { id: endpointId } });
+  }
+
+  /**
+   * Replace the signing secret; pending deliveries are signed with the new one
+   */
+  async rotateSecret(endpointId: string, userId: string): Promise<WebhookEndpointWithSecret> {
+    await this.getEndpoint(endpointId, userId);
+
+    return prisma.webhookEndpoint.update({
+      where: { id: endpointId },
+      data: { secret: generateSecret() },
+      select: { ...ENDPOINT_SELECT, secret: true }
+    });
+  }
+
+  /**
+   * Queue a "ping" delivery to the endpoint, also when it does not subscribe to any event yet
+   */
+  async sendTest(endpointId: string, userId: string): Promise<WebhookDeliveryRecord> {
+    await this.getEndpoint(endpointId, userId);
+
+    const payload = this.buildPayload('ping', { endpointId });
+    const delivery = await prisma.webhookDelivery.create({
+      data: this.deliveryData(endpointId, payload),
+      select: DELIVERY_SELECT
+    });
+
+    this.kick();
+    return delivery;
+  }
+
+  /**
+   * Delivery log of an endpoint, newest first
+   */
+  async listDeliveries(
+    endpointId: string,
+    userId: string,
+    options: ListWebhookDeliveriesOptions = {}
+  ): Promise<{ items: WebhookDeliveryRecord[]; total: number }> {
+    await this.getEndpoint(endpointId, userId);
+
+    const page = options.page ?? 1;
+    const limit = options.limit ?? 20;
+    const where: Prisma.WebhookDeliveryWhereInput = {
+      endpointId,
+      ...(options.status && { status: options.status })
+    };
+
+    const [items, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+        select: DELIVERY_SELECT
+      }),
+      prisma.webhookDelivery.count({ where })
+    ]);
+
+    return { items, total };
+  }
+
+  /**
+   * Send an earlier event again as a new delivery with the same event id, so receivers can deduplicate
+   */
+  async redeliver(deliveryId: string, userId: string): Promise<WebhookDeliveryRecord> {
+    const original = await prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, endpoint: { userId } }
+    });
+
+    if (!original) {
+      throw new WebhookError('NOT_FOUND', 'Webhook delivery not found', 404);
+    }
+
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        endpointId: original.endpointId,
+        eventId: original.eventId,
+        event: original.event,
+        payload: original.payload as Prisma.InputJsonValue,
+        status: WebhookDeliveryStatus.PENDING,
+        nextAttemptAt: new Date(),
+        redeliveryOf: original.id
+      },
+      select: DELIVERY_SELECT
+    });
+
+    this.kick();
+    return delivery;
+  }
+
+  /**
+   * Queue an event for every enabled endpoint of the user that subscribes to it
+   */
+  async dispatch(userId: string, type: WebhookEventType, data: Record<string, unknown>): Promise<number> {
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { userId, enabled: true, events: { has: type } },
+      select: { id: true }
+    });
+
+    if (endpoints.length === 0) {
+      return 0;
+    }
+
+    const payload = this.buildPayload(type, data);
+    await prisma.webhookDelivery.createMany({
+      data: endpoints.map(endpoint => this.deliveryData(endpoint.id, payload))
+    });
+
+    this.kick();
+    return endpoints.length;
+  }
+
+  /**
+   * Dispatch from an event listener; failures are only logged
+   */
+  dispatchSafely(userId: string, type: WebhookEventType, data: Record<string, unknown>): void {
+    this.dispatch(userId, type, data).catch(error => {
+      console.error(`Error dispatching ${type} webhook for user ${userId}:`, error);
+    });
+  }
+
+  /**
+   * Send all due deliveries; returns the number of attempts made
+   */
+  async processDueDeliveries(): Promise<number> {
+    const due = await prisma.webhookDelivery.findMany({
+      where: { status: WebhookDeliveryStatus.PENDING, nextAttemptAt: { lte: new Date() } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: DELIVERY_BATCH_SIZE,
+      select: { id: true, nextAttemptAt: true }
+    });
+
+    let attempted = 0;
+    for (const candidate of due) {
+      // Claim the delivery by moving its next attempt past the request timeout, so another
+      // instance polling the same table skips it; a crash mid-attempt retries after the lease
+      const claimed = await prisma.webhookDelivery.updateMany({
+        where: { id: candidate.id, status: WebhookDeliveryStatus.PENDING, nextAttemptAt: candidate.nextAttemptAt },
+        data: { nextAttemptAt: new Date(Date.now() + ENV_CONFIG.WEBHOOK_TIMEOUT_MS * 2) }
+      });
+      if (claimed.count === 0) continue;
+
+      await this.attemptDelivery(candidate.id);
+      attempted++;
+    }
+
+    return attempted;
+  }
+
+  private kick(): void {
+    if (!this.pollTimer || this.processing) return;
+
+    this.processing = true;
+    this.processDueDeliveries()
+      .catch(error => console.error('Webhook delivery run failed:', error))
+      .finally(() => {
+        this.processing = false;
+      });
+  }
+
+  private async attemptDelivery(deliveryId: string): Promise<void> {
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { endpoint: true }
+    });
+    if (!delivery) return;
+
+    if (!delivery.endpoint.enabled) {
+      await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: WebhookDeliveryStatus.FAILED, nextAttemptAt: null, error: 'Endpoint is disabled' }
+      });
+      return;
+    }
+
+    const attempts = delivery.attempts + 1;
+    const result = await this.send(delivery.endpoint.url, delivery.endpoint.secret, delivery.id, delivery.event, delivery.payload);
+
+    // The first attempt plus WEBHOOK_RETRY_ATTEMPTS retries, 1x, 2x, 4x ... the retry delay apart
+    const canRetry = !result.ok && attempts <= ENV_CONFIG.WEBHOOK_RETRY_ATTEMPTS;
+    const status = result.ok
+      ? WebhookDeliveryStatus.SUCCEEDED
+      : canRetry ? WebhookDeliveryStatus.PENDING : WebhookDeliveryStatus.FAILED;
+
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status,
+        attempts,
+        lastAttemptAt: new Date(),
+        nextAttemptAt: canRetry
+          ? new Date(Date.now() + ENV_CONFIG.WEBHOOK_RETRY_DELAY_MS * 2 ** (attempts - 1))
+          : null,
+        responseStatus: result.status ?? null,
+        responseBody: result.body ?? null,
+        error: result.error ?? null
+      }
+    });
+
+    if (!result.ok) {
+      console.warn(`[Webhooks] Delivery ${delivery.id} (${delivery.event}) attempt ${attempts} failed: ${result.error}`);
+    }
+  }
+
+  private async send(url: string, secret: string, deliveryId: string, event: string, payload: unknown): Promise<AttemptResult> {
+    // IP literals never go through the agents' lookup, so they are checked here
+    const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(hostname) && isPrivateAddress(hostname)) {
+      return { ok: false, error: `${hostname} is a private address` };
+    }
+
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = signPayload(secret, timestamp, body);
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), ENV_CONFIG.WEBHOOK_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'character-creator-webhooks/1.0',
+          'X-Webhook-Id': deliveryId,
+          'X-Webhook-Event': event,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': `t=${timestamp},${SIGNATURE_VERSION}=${signature}`
+        },
+        body,
+        redirect: 'manual',
+        signal: controller.signal,
+        agent: (parsedUrl: URL) => parsedUrl.protocol === 'http:' ? guardedAgents.http : guardedAgents.https
+      });
+
+      const responseBody = await readBodyPrefix(response.body, MAX_RESPONSE_BODY_BYTES).catch(() => '');
+      return {
+        ok: response.ok,
+        status: response.status,
+        body: responseBody,
+        ...(!response.ok && { error: `Endpoint responded with ${response.status}` })
+      };
+    } catch (error: any) {
+      return {
+        ok: false,
+        error: controller.signal.aborted
+          ? `Endpoint did not respond within ${ENV_CONFIG.WEBHOOK_TIMEOUT_MS}ms`
+          : error?.message || 'Request failed'
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private buildPayload(type: WebhookEventType, data: Record<string, unknown>): WebhookEventPayload {
+    return {
+      id: `evt_${crypto.randomUUID()}`,
+      type,
+      createdAt: new Date().toISOString(),
+      data: withoutInlineImages(data) as Record<string, unknown>
+    };
+  }
+
+  private deliveryData(endpointId: string, payload: WebhookEventPayload): Prisma.WebhookDeliveryUncheckedCreateInput {
+    return {
+      endpointId,
+      eventId: payload.id,
+      event: payload.type,
+      payload: payload as unknown as Prisma.InputJsonValue,
+      status: WebhookDeliveryStatus.PENDING,
+      nextAttemptAt: new Date()
+    };
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -4,19 +4,37 @@
  */
 
 import express from 'express';
-import fs from 'fs';
-import path from 'path';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient, Character as CharacterRecord, CharacterVisibility, JobStatus } from '@prisma/client';
 import {
+  ApiMeta,
   ApiResponse,
   Character,
   PaginatedResponse,
   API_CONSTANTS
 } from '../../types/api';
+import { CharacterAttributes, PhysicalTraits } from '../../types/character';
+import { CharacterFromTemplateResult, CreateFromTemplateData } from '../../types/templates';
+import { AspectRatioPreset, GeneratedImageFormat, IMAGE_QUALITIES, ImageQuality } from '../../types/imageFormats';
 import GeminiTextService, { PromptOptimizationRequest, PromptOptimizationResponse } from '../../services/geminiTextService';
-import { getDefaultNanoBananaClient, GenerationRequest } from '../../services/nanoBananaClient';
+import NanoBananaClient, { getDefaultNanoBananaClient } from '../../services/nanoBananaClient';
+import { GeminiError } from '../../services/providers';
 import { requireAuth } from '../../middleware/requireAuth';
-import { checkCredits } from '../../modules/credits';
+import { validateQueryParams, QueryValidators, validateFileUpload } from '../../middleware/validation';
+import { singleFileUpload } from '../../middleware/upload';
+import { CharacterSchema, CHARACTER_ATTRIBUTE_FIELDS } from '../../schemas/characterSchema';
+import { checkCredits, transferCreditReservation } from '../../modules/credits';
+import { jobQueue, JOB_KINDS, QueueFullError } from '../../modules/jobs';
+import { promptSessionService, PromptSessionError } from '../../modules/prompt-sessions';
+import { moderatePrompt, bodyFields, moderationService } from '../../modules/moderation';
+import { webhookService } from '../../modules/webhooks';
+import { galleryService, GalleryError, shareUrl } from '../../modules/gallery';
+import { templateService, TemplateError } from '../../modules/templates';
+import { stylePresetService, StylePresetError } from '../../modules/styles';
+import { decodeImageData, getStorageService } from '../../services/storage';
+import { detectMimeType, getDefaultImagePipeline, imageRecordUrls, StoredImageMetadata } from '../../services/imagePipeline';
+import { qualityCostEndpoint, resolveImageFormat } from '../../services/imageFormats';
+import { SanitizationUtils } from '../../../../../shared/utils/sanitization';
+import { config } from '../../../../../config/core';
 import jwt from 'jsonwebtoken';
 
 const router = express.Router();
@@ -24,7 +42,7 @@ const prisma = new PrismaClient();
 
 // Initialize services
 let geminiService: GeminiTextService | null = null;
-let nanoBananaClient: any = null;
+let nanoBananaClient: NanoBananaClient | null = null;
 
 try {
   geminiService = new GeminiTextService();
@@ -39,35 +57,325 @@ try {
   console.warn('❌ nanoBanana service not available:', error);
 }
 
+// Reference photos accepted for image-to-image generation
+const REFERENCE_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const REFERENCE_IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp'];
+
+// Feedback on a generated prompt, stored with the prompt session turn
+const MAX_PROMPT_FEEDBACK_LENGTH = 1000;
+
+const GENERATE_IMAGE_ENDPOINT = '/characters/generate-image';
+
+// Images a client may attach to a new character as `imageUrl`
+const CLIENT_IMAGE_DATA_URL = /^data:image\/(?:png|jpeg|webp);base64,[A-Za-z0-9+/]+={0,2}$/;
+const CLIENT_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Character text and sheet fields are reused in generation prompts, so they are screened when saved
+const moderateCharacterText = moderatePrompt(
+  '/characters',
+  bodyFields('name', 'description', 'enhancedDescription', ...CHARACTER_ATTRIBUTE_FIELDS)
+);
+
+/**
+ * Bytes of the image a client sent as `imageUrl`: a base64 image data URL, or the URL of a character
+ * image in our storage. Null for anything else, including data that is not a PNG, JPEG or WebP image.
+ */
+async function loadClientImage(imageUrl: unknown): Promise<Buffer | null> {
+  if (typeof imageUrl !== 'string') {
+    return null;
+  }
+
+  let data: Buffer | null = null;
+  if (CLIENT_IMAGE_DATA_URL.test(imageUrl)) {
+    data = decodeImageData(imageUrl).data;
+  } else {
+    const storage = getStorageService();
+    const key = storage.getDriver().keyFromUrl(imageUrl);
+    data = key?.startsWith('characters/') ? (await storage.getObject(key))?.data ?? null : null;
+  }
+
+  const mimeType = data && detectMimeType(data);
+  return mimeType && CLIENT_IMAGE_TYPES.includes(mimeType) ? data : null;
+}
+
+/**
+ * Cost endpoint of an image generation: priced per quality tier, falling back to the base price.
+ * Unknown tiers are charged at the base price here and rejected by the handler.
+ */
+function generationCostEndpoint(req: express.Request): string {
+  const quality = req.body?.quality;
+  return qualityCostEndpoint(GENERATE_IMAGE_ENDPOINT, IMAGE_QUALITIES.includes(quality) ? quality : null);
+}
+
+// Tag names as returned to clients
+const TAG_SELECT = {
+  select: { name: true },
+  orderBy: { name: 'asc' as const }
+};
+
+// Stored under a character's `metadata`
+interface CharacterMetadata {
+  image?: StoredImageMetadata; // Files of the generated image
+  generation?: GeneratedImageFormat; // Format the image was generated in
+  referenceImage?: Omit<StoredImageMetadata, 'thumbnails'> & { filename: string; uploadedAt: string };
+}
+
+// A character row with the relations toCharacterResponse reads; favorite counts are zero when not loaded
+type CharacterResponseRecord = CharacterRecord & {
+  tags: { name: string }[];
+  favorites?: { id: string }[];
+  _count?: { favorites: number };
+};
+
+/**
+ * Meta block of every response
+ */
+function responseMeta(req: express.Request): ApiMeta {
+  return {
+    timestamp: new Date().toISOString(),
+    requestId: req.get('X-Request-ID') || 'unknown',
+    version: '1.0.0',
+    path: req.path
+  };
+}
+
+/**
+ * Character sheet fields as returned to clients
+ */
+function characterAttributes(character: CharacterRecord): CharacterAttributes {
+  return {
+    age: character.age,
+    gender: character.gender,
+    occupation: character.occupation,
+    personality: character.personality,
+    physicalTraits: character.physicalTraits as PhysicalTraits | null,
+    clothing: character.clothing,
+    background: character.background
+  };
+}
+
+/**
+ * Link to a private reference photo as returned to the owner, signed again since the stored one may have expired
+ */
+async function referenceImageLink(character: Pick<CharacterRecord, 'referenceImageUrl'>): Promise<Pick<Character, 'referenceImageUrl'>> {
+  if (!character.referenceImageUrl) {
+    return {};
+  }
+  return { referenceImageUrl: (await getStorageService().getSignedUrl(character.referenceImageUrl)) ?? character.referenceImageUrl };
+}
+
+/**
+ * Visibility and share link as returned to the owner
+ */
+function characterSharing(character: CharacterRecord): Pick<Character, 'visibility' | 'shareUrl'> {
+  return {
+    visibility: character.visibility,
+    ...(character.shareToken && { shareUrl: shareUrl(character.shareToken) })
+  };
+}
+
+/**
+ * Include for characterReactions: favorite count and whether the owner favorited the character
+ */
+function favoriteSelect(userId: string) {
+  return {
+    favorites: { where: { userId }, select: { id: true } },
+    _count: { select: { favorites: true } }
+  };
+}
+
+/**
+ * Like and favorite counts and remix origin as returned to the owner
+ */
+function characterReactions(
+  character: CharacterRecord & { favorites: { id: string }[]; _count: { favorites: number } }
+): Pick<Character, 'likeCount' | 'favoriteCount' | 'isFavorite' | 'remixedFromId'> {
+  return {
+    likeCount: character.likeCount,
+    favoriteCount: character._count.favorites,
+    isFavorite: character.favorites.length > 0,
+    ...(character.remixedFromId && { remixedFromId: character.remixedFromId })
+  };
+}
+
+/**
+ * A character as returned to its owner
+ */
+async function toCharacterResponse(character: CharacterResponseRecord): Promise<Character> {
+  const metadata: CharacterMetadata & { templateId?: string } = {
+    ...(character.metadata as CharacterMetadata | null),
+    ...(character.templateId && { templateId: character.templateId })
+  };
+
+  return {
+    id: character.id,
+    name: character.name || 'Unnamed Character',
+    description: character.description || 'No description available',
+    enhancedDescription: character.prompt,
+    imageUrl: character.imageUrl || '',
+    thumbnailUrl: character.thumbnailUrl || '',
+    ...await referenceImageLink(character),
+    ...characterAttributes(character),
+    ...characterSharing(character),
+    ...characterReactions({ ...character, favorites: character.favorites ?? [], _count: character._count ?? { favorites: 0 } }),
+    userId: character.userId,
+    tags: character.tags.map(tag => tag.name),
+    createdAt: character.createdAt.toISOString(),
+    updatedAt: character.updatedAt.toISOString(),
+    metadata
+  };
+}
+
+/**
+ * Prisma data for a character's metadata
+ */
+function metadataData(metadata: CharacterMetadata): Prisma.InputJsonValue {
+  return metadata as unknown as Prisma.InputJsonValue;
+}
+
+/**
+ * Prisma data for the character sheet fields present in sanitized input
+ */
+function attributeData(attributes: CharacterAttributes) {
+  const { physicalTraits, ...fields } = attributes;
+  return {
+    ...fields,
+    ...(physicalTraits !== undefined && {
+      physicalTraits: physicalTraits === null ? Prisma.DbNull : physicalTraits as Prisma.InputJsonValue
+    })
+  };
+}
+
+/**
+ * Normalize tags the way they are stored: trimmed, lowercased, deduplicated.
+ * Accepts an array or a comma-separated string (query parameters).
+ */
+function normalizeTags(tags: unknown): string[] {
+  const list = typeof tags === 'string' ? tags.split(',') : Array.isArray(tags) ? tags : [];
+  return [...new Set(
+    list
+      .filter((tag): tag is string => typeof tag === 'string')
+      .map(tag => tag.trim().toLowerCase())
+      .filter(tag => tag.length > 0)
+  )];
+}
+
+/**
+ * Connect tags to a character, creating the ones that do not exist yet
+ */
+function connectTags(tags: string[]) {
+  return tags.map(name => ({ where: { name }, create: { name } }));
+}
+
+/**
+ * Build the character filter from validated list query parameters (SearchParams)
+ */
+function buildCharacterFilter(userId: string, query: express.Request['query']): Prisma.CharacterWhereInput {
+  const and: Prisma.CharacterWhereInput[] = [{ userId }];
+
+  // Full-text search: every term must appear in the name, description, prompt or a tag
+  const searchText = String(query.query || query.search || '').trim();
+  const terms = searchText.split(/\s+/).filter(Boolean).slice(0, 10);
+  for (const term of terms) {
+    and.push({
+      OR: [
+        { name: { contains: term, mode: 'insensitive' } },
+        { description: { contains: term, mode: 'insensitive' } },
+        { prompt: { contains: term, mode: 'insensitive' } },
+        { tags: { some: { name: { contains: term.toLowerCase() } } } }
+      ]
+    });
+  }
+
+  // Tag filter: tagMode=all (default) requires every tag, tagMode=any at least one
+  const tags = normalizeTags(query.tags);
+  if (tags.length > 0) {
+    if (query.tagMode === 'any') {
+      and.push({ tags: { some: { name: { in: tags } } } });
+    } else {
+      and.push(...tags.map(name => ({ tags: { some: { name } } })));
+    }
+  }
+
+  if (query.dateFrom || query.dateTo) {
+    and.push({
+      createdAt: {
+        ...(query.dateFrom && { gte: new Date(String(query.dateFrom)) }),
+        ...(query.dateTo && { lte: new Date(String(query.dateTo)) })
+      }
+    });
+  }
+
+  return { AND: and };
+}
+
+/**
+ * Respond to a failed sharing, remix or template request: GalleryError and TemplateError with their own
+ * status, anything else as a 500
+ */
+function sendServiceError(req: express.Request, res: express.Response, error: unknown, logMessage: string) {
+  const meta = responseMeta(req);
+
+  if (error instanceof GalleryError || error instanceof TemplateError) {
+    const response: ApiResponse = {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        statusCode: error.statusCode
+      },
+      meta
+    };
+    return res.status(error.statusCode).json(response);
+  }
+
+  console.error(logMessage, error);
+  const response: ApiResponse = {
+    success: false,
+    error: {
+      code: API_CONSTANTS.ERROR_CODES.INTERNAL_ERROR,
+      message: 'Internal server error',
+      statusCode: API_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR
+    },
+    meta
+  };
+  return res.status(API_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR).json(response);
+}
+
 /**
  * GET /api/v1/characters
  * List characters with pagination and filtering
+ *
+ * Query parameters:
+ * - page, limit: pagination
+ * - query (or search): text matched against name, description, prompt and tags
+ * - tags: comma-separated tag names; tagMode=all (AND, default) or any (OR)
+ * - dateFrom, dateTo: ISO 8601 creation date range
+ * - sortBy: createdAt (default) | updatedAt | name; sortOrder: asc | desc (default)
  */
-router.get('/', requireAuth, async (req: express.Request, res: express.Response) => {
+router.get('/', requireAuth, validateQueryParams(QueryValidators.validateCharacterListQuery), async (req: express.Request, res: express.Response) => {
   try {
     const {
       page = API_CONSTANTS.DEFAULT_PAGINATION.PAGE,
       limit = API_CONSTANTS.DEFAULT_PAGINATION.LIMIT,
-      // query = '',
-      // tags = '',
-      // userId = '',
-      // dateFrom = '',
-      // dateTo = '',
-      // sortBy = 'createdAt',
-      // sortOrder = 'desc'
+      sortBy = 'createdAt',
+      sortOrder = 'desc'
     } = req.query;
 
     // Read characters from database - only for current user
     const pageNum = Number(page);
     const limitNum = Number(limit);
     const skip = (pageNum - 1) * limitNum;
+    const where = buildCharacterFilter(req.user!.id, req.query);
+    const direction = sortOrder === 'asc' ? 'asc' : 'desc';
 
     const [dbCharacters, totalCount] = await Promise.all([
       prisma.character.findMany({
-        where: { userId: req.user!.id },
+        where,
         skip,
         take: limitNum,
-        orderBy: { createdAt: 'desc' },
+        // id as tie-breaker keeps pages stable when sort values repeat
+        orderBy: [{ [String(sortBy)]: direction }, { id: direction }],
         include: {
           user: {
             select: {
@@ -75,26 +383,16 @@ router.get('/', requireAuth, async (req: express.Request, res: express.Response)
               email: true,
               name: true
             }
-          }
+          },
+          tags: TAG_SELECT,
+          ...favoriteSelect(req.user!.id)
         }
       }),
-      prisma.character.count({ where: { userId: req.user!.id } })
+      prisma.character.count({ where })
     ]);
 
     // Map database characters to API format
-    const characters: Character[] = dbCharacters.map(char => ({
-      id: char.id,
-      name: char.name || 'Unnamed Character',
-      description: char.description || 'No description available',
-      enhancedDescription: char.prompt,
-      imageUrl: char.imageUrl || '',
-      thumbnailUrl: char.thumbnailUrl || '',
-      userId: char.userId,
-      tags: [], // TODO: add tags support
-      createdAt: char.createdAt.toISOString(),
-      updatedAt: char.updatedAt.toISOString(),
-      metadata: {}
-    }));
+    const characters: Character[] = await Promise.all(dbCharacters.map(toCharacterResponse));
 
     const response: ApiResponse<PaginatedResponse<Character>> = {
       success: true,
@@ -109,12 +407,7 @@ router.get('/', requireAuth, async (req: express.Request, res: express.Response)
           hasPreviousPage: pageNum > 1
         }
       },
-      meta: {
-        timestamp: new Date().toISOString(),
-        requestId: req.get('X-Request-ID') || 'unknown',
-        version: '1.0.0',
-        path: req.path
-      }
+      meta: responseMeta(req)
     };
 
     return res.json(response);
@@ -126,12 +419,7 @@ router.get('/', requireAuth, async (req: express.Request, res: express.Response)
         message: 'Internal server error',
         statusCode: API_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR
       },
-      meta: {
-        timestamp: new Date().toISOString(),
-        requestId: req.get('X-Request-ID') || 'unknown',
-        version: '1.0.0',
-        path: req.path
-      }
+      meta: responseMeta(req)
     };
 
     return res.status(API_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR).json(response);
@@ -154,12 +442,7 @@ router.get('/:id', requireAuth, async (req: express.Request, res: express.Respon
           message: 'Character ID is required',
           statusCode: API_CONSTANTS.HTTP_STATUS.BAD_REQUEST
         },
-        meta: {
-          timestamp: new Date().toISOString(),
-          requestId: req.get('X-Request-ID') || 'unknown',
-          version: '1.0.0',
-          path: req.path
-        }
+        meta: responseMeta(req)
       };
 
       return res.status(API_CONSTANTS.HTTP_STATUS.BAD_REQUEST).json(response);
@@ -178,7 +461,9 @@ router.get('/:id', requireAuth, async (req: express.Request, res: express.Respon
             email: true,
             name: true
           }
-        }
+        },
+        tags: TAG_SELECT,
+        ...favoriteSelect(req.user!.id)
       }
     });
 
@@ -190,40 +475,18 @@ router.get('/:id', requireAuth, async (req: express.Request, res: express.Respon
           message: 'Character not found',
           statusCode: API_CONSTANTS.HTTP_STATUS.NOT_FOUND
         },
-        meta: {
-          timestamp: new Date().toISOString(),
-          requestId: req.get('X-Request-ID') || 'unknown',
-          version: '1.0.0',
-          path: req.path
-        }
+        meta: responseMeta(req)
       };
 
       return res.status(API_CONSTANTS.HTTP_STATUS.NOT_FOUND).json(response);
     }
 
-    const character: Character = {
-      id: dbCharacter.id,
-      name: dbCharacter.name || 'Unnamed Character',
-      description: dbCharacter.description || 'No description available',
-      enhancedDescription: dbCharacter.prompt,
-      imageUrl: dbCharacter.imageUrl || '',
-      thumbnailUrl: dbCharacter.thumbnailUrl || '',
-      userId: dbCharacter.userId,
-      tags: [], // TODO: add tags support
-      createdAt: dbCharacter.createdAt.toISOString(),
-      updatedAt: dbCharacter.updatedAt.toISOString(),
-      metadata: {}
-    };
+    const character = await toCharacterResponse(dbCharacter);
 
     const response: ApiResponse<Character> = {
       success: true,
       data: character,
-      meta: {
-        timestamp: new Date().toISOString(),
-        requestId: req.get('X-Request-ID') || 'unknown',
-        version: '1.0.0',
-        path: req.path
-      }
+      meta: responseMeta(req)
     };
 
     return res.json(response);
@@ -235,12 +498,7 @@ router.get('/:id', requireAuth, async (req: express.Request, res: express.Respon
         message: 'Internal server error',
         statusCode: API_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR
       },
-      meta: {
-        timestamp: new Date().toISOString(),
-        requestId: req.get('X-Request-ID') || 'unknown',
-        version: '1.0.0',
-        path: req.path
-      }
+      meta: responseMeta(req)
     };
 
     return res.status(API_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR).json(response);
@@ -250,8 +508,11 @@ router.get('/:id', requireAuth, async (req: express.Request, res: express.Respon
 /**
  * POST /api/v1/characters
  * Create new character
+ * A `conversationId` in the body links the prompt session the character was refined in. With a `jobId` the image
+ * of that generate-image job is stored instead of `imageUrl`, along with the format it was generated in. An
+ * `imageUrl` must be a base64 image data URL or a stored character image; anything else is a VALIDATION_ERROR.
  */
-router.post('/', requireAuth, async (req: express.Request, res: express.Response) => {
+router.post('/', requireAuth, moderateCharacterText, async (req: express.Request, res: express.Response) => {
   try {
     const characterData = req.body;
 
@@ -264,52 +525,91 @@ router.post('/', requireAuth, async (req: express.Request, res: express.Response
           message: 'Name and description are required',
           statusCode: API_CONSTANTS.HTTP_STATUS.BAD_REQUEST
         },
-        meta: {
-          timestamp: new Date().toISOString(),
-          requestId: req.get('X-Request-ID') || 'unknown',
-          version: '1.0.0',
-          path: req.path
-        }
+        meta: responseMeta(req)
       };
 
       return res.status(API_CONSTANTS.HTTP_STATUS.BAD_REQUEST).json(response);
     }
 
-    const id = Date.now().toString();
+    const tagsValidation = CharacterSchema.validateTags(characterData.tags);
+    if (!tagsValidation.isValid) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: API_CONSTANTS.ERROR_CODES.VALIDATION_ERROR,
+          message: tagsValidation.errors.join(', '),
+          statusCode: API_CONSTANTS.HTTP_STATUS.BAD_REQUEST
+        },
+        meta: responseMeta(req)
+      };
 
-    // Helper function to save base64 as file
-    const saveBase64AsFile = (base64Data: string, outputPath: string): void => {
-      const matches = base64Data.match(/^data:image\/(\w+);base64,(.+)$/);
-      if (!matches || !matches[2]) {
-        throw new Error('Invalid base64 format');
-      }
-      const base64Content: string = matches[2];
-      const buffer = Buffer.from(base64Content, 'base64');
-      const dir = path.dirname(outputPath);
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-      }
-      fs.writeFileSync(outputPath, buffer);
-    };
+      return res.status(API_CONSTANTS.HTTP_STATUS.BAD_REQUEST).json(response);
+    }
+
+    const attributesValidation = CharacterSchema.validateAttributes(characterData);
+    if (!attributesValidation.isValid) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: API_CONSTANTS.ERROR_CODES.VALIDATION_ERROR,
+          message: attributesValidation.errors.join(', '),
+          statusCode: API_CONSTANTS.HTTP_STATUS.BAD_REQUEST
+        },
+        meta: responseMeta(req)
+      };
+
+      return res.status(API_CONSTANTS.HTTP_STATUS.BAD_REQUEST).json(response);
+    }
 
-    // Save images as files
-    let imageUrl = '';
-    let thumbnailUrl = '';
+    // The image of a finished generate-image job is taken from the job itself, together with the format it was
+    // generated in, so clients cannot attach format metadata that does not match the stored image
+    let generatedImage: { imageUrl: string; generation?: GeneratedImageFormat } | null = null;
+    if (characterData.jobId !== undefined) {
+      const job = typeof characterData.jobId === 'string'
+        ? await jobQueue.getJob(characterData.jobId, req.user!.id)
+        : null;
+      const result = job?.result as { imageUrl?: unknown; generation?: GeneratedImageFormat } | null | undefined;
+
+      if (!job || job.kind !== JOB_KINDS.CHARACTER_IMAGE || job.status !== JobStatus.COMPLETED || typeof result?.imageUrl !== 'string') {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: API_CONSTANTS.ERROR_CODES.VALIDATION_ERROR,
+            message: 'jobId must be one of your completed image generation jobs',
+            statusCode: API_CONSTANTS.HTTP_STATUS.BAD_REQUEST
+          },
+          meta: responseMeta(req)
+        };
+
+        return res.status(API_CONSTANTS.HTTP_STATUS.BAD_REQUEST).json(response);
+      }
 
-    if (characterData.imageUrl) {
-      const imageFilename = `${id}.png`;
-      const imagePath = path.join(process.cwd(), 'uploads', 'characters', imageFilename);
-      saveBase64AsFile(characterData.imageUrl, imagePath);
-      imageUrl = `/uploads/characters/${imageFilename}`;
+      generatedImage = { imageUrl: result.imageUrl, generation: result.generation };
     }
 
-    if (characterData.thumbnailUrl) {
-      const thumbnailFilename = `${id}_thumb.png`;
-      const thumbnailPath = path.join(process.cwd(), 'uploads', 'characters', thumbnailFilename);
-      saveBase64AsFile(characterData.thumbnailUrl, thumbnailPath);
-      thumbnailUrl = `/uploads/characters/${thumbnailFilename}`;
+    const clientImage = !generatedImage && characterData.imageUrl ? await loadClientImage(characterData.imageUrl) : null;
+    if (!generatedImage && characterData.imageUrl && !clientImage) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: API_CONSTANTS.ERROR_CODES.VALIDATION_ERROR,
+          message: 'imageUrl must be a base64 PNG, JPEG or WebP data URL or the URL of a stored character image',
+          statusCode: API_CONSTANTS.HTTP_STATUS.BAD_REQUEST
+        },
+        meta: responseMeta(req)
+      };
+
+      return res.status(API_CONSTANTS.HTTP_STATUS.BAD_REQUEST).json(response);
     }
 
+    const id = Date.now().toString();
+
+    // Normalize the image, render thumbnails and store everything
+    const imageSource = generatedImage?.imageUrl ?? clientImage;
+    const storedImage = imageSource
+      ? await getDefaultImagePipeline().processAndStore(imageSource, { prefix: 'characters' })
+      : null;
+
     // Save to database
     const dbCharacter = await prisma.character.create({
       data: {
@@ -318,35 +618,36 @@ router.post('/', requireAuth, async (req: express.Request, res: express.Response
         name: characterData.name,
         description: characterData.description,
         prompt: characterData.enhancedDescription || characterData.description,
-        imageUrl,
-        thumbnailUrl
-      }
+        ...attributeData(CharacterSchema.sanitizeAttributes(characterData)),
+        imageUrl: storedImage?.imageUrl ?? '',
+        thumbnailUrl: storedImage?.thumbnailUrl ?? '',
+        ...(storedImage && {
+          metadata: metadataData({
+            image: storedImage.metadata,
+            ...(generatedImage?.generation && { generation: generatedImage.generation })
+          })
+        }),
+        tags: { connectOrCreate: connectTags(normalizeTags(characterData.tags)) }
+      },
+      include: { tags: TAG_SELECT }
     });
 
+    // The character is created either way; an unknown session id is only logged
+    if (typeof characterData.conversationId === 'string') {
+      await promptSessionService.linkCharacter(characterData.conversationId, req.user!.id, dbCharacter.id).catch(error => {
+        console.warn(`Could not link prompt session ${characterData.conversationId} to character ${dbCharacter.id}:`, error.message);
+      });
+    }
+
     // Map to API format
-    const newCharacter: Character = {
-      id: dbCharacter.id,
-      name: dbCharacter.name || 'Unnamed Character',
-      description: dbCharacter.description || 'No description available',
-      enhancedDescription: dbCharacter.prompt,
-      imageUrl: dbCharacter.imageUrl || '',
-      thumbnailUrl: dbCharacter.thumbnailUrl || '',
-      userId: dbCharacter.userId,
-      tags: characterData.tags || [],
-      createdAt: dbCharacter.createdAt.toISOString(),
-      updatedAt: dbCharacter.updatedAt.toISOString(),
-      metadata: characterData.metadata
-    };
+    const newCharacter = await toCharacterResponse(dbCharacter);
+
+    webhookService.dispatchSafely(req.user!.id, 'character.created', { character: newCharacter });
 
     const response: ApiResponse<Character> = {
       success: true,
       data: newCharacter,
-      meta: {
-        timestamp: new Date().toISOString(),
-        requestId: req.get('X-Request-ID') || 'unknown',
-        version: '1.0.0',
-        path: req.path
-      }
+      meta: responseMeta(req)
     };
 
     return res.status(API_CONSTANTS.HTTP_STATUS.CREATED).json(response);
@@ -359,12 +660,7 @@ router.post('/', requireAuth, async (req: express.Request, res: express.Response
         message: 'Internal server error',
         statusCode: API_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR
       },
-      meta: {
-        timestamp: new Date().toISOString(),
-        requestId: req.get('X-Request-ID') || 'unknown',
-        version: '1.0.0',
-        path: req.path
-      }
+      meta: responseMeta(req)
     };
 
     return res.status(API_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR).json(response);
@@ -375,7 +671,7 @@ router.post('/', requireAuth, async (req: express.Request, res: express.Response
  * PUT /api/v1/characters/:id
  * Update character by ID
  */
-router.put('/:id', requireAuth, async (req: express.Request, res: express.Response) => {
+router.put('/:id', requireAuth, moderateCharacterText, async (req: express.Request, res: express.Response) => {
   try {
     const { id } = req.params;
     const updateData = req.body;
@@ -388,12 +684,39 @@ router.put('/:id', requireAuth, async (req: express.Request, res: express.Respon
           message: 'Character ID is required',
           statusCode: API_CONSTANTS.HTTP_STATUS.BAD_REQUEST
         },
-        meta: {
-          timestamp: new Date().toISOString(),
-          requestId: req.get('X-Request-ID') || 'unknown',
-          version: '1.0.0',
-          path: req.path
-        }
+        meta: responseMeta(req)
+      };
+
+      return res.status(API_CONSTANTS.HTTP_STATUS.BAD_REQUEST).json(response);
+    }
+
+    if (updateData.tags !== undefined) {
+      const tagsValidation = CharacterSchema.validateTags(updateData.tags);
+      if (!tagsValidation.isValid) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: API_CONSTANTS.ERROR_CODES.VALIDATION_ERROR,
+            message: tagsValidation.errors.join(', '),
+            statusCode: API_CONSTANTS.HTTP_STATUS.BAD_REQUEST
+          },
+          meta: responseMeta(req)
+        };
+
+        return res.status(API_CONSTANTS.HTTP_STATUS.BAD_REQUEST).json(response);
+      }
+    }
+
+    const attributesValidation = CharacterSchema.validateAttributes(updateData);
+    if (!attributesValidation.isValid) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: API_CONSTANTS.ERROR_CODES.VALIDATION_ERROR,
+          message: attributesValidation.errors.join(', '),
+          statusCode: API_CONSTANTS.HTTP_STATUS.BAD_REQUEST
+        },
+        meta: responseMeta(req)
       };
 
       return res.status(API_CONSTANTS.HTTP_STATUS.BAD_REQUEST).json(response);
@@ -413,12 +736,7 @@ router.put('/:id', requireAuth, async (req: express.Request, res: express.Respon
           message: 'Character not found',
           statusCode: API_CONSTANTS.HTTP_STATUS.NOT_FOUND
         },
-        meta: {
-          timestamp: new Date().toISOString(),
-          requestId: req.get('X-Request-ID') || 'unknown',
-          version: '1.0.0',
-          path: req.path
-        }
+        meta: responseMeta(req)
       };
 
       return res.status(API_CONSTANTS.HTTP_STATUS.NOT_FOUND).json(response);
@@ -432,12 +750,7 @@ router.put('/:id', requireAuth, async (req: express.Request, res: express.Respon
           message: 'You do not have permission to update this character',
           statusCode: API_CONSTANTS.HTTP_STATUS.FORBIDDEN
         },
-        meta: {
-          timestamp: new Date().toISOString(),
-          requestId: req.get('X-Request-ID') || 'unknown',
-          version: '1.0.0',
-          path: req.path
-        }
+        meta: responseMeta(req)
       };
 
       return res.status(API_CONSTANTS.HTTP_STATUS.FORBIDDEN).json(response);
@@ -449,33 +762,23 @@ router.put('/:id', requireAuth, async (req: express.Request, res: express.Respon
       data: {
         ...(updateData.name && { name: updateData.name }),
         ...(updateData.description && { description: updateData.description }),
-        ...(updateData.enhancedDescription && { prompt: updateData.enhancedDescription })
-      }
+        ...(updateData.enhancedDescription && { prompt: updateData.enhancedDescription }),
+        // Character sheet fields are updated individually; null or "" clears one
+        ...attributeData(CharacterSchema.sanitizeAttributes(updateData)),
+        // Tags are replaced as a whole
+        ...(updateData.tags !== undefined && {
+          tags: { set: [], connectOrCreate: connectTags(normalizeTags(updateData.tags)) }
+        })
+      },
+      include: { tags: TAG_SELECT, ...favoriteSelect(req.user!.id) }
     });
 
-    const updatedCharacter: Character = {
-      id: dbCharacter.id,
-      name: dbCharacter.name || 'Unnamed Character',
-      description: dbCharacter.description || 'No description available',
-      enhancedDescription: dbCharacter.prompt,
-      imageUrl: dbCharacter.imageUrl || '',
-      thumbnailUrl: dbCharacter.thumbnailUrl || '',
-      userId: dbCharacter.userId,
-      tags: [],
-      createdAt: dbCharacter.createdAt.toISOString(),
-      updatedAt: dbCharacter.updatedAt.toISOString(),
-      metadata: {}
-    };
+    const updatedCharacter = await toCharacterResponse(dbCharacter);
 
     const response: ApiResponse<Character> = {
       success: true,
       data: updatedCharacter,
-      meta: {
-        timestamp: new Date().toISOString(),
-        requestId: req.get('X-Request-ID') || 'unknown',
-        version: '1.0.0',
-        path: req.path
-      }
+      meta: responseMeta(req)
     };
 
     return res.json(response);
@@ -487,12 +790,7 @@ router.put('/:id', requireAuth, async (req: express.Request, res: express.Respon
         message: 'Internal server error',
         statusCode: API_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR
       },
-      meta: {
-        timestamp: new Date().toISOString(),
-        requestId: req.get('X-Request-ID') || 'unknown',
-        version: '1.0.0',
-        path: req.path
-      }
+      meta: responseMeta(req)
     };
 
     return res.status(API_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR).json(response);
@@ -515,12 +813,7 @@ router.delete('/:id', requireAuth, async (req: express.Request, res: express.Res
           message: 'Character ID is required',
           statusCode: API_CONSTANTS.HTTP_STATUS.BAD_REQUEST
         },
-        meta: {
-          timestamp: new Date().toISOString(),
-          requestId: req.get('X-Request-ID') || 'unknown',
-          version: '1.0.0',
-          path: req.path
-        }
+        meta: responseMeta(req)
       };
 
       return res.status(API_CONSTANTS.HTTP_STATUS.BAD_REQUEST).json(response);
@@ -539,12 +832,7 @@ router.delete('/:id', requireAuth, async (req: express.Request, res: express.Res
           message: 'Character not found',
           statusCode: API_CONSTANTS.HTTP_STATUS.NOT_FOUND
         },
-        meta: {
-          timestamp: new Date().toISOString(),
-          requestId: req.get('X-Request-ID') || 'unknown',
-          version: '1.0.0',
-          path: req.path
-        }
+        meta: responseMeta(req)
       };
 
       return res.status(API_CONSTANTS.HTTP_STATUS.NOT_FOUND).json(response);
@@ -559,48 +847,33 @@ router.delete('/:id', requireAuth, async (req: express.Request, res: express.Res
           message: 'You do not have permission to delete this character',
           statusCode: API_CONSTANTS.HTTP_STATUS.FORBIDDEN
         },
-        meta: {
-          timestamp: new Date().toISOString(),
-          requestId: req.get('X-Request-ID') || 'unknown',
-          version: '1.0.0',
-          path: req.path
-        }
+        meta: responseMeta(req)
       };
 
       return res.status(API_CONSTANTS.HTTP_STATUS.FORBIDDEN).json(response);
     }
 
-    // Delete character image files
-    if (dbCharacter.imageUrl) {
-      // Extract filename from /api/v1/images/characters/xxx.png
-      const filename = dbCharacter.imageUrl.split('/').pop();
-      if (filename) {
-        const imagePath = path.join(process.cwd(), 'uploads', 'characters', filename);
-        try { fs.unlinkSync(imagePath); } catch {}
-      }
-    }
-    if (dbCharacter.thumbnailUrl) {
-      const filename = dbCharacter.thumbnailUrl.split('/').pop();
-      if (filename) {
-        const thumbPath = path.join(process.cwd(), 'uploads', 'characters', filename);
-        try { fs.unlinkSync(thumbPath); } catch {}
-      }
-    }
+    // Collect image URLs first; variants disappear with the cascade
+    const variants = await prisma.themeVariant.findMany({
+      where: { characterId: id },
+      select: { imageUrl: true, thumbnailUrl: true, metadata: true }
+    });
 
     // Delete character from database (cascades to themes and variants)
     await prisma.character.delete({
       where: { id }
     });
+
+    // Delete image files nothing else references
+    await getStorageService().releaseImages([
+      ...[dbCharacter, ...variants].map(imageRecordUrls),
+      { url: dbCharacter.referenceImageUrl }
+    ]);
     
     const response: ApiResponse = {
       success: true,
       data: { message: `Character ${id} deleted successfully` },
-      meta: {
-        timestamp: new Date().toISOString(),
-        requestId: req.get('X-Request-ID') || 'unknown',
-        version: '1.0.0',
-        path: req.path
-      }
+      meta: responseMeta(req)
     };
 
     return res.json(response);
@@ -612,24 +885,399 @@ router.delete('/:id', requireAuth, async (req: express.Request, res: express.Res
         message: 'Internal server error',
         statusCode: API_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR
       },
-      meta: {
-        timestamp: new Date().toISOString(),
-        requestId: req.get('X-Request-ID') || 'unknown',
-        version: '1.0.0',
-        path: req.path
+      meta: responseMeta(req)
+    };
+
+    return res.status(API_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR).json(response);
+  }
+});
+
+/**
+ * POST /api/v1/characters/:id/reference-image
+ * Upload a reference photo (multipart field "image", JPEG, PNG or WebP) for image-to-image generation.
+ * Replaces the previous reference; POST /characters/generate-image with this characterId is then
+ * conditioned on the photo (e.g. "turn this photo into an anime character").
+ */
+router.post(
+  '/:id/reference-image',
+  requireAuth,
+  singleFileUpload('image', { maxSize: config.images.referenceMaxBytes }),
+  validateFileUpload({ allowedTypes: REFERENCE_IMAGE_TYPES, maxSize: config.images.referenceMaxBytes, required: true }),
+  async (req: express.Request, res: express.Response) => {
+    try {
+      const { id } = req.params;
+      const file = req.file!;
+
+      const existingCharacter = await prisma.character.findFirst({
+        where: {
+          id,
+          userId: req.user!.id
+        },
+        select: { referenceImageUrl: true, metadata: true }
+      });
+
+      if (!existingCharacter) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: API_CONSTANTS.ERROR_CODES.NOT_FOUND,
+            message: 'Character not found',
+            statusCode: API_CONSTANTS.HTTP_STATUS.NOT_FOUND
+          },
+          meta: responseMeta(req)
+        };
+
+        return res.status(API_CONSTANTS.HTTP_STATUS.NOT_FOUND).json(response);
       }
+
+      // The declared type comes from the client; check the actual bytes as well
+      const detectedType = detectMimeType(file.buffer);
+      if (!detectedType || !REFERENCE_IMAGE_TYPES.includes(detectedType)) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: API_CONSTANTS.ERROR_CODES.VALIDATION_ERROR,
+            message: `Uploaded file is not a valid image. Allowed types: ${REFERENCE_IMAGE_TYPES.join(', ')}`,
+            statusCode: API_CONSTANTS.HTTP_STATUS.BAD_REQUEST
+          },
+          meta: responseMeta(req)
+        };
+
+        return res.status(API_CONSTANTS.HTTP_STATUS.BAD_REQUEST).json(response);
+      }
+
+      // Photos of real people are private; the owner gets signed links to them
+      const stored = await getDefaultImagePipeline().normalizeAndStore(file.buffer, { prefix: 'references', visibility: 'private' });
+
+      const dbCharacter = await prisma.character.update({
+        where: { id },
+        data: {
+          referenceImageUrl: stored.url,
+          metadata: metadataData({
+            ...(existingCharacter.metadata as CharacterMetadata | null),
+            referenceImage: {
+              ...stored.metadata,
+              filename: SanitizationUtils.sanitizeFilename(file.originalname, {
+                maxLength: 100,
+                allowedExtensions: REFERENCE_IMAGE_EXTENSIONS
+              }),
+              uploadedAt: new Date().toISOString()
+            }
+          })
+        },
+        include: { tags: TAG_SELECT, ...favoriteSelect(req.user!.id) }
+      });
+
+      // The previous photo may still be referenced elsewhere; release only frees unreferenced files
+      if (existingCharacter.referenceImageUrl && existingCharacter.referenceImageUrl !== stored.url) {
+        await getStorageService().releaseImages([{ url: existingCharacter.referenceImageUrl }]);
+      }
+
+      const character = await toCharacterResponse(dbCharacter);
+
+      const response: ApiResponse<Character> = {
+        success: true,
+        data: character,
+        meta: responseMeta(req)
+      };
+
+      return res.json(response);
+    } catch (error) {
+      console.error('Error uploading reference image:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: API_CONSTANTS.ERROR_CODES.INTERNAL_ERROR,
+          message: 'Failed to store reference image',
+          statusCode: API_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR
+        },
+        meta: responseMeta(req)
+      };
+
+      return res.status(API_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR).json(response);
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/characters/:id/reference-image
+ * Remove the character's reference photo; later generations are text-to-image again
+ */
+router.delete('/:id/reference-image', requireAuth, async (req: express.Request, res: express.Response) => {
+  try {
+    const { id } = req.params;
+
+    const existingCharacter = await prisma.character.findFirst({
+      where: {
+        id,
+        userId: req.user!.id
+      },
+      select: { referenceImageUrl: true, metadata: true }
+    });
+
+    if (!existingCharacter) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: API_CONSTANTS.ERROR_CODES.NOT_FOUND,
+          message: 'Character not found',
+          statusCode: API_CONSTANTS.HTTP_STATUS.NOT_FOUND
+        },
+        meta: responseMeta(req)
+      };
+
+      return res.status(API_CONSTANTS.HTTP_STATUS.NOT_FOUND).json(response);
+    }
+
+    if (existingCharacter.referenceImageUrl) {
+      const { referenceImage: _removed, ...metadata } = (existingCharacter.metadata as CharacterMetadata | null) ?? {};
+
+      await prisma.character.update({
+        where: { id },
+        data: {
+          referenceImageUrl: null,
+          metadata: metadataData(metadata)
+        }
+      });
+
+      await getStorageService().releaseImages([{ url: existingCharacter.referenceImageUrl }]);
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      data: { message: `Reference image of character ${id} removed` },
+      meta: responseMeta(req)
+    };
+
+    return res.json(response);
+  } catch (error) {
+    console.error('Error removing reference image:', error);
+    const response: ApiResponse = {
+      success: false,
+      error: {
+        code: API_CONSTANTS.ERROR_CODES.INTERNAL_ERROR,
+        message: 'Internal server error',
+        statusCode: API_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR
+      },
+      meta: responseMeta(req)
     };
 
     return res.status(API_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR).json(response);
   }
 });
 
+/**
+ * PUT /api/v1/characters/:id/visibility
+ * Set who can read the character; body: { visibility: "PRIVATE" | "UNLISTED" | "PUBLIC" }.
+ * UNLISTED and PUBLIC return a shareUrl that shows only public fields; PRIVATE revokes it,
+ * and PUBLIC also lists the character in /api/v1/gallery.
+ */
+router.put('/:id/visibility', requireAuth, async (req: express.Request, res: express.Response) => {
+  try {
+    const visibility = typeof req.body?.visibility === 'string' ? req.body.visibility.toUpperCase() : undefined;
+
+    if (!Object.values(CharacterVisibility).includes(visibility as CharacterVisibility)) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: API_CONSTANTS.ERROR_CODES.VALIDATION_ERROR,
+          message: `visibility must be one of ${Object.values(CharacterVisibility).join(', ')}`,
+          statusCode: API_CONSTANTS.HTTP_STATUS.BAD_REQUEST
+        },
+        meta: responseMeta(req)
+      };
+
+      return res.status(API_CONSTANTS.HTTP_STATUS.BAD_REQUEST).json(response);
+    }
+
+    const sharing = await galleryService.setVisibility(req.params.id!, req.user!.id, visibility as CharacterVisibility);
+
+    const response: ApiResponse = {
+      success: true,
+      data: sharing,
+      meta: responseMeta(req)
+    };
+
+    return res.json(response);
+  } catch (error) {
+    return sendServiceError(req, res, error, 'Error updating character visibility:');
+  }
+});
+
+/**
+ * POST /api/v1/characters/:id/share-link
+ * Replace the share link of an unlisted or public character; the old link stops working
+ */
+router.post('/:id/share-link', requireAuth, async (req: express.Request, res: express.Response) => {
+  try {
+    const sharing = await galleryService.rotateShareLink(req.params.id!, req.user!.id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: sharing,
+      meta: responseMeta(req)
+    };
+
+    return res.json(response);
+  } catch (error) {
+    return sendServiceError(req, res, error, 'Error rotating share link:');
+  }
+});
+
+/**
+ * POST /api/v1/characters/:id/remix
+ * Copy a public, unlisted or own character's prompt, character sheet and tags into a new private character
+ * of the caller, without images. The copy's remixedFromId points at the original
+ * (see /api/v1/gallery/characters/:id/lineage and /remixes).
+ */
+router.post('/:id/remix', requireAuth, async (req: express.Request, res: express.Response) => {
+  try {
+    const dbCharacter = await galleryService.remixCharacter(req.params.id!, req.user!.id);
+
+    const remix = await toCharacterResponse(dbCharacter);
+
+    webhookService.dispatchSafely(req.user!.id, 'character.created', { character: remix });
+
+    const response: ApiResponse<Character> = {
+      success: true,
+      data: remix,
+      meta: responseMeta(req)
+    };
+
+    return res.status(API_CONSTANTS.HTTP_STATUS.CREATED).json(response);
+  } catch (error) {
+    return sendServiceError(req, res, error, 'Error remixing character:');
+  }
+});
+
+/**
+ * POST /api/v1/characters/from-template/:id
+ * Create a private character pre-filled from a curated template (see /api/v1/templates) and count the use.
+ *
+ * Request body (all optional, each replaces the template's value):
+ * - name, description, prompt, tags
+ * - generateImage: boolean - also queue the character's image in the template's style; it is charged like
+ *   /characters/generate-image and stored on the character when the job completes (poll data.job.statusUrl)
+ * - aspectRatio, quality: format of that image, as for /characters/generate-image
+ */
+router.post(
+  '/from-template/:id',
+  requireAuth,
+  moderatePrompt('/characters/from-template', bodyFields('name', 'description', 'prompt')),
+  checkCredits(generationCostEndpoint, { quota: true, fallbackEndpoint: GENERATE_IMAGE_ENDPOINT, when: req => req.body?.generateImage === true }),
+  async (req: express.Request, res: express.Response) => {
+    const meta = responseMeta(req);
+
+    try {
+      const input: CreateFromTemplateData = req.body ?? {};
+
+      const validation = CharacterSchema.validateFromTemplateInput(input);
+      if (!validation.isValid) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: API_CONSTANTS.ERROR_CODES.VALIDATION_ERROR,
+            message: validation.errors.join(', '),
+            statusCode: API_CONSTANTS.HTTP_STATUS.BAD_REQUEST
+          },
+          meta
+        };
+
+        return res.status(API_CONSTANTS.HTTP_STATUS.BAD_REQUEST).json(response);
+      }
+
+      if (input.generateImage && !nanoBananaClient) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: API_CONSTANTS.ERROR_CODES.SERVICE_UNAVAILABLE,
+            message: 'Image generation service is not available',
+            statusCode: API_CONSTANTS.HTTP_STATUS.SERVICE_UNAVAILABLE
+          },
+          meta
+        };
+
+        return res.status(API_CONSTANTS.HTTP_STATUS.SERVICE_UNAVAILABLE).json(response);
+      }
+
+      const { template, character: dbCharacter } = await templateService.createCharacterFromTemplate(req.params.id!, req.user!.id, {
+        ...(input.name !== undefined && { name: input.name.trim() }),
+        ...(input.description !== undefined && { description: input.description.trim() }),
+        ...(input.prompt !== undefined && { prompt: input.prompt.trim() }),
+        ...(input.tags !== undefined && { tags: normalizeTags(input.tags) })
+      });
+
+      const newCharacter = await toCharacterResponse(dbCharacter);
+
+      webhookService.dispatchSafely(req.user!.id, 'character.created', { character: newCharacter });
+
+      // The character exists from here on; a full queue only means the image has to be requested again
+      let job = null;
+      if (input.generateImage) {
+        try {
+          job = await jobQueue.enqueue({
+            userId: req.user!.id,
+            kind: JOB_KINDS.CHARACTER_IMAGE,
+            payload: {
+              prompt: dbCharacter.prompt,
+              style: template.styleType.toLowerCase(),
+              stylePreset: await stylePresetService.findStyleFragments(template.styleType),
+              ...(input.aspectRatio && { aspectRatio: input.aspectRatio }),
+              ...(input.quality && { quality: input.quality }),
+              characterId: dbCharacter.id
+            },
+            creditCost: req.creditCost,
+            apiEndpoint: generationCostEndpoint(req),
+            reservationId: req.creditReservation?.id
+          });
+
+          // The job now owns the held credits: committed on success, released on failure
+          transferCreditReservation(req);
+        } catch (error) {
+          if (!(error instanceof QueueFullError)) throw error;
+          console.warn(`Image for character ${dbCharacter.id} not queued:`, error.message);
+        }
+      }
+
+      const response: ApiResponse<CharacterFromTemplateResult> = {
+        success: true,
+        data: {
+          character: newCharacter,
+          template,
+          job: job && {
+            jobId: job.id,
+            status: 'queued',
+            statusUrl: `/api/v1/jobs/${job.id}`
+          },
+          ...(input.generateImage && !job && { degraded: true })
+        },
+        meta
+      };
+
+      return res.status(API_CONSTANTS.HTTP_STATUS.CREATED).json(response);
+    } catch (error) {
+      return sendServiceError(req, res, error, 'Error creating character from template:');
+    }
+  }
+);
+
 /**
  * POST /api/v1/characters/optimize-prompt
  * Optimize user description into detailed prompt using Gemini
  * Requires authentication to prevent API abuse
+ *
+ * Every turn is stored in a prompt session keyed by the returned conversationId (see /api/v1/prompt-sessions).
+ *
+ * Request body:
+ * - userDescription, style (a style preset key from /api/v1/styles), gender
+ * - conversationId: string (optional; continues a stored session - its turns are the history, and its last input,
+ *   style, gender and character are used when not sent again)
+ * - feedback: string (optional; feedback on the session's last generated prompt)
+ * - conversationHistory (optional; client-side history, only used without conversationId)
+ * - characterId: string (optional; the character's sheet - age, traits, clothing, ... - is kept in the prompt)
+ * - attributes: object (optional; character sheet fields, override the stored ones)
  */
-router.post('/optimize-prompt', requireAuth, checkCredits('/characters/optimize-prompt'), async (req: express.Request, res: express.Response) => {
+router.post('/optimize-prompt', requireAuth, moderatePrompt('/characters/optimize-prompt', bodyFields('userDescription', 'feedback', 'attributes')), checkCredits('/characters/optimize-prompt'), async (req: express.Request, res: express.Response) => {
   try {
     if (!geminiService) {
       const response: ApiResponse = {
@@ -639,20 +1287,42 @@ router.post('/optimize-prompt', requireAuth, checkCredits('/characters/optimize-
           message: 'Prompt optimization service is not available',
           statusCode: API_CONSTANTS.HTTP_STATUS.SERVICE_UNAVAILABLE
         },
-        meta: {
-          timestamp: new Date().toISOString(),
-          requestId: req.get('X-Request-ID') || 'unknown',
-          version: '1.0.0',
-          path: req.path
-        }
+        meta: responseMeta(req)
       };
 
       return res.status(API_CONSTANTS.HTTP_STATUS.SERVICE_UNAVAILABLE).json(response);
     }
 
-    const { userDescription, style, gender, conversationHistory }: PromptOptimizationRequest = req.body;
+    const { style, gender, conversationHistory }: PromptOptimizationRequest = req.body;
+    const { characterId, attributes = {}, conversationId, feedback } = req.body;
 
-    if (!userDescription || userDescription.trim().length === 0) {
+    if ((conversationId !== undefined && typeof conversationId !== 'string') ||
+        (feedback !== undefined && (typeof feedback !== 'string' || feedback.length > MAX_PROMPT_FEEDBACK_LENGTH))) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: API_CONSTANTS.ERROR_CODES.VALIDATION_ERROR,
+          message: `conversationId must be a string and feedback a string of at most ${MAX_PROMPT_FEEDBACK_LENGTH} characters`,
+          statusCode: API_CONSTANTS.HTTP_STATUS.BAD_REQUEST
+        },
+        meta: responseMeta(req)
+      };
+
+      return res.status(API_CONSTANTS.HTTP_STATUS.BAD_REQUEST).json(response);
+    }
+
+    // Checked before the session is touched
+    const requestedStyle = await stylePresetService.resolveStyle(style);
+
+    const trimmedFeedback: string | undefined = feedback?.trim() || undefined;
+    const session = conversationId
+      ? await promptSessionService.resumeSession(conversationId, req.user!.id, trimmedFeedback)
+      : null;
+
+    // A follow-up turn may send only feedback; the session's last input is refined again
+    const userDescription: string | undefined = req.body.userDescription ?? session?.lastUserInput ?? undefined;
+
+    if (!userDescription || typeof userDescription !== 'string' || userDescription.trim().length === 0) {
       const response: ApiResponse = {
         success: false,
         error: {
@@ -660,37 +1330,108 @@ router.post('/optimize-prompt', requireAuth, checkCredits('/characters/optimize-
           message: 'User description is required',
           statusCode: API_CONSTANTS.HTTP_STATUS.BAD_REQUEST
         },
-        meta: {
-          timestamp: new Date().toISOString(),
-          requestId: req.get('X-Request-ID') || 'unknown',
-          version: '1.0.0',
-          path: req.path
-        }
+        meta: responseMeta(req)
+      };
+
+      return res.status(API_CONSTANTS.HTTP_STATUS.BAD_REQUEST).json(response);
+    }
+
+    const attributesValidation = typeof attributes === 'object' && attributes !== null && !Array.isArray(attributes)
+      ? CharacterSchema.validateAttributes(attributes)
+      : { isValid: false, errors: ['attributes must be an object'] };
+    if (!attributesValidation.isValid) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: API_CONSTANTS.ERROR_CODES.VALIDATION_ERROR,
+          message: attributesValidation.errors.join(', '),
+          statusCode: API_CONSTANTS.HTTP_STATUS.BAD_REQUEST
+        },
+        meta: responseMeta(req)
       };
 
       return res.status(API_CONSTANTS.HTTP_STATUS.BAD_REQUEST).json(response);
     }
 
+    let storedAttributes: CharacterAttributes = {};
+    const sheetCharacterId = characterId !== undefined ? characterId : session?.characterId ?? undefined;
+    if (sheetCharacterId !== undefined) {
+      const dbCharacter = typeof sheetCharacterId === 'string'
+        ? await prisma.character.findFirst({ where: { id: sheetCharacterId, userId: req.user!.id } })
+        : null;
+
+      if (!dbCharacter) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: API_CONSTANTS.ERROR_CODES.NOT_FOUND,
+            message: 'Character not found',
+            statusCode: API_CONSTANTS.HTTP_STATUS.NOT_FOUND
+          },
+          meta: responseMeta(req)
+        };
+
+        return res.status(API_CONSTANTS.HTTP_STATUS.NOT_FOUND).json(response);
+      }
+      storedAttributes = characterAttributes(dbCharacter);
+    }
+
+    // The session's style may have been deactivated since it was stored; it is then only passed by name
+    const stylePreset = style !== undefined ? requestedStyle : await stylePresetService.findStyleFragments(session?.style);
+
     const optimizationResult = await geminiService.optimizePrompt({
       userDescription,
+      style: style ?? session?.style ?? undefined,
+      stylePreset,
+      gender: gender ?? session?.gender ?? undefined,
+      conversationHistory: session ? session.history : conversationHistory,
+      conversationId: session?.conversationId,
+      attributes: { ...storedAttributes, ...CharacterSchema.sanitizeAttributes(attributes) }
+    });
+
+    const turnIndex = await promptSessionService.recordTurn(req.user!.id, optimizationResult, {
+      resumed: !!session,
+      userInput: userDescription,
+      feedback: trimmedFeedback,
       style,
       gender,
-      conversationHistory
+      characterId
     });
 
-    const response: ApiResponse<PromptOptimizationResponse> = {
+    const response: ApiResponse<PromptOptimizationResponse & { turnIndex: number }> = {
       success: true,
-      data: optimizationResult,
-      meta: {
-        timestamp: new Date().toISOString(),
-        requestId: req.get('X-Request-ID') || 'unknown',
-        version: '1.0.0',
-        path: req.path
-      }
+      data: { ...optimizationResult, turnIndex },
+      meta: responseMeta(req)
     };
 
     return res.json(response);
   } catch (error) {
+    if (error instanceof GeminiError && error.code === 'CONTENT_BLOCKED') {
+      await moderationService.recordProviderBlock(req.user!.id, error.details, {
+        endpoint: '/characters/optimize-prompt',
+        excerpt: req.body.userDescription
+      });
+    }
+
+    if (error instanceof PromptSessionError || error instanceof GeminiError || error instanceof StylePresetError) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          statusCode: error.statusCode,
+          ...(error.code === 'CONTENT_BLOCKED' && { details: { categories: error.details?.categories } }),
+          ...(error instanceof StylePresetError && { details: error.details })
+        },
+        meta: responseMeta(req)
+      };
+
+      if (error instanceof GeminiError && error.retryAfterMs !== undefined) {
+        res.set('Retry-After', String(Math.ceil(error.retryAfterMs / 1000)));
+      }
+      return res.status(error.statusCode).json(response);
+    }
+
     console.error('Error optimizing prompt:', error);
     
     const response: ApiResponse = {
@@ -700,12 +1441,7 @@ router.post('/optimize-prompt', requireAuth, checkCredits('/characters/optimize-
         message: 'Failed to optimize prompt',
         statusCode: API_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR
       },
-      meta: {
-        timestamp: new Date().toISOString(),
-        requestId: req.get('X-Request-ID') || 'unknown',
-        version: '1.0.0',
-        path: req.path
-      }
+      meta: responseMeta(req)
     };
 
     return res.status(API_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR).json(response);
@@ -717,10 +1453,24 @@ router.post('/optimize-prompt', requireAuth, checkCredits('/characters/optimize-
  * POST /api/v1/characters/generate-image
  * Generate character image using AI
  * Requires authentication to prevent API abuse
+ * Returns 202 with a job id; the image is generated by the job queue
+ *
+ * Request body:
+ * - prompt: string
+ * - style: string (optional, default "realistic"; a style preset key from /api/v1/styles - its prompt fragments and
+ *   negative guidance are applied to the prompt)
+ * - characterId: string (optional; when the character has a reference photo the image is generated from it)
+ * - aspectRatio: "square" | "portrait" | "landscape" | "banner" (optional, default "square"; portrait suits character
+ *   cards, banner profile headers)
+ * - quality: "draft" | "standard" | "high" (optional, default "standard"; each tier is priced by its own ApiCostConfig
+ *   entry, e.g. "/characters/generate-image:high", falling back to the base price)
+ * The image is cropped and resized to exactly the size of the chosen format, which is returned with the job result
+ * as `generation`.
  */
-router.post('/generate-image', requireAuth, checkCredits('/characters/generate-image'), async (req: express.Request, res: express.Response) => {
+router.post('/generate-image', requireAuth, moderatePrompt('/characters/generate-image', bodyFields('prompt')), checkCredits(generationCostEndpoint, { quota: true, fallbackEndpoint: GENERATE_IMAGE_ENDPOINT }), async (req: express.Request, res: express.Response) => {
   try {
-    const { prompt, style } = req.body;
+    const { prompt, style, characterId } = req.body;
+    const { aspectRatio, quality }: { aspectRatio?: AspectRatioPreset; quality?: ImageQuality } = req.body;
 
     if (!prompt) {
       return res.status(400).json({
@@ -733,6 +1483,18 @@ router.post('/generate-image', requireAuth, checkCredits('/characters/generate-i
       });
     }
 
+    const formatValidation = CharacterSchema.validateImageFormat({ aspectRatio, quality });
+    if (!formatValidation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: formatValidation.errors.join(', '),
+          statusCode: 400
+        }
+      });
+    }
+
     // Check if nanoBanana service is available
     if (!nanoBananaClient) {
       return res.status(503).json({
@@ -745,39 +1507,87 @@ router.post('/generate-image', requireAuth, checkCredits('/characters/generate-i
       });
     }
 
-    // Prepare generation request
-    const generationRequest: GenerationRequest = {
-      type: 'text-to-image',
-      prompt: prompt,
-      quality: 'high',
-      width: 1024,
-      height: 1024,
-      style: style || 'realistic'
-    };
-
-    // Generate image using nanoBanana service
-    console.log('🎨 Generating image with prompt:', prompt);
-    const generationResult = await nanoBananaClient.generateImage(generationRequest);
-    
-    if (!generationResult || generationResult.status !== 'completed') {
-      throw new Error(`Image generation failed: ${generationResult?.status || 'unknown status'}`);
+    // Without a style the realistic preset applies, unless an admin has deactivated it
+    const stylePreset = style
+      ? await stylePresetService.resolveStyle(style)
+      : await stylePresetService.findStyleFragments('realistic');
+
+    let referenceImageUrl: string | null = null;
+    if (characterId !== undefined) {
+      const character = typeof characterId === 'string'
+        ? await prisma.character.findFirst({
+          where: { id: characterId, userId: req.user!.id },
+          select: { referenceImageUrl: true }
+        })
+        : null;
+
+      if (!character) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Character not found',
+            statusCode: 404
+          }
+        });
+      }
+      referenceImageUrl = character.referenceImageUrl;
     }
 
-    // Return the image URLs
-    const imageResult = {
-      imageUrl: generationResult.result?.imageUrl,
-      thumbnailUrl: generationResult.result?.thumbnailUrl,
-      prompt: prompt,
-      style: style || 'realistic',
-      generationId: generationResult.id
-    };
+    // Queue the generation; the client polls GET /api/v1/jobs/:id for the result
+    const job = await jobQueue.enqueue({
+      userId: req.user!.id,
+      kind: JOB_KINDS.CHARACTER_IMAGE,
+      payload: {
+        prompt,
+        style: stylePreset?.key ?? 'realistic',
+        stylePreset,
+        ...(aspectRatio && { aspectRatio }),
+        ...(quality && { quality }),
+        ...(referenceImageUrl && { referenceImageUrl })
+      },
+      creditCost: req.creditCost,
+      apiEndpoint: generationCostEndpoint(req),
+      reservationId: req.creditReservation?.id
+    });
 
-    return res.json({
+    // The job now owns the held credits: committed on success, released on failure
+    transferCreditReservation(req);
+
+    return res.status(202).json({
       success: true,
-      data: imageResult
+      data: {
+        jobId: job.id,
+        status: 'queued',
+        statusUrl: `/api/v1/jobs/${job.id}`,
+        generation: resolveImageFormat(aspectRatio, quality)
+      }
     });
 
   } catch (error) {
+    if (error instanceof StylePresetError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          statusCode: error.statusCode,
+          details: error.details
+        }
+      });
+    }
+
+    if (error instanceof QueueFullError) {
+      return res.status(503).json({
+        success: false,
+        error: {
+          code: 'QUEUE_FULL',
+          message: error.message,
+          statusCode: 503
+        }
+      });
+    }
+
     console.error('Error generating image:', error);
     
     return res.status(500).json({
@@ -801,7 +1611,7 @@ router.post('/generate-image', requireAuth, checkCredits('/characters/generate-i
  * - If behind firewall/proxy, may need proxy configuration
  * - For China: may need VPN or proxy to access Google APIs
  */
-router.post('/optimize-prompt-25flash', requireAuth, checkCredits('/characters/optimize-prompt-25flash'), async (req: express.Request, res: express.Response) => {
+router.post('/optimize-prompt-25flash', requireAuth, moderatePrompt('/characters/optimize-prompt-25flash', bodyFields('userDescription')), checkCredits('/characters/optimize-prompt-25flash'), async (req: express.Request, res: express.Response) => {
   try {
     if (!geminiService) {
       const response: ApiResponse = {
@@ -811,18 +1621,13 @@ router.post('/optimize-prompt-25flash', requireAuth, checkCredits('/characters/o
           message: 'Gemini 2.5 Flash service is not available',
           statusCode: API_CONSTANTS.HTTP_STATUS.SERVICE_UNAVAILABLE
         },
-        meta: {
-          timestamp: new Date().toISOString(),
-          requestId: req.get('X-Request-ID') || 'unknown',
-          version: '1.0.0',
-          path: req.path
-        }
+        meta: responseMeta(req)
       };
 
       return res.status(API_CONSTANTS.HTTP_STATUS.SERVICE_UNAVAILABLE).json(response);
     }
 
-    const { userDescription, style, gender, conversationHistory }: any = req.body;
+    const { userDescription, style, gender, conversationHistory } = req.body as PromptOptimizationRequest;
 
     if (!userDescription || userDescription.trim().length === 0) {
       const response: ApiResponse = {
@@ -832,19 +1637,14 @@ router.post('/optimize-prompt-25flash', requireAuth, checkCredits('/characters/o
           message: 'User description is required',
           statusCode: API_CONSTANTS.HTTP_STATUS.BAD_REQUEST
         },
-        meta: {
-          timestamp: new Date().toISOString(),
-          requestId: req.get('X-Request-ID') || 'unknown',
-          version: '1.0.0',
-          path: req.path
-        }
+        meta: responseMeta(req)
       };
 
       return res.status(API_CONSTANTS.HTTP_STATUS.BAD_REQUEST).json(response);
     }
 
-    // Test Gemini 2.5 Flash model
-    const optimizationResult = await (geminiService as any).optimizePromptWith25Flash({
+    // Prompt optimization runs on Gemini 2.5 Flash
+    const optimizationResult = await geminiService.optimizePrompt({
       userDescription,
       style,
       gender,
@@ -857,17 +1657,37 @@ router.post('/optimize-prompt-25flash', requireAuth, checkCredits('/characters/o
         ...optimizationResult,
         model: 'gemini-2.5-flash' // Indicate which model was used
       },
-      meta: {
-        timestamp: new Date().toISOString(),
-        requestId: req.get('X-Request-ID') || 'unknown',
-        version: '1.0.0',
-        path: req.path
-      }
+      meta: responseMeta(req)
     };
 
     return res.json(response);
   } catch (error) {
     console.error('Error with Gemini 2.5 Flash:', error);
+
+    if (error instanceof GeminiError) {
+      if (error.code === 'CONTENT_BLOCKED') {
+        await moderationService.recordProviderBlock(req.user!.id, error.details, {
+          endpoint: '/characters/optimize-prompt-25flash',
+          excerpt: req.body.userDescription
+        });
+      }
+      if (error.retryAfterMs !== undefined) {
+        res.set('Retry-After', String(Math.ceil(error.retryAfterMs / 1000)));
+      }
+
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          statusCode: error.statusCode,
+          ...(error.code === 'CONTENT_BLOCKED' && { details: { categories: error.details?.categories } })
+        },
+        meta: responseMeta(req)
+      };
+
+      return res.status(error.statusCode).json(response);
+    }
     
     const response: ApiResponse = {
       success: false,
@@ -876,12 +1696,7 @@ router.post('/optimize-prompt-25flash', requireAuth, checkCredits('/characters/o
         message: 'Failed to optimize prompt with Gemini 2.5 Flash',
         statusCode: API_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR
       },
-      meta: {
-        timestamp: new Date().toISOString(),
-        requestId: req.get('X-Request-ID') || 'unknown',
-        version: '1.0.0',
-        path: req.path
-      }
+      meta: responseMeta(req)
     };
 
     return res.status(API_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR).json(response);
@@ -898,7 +1713,7 @@ router.post('/optimize-prompt-25flash', requireAuth, checkCredits('/characters/o
  * - prompt: string (description of desired changes)
  * - characterId: string (optional, ID of the character being edited)
  */
-router.post('/edit-image', requireAuth, async (req: express.Request, res: express.Response) => {
+router.post('/edit-image', requireAuth, moderatePrompt('/characters/edit-image', bodyFields('prompt')), async (req: express.Request, res: express.Response) => {
   try {
     const { imageUrl, prompt, characterId } = req.body;
 
@@ -930,7 +1745,7 @@ router.post('/edit-image', requireAuth, async (req: express.Request, res: expres
     console.log('Edit prompt:', prompt);
 
     // Call Gemini service to edit the image
-    const result = await (geminiService as any).editImageWithGemini({
+    const result = await geminiService.editImageWithGemini({
       imageUrl,
       prompt,
       characterId
@@ -944,6 +1759,28 @@ router.post('/edit-image', requireAuth, async (req: express.Request, res: expres
   } catch (error) {
     console.error('Error editing image with Gemini:', error);
 
+    // Safety blocks, quota and provider outages keep their own code and status
+    if (error instanceof GeminiError) {
+      if (error.code === 'CONTENT_BLOCKED') {
+        await moderationService.recordProviderBlock(req.user!.id, error.details, {
+          endpoint: '/characters/edit-image',
+          excerpt: req.body.prompt
+        });
+      }
+      if (error.retryAfterMs !== undefined) {
+        res.set('Retry-After', String(Math.ceil(error.retryAfterMs / 1000)));
+      }
+      return res.status(error.statusCode).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          statusCode: error.statusCode,
+          ...(error.code === 'CONTENT_BLOCKED' && { details: { categories: error.details?.categories } })
+        }
+      });
+    }
+
     return res.status(500).json({
       success: false,
       error: {
@@ -0,0 +1,69 @@
+/**
+ * File Routes
+ * Serves signed URLs issued by the local storage driver (S3 signs its own URLs)
+ */
+
+import { Router, Request, Response } from 'express';
+import { getStorageService, LocalStorageDriver } from '../../services/storage';
+
+const router = Router();
+
+/**
+ * GET /api/v1/files/:key?expires=...&signature=...
+ */
+router.get('/*', async (req: Request, res: Response): Promise<any> => {
+  try {
+    const storage = getStorageService();
+    const driver = storage.getDriver();
+    const key = (req.params as Record<string, string>)[0] || '';
+
+    if (!(driver instanceof LocalStorageDriver)) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Signed file URLs are served by the storage provider'
+        }
+      });
+    }
+
+    const expires = Number(req.query.expires);
+    const signature = typeof req.query.signature === 'string' ? req.query.signature : '';
+
+    if (!signature || !driver.verifySignedUrl(key, expires, signature)) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Invalid or expired file URL'
+        }
+      });
+    }
+
+    const object = await storage.getObject(key);
+    if (!object) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'File not found'
+        }
+      });
+    }
+
+    res.setHeader('Content-Type', object.contentType);
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    return res.send(object.data);
+  } catch (error) {
+    console.error('Error serving file:', error);
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to load file'
+      }
+    });
+  }
+});
+
+export default router;
@@ -9,9 +9,20 @@ import { ApiResponse } from '../../types/api';
 // Route imports
 import { authRoutes } from '../../modules/auth';
 import { creditsRouter } from '../../modules/credits';
+import { jobsRouter } from '../../modules/jobs';
+import { collectionsRouter } from '../../modules/collections';
+import { scenesRouter } from '../../modules/scenes';
+import { promptSessionsRouter } from '../../modules/prompt-sessions';
+import { moderationRouter } from '../../modules/moderation';
+import { realtimeRouter } from '../../modules/realtime';
+import { webhooksRouter } from '../../modules/webhooks';
+import { galleryRouter } from '../../modules/gallery';
+import { templatesRouter } from '../../modules/templates';
+import { stylesRouter } from '../../modules/styles';
 import usersRouter from './users';
 import charactersRouter from './characters';
 import themesRouter from './themes';
+import filesRouter from './files';
 
 const router = express.Router();
 
@@ -30,8 +41,19 @@ router.get('/', (req: express.Request, res: express.Response) => {
         auth: '/api/v1/auth',
         users: '/api/v1/users',
         characters: '/api/v1/characters',
+        collections: '/api/v1/collections',
+        gallery: '/api/v1/gallery',
+        templates: '/api/v1/templates',
+        styles: '/api/v1/styles',
+        scenes: '/api/v1/scenes',
+        promptSessions: '/api/v1/prompt-sessions',
         themes: '/api/v1/themes',
         credits: '/api/v1/credits',
+        jobs: '/api/v1/jobs',
+        events: '/api/v1/events',
+        moderation: '/api/v1/moderation',
+        webhooks: '/api/v1/webhooks',
+        files: '/api/v1/files',
         health: '/health'
       },
       status: 'operational',
@@ -57,9 +79,20 @@ router.get('/', (req: express.Request, res: express.Response) => {
  */
 router.use('/auth', authRoutes);
 router.use('/credits', creditsRouter);
+router.use('/jobs', jobsRouter);
+router.use('/events', realtimeRouter);
+router.use('/moderation', moderationRouter);
+router.use('/webhooks', webhooksRouter);
 router.use('/users', usersRouter);
 router.use('/characters', charactersRouter);
+router.use('/collections', collectionsRouter);
+router.use('/gallery', galleryRouter);
+router.use('/templates', templatesRouter);
+router.use('/styles', stylesRouter);
+router.use('/scenes', scenesRouter);
+router.use('/prompt-sessions', promptSessionsRouter);
 router.use('/themes', themesRouter);
+router.use('/files', filesRouter);
 
 /**
  * API v1 catch-all route for undefined endpoints
@@ -5,9 +5,6 @@
 
 import { Router, Request, Response } from 'express';
 import { randomUUID } from 'crypto';
-import fs from 'fs';
-import path from 'path';
-import fetch from 'node-fetch';
 import {
   CharacterTheme,
   CharacterVariant,
@@ -15,81 +12,52 @@ import {
   CreateThemeRequest,
   CreateVariantRequest
 } from '../../../../../shared/types/theme';
-import { getDefaultGeminiClient } from '../../api/geminiClient';
 import { PrismaClient } from '@prisma/client';
 import { requireAuth } from '../../middleware/requireAuth';
-import { checkCredits } from '../../modules/credits';
+import { createValidationMiddleware, ValidatedRequest } from '../../middleware/validation';
+import { VariantBatchData, VariantBatchSchema } from '../../schemas/variantBatchSchema';
+import { ENV_CONFIG } from '../../config/env';
+import { checkCredits, transferCreditReservation } from '../../modules/credits';
+import { jobQueue, JOB_KINDS, QueueFullError } from '../../modules/jobs';
+import { moderatePrompt, bodyFields } from '../../modules/moderation';
+import { stylePresetService, StylePresetError } from '../../modules/styles';
+import { getStorageService } from '../../services/storage';
+import { imageRecordUrls } from '../../services/imagePipeline';
+import { MAX_IDENTITY_ANCHORS } from '../../services/themeVariantService';
 
 const router = Router();
 const prisma = new PrismaClient();
 
-// Initialize Gemini client for image generation
-const geminiClient = getDefaultGeminiClient();
-
-// Helper function to save base64 as file
-function saveBase64AsFile(base64Data: string, outputPath: string): void {
-  const matches = base64Data.match(/^data:image\/(\w+);base64,(.+)$/);
-  const content = matches?.[2] ?? base64Data;
-  const buffer = Buffer.from(content, 'base64');
-  const dir = path.dirname(outputPath);
-  if (!fs.existsSync(dir)) {
-    fs.mkdirSync(dir, { recursive: true });
-  }
-  fs.writeFileSync(outputPath, buffer);
-}
+const validateVariantBatch = createValidationMiddleware<VariantBatchData>(
+  (data) => VariantBatchSchema.validateBatchInput(data),
+  (data) => VariantBatchSchema.sanitizeBatchInput(data)
+);
 
-async function loadImageAsBase64(imageReference?: string): Promise<{ base64: string; mimeType: string } | null> {
-  if (!imageReference) {
-    return null;
-  }
-
-  try {
-    if (imageReference.startsWith('data:')) {
-      const matches = imageReference.match(/^data:([^;]+);base64,(.+)$/);
-      if (!matches || !matches[1] || !matches[2]) {
-        throw new Error('Invalid data URL format');
-      }
-      return { base64: matches[2], mimeType: matches[1] };
-    }
-
-    if (imageReference.startsWith('http://') || imageReference.startsWith('https://')) {
-      const response = await fetch(imageReference);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch remote image: ${response.statusText}`);
-      }
-      const arrayBuffer = await response.arrayBuffer();
-      let mimeType = 'image/jpeg';
-      const headerContentType = response.headers.get('content-type');
-      if (headerContentType) {
-        const [primaryType] = headerContentType.split(';');
-        if (primaryType) {
-          mimeType = primaryType;
-        }
-      }
-      return { base64: Buffer.from(arrayBuffer).toString('base64'), mimeType };
-    }
-
-    // Treat as local path (relative or absolute)
-    const normalizedPath = imageReference.startsWith('/')
-      ? path.resolve(process.cwd(), imageReference.slice(1))
-      : path.resolve(process.cwd(), imageReference);
-
-    if (!fs.existsSync(normalizedPath)) {
-      throw new Error(`Local image not found at ${normalizedPath}`);
-    }
+/**
+ * Include for variantReactions: like and favorite counts and the user's own reactions
+ */
+function variantReactionInclude(userId: string) {
+  return {
+    likes: { where: { userId }, select: { id: true } },
+    favorites: { where: { userId }, select: { id: true } },
+    _count: { select: { likes: true, favorites: true } }
+  };
+}
 
-    const fileBuffer = fs.readFileSync(normalizedPath);
-    const ext = path.extname(normalizedPath).toLowerCase();
-    let mimeType = 'image/png';
-    if (ext === '.jpg' || ext === '.jpeg') mimeType = 'image/jpeg';
-    else if (ext === '.webp') mimeType = 'image/webp';
-    else if (ext === '.gif') mimeType = 'image/gif';
-
-    return { base64: fileBuffer.toString('base64'), mimeType };
-  } catch (error) {
-    console.warn(`[Variant Generation] Failed to load base image (${imageReference}):`, error instanceof Error ? error.message : error);
-    return null;
-  }
+/**
+ * Counts and the user's reactions as returned with each variant
+ */
+function variantReactions(variant: {
+  likes: { id: string }[];
+  favorites: { id: string }[];
+  _count: { likes: number; favorites: number };
+}): Pick<CharacterVariant, 'likeCount' | 'favoriteCount' | 'isLiked' | 'isFavorite'> {
+  return {
+    likeCount: variant._count.likes,
+    favoriteCount: variant._count.favorites,
+    isLiked: variant.likes.length > 0,
+    isFavorite: variant.favorites.length > 0
+  };
 }
 
 /**
@@ -131,7 +99,8 @@ router.get('/character/:characterId', requireAuth, async (req: Request, res: Res
       where: { characterId },
       include: {
         variants: {
-          orderBy: { createdAt: 'desc' }
+          orderBy: { createdAt: 'desc' },
+          include: variantReactionInclude(req.user!.id)
         }
       },
       orderBy: { createdAt: 'desc' }
@@ -151,6 +120,8 @@ router.get('/character/:characterId', requireAuth, async (req: Request, res: Res
         prompt: v.prompt,
         imageUrl: v.imageUrl || '',
         thumbnailUrl: v.thumbnailUrl || undefined,
+        isAnchor: v.isAnchor,
+        ...variantReactions(v),
         metadata: (v.metadata as any) || undefined,
         createdAt: v.createdAt
       }))
@@ -273,7 +244,8 @@ router.get('/:themeId', requireAuth, async (req: Request, res: Response): Promis
           select: { userId: true }
         },
         variants: {
-          orderBy: { createdAt: 'desc' }
+          orderBy: { createdAt: 'desc' },
+          include: variantReactionInclude(req.user!.id)
         }
       }
     });
@@ -312,6 +284,8 @@ router.get('/:themeId', requireAuth, async (req: Request, res: Response): Promis
         prompt: v.prompt,
         imageUrl: v.imageUrl || '',
         thumbnailUrl: v.thumbnailUrl || undefined,
+        isAnchor: v.isAnchor,
+        ...variantReactions(v),
         metadata: (v.metadata as any) || undefined,
         createdAt: v.createdAt
       }))
@@ -454,29 +428,14 @@ router.delete('/:themeId', requireAuth, async (req: Request, res: Response): Pro
       where: { themeId: themeId! }
     });
 
-    // Delete variant image files
-    for (const variant of variants) {
-      if (variant.imageUrl) {
-        const filename = variant.imageUrl.split('/').pop();
-        if (filename) {
-          const imagePath = path.join(process.cwd(), 'uploads', 'variants', filename);
-          try { fs.unlinkSync(imagePath); } catch {}
-        }
-      }
-      if (variant.thumbnailUrl) {
-        const filename = variant.thumbnailUrl.split('/').pop();
-        if (filename) {
-          const thumbPath = path.join(process.cwd(), 'uploads', 'variants', filename);
-          try { fs.unlinkSync(thumbPath); } catch {}
-        }
-      }
-    }
-
     // Delete theme (cascades to variants)
     await prisma.characterTheme.delete({
       where: { id: themeId }
     });
 
+    // Delete variant image files nothing else references
+    await getStorageService().releaseImages(variants.map(imageRecordUrls));
+
     return res.json({
       success: true,
       data: {
@@ -566,6 +525,7 @@ router.post('/:themeId/variants', requireAuth, async (req: Request, res: Respons
       prompt: dbVariant.prompt,
       imageUrl: dbVariant.imageUrl || '',
       thumbnailUrl: dbVariant.thumbnailUrl || undefined,
+      isAnchor: dbVariant.isAnchor,
       metadata: (dbVariant.metadata as any) || undefined,
       createdAt: dbVariant.createdAt
     };
@@ -629,7 +589,8 @@ router.get('/:themeId/variants', requireAuth, async (req: Request, res: Response
 
     const dbVariants = await prisma.themeVariant.findMany({
       where: { themeId: themeId! },
-      orderBy: { createdAt: 'desc' }
+      orderBy: { createdAt: 'desc' },
+      include: variantReactionInclude(req.user!.id)
     });
 
     const variants: CharacterVariant[] = dbVariants.map(v => ({
@@ -638,6 +599,8 @@ router.get('/:themeId/variants', requireAuth, async (req: Request, res: Response
       prompt: v.prompt,
       imageUrl: v.imageUrl || '',
       thumbnailUrl: v.thumbnailUrl || undefined,
+      isAnchor: v.isAnchor,
+      ...variantReactions(v),
       metadata: (v.metadata as any) || undefined,
       createdAt: v.createdAt
     }));
@@ -705,27 +668,14 @@ router.delete('/variants/:variantId', requireAuth, async (req: Request, res: Res
       });
     }
 
-    // Delete variant image files
-    if (variant.imageUrl) {
-      const filename = variant.imageUrl.split('/').pop();
-      if (filename) {
-        const imagePath = path.join(process.cwd(), 'uploads', 'variants', filename);
-        try { fs.unlinkSync(imagePath); } catch {}
-      }
-    }
-    if (variant.thumbnailUrl) {
-      const filename = variant.thumbnailUrl.split('/').pop();
-      if (filename) {
-        const thumbPath = path.join(process.cwd(), 'uploads', 'variants', filename);
-        try { fs.unlinkSync(thumbPath); } catch {}
-      }
-    }
-
     // Delete variant from database
     await prisma.themeVariant.delete({
       where: { id: variantId }
     });
 
+    // Delete variant image files nothing else references
+    await getStorageService().releaseImages([imageRecordUrls(variant)]);
+
     return res.json({
       success: true,
       data: {
@@ -744,16 +694,198 @@ router.delete('/variants/:variantId', requireAuth, async (req: Request, res: Res
   }
 });
 
+/**
+ * PUT /api/v1/themes/variants/:variantId/anchor
+ * 固定为身份锚点 - pin a generated variant as an identity reference for the character's new variants
+ */
+router.put('/variants/:variantId/anchor', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const { variantId } = req.params;
+
+    const variant = await prisma.themeVariant.findUnique({
+      where: { id: variantId! },
+      include: {
+        theme: {
+          include: {
+            character: {
+              select: { userId: true }
+            }
+          }
+        }
+      }
+    });
+
+    if (!variant) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Variant not found'
+        }
+      });
+    }
+
+    if (variant.theme.character.userId !== req.user!.id) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to modify this variant'
+        }
+      });
+    }
+
+    if (!variant.imageUrl) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Only variants with an image can be pinned as anchors'
+        }
+      });
+    }
+
+    if (!variant.isAnchor) {
+      const anchorCount = await prisma.themeVariant.count({
+        where: { characterId: variant.characterId, isAnchor: true }
+      });
+
+      if (anchorCount >= MAX_IDENTITY_ANCHORS) {
+        return res.status(409).json({
+          success: false,
+          error: {
+            code: 'TOO_MANY_ANCHORS',
+            message: `A character can have at most ${MAX_IDENTITY_ANCHORS} pinned anchors; unpin one first`
+          }
+        });
+      }
+    }
+
+    const dbVariant = await prisma.themeVariant.update({
+      where: { id: variant.id },
+      data: { isAnchor: true }
+    });
+
+    const result: CharacterVariant = {
+      id: dbVariant.id,
+      themeId: dbVariant.themeId,
+      prompt: dbVariant.prompt,
+      imageUrl: dbVariant.imageUrl || '',
+      thumbnailUrl: dbVariant.thumbnailUrl || undefined,
+      isAnchor: dbVariant.isAnchor,
+      metadata: (dbVariant.metadata as any) || undefined,
+      createdAt: dbVariant.createdAt
+    };
+
+    return res.json({
+      success: true,
+      data: result,
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error: any) {
+    console.error('Error pinning variant anchor:', error);
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: error.message || 'Failed to pin variant'
+      }
+    });
+  }
+});
+
+/**
+ * DELETE /api/v1/themes/variants/:variantId/anchor
+ * 取消身份锚点 - unpin an anchor variant; the variant itself is kept
+ */
+router.delete('/variants/:variantId/anchor', requireAuth, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const { variantId } = req.params;
+
+    const variant = await prisma.themeVariant.findUnique({
+      where: { id: variantId! },
+      include: {
+        theme: {
+          include: {
+            character: {
+              select: { userId: true }
+            }
+          }
+        }
+      }
+    });
+
+    if (!variant) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Variant not found'
+        }
+      });
+    }
+
+    if (variant.theme.character.userId !== req.user!.id) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to modify this variant'
+        }
+      });
+    }
+
+    const dbVariant = await prisma.themeVariant.update({
+      where: { id: variant.id },
+      data: { isAnchor: false }
+    });
+
+    const result: CharacterVariant = {
+      id: dbVariant.id,
+      themeId: dbVariant.themeId,
+      prompt: dbVariant.prompt,
+      imageUrl: dbVariant.imageUrl || '',
+      thumbnailUrl: dbVariant.thumbnailUrl || undefined,
+      isAnchor: dbVariant.isAnchor,
+      metadata: (dbVariant.metadata as any) || undefined,
+      createdAt: dbVariant.createdAt
+    };
+
+    return res.json({
+      success: true,
+      data: result,
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error: any) {
+    console.error('Error unpinning variant anchor:', error);
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: error.message || 'Failed to unpin variant'
+      }
+    });
+  }
+});
+
 /**
  * POST /api/v1/themes/:themeId/variants/generate
- * 生成变体图像
+ * 生成变体图像 - enqueues a generation job and returns 202 with the job id
+ * The variant is anchored on the character's image, its pinned anchor variants and its character sheet;
+ * metadata.inputImage optionally names a different image to edit. The anchors used are recorded in metadata.anchors.
+ * style optionally names a style preset (see /api/v1/styles) whose prompt fragments shape the variant.
  */
-router.post('/:themeId/variants/generate', requireAuth, checkCredits('/themes/variants/generate'), async (req: Request, res: Response): Promise<any> => {
+router.post('/:themeId/variants/generate', requireAuth, moderatePrompt('/themes/variants/generate', bodyFields('prompt')), checkCredits('/themes/variants/generate', { quota: true }), async (req: Request, res: Response): Promise<any> => {
   try {
     const { themeId } = req.params;
-    const { prompt, metadata }: {
+    const { prompt, metadata, style }: {
       prompt: string;
       metadata?: any;
+      style?: string;
     } = req.body;
 
     if (!prompt) {
@@ -796,134 +928,54 @@ router.post('/:themeId/variants/generate', requireAuth, checkCredits('/themes/va
       });
     }
 
-    console.log(`[Variant Generation] Generating variant for theme ${themeId}`);
-    console.log(`[Variant Generation] Prompt: ${prompt}`);
-    console.log('[Variant Generation] Incoming metadata:', metadata);
-
-    // Variant generation should start from the user's selected character image
-    const characterImageUrl = ((theme.character ?? {}) as { imageUrl?: string }).imageUrl;
-    const baseImageSource = metadata?.inputImage ?? characterImageUrl ?? undefined;
-
-    let result;
-    let generationMode: 'image-to-image' | 'text-to-image';
-    const baseImage = await loadImageAsBase64(baseImageSource);
-
-    const logGeminiSummary = (label: string, response: any) => {
-      const summary = {
-        success: response?.success ?? null,
-        error: response?.error ?? null,
-        dataKeys: response?.data ? Object.keys(response.data) : [],
-        resultKeys: response?.data?.result ? Object.keys(response.data.result) : []
-      };
-      console.log(`[Variant Generation] ${label} summary:`, summary);
-    };
-
-    if (baseImage) {
-      console.log(`[Variant Generation] Using base image for variant (${baseImageSource?.substring(0, 80) || 'inline'})`);
-      const imageResult = await geminiClient.generateWithImage(
-        prompt,
-        baseImage.base64,
-        baseImage.mimeType
-      );
-
-      logGeminiSummary('Image-to-image response', imageResult);
-
-      if (!imageResult.success) {
-        throw new Error(imageResult.error || 'Gemini image-to-image request failed');
-      }
-
-      if (!(imageResult.data?.imageUrl || imageResult.data?.result?.imageUrl)) {
-        throw new Error('Gemini image-to-image returned no image data');
-      }
-
-      result = imageResult;
-      generationMode = 'image-to-image';
-    } else {
-      const textResult = await geminiClient.generateImage(prompt);
-      logGeminiSummary('Text-to-image response', textResult);
-
-      if (!textResult.success) {
-        throw new Error(textResult.error || 'Gemini text-to-image request failed');
-      }
-
-      result = textResult;
-      generationMode = 'text-to-image';
-    }
-
-    console.log('[Variant Generation] Raw result keys:', Object.keys(result || {}));
-    if (result?.data?.result) {
-      console.log('[Variant Generation] Result payload keys:', Object.keys(result.data.result));
-    }
-
-    // Generate variant ID
-    const variantId = `variant_${Date.now()}_${randomUUID().slice(0, 8)}`;
-
-    // Save images as files
-    let imageUrl = '';
-    let thumbnailUrl = '';
-
-    const generatedImage = result?.data?.imageUrl ?? result?.data?.result?.imageUrl;
-    const generatedThumbnail = result?.data?.thumbnailUrl ?? result?.data?.result?.thumbnailUrl ?? generatedImage;
+    const stylePreset = await stylePresetService.resolveStyle(style);
 
-    console.log('[Variant Generation] generatedImage length:', generatedImage?.length || 0);
-    console.log('[Variant Generation] generatedThumbnail length:', generatedThumbnail?.length || 0);
-
-    if (generatedImage) {
-      const imageFilename = `${variantId}.png`;
-      const imagePath = path.join(process.cwd(), 'uploads', 'variants', imageFilename);
-      saveBase64AsFile(generatedImage, imagePath);
-      imageUrl = `/uploads/variants/${imageFilename}`;
-    } else {
-      throw new Error('Gemini generation did not return image data');
-    }
-
-    if (generatedThumbnail) {
-      const thumbnailFilename = `${variantId}_thumb.png`;
-      const thumbnailPath = path.join(process.cwd(), 'uploads', 'variants', thumbnailFilename);
-      saveBase64AsFile(generatedThumbnail, thumbnailPath);
-      thumbnailUrl = `/uploads/variants/${thumbnailFilename}`;
-    }
-
-    // Create variant in database
-    const dbVariant = await prisma.themeVariant.create({
-      data: {
-        id: variantId,
-        themeId: themeId!,
-        characterId: theme.characterId,
-        prompt,
-        imageUrl: imageUrl || null,
-        thumbnailUrl: thumbnailUrl || null,
-        metadata: {
-          ...(metadata || {}),
-          generationMode
-        }
-      }
+    const job = await jobQueue.enqueue({
+      userId: req.user!.id,
+      kind: JOB_KINDS.THEME_VARIANT,
+      payload: { themeId, prompt, metadata, stylePreset },
+      creditCost: req.creditCost,
+      apiEndpoint: '/themes/variants/generate',
+      reservationId: req.creditReservation?.id
     });
 
-    const variant: CharacterVariant = {
-      id: dbVariant.id,
-      themeId: dbVariant.themeId,
-      prompt: dbVariant.prompt,
-      imageUrl: dbVariant.imageUrl || '',
-      thumbnailUrl: dbVariant.thumbnailUrl || undefined,
-      metadata: {
-        ...(dbVariant.metadata as any),
-        generationMode
-      },
-      createdAt: dbVariant.createdAt
-    };
-
-    console.log(`[Variant Generation] Variant ${variant.id} generated successfully`);
+    // The job now owns the held credits: committed on success, released on failure
+    transferCreditReservation(req);
 
-    res.status(201).json({
+    res.status(202).json({
       success: true,
-      data: variant,
+      data: {
+        jobId: job.id,
+        status: 'queued',
+        statusUrl: `/api/v1/jobs/${job.id}`
+      },
       meta: {
         timestamp: new Date().toISOString()
       }
     });
   } catch (error: any) {
-    console.error('Error generating variant:', error);
+    if (error instanceof StylePresetError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        }
+      });
+    }
+
+    if (error instanceof QueueFullError) {
+      return res.status(503).json({
+        success: false,
+        error: {
+          code: 'QUEUE_FULL',
+          message: error.message
+        }
+      });
+    }
+
+    console.error('Error queueing variant generation:', error);
     res.status(500).json({
       success: false,
       error: {
@@ -934,4 +986,128 @@ router.post('/:themeId/variants/generate', requireAuth, checkCredits('/themes/va
   }
 });
 
+/**
+ * POST /api/v1/themes/:themeId/variants/batch
+ * 批量生成变体 - body: { prompts: string[] | "summer outfit, winter outfit", metadata?, style? }
+ * Queues one job that generates every prompt with bounded concurrency; credits are held per prompt
+ * and only successful prompts are charged. Per-item results are in the job result.
+ */
+router.post(
+  '/:themeId/variants/batch',
+  requireAuth,
+  (_req: Request, res: Response, next): any => {
+    if (!ENV_CONFIG.ENABLE_BATCH_PROCESSING) {
+      return res.status(503).json({
+        success: false,
+        error: {
+          code: 'BATCH_DISABLED',
+          message: 'Batch generation is disabled'
+        }
+      });
+    }
+    return next();
+  },
+  validateVariantBatch,
+  moderatePrompt('/themes/variants/batch', (req) => (req as ValidatedRequest<VariantBatchData>).validatedData!.prompts),
+  checkCredits('/themes/variants/generate', {
+    quota: true,
+    units: (req) => (req as ValidatedRequest<VariantBatchData>).validatedData!.prompts.length
+  }),
+  async (req: ValidatedRequest<VariantBatchData>, res: Response): Promise<any> => {
+    try {
+      const { themeId } = req.params;
+      const { prompts, metadata, style } = req.validatedData!;
+
+      // Get theme and verify ownership via character
+      const theme = await prisma.characterTheme.findUnique({
+        where: { id: themeId! },
+        include: {
+          character: {
+            select: { userId: true }
+          }
+        }
+      });
+
+      if (!theme) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Theme not found'
+          }
+        });
+      }
+
+      if (theme.character.userId !== req.user!.id) {
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to generate variants for this theme'
+          }
+        });
+      }
+
+      const stylePreset = await stylePresetService.resolveStyle(style);
+
+      const job = await jobQueue.enqueue({
+        userId: req.user!.id,
+        kind: JOB_KINDS.THEME_VARIANT_BATCH,
+        type: 'batch',
+        payload: { themeId, prompts, metadata, stylePreset, unitCost: req.creditReservation?.unitCost ?? 0 },
+        creditCost: req.creditCost,
+        apiEndpoint: '/themes/variants/generate',
+        reservationId: req.creditReservation?.id
+      });
+
+      // The job now owns the held credits: failed items are refunded when it completes
+      transferCreditReservation(req);
+
+      res.status(202).json({
+        success: true,
+        data: {
+          jobId: job.id,
+          status: 'queued',
+          totalRequests: prompts.length,
+          creditsHeld: req.creditCost ?? 0,
+          statusUrl: `/api/v1/jobs/${job.id}`
+        },
+        meta: {
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error: any) {
+      if (error instanceof StylePresetError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details
+          }
+        });
+      }
+
+      if (error instanceof QueueFullError) {
+        return res.status(503).json({
+          success: false,
+          error: {
+            code: 'QUEUE_FULL',
+            message: error.message
+          }
+        });
+      }
+
+      console.error('Error queueing batch variant generation:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error.message || 'Failed to generate variants'
+        }
+      });
+    }
+  }
+);
+
 export default router;
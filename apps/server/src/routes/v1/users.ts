@@ -32,6 +32,7 @@ router.get('/', async (req: express.Request, res: express.Response) => {
         id: '1',
         auth0Id: 'auth0|mock1',
         email: 'test@example.com',
+        emailVerified: true,
         name: 'Test User'
       }
     ];
@@ -110,6 +111,7 @@ router.get('/:id', async (req: express.Request, res: express.Response) => {
       id,
       auth0Id: `auth0|${id}`,
       email: `user${id}@example.com`,
+      emailVerified: true,
       name: `User ${id}`
     };
 
@@ -158,6 +160,7 @@ router.post('/', async (req: express.Request, res: express.Response) => {
       id: Date.now().toString(),
       auth0Id: userData.auth0Id || `auth0|${Date.now()}`,
       email: userData.email || 'new@example.com',
+      emailVerified: false,
       name: userData.name || null
     };
 
@@ -1,11 +1,24 @@
 import { STYLE_TYPES, StyleType, GENERATION_STATUSES, GenerationStatus } from '../../../../shared/types/enums';
+import { CharacterAttributes, PhysicalTraits } from '../types/character';
+import { CreateFromTemplateData } from '../types/templates';
+import { ASPECT_RATIO_PRESETS, AspectRatioPreset, IMAGE_QUALITIES, ImageQuality } from '../types/imageFormats';
 
 export interface CharacterValidationResult {
   isValid: boolean;
   errors: string[];
 }
 
-export interface CreateCharacterInput {
+// Character sheet fields, in the order they are described to the model
+export const CHARACTER_ATTRIBUTE_FIELDS = [
+  'age', 'gender', 'occupation', 'personality', 'physicalTraits', 'clothing', 'background'
+] as const;
+
+const SHORT_ATTRIBUTE_FIELDS = ['age', 'gender', 'occupation'] as const;
+const LONG_ATTRIBUTE_FIELDS = ['clothing', 'background'] as const;
+const PHYSICAL_TEXT_FIELDS = ['height', 'build', 'hairColor', 'hairStyle', 'eyeColor', 'skinTone'] as const;
+const PHYSICAL_LIST_FIELDS = ['facialFeatures', 'distinguishingMarks'] as const;
+
+export interface CreateCharacterInput extends CharacterAttributes {
   userId: string;
   name?: string;
   prompt: string;
@@ -16,7 +29,7 @@ export interface CreateCharacterInput {
   imageUrl?: string;
 }
 
-export interface UpdateCharacterInput {
+export interface UpdateCharacterInput extends CharacterAttributes {
   name?: string;
   prompt?: string;
   styleType?: StyleType;
@@ -35,6 +48,9 @@ export class CharacterSchema {
   static readonly MAX_TAGS = 20;
   static readonly MAX_TAG_LENGTH = 50;
   static readonly MAX_URL_LENGTH = 2048;
+  static readonly MAX_ATTRIBUTE_LENGTH = 100;
+  static readonly MAX_LONG_ATTRIBUTE_LENGTH = 1000;
+  static readonly MAX_LIST_ITEMS = 10;
   
   /**
    * Validates character name
@@ -186,6 +202,26 @@ export class CharacterSchema {
     };
   }
   
+  /**
+   * Validates the aspect ratio preset and quality tier of an image generation
+   */
+  static validateImageFormat(input: { aspectRatio?: AspectRatioPreset; quality?: ImageQuality }): CharacterValidationResult {
+    const errors: string[] = [];
+    
+    if (input.aspectRatio !== undefined && !ASPECT_RATIO_PRESETS.includes(input.aspectRatio)) {
+      errors.push(`aspectRatio must be one of: ${ASPECT_RATIO_PRESETS.join(', ')}`);
+    }
+    
+    if (input.quality !== undefined && !IMAGE_QUALITIES.includes(input.quality)) {
+      errors.push(`quality must be one of: ${IMAGE_QUALITIES.join(', ')}`);
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+  
   /**
    * Validates character tags array
    */
@@ -327,6 +363,93 @@ export class CharacterSchema {
     };
   }
   
+  /**
+   * Validates a list of short strings (personality traits, facial features, marks)
+   */
+  static validateStringList(list: unknown, fieldName: string): CharacterValidationResult {
+    const errors: string[] = [];
+
+    if (list !== undefined && list !== null) {
+      if (!Array.isArray(list)) {
+        errors.push(`${fieldName} must be an array`);
+        return { isValid: false, errors };
+      }
+
+      if (list.length > this.MAX_LIST_ITEMS) {
+        errors.push(`${fieldName} can have at most ${this.MAX_LIST_ITEMS} entries`);
+      }
+
+      list.forEach((item, index) => {
+        if (typeof item !== 'string' || item.trim().length === 0) {
+          errors.push(`${fieldName} entry at index ${index} must be a non-empty string`);
+        } else if (item.trim().length > this.MAX_ATTRIBUTE_LENGTH) {
+          errors.push(`${fieldName} entry at index ${index} must be ${this.MAX_ATTRIBUTE_LENGTH} characters or less`);
+        }
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validates physical traits: short descriptions plus lists of facial features and distinguishing marks
+   */
+  static validatePhysicalTraits(traits: unknown): CharacterValidationResult {
+    const errors: string[] = [];
+
+    if (traits === undefined || traits === null) {
+      return { isValid: true, errors };
+    }
+
+    if (typeof traits !== 'object' || Array.isArray(traits)) {
+      errors.push('physicalTraits must be an object');
+      return { isValid: false, errors };
+    }
+
+    const record = traits as Record<string, unknown>;
+    const knownFields: readonly string[] = [...PHYSICAL_TEXT_FIELDS, ...PHYSICAL_LIST_FIELDS];
+    const unknownFields = Object.keys(record).filter(field => !knownFields.includes(field));
+    if (unknownFields.length > 0) {
+      errors.push(`Unknown physicalTraits fields: ${unknownFields.join(', ')}`);
+    }
+
+    for (const field of PHYSICAL_TEXT_FIELDS) {
+      errors.push(...this.validateAttributeText(record[field], `physicalTraits.${field}`, this.MAX_ATTRIBUTE_LENGTH).errors);
+    }
+    for (const field of PHYSICAL_LIST_FIELDS) {
+      errors.push(...this.validateStringList(record[field], `physicalTraits.${field}`).errors);
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validates the character sheet fields that are present; null clears a field
+   */
+  static validateAttributes(input: CharacterAttributes): CharacterValidationResult {
+    const errors: string[] = [];
+
+    for (const field of SHORT_ATTRIBUTE_FIELDS) {
+      errors.push(...this.validateAttributeText(input[field], field, this.MAX_ATTRIBUTE_LENGTH).errors);
+    }
+    for (const field of LONG_ATTRIBUTE_FIELDS) {
+      errors.push(...this.validateAttributeText(input[field], field, this.MAX_LONG_ATTRIBUTE_LENGTH).errors);
+    }
+    errors.push(...this.validateStringList(input.personality, 'personality').errors);
+    errors.push(...this.validatePhysicalTraits(input.physicalTraits).errors);
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
   /**
    * Validates complete character creation input
    */
@@ -359,6 +482,9 @@ export class CharacterSchema {
     const metadataValidation = this.validateMetadata(input.metadata);
     allErrors.push(...metadataValidation.errors);
     
+    const attributesValidation = this.validateAttributes(input);
+    allErrors.push(...attributesValidation.errors);
+    
     return {
       isValid: allErrors.length === 0,
       errors: allErrors
@@ -401,6 +527,9 @@ export class CharacterSchema {
     const metadataValidation = this.validateMetadata(input.metadata);
     allErrors.push(...metadataValidation.errors);
     
+    const attributesValidation = this.validateAttributes(input);
+    allErrors.push(...attributesValidation.errors);
+    
     // At least one field must be provided for update
     const hasFields = Object.keys(input).length > 0;
     if (!hasFields) {
@@ -413,6 +542,38 @@ export class CharacterSchema {
     };
   }
   
+  /**
+   * Validates the overrides sent when creating a character from a template; all fields are optional
+   */
+  static validateFromTemplateInput(input: CreateFromTemplateData): CharacterValidationResult {
+    const allErrors: string[] = [];
+    
+    const nameValidation = this.validateName(input.name);
+    allErrors.push(...nameValidation.errors);
+    
+    const descriptionValidation = this.validateAttributeText(input.description, 'Description', this.MAX_LONG_ATTRIBUTE_LENGTH);
+    allErrors.push(...descriptionValidation.errors);
+    
+    if (input.prompt !== undefined) {
+      const promptValidation = this.validatePrompt(input.prompt);
+      allErrors.push(...promptValidation.errors);
+    }
+    
+    const tagsValidation = this.validateTags(input.tags);
+    allErrors.push(...tagsValidation.errors);
+    
+    const generateImageValidation = this.validateBoolean(input.generateImage, 'generateImage');
+    allErrors.push(...generateImageValidation.errors);
+    
+    const imageFormatValidation = this.validateImageFormat(input);
+    allErrors.push(...imageFormatValidation.errors);
+    
+    return {
+      isValid: allErrors.length === 0,
+      errors: allErrors
+    };
+  }
+  
   /**
    * Sanitizes character creation input
    */
@@ -425,7 +586,8 @@ export class CharacterSchema {
       tags: input.tags?.map(tag => tag.trim()).filter(tag => tag.length > 0),
       isPublic: input.isPublic,
       metadata: input.metadata,
-      imageUrl: input.imageUrl?.trim()
+      imageUrl: input.imageUrl?.trim(),
+      ...this.sanitizeAttributes(input)
     };
   }
   
@@ -463,6 +625,85 @@ export class CharacterSchema {
       sanitized.metadata = input.metadata;
     }
     
+    return { ...sanitized, ...this.sanitizeAttributes(input) };
+  }
+  
+  /**
+   * Sanitizes the character sheet fields that are present: trims text, drops empty and
+   * duplicate list entries; empty strings and null clear a field
+   */
+  static sanitizeAttributes(input: CharacterAttributes): CharacterAttributes {
+    const sanitized: CharacterAttributes = {};
+    
+    for (const field of [...SHORT_ATTRIBUTE_FIELDS, ...LONG_ATTRIBUTE_FIELDS]) {
+      if (input[field] !== undefined) {
+        sanitized[field] = input[field]?.trim() || null;
+      }
+    }
+    if (input.personality !== undefined) {
+      sanitized.personality = this.sanitizeStringList(input.personality);
+    }
+    if (input.physicalTraits !== undefined) {
+      sanitized.physicalTraits = this.sanitizePhysicalTraits(input.physicalTraits);
+    }
+    
     return sanitized;
   }
+  
+  private static sanitizePhysicalTraits(traits: PhysicalTraits | null): PhysicalTraits | null {
+    if (!traits) {
+      return null;
+    }
+    
+    const sanitized: PhysicalTraits = {};
+    for (const field of PHYSICAL_TEXT_FIELDS) {
+      const value = traits[field]?.trim();
+      if (value) {
+        sanitized[field] = value;
+      }
+    }
+    for (const field of PHYSICAL_LIST_FIELDS) {
+      const list = this.sanitizeStringList(traits[field]);
+      if (list.length > 0) {
+        sanitized[field] = list;
+      }
+    }
+    
+    return Object.keys(sanitized).length > 0 ? sanitized : null;
+  }
+  
+  private static sanitizeStringList(list: string[] | null | undefined): string[] {
+    if (!list) {
+      return [];
+    }
+    
+    const seen = new Set<string>();
+    return list
+      .map(item => item.trim())
+      .filter(item => {
+        const key = item.toLowerCase();
+        if (item.length === 0 || seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+  }
+  
+  private static validateAttributeText(value: unknown, fieldName: string, maxLength: number): CharacterValidationResult {
+    const errors: string[] = [];
+    
+    if (value !== undefined && value !== null) {
+      if (typeof value !== 'string') {
+        errors.push(`${fieldName} must be a string`);
+      } else if (value.trim().length > maxLength) {
+        errors.push(`${fieldName} must be ${maxLength} characters or less`);
+      }
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
 }
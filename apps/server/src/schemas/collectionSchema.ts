@@ -0,0 +1,205 @@
+import { CreateCollectionData, UpdateCollectionData } from '../types/collections';
+
+export interface CollectionValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+export class CollectionSchema {
+  // Constants for validation limits
+  static readonly MAX_NAME_LENGTH = 100;
+  static readonly MAX_DESCRIPTION_LENGTH = 1000;
+  static readonly MAX_CHARACTERS_PER_REQUEST = 100;
+
+  /**
+   * Validates collection name
+   */
+  static validateName(name: string | undefined, required: boolean): CollectionValidationResult {
+    const errors: string[] = [];
+
+    if (name === undefined) {
+      if (required) {
+        errors.push('Collection name is required');
+      }
+    } else if (typeof name !== 'string') {
+      errors.push('Collection name must be a string');
+    } else {
+      const trimmedName = name.trim();
+
+      if (trimmedName.length === 0) {
+        errors.push('Collection name cannot be empty');
+      }
+
+      if (trimmedName.length > this.MAX_NAME_LENGTH) {
+        errors.push(`Collection name must be ${this.MAX_NAME_LENGTH} characters or less`);
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validates optional collection description
+   */
+  static validateDescription(description: string | null | undefined): CollectionValidationResult {
+    const errors: string[] = [];
+
+    if (description !== undefined && description !== null) {
+      if (typeof description !== 'string') {
+        errors.push('Description must be a string');
+      } else if (description.trim().length > this.MAX_DESCRIPTION_LENGTH) {
+        errors.push(`Description must be ${this.MAX_DESCRIPTION_LENGTH} characters or less`);
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validates the cover character reference (null clears the cover)
+   */
+  static validateCoverCharacterId(coverCharacterId: string | null | undefined): CollectionValidationResult {
+    const errors: string[] = [];
+
+    if (coverCharacterId !== undefined && coverCharacterId !== null) {
+      if (typeof coverCharacterId !== 'string' || coverCharacterId.trim().length === 0) {
+        errors.push('coverCharacterId must be a non-empty string or null');
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validates a list of character IDs (add and reorder requests)
+   */
+  static validateCharacterIds(characterIds: unknown): CollectionValidationResult {
+    const errors: string[] = [];
+
+    if (!Array.isArray(characterIds) || characterIds.length === 0) {
+      errors.push('characterIds must be a non-empty array');
+      return { isValid: false, errors };
+    }
+
+    if (characterIds.length > this.MAX_CHARACTERS_PER_REQUEST) {
+      errors.push(`Maximum ${this.MAX_CHARACTERS_PER_REQUEST} characters per request`);
+    }
+
+    characterIds.forEach((id, index) => {
+      if (typeof id !== 'string' || id.trim().length === 0) {
+        errors.push(`Character ID at index ${index} must be a non-empty string`);
+      }
+    });
+
+    if (new Set(characterIds).size !== characterIds.length) {
+      errors.push('Duplicate character IDs are not allowed');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validates collection creation input
+   */
+  static validateCreateInput(input: CreateCollectionData): CollectionValidationResult {
+    const allErrors: string[] = [];
+
+    if (!input || typeof input !== 'object') {
+      return { isValid: false, errors: ['Request body must be an object'] };
+    }
+
+    allErrors.push(...this.validateName(input.name, true).errors);
+    allErrors.push(...this.validateDescription(input.description).errors);
+    allErrors.push(...this.validateCoverCharacterId(input.coverCharacterId).errors);
+
+    if (input.isPublic !== undefined && typeof input.isPublic !== 'boolean') {
+      allErrors.push('isPublic must be a boolean value');
+    }
+
+    if (input.characterIds !== undefined) {
+      allErrors.push(...this.validateCharacterIds(input.characterIds).errors);
+    }
+
+    return {
+      isValid: allErrors.length === 0,
+      errors: allErrors
+    };
+  }
+
+  /**
+   * Validates collection update input
+   */
+  static validateUpdateInput(input: UpdateCollectionData): CollectionValidationResult {
+    const allErrors: string[] = [];
+
+    if (!input || typeof input !== 'object') {
+      return { isValid: false, errors: ['Request body must be an object'] };
+    }
+
+    allErrors.push(...this.validateName(input.name, false).errors);
+    allErrors.push(...this.validateDescription(input.description).errors);
+    allErrors.push(...this.validateCoverCharacterId(input.coverCharacterId).errors);
+
+    if (input.isPublic !== undefined && typeof input.isPublic !== 'boolean') {
+      allErrors.push('isPublic must be a boolean value');
+    }
+
+    // At least one field must be provided for update
+    const hasFields = ['name', 'description', 'isPublic', 'coverCharacterId'].some(field => field in input);
+    if (!hasFields) {
+      allErrors.push('At least one field must be provided for update');
+    }
+
+    return {
+      isValid: allErrors.length === 0,
+      errors: allErrors
+    };
+  }
+
+  /**
+   * Sanitizes collection creation input
+   */
+  static sanitizeCreateInput(input: CreateCollectionData): CreateCollectionData {
+    return {
+      name: input.name.trim(),
+      description: input.description?.trim() || undefined,
+      isPublic: input.isPublic,
+      coverCharacterId: input.coverCharacterId,
+      characterIds: input.characterIds
+    };
+  }
+
+  /**
+   * Sanitizes collection update input; an empty description or null cover clears the field
+   */
+  static sanitizeUpdateInput(input: UpdateCollectionData): UpdateCollectionData {
+    const sanitized: UpdateCollectionData = {};
+
+    if (input.name !== undefined) {
+      sanitized.name = input.name.trim();
+    }
+    if (input.description !== undefined) {
+      sanitized.description = input.description?.trim() || null;
+    }
+    if (input.isPublic !== undefined) {
+      sanitized.isPublic = input.isPublic;
+    }
+    if (input.coverCharacterId !== undefined) {
+      sanitized.coverCharacterId = input.coverCharacterId;
+    }
+
+    return sanitized;
+  }
+}
@@ -0,0 +1,296 @@
+import {
+  AddCharacterToSceneData,
+  CreateSceneData,
+  UpdateSceneCharacterData,
+  UpdateSceneData
+} from '../types/collections';
+
+export interface SceneValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+// Free-text scene attributes; null clears them on update
+const SCENE_TEXT_FIELDS = ['description', 'environment', 'setting', 'mood', 'lighting'] as const;
+const PLACEMENT_TEXT_FIELDS = ['pose', 'expression', 'action'] as const;
+
+export class SceneSchema {
+  // Constants for validation limits
+  static readonly MAX_NAME_LENGTH = 100;
+  static readonly MAX_DESCRIPTION_LENGTH = 1000;
+  static readonly MAX_ATTRIBUTE_LENGTH = 200;
+  static readonly MAX_SCALE = 4;
+
+  /**
+   * Validates scene name
+   */
+  static validateName(name: string | undefined, required: boolean): SceneValidationResult {
+    const errors: string[] = [];
+
+    if (name === undefined) {
+      if (required) {
+        errors.push('Scene name is required');
+      }
+    } else if (typeof name !== 'string') {
+      errors.push('Scene name must be a string');
+    } else {
+      const trimmedName = name.trim();
+
+      if (trimmedName.length === 0) {
+        errors.push('Scene name cannot be empty');
+      }
+
+      if (trimmedName.length > this.MAX_NAME_LENGTH) {
+        errors.push(`Scene name must be ${this.MAX_NAME_LENGTH} characters or less`);
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validates an optional free-text field
+   */
+  static validateText(value: unknown, fieldName: string, maxLength: number): SceneValidationResult {
+    const errors: string[] = [];
+
+    if (value !== undefined && value !== null) {
+      if (typeof value !== 'string') {
+        errors.push(`${fieldName} must be a string`);
+      } else if (value.trim().length > maxLength) {
+        errors.push(`${fieldName} must be ${maxLength} characters or less`);
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validates a character position: x and y normalized to 0-1 from the top-left corner,
+   * optional scale (relative size) and rotation in degrees
+   */
+  static validatePosition(position: unknown): SceneValidationResult {
+    const errors: string[] = [];
+
+    if (position === undefined || position === null) {
+      return { isValid: true, errors };
+    }
+
+    if (typeof position !== 'object' || Array.isArray(position)) {
+      errors.push('Position must be an object');
+      return { isValid: false, errors };
+    }
+
+    const { x, y, scale, rotation } = position as Record<string, unknown>;
+
+    for (const [name, value] of [['x', x], ['y', y]] as const) {
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1) {
+        errors.push(`Position ${name} must be a number between 0 and 1`);
+      }
+    }
+
+    if (scale !== undefined && (typeof scale !== 'number' || !Number.isFinite(scale) || scale <= 0 || scale > this.MAX_SCALE)) {
+      errors.push(`Position scale must be a number greater than 0 and at most ${this.MAX_SCALE}`);
+    }
+
+    if (rotation !== undefined && (typeof rotation !== 'number' || !Number.isFinite(rotation) || rotation < -180 || rotation > 180)) {
+      errors.push('Position rotation must be a number between -180 and 180');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validates scene creation input
+   */
+  static validateCreateInput(input: CreateSceneData): SceneValidationResult {
+    const allErrors: string[] = [];
+
+    if (!input || typeof input !== 'object') {
+      return { isValid: false, errors: ['Request body must be an object'] };
+    }
+
+    allErrors.push(...this.validateName(input.name, true).errors);
+    allErrors.push(...this.validateSceneAttributes(input).errors);
+
+    if (input.isPublic !== undefined && typeof input.isPublic !== 'boolean') {
+      allErrors.push('isPublic must be a boolean value');
+    }
+
+    return {
+      isValid: allErrors.length === 0,
+      errors: allErrors
+    };
+  }
+
+  /**
+   * Validates scene update input
+   */
+  static validateUpdateInput(input: UpdateSceneData): SceneValidationResult {
+    const allErrors: string[] = [];
+
+    if (!input || typeof input !== 'object') {
+      return { isValid: false, errors: ['Request body must be an object'] };
+    }
+
+    allErrors.push(...this.validateName(input.name, false).errors);
+    allErrors.push(...this.validateSceneAttributes(input).errors);
+
+    if (input.isPublic !== undefined && typeof input.isPublic !== 'boolean') {
+      allErrors.push('isPublic must be a boolean value');
+    }
+
+    // At least one field must be provided for update
+    const hasFields = ['name', 'isPublic', ...SCENE_TEXT_FIELDS].some(field => field in input);
+    if (!hasFields) {
+      allErrors.push('At least one field must be provided for update');
+    }
+
+    return {
+      isValid: allErrors.length === 0,
+      errors: allErrors
+    };
+  }
+
+  /**
+   * Validates placing a character in a scene
+   */
+  static validateAddCharacterInput(input: AddCharacterToSceneData): SceneValidationResult {
+    const allErrors: string[] = [];
+
+    if (!input || typeof input !== 'object') {
+      return { isValid: false, errors: ['Request body must be an object'] };
+    }
+
+    if (typeof input.characterId !== 'string' || input.characterId.trim().length === 0) {
+      allErrors.push('characterId is required');
+    }
+
+    allErrors.push(...this.validatePlacement(input).errors);
+
+    return {
+      isValid: allErrors.length === 0,
+      errors: allErrors
+    };
+  }
+
+  /**
+   * Validates changing pose, expression, action or position of a placed character
+   */
+  static validateUpdateCharacterInput(input: UpdateSceneCharacterData): SceneValidationResult {
+    const allErrors: string[] = [];
+
+    if (!input || typeof input !== 'object') {
+      return { isValid: false, errors: ['Request body must be an object'] };
+    }
+
+    allErrors.push(...this.validatePlacement(input).errors);
+
+    const hasFields = ['position', ...PLACEMENT_TEXT_FIELDS].some(field => field in input);
+    if (!hasFields) {
+      allErrors.push('At least one field must be provided for update');
+    }
+
+    return {
+      isValid: allErrors.length === 0,
+      errors: allErrors
+    };
+  }
+
+  /**
+   * Sanitizes scene creation input
+   */
+  static sanitizeCreateInput(input: CreateSceneData): CreateSceneData {
+    return {
+      name: input.name.trim(),
+      description: input.description?.trim() || undefined,
+      environment: input.environment?.trim() || undefined,
+      setting: input.setting?.trim() || undefined,
+      mood: input.mood?.trim() || undefined,
+      lighting: input.lighting?.trim() || undefined,
+      isPublic: input.isPublic
+    };
+  }
+
+  /**
+   * Sanitizes scene update input; empty strings and null clear a field
+   */
+  static sanitizeUpdateInput(input: UpdateSceneData): UpdateSceneData {
+    const sanitized: UpdateSceneData = {};
+
+    if (input.name !== undefined) {
+      sanitized.name = input.name.trim();
+    }
+    for (const field of SCENE_TEXT_FIELDS) {
+      if (input[field] !== undefined) {
+        sanitized[field] = input[field]?.trim() || null;
+      }
+    }
+    if (input.isPublic !== undefined) {
+      sanitized.isPublic = input.isPublic;
+    }
+
+    return sanitized;
+  }
+
+  /**
+   * Sanitizes character placement input; empty strings and null clear a field
+   */
+  static sanitizePlacementInput<T extends UpdateSceneCharacterData>(input: T): T {
+    const sanitized = { ...input };
+
+    for (const field of PLACEMENT_TEXT_FIELDS) {
+      if (input[field] !== undefined) {
+        sanitized[field] = input[field]?.trim() || null;
+      }
+    }
+    if (input.position) {
+      const { x, y, scale, rotation } = input.position;
+      sanitized.position = {
+        x,
+        y,
+        ...(scale !== undefined && { scale }),
+        ...(rotation !== undefined && { rotation })
+      };
+    }
+
+    return sanitized;
+  }
+
+  private static validateSceneAttributes(input: CreateSceneData | UpdateSceneData): SceneValidationResult {
+    const errors: string[] = [];
+
+    errors.push(...this.validateText(input.description, 'Description', this.MAX_DESCRIPTION_LENGTH).errors);
+    for (const field of ['environment', 'setting', 'mood', 'lighting'] as const) {
+      errors.push(...this.validateText(input[field], field, this.MAX_ATTRIBUTE_LENGTH).errors);
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  private static validatePlacement(input: UpdateSceneCharacterData): SceneValidationResult {
+    const errors: string[] = [];
+
+    for (const field of PLACEMENT_TEXT_FIELDS) {
+      errors.push(...this.validateText(input[field], field, this.MAX_ATTRIBUTE_LENGTH).errors);
+    }
+    errors.push(...this.validatePosition(input.position).errors);
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+}
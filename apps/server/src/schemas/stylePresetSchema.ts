@@ -0,0 +1,219 @@
+import { CreateStylePresetData, UpdateStylePresetData } from '../types/styles';
+
+export interface StylePresetValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+const TEXT_FIELDS = ['description', 'promptPrefix', 'promptSuffix', 'negativePrompt'] as const;
+
+export class StylePresetSchema {
+  // Constants for validation limits
+  static readonly KEY_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+  static readonly MAX_NAME_LENGTH = 60;
+  static readonly MAX_TEXT_LENGTH = 500;
+  static readonly MAX_EXAMPLE_IMAGES = 6;
+  static readonly MAX_URL_LENGTH = 2048;
+
+  /**
+   * Validates the style key: lowercase letters, digits and dashes
+   */
+  static validateKey(key: unknown): StylePresetValidationResult {
+    const errors: string[] = [];
+
+    if (typeof key !== 'string' || !this.KEY_PATTERN.test(key.trim().toLowerCase())) {
+      errors.push('key must be 1-40 lowercase letters, digits or dashes, starting with a letter or digit');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  static validateName(name: unknown, required: boolean): StylePresetValidationResult {
+    const errors: string[] = [];
+
+    if (name === undefined) {
+      if (required) {
+        errors.push('name is required');
+      }
+    } else if (typeof name !== 'string' || name.trim().length === 0) {
+      errors.push('name must be a non-empty string');
+    } else if (name.trim().length > this.MAX_NAME_LENGTH) {
+      errors.push(`name must be ${this.MAX_NAME_LENGTH} characters or less`);
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validates the optional description and prompt fragments
+   */
+  static validateTextFields(input: Record<string, unknown>): StylePresetValidationResult {
+    const errors: string[] = [];
+
+    for (const field of TEXT_FIELDS) {
+      const value = input[field];
+      if (value === undefined || value === null) continue;
+
+      if (typeof value !== 'string') {
+        errors.push(`${field} must be a string`);
+      } else if (value.trim().length > this.MAX_TEXT_LENGTH) {
+        errors.push(`${field} must be ${this.MAX_TEXT_LENGTH} characters or less`);
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validates the example image URLs (absolute http(s) URLs or paths on this server)
+   */
+  static validateExampleImages(images: unknown): StylePresetValidationResult {
+    const errors: string[] = [];
+
+    if (images === undefined) {
+      return { isValid: true, errors };
+    }
+
+    if (!Array.isArray(images)) {
+      errors.push('exampleImages must be an array of URLs');
+    } else {
+      if (images.length > this.MAX_EXAMPLE_IMAGES) {
+        errors.push(`At most ${this.MAX_EXAMPLE_IMAGES} example images are allowed`);
+      }
+      images.forEach((url, index) => {
+        const valid = typeof url === 'string' &&
+          url.length <= this.MAX_URL_LENGTH &&
+          (/^https?:\/\/\S+$/i.test(url) || /^\/\S+$/.test(url));
+        if (!valid) {
+          errors.push(`Example image at index ${index} must be an http(s) URL or an absolute path`);
+        }
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validates the remaining flags shared by create and update
+   */
+  static validateFlags(input: { isActive?: unknown; sortOrder?: unknown }): StylePresetValidationResult {
+    const errors: string[] = [];
+
+    if (input.isActive !== undefined && typeof input.isActive !== 'boolean') {
+      errors.push('isActive must be a boolean value');
+    }
+    if (input.sortOrder !== undefined && !Number.isInteger(input.sortOrder)) {
+      errors.push('sortOrder must be an integer');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validates style preset creation input
+   */
+  static validateCreateInput(input: CreateStylePresetData): StylePresetValidationResult {
+    if (!input || typeof input !== 'object') {
+      return { isValid: false, errors: ['Request body must be an object'] };
+    }
+
+    const errors = [
+      ...this.validateKey(input.key).errors,
+      ...this.validateName(input.name, true).errors,
+      ...this.validateTextFields(input as unknown as Record<string, unknown>).errors,
+      ...this.validateExampleImages(input.exampleImages).errors,
+      ...this.validateFlags(input).errors
+    ];
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validates style preset update input
+   */
+  static validateUpdateInput(input: UpdateStylePresetData): StylePresetValidationResult {
+    if (!input || typeof input !== 'object') {
+      return { isValid: false, errors: ['Request body must be an object'] };
+    }
+
+    const errors = [
+      ...this.validateName(input.name, false).errors,
+      ...this.validateTextFields(input as unknown as Record<string, unknown>).errors,
+      ...this.validateExampleImages(input.exampleImages).errors,
+      ...this.validateFlags(input).errors
+    ];
+
+    // At least one field must be provided for update
+    const fields = ['name', ...TEXT_FIELDS, 'exampleImages', 'isActive', 'sortOrder'];
+    if (!fields.some(field => field in input)) {
+      errors.push('At least one field must be provided for update');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Sanitizes style preset creation input; blank optional texts are dropped
+   */
+  static sanitizeCreateInput(input: CreateStylePresetData): CreateStylePresetData {
+    return {
+      key: input.key.trim().toLowerCase(),
+      name: input.name.trim(),
+      description: input.description?.trim() || undefined,
+      promptPrefix: input.promptPrefix?.trim() || undefined,
+      promptSuffix: input.promptSuffix?.trim() || undefined,
+      negativePrompt: input.negativePrompt?.trim() || undefined,
+      exampleImages: input.exampleImages ?? [],
+      isActive: input.isActive ?? true,
+      sortOrder: input.sortOrder ?? 0
+    };
+  }
+
+  /**
+   * Sanitizes style preset update input; an empty text or null clears it
+   */
+  static sanitizeUpdateInput(input: UpdateStylePresetData): UpdateStylePresetData {
+    const sanitized: UpdateStylePresetData = {};
+
+    if (input.name !== undefined) {
+      sanitized.name = input.name.trim();
+    }
+    for (const field of TEXT_FIELDS) {
+      if (input[field] !== undefined) {
+        sanitized[field] = input[field]?.trim() || null;
+      }
+    }
+    if (input.exampleImages !== undefined) {
+      sanitized.exampleImages = input.exampleImages;
+    }
+    if (input.isActive !== undefined) {
+      sanitized.isActive = input.isActive;
+    }
+    if (input.sortOrder !== undefined) {
+      sanitized.sortOrder = input.sortOrder;
+    }
+
+    return sanitized;
+  }
+}
@@ -0,0 +1,90 @@
+import { CreateVariantBatchRequest } from '../../../../shared/types/theme';
+
+export interface VariantBatchValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+/**
+ * Batch input after sanitizing: prompts always as a trimmed list
+ */
+export interface VariantBatchData {
+  prompts: string[];
+  metadata?: CreateVariantBatchRequest['metadata'];
+  style?: string;
+}
+
+export class VariantBatchSchema {
+  // Constants for validation limits
+  static readonly MAX_BATCH_SIZE = 10;
+  static readonly MAX_PROMPT_LENGTH = 1000;
+
+  /**
+   * Split the prompts into a list; a single string is read as comma-separated prompts
+   */
+  static toPromptList(prompts: unknown): unknown[] {
+    if (typeof prompts === 'string') {
+      return prompts.split(',');
+    }
+    return Array.isArray(prompts) ? prompts : [];
+  }
+
+  /**
+   * Validates batch variant generation input
+   */
+  static validateBatchInput(input: CreateVariantBatchRequest): VariantBatchValidationResult {
+    const errors: string[] = [];
+
+    if (!input || typeof input !== 'object') {
+      return { isValid: false, errors: ['Request body must be an object'] };
+    }
+
+    if (typeof input.prompts !== 'string' && !Array.isArray(input.prompts)) {
+      errors.push('prompts must be an array of strings or a comma-separated string');
+    } else {
+      const prompts = this.toPromptList(input.prompts);
+
+      if (prompts.some(prompt => typeof prompt !== 'string')) {
+        errors.push('Each prompt must be a string');
+      } else {
+        const nonEmpty = (prompts as string[]).filter(prompt => prompt.trim().length > 0);
+
+        if (nonEmpty.length === 0) {
+          errors.push('At least one prompt is required');
+        }
+        if (nonEmpty.length > this.MAX_BATCH_SIZE) {
+          errors.push(`A batch can contain at most ${this.MAX_BATCH_SIZE} prompts`);
+        }
+        if (nonEmpty.some(prompt => prompt.trim().length > this.MAX_PROMPT_LENGTH)) {
+          errors.push(`Each prompt must be ${this.MAX_PROMPT_LENGTH} characters or less`);
+        }
+      }
+    }
+
+    if (input.metadata !== undefined && (input.metadata === null || typeof input.metadata !== 'object' || Array.isArray(input.metadata))) {
+      errors.push('metadata must be an object');
+    }
+
+    if (input.style !== undefined && typeof input.style !== 'string') {
+      errors.push('style must be a string');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Sanitizes batch input; blank prompts are dropped, duplicates are kept (each is its own variant)
+   */
+  static sanitizeBatchInput(input: CreateVariantBatchRequest): VariantBatchData {
+    return {
+      prompts: (this.toPromptList(input.prompts) as string[])
+        .map(prompt => prompt.trim())
+        .filter(prompt => prompt.length > 0),
+      metadata: input.metadata,
+      style: input.style?.trim() || undefined
+    };
+  }
+}
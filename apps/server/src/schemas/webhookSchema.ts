@@ -0,0 +1,180 @@
+import { CreateWebhookEndpointData, UpdateWebhookEndpointData, WEBHOOK_EVENT_TYPES } from '../types/webhooks';
+import { isProduction } from '../config/env';
+
+export interface WebhookValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+export class WebhookSchema {
+  // Constants for validation limits
+  static readonly MAX_URL_LENGTH = 2048;
+  static readonly MAX_DESCRIPTION_LENGTH = 500;
+
+  /**
+   * Validates the endpoint URL; plain http is only accepted outside production
+   */
+  static validateUrl(url: unknown, required: boolean): WebhookValidationResult {
+    const errors: string[] = [];
+
+    if (url === undefined) {
+      if (required) {
+        errors.push('url is required');
+      }
+    } else if (typeof url !== 'string' || url.trim().length === 0) {
+      errors.push('url must be a non-empty string');
+    } else if (url.trim().length > this.MAX_URL_LENGTH) {
+      errors.push(`url must be ${this.MAX_URL_LENGTH} characters or less`);
+    } else {
+      let parsed: URL | null = null;
+      try {
+        parsed = new URL(url.trim());
+      } catch {
+        errors.push('url must be a valid URL');
+      }
+
+      if (parsed) {
+        const allowed = isProduction() ? ['https:'] : ['https:', 'http:'];
+        if (!allowed.includes(parsed.protocol)) {
+          errors.push(isProduction() ? 'url must use https' : 'url must use http or https');
+        }
+        if (parsed.username || parsed.password) {
+          errors.push('url must not contain credentials');
+        }
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validates the subscribed event types
+   */
+  static validateEvents(events: unknown, required: boolean): WebhookValidationResult {
+    const errors: string[] = [];
+
+    if (events === undefined) {
+      if (required) {
+        errors.push('events is required');
+      }
+    } else if (!Array.isArray(events) || events.length === 0) {
+      errors.push('events must be a non-empty array');
+    } else {
+      const unknown = events.filter(event => !(WEBHOOK_EVENT_TYPES as readonly unknown[]).includes(event));
+      if (unknown.length > 0) {
+        errors.push(`Unknown events: ${unknown.join(', ')}. Supported: ${WEBHOOK_EVENT_TYPES.join(', ')}`);
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validates the optional description
+   */
+  static validateDescription(description: unknown): WebhookValidationResult {
+    const errors: string[] = [];
+
+    if (description !== undefined && description !== null) {
+      if (typeof description !== 'string') {
+        errors.push('description must be a string');
+      } else if (description.trim().length > this.MAX_DESCRIPTION_LENGTH) {
+        errors.push(`description must be ${this.MAX_DESCRIPTION_LENGTH} characters or less`);
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validates webhook endpoint creation input
+   */
+  static validateCreateInput(input: CreateWebhookEndpointData): WebhookValidationResult {
+    if (!input || typeof input !== 'object') {
+      return { isValid: false, errors: ['Request body must be an object'] };
+    }
+
+    const errors = [
+      ...this.validateUrl(input.url, true).errors,
+      ...this.validateEvents(input.events, true).errors,
+      ...this.validateDescription(input.description).errors
+    ];
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validates webhook endpoint update input
+   */
+  static validateUpdateInput(input: UpdateWebhookEndpointData): WebhookValidationResult {
+    if (!input || typeof input !== 'object') {
+      return { isValid: false, errors: ['Request body must be an object'] };
+    }
+
+    const errors = [
+      ...this.validateUrl(input.url, false).errors,
+      ...this.validateEvents(input.events, false).errors,
+      ...this.validateDescription(input.description).errors
+    ];
+
+    if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+      errors.push('enabled must be a boolean value');
+    }
+
+    // At least one field must be provided for update
+    const hasFields = ['url', 'events', 'description', 'enabled'].some(field => field in input);
+    if (!hasFields) {
+      errors.push('At least one field must be provided for update');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Sanitizes webhook endpoint creation input; duplicate events are dropped
+   */
+  static sanitizeCreateInput(input: CreateWebhookEndpointData): CreateWebhookEndpointData {
+    return {
+      url: input.url.trim(),
+      events: [...new Set(input.events)],
+      description: input.description?.trim() || undefined
+    };
+  }
+
+  /**
+   * Sanitizes webhook endpoint update input; an empty description or null clears it
+   */
+  static sanitizeUpdateInput(input: UpdateWebhookEndpointData): UpdateWebhookEndpointData {
+    const sanitized: UpdateWebhookEndpointData = {};
+
+    if (input.url !== undefined) {
+      sanitized.url = input.url.trim();
+    }
+    if (input.events !== undefined) {
+      sanitized.events = [...new Set(input.events)];
+    }
+    if (input.description !== undefined) {
+      sanitized.description = input.description?.trim() || null;
+    }
+    if (input.enabled !== undefined) {
+      sanitized.enabled = input.enabled;
+    }
+
+    return sanitized;
+  }
+}
@@ -7,6 +7,11 @@ import http from 'http';
 import { createApp } from './app';
 import { config, isDevelopment, isProduction } from '../../../config/core';
 import { DatabaseConnectionStatus } from '../../../shared/types/database';
+import { jobQueue, registerGenerationProcessors } from './modules/jobs';
+import { creditService } from './modules/credits';
+import { realtimeService } from './modules/realtime';
+import { webhookService } from './modules/webhooks';
+import { ENV_CONFIG } from './config/env';
 
 /**
  * Server instance and state management
@@ -46,6 +51,21 @@ class ServerManager {
       
       // Start listening
       await this.listen();
+
+      // Start generation queue worker
+      registerGenerationProcessors();
+      await jobQueue.start();
+
+      // Release credit reservations left behind by crashed requests
+      creditService.startReservationSweeper();
+
+      // Push generation progress and balance changes to open event streams
+      if (ENV_CONFIG.ENABLE_WEBSOCKETS) {
+        realtimeService.start();
+      }
+
+      // Deliver generation and credit events to registered webhook endpoints
+      webhookService.start();
       
       // Perform post-startup checks
       await this.performHealthChecks();
@@ -76,8 +96,30 @@ class ServerManager {
       throw new Error(`Invalid port number: ${config.server.port}`);
     }
 
+    // AI provider validation
+    if (!['gemini', 'stub'].includes(config.ai.provider)) {
+      throw new Error(`Invalid AI_PROVIDER: ${config.ai.provider} (expected "gemini" or "stub")`);
+    }
+
+    // Storage validation
+    if (!['local', 's3'].includes(config.storage.provider)) {
+      throw new Error(`Invalid STORAGE_PROVIDER: ${config.storage.provider} (expected "local" or "s3")`);
+    }
+
+    if (config.storage.provider === 's3' && !config.storage.s3) {
+      throw new Error('STORAGE_PROVIDER is "s3" but S3_BUCKET is not set');
+    }
+
+    if (!['original', 'webp'].includes(config.images.outputFormat)) {
+      throw new Error(`Invalid IMAGE_OUTPUT_FORMAT: ${config.images.outputFormat} (expected "original" or "webp")`);
+    }
+
     // Production-specific validations
     if (isProduction()) {
+      if (config.ai.provider === 'stub') {
+        console.warn('⚠️  AI_PROVIDER is "stub" - generations will return placeholder images');
+      }
+
       if (config.auth?.jwtSecret === 'default-jwt-secret-change-in-production') {
         throw new Error('JWT_SECRET must be changed in production');
       }
@@ -253,6 +295,9 @@ class ServerManager {
         });
       }
 
+      // End event streams before their sockets are destroyed
+      realtimeService.stop();
+
       // Close existing connections
       console.log(`🔌 Closing ${this.connections.size} existing connections...`);
       for (const connection of this.connections) {
@@ -268,9 +313,10 @@ class ServerManager {
       // console.log('🔴 Closing Redis connections...');
       // await this.closeRedisConnections();
 
-      // TODO: Clean up any background jobs or workers
       console.log('⚙️  Stopping background workers...');
-      // await this.stopBackgroundWorkers();
+      await jobQueue.stop();
+      creditService.stopReservationSweeper();
+      webhookService.stop();
 
       clearTimeout(shutdownTimeout);
       console.log('✅ Graceful shutdown completed');
@@ -1,19 +1,27 @@
 /**
  * Gemini Text Service for Prompt Optimization
- * Uses unified Gemini API client for text generation
+ * Uses the configured text and image providers (Gemini or the offline stub)
  */
 
-import { getDefaultGeminiClient } from '../api/geminiClient';
+import { GeminiError, getImageProvider, getTextProvider, ImageProvider, TextProvider } from './providers';
+import { CharacterAttributes } from '../types/character';
+import { StylePromptFragments } from '../types/styles';
 
 interface PromptOptimizationRequest {
   userDescription: string;
   style?: string | undefined;
+  /** Fragments of the chosen style preset; the optimized prompt is written for that style */
+  stylePreset?: StylePromptFragments | null | undefined;
   gender?: string | undefined;
+  /** Persisted character sheet; every fact in it must survive into the prompt */
+  attributes?: CharacterAttributes | undefined;
   conversationHistory?: Array<{
     userInput: string;
     generatedPrompt: string;
     feedback?: string;
   }> | undefined;
+  /** Stored session this turn continues; a new id is generated otherwise */
+  conversationId?: string | undefined;
 }
 
 interface PromptOptimizationResponse {
@@ -22,40 +30,170 @@ interface PromptOptimizationResponse {
   reasoning: string;
   suggestions: string[];
   conversationId: string;
+  /** The model never returned valid output; optimizedPrompt is the user's own description and nothing is charged */
+  degraded: boolean;
+  degradedReason?: string;
+}
+
+interface ImageEditResult {
+  editedImageUrl: string; // Base64 data URL
+  thumbnailUrl: string;
+  prompt: string;
+  originalImageUrl: string;
+  characterId?: string | undefined;
+  model: string;
+  mimeType: string;
+}
+
+/** Model calls per optimization; malformed output is retried until this many attempts were made */
+export const PROMPT_OPTIMIZATION_MAX_ATTEMPTS = 3;
+
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Structured output schema for prompt optimization (Gemini responseSchema format)
+ */
+const PROMPT_OPTIMIZATION_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    optimizedPrompt: { type: 'STRING', description: 'The enhanced image generation prompt' },
+    reasoning: { type: 'STRING', description: 'Brief explanation of the changes made' },
+    suggestions: {
+      type: 'ARRAY',
+      items: { type: 'STRING' },
+      description: 'Up to 5 short ideas for refining the description further'
+    }
+  },
+  required: ['optimizedPrompt', 'reasoning', 'suggestions'],
+  propertyOrdering: ['optimizedPrompt', 'reasoning', 'suggestions']
+};
+
+type ParsedOptimization = Pick<PromptOptimizationResponse, 'optimizedPrompt' | 'reasoning' | 'suggestions'>;
+
+/**
+ * Parse model output against the optimization schema; throws with the reason when it does not match.
+ * The whole text must be one JSON object (a surrounding markdown code fence is tolerated).
+ */
+export function parseOptimizationOutput(text: string): ParsedOptimization {
+  const json = text.trim().replace(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/, '$1').trim();
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Response is not valid JSON');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Response is not a JSON object');
+  }
+
+  const { optimizedPrompt, reasoning, suggestions } = parsed as Record<string, unknown>;
+
+  if (typeof optimizedPrompt !== 'string' || optimizedPrompt.trim().length === 0) {
+    throw new Error('optimizedPrompt is missing or empty');
+  }
+  if (typeof reasoning !== 'string') {
+    throw new Error('reasoning is missing');
+  }
+  if (!Array.isArray(suggestions) || suggestions.some(suggestion => typeof suggestion !== 'string')) {
+    throw new Error('suggestions must be an array of strings');
+  }
+
+  return {
+    optimizedPrompt: optimizedPrompt.trim(),
+    reasoning: reasoning.trim(),
+    suggestions: (suggestions as string[])
+      .map(suggestion => suggestion.trim())
+      .filter(suggestion => suggestion.length > 0)
+      .slice(0, MAX_SUGGESTIONS)
+  };
+}
+
+/**
+ * One "Label: value" line per filled-in character sheet field, in a stable order
+ */
+export function formatCharacterSheet(attributes: CharacterAttributes): string[] {
+  const { physicalTraits } = attributes;
+  const entries: Array<[string, string | null | undefined]> = [
+    ['Age', attributes.age],
+    ['Gender', attributes.gender],
+    ['Occupation', attributes.occupation],
+    ['Personality', attributes.personality?.join(', ')],
+    ['Height', physicalTraits?.height],
+    ['Build', physicalTraits?.build],
+    ['Hair', [physicalTraits?.hairColor, physicalTraits?.hairStyle].filter(Boolean).join(', ')],
+    ['Eyes', physicalTraits?.eyeColor],
+    ['Skin tone', physicalTraits?.skinTone],
+    ['Facial features', physicalTraits?.facialFeatures?.join(', ')],
+    ['Distinguishing marks', physicalTraits?.distinguishingMarks?.join(', ')],
+    ['Clothing', attributes.clothing],
+    ['Background', attributes.background]
+  ];
+
+  return entries
+    .filter((entry): entry is [string, string] => !!entry[1])
+    .map(([label, value]) => `${label}: ${value}`);
 }
 
 class GeminiTextService {
-  private geminiClient: any;
+  private textProvider: TextProvider;
+  private imageProvider: ImageProvider;
 
-  constructor() {
-    this.geminiClient = getDefaultGeminiClient();
+  constructor(textProvider: TextProvider = getTextProvider(), imageProvider: ImageProvider = getImageProvider()) {
+    this.textProvider = textProvider;
+    this.imageProvider = imageProvider;
   }
 
   /**
    * Optimize user description into a detailed character generation prompt
+   * Uses structured JSON output; malformed output is retried up to PROMPT_OPTIMIZATION_MAX_ATTEMPTS times,
+   * after which a degraded result echoing the description is returned. Provider errors are thrown.
    */
   async optimizePrompt(request: PromptOptimizationRequest): Promise<PromptOptimizationResponse> {
     const systemPrompt = this.buildSystemPrompt();
     const userPrompt = this.buildUserPrompt(request);
-    
-    try {
-      console.log(`[GeminiTextService] Optimizing prompt...`);
-      
-      const response = await this.geminiClient.generateText(userPrompt, systemPrompt);
-      
-      if (!response.success) {
-        throw new Error(response.error || 'Failed to generate text');
+    const conversationId = request.conversationId || this.generateConversationId();
+    let lastError = 'No response';
+
+    for (let attempt = 1; attempt <= PROMPT_OPTIMIZATION_MAX_ATTEMPTS; attempt++) {
+      let text: string;
+      try {
+        console.log(`[GeminiTextService] Optimizing prompt (attempt ${attempt}/${PROMPT_OPTIMIZATION_MAX_ATTEMPTS})...`);
+        ({ text } = await this.textProvider.generateText(userPrompt, systemPrompt, { responseSchema: PROMPT_OPTIMIZATION_SCHEMA }));
+      } catch (error: any) {
+        console.error(`[GeminiTextService] Prompt optimization failed:`, error.message);
+        // Typed provider errors (safety block, quota, outage) are passed on for the route to map
+        if (error instanceof GeminiError) throw error;
+        throw new Error(`Prompt optimization error: ${error.message || 'Unknown error'}`);
+      }
+
+      try {
+        const parsed = parseOptimizationOutput(text);
+        console.log(`[GeminiTextService] Prompt optimization successful!`);
+        return {
+          originalInput: request.userDescription,
+          ...parsed,
+          conversationId,
+          degraded: false
+        };
+      } catch (error: any) {
+        lastError = error.message;
+        console.warn(`[GeminiTextService] Malformed optimization output (attempt ${attempt}): ${lastError}`);
+        console.warn('[GeminiTextService] Raw response:', text.substring(0, 500));
       }
-      
-      const text = response.data.text || 'No response generated';
-      
-      console.log(`[GeminiTextService] Prompt optimization successful!`);
-      return this.parseGeminiResponse(text, request.userDescription);
-      
-    } catch (error: any) {
-      console.error(`[GeminiTextService] Prompt optimization failed:`, error.message);
-      throw new Error(`Prompt optimization error: ${error.message || 'Unknown error'}`);
     }
+
+    console.error(`[GeminiTextService] No valid optimization after ${PROMPT_OPTIMIZATION_MAX_ATTEMPTS} attempts, returning the original description`);
+    return {
+      originalInput: request.userDescription,
+      optimizedPrompt: request.userDescription,
+      reasoning: 'The prompt could not be optimized; your original description is returned unchanged',
+      suggestions: ['Try rephrasing your description', 'Add more specific details', 'Specify the art style'],
+      conversationId,
+      degraded: true,
+      degradedReason: `Malformed model output after ${PROMPT_OPTIMIZATION_MAX_ATTEMPTS} attempts: ${lastError}`
+    };
   }
 
 
@@ -72,7 +210,7 @@ GUIDELINES:
 6. Be specific about pose, expression, clothing details, and environment
 
 OUTPUT FORMAT:
-Return your response in this exact JSON format:
+Return a single JSON object in this exact format:
 {
   "optimizedPrompt": "Your enhanced prompt here",
   "reasoning": "Brief explanation of changes made",
@@ -88,7 +226,16 @@ IMPORTANT: Only return valid JSON, no additional text.`;
 
 USER DESCRIPTION: "${request.userDescription}"`;
 
-    if (request.style) {
+    if (request.stylePreset) {
+      const { name, promptPrefix, promptSuffix, negativePrompt } = request.stylePreset;
+      prompt += `\nPREFERRED STYLE: ${name}`;
+      if (promptPrefix || promptSuffix || negativePrompt) {
+        prompt += `\nSTYLE GUIDANCE (write the prompt for this style):`;
+        if (promptPrefix) prompt += `\n- Open with: "${promptPrefix}"`;
+        if (promptSuffix) prompt += `\n- Close with: "${promptSuffix}"`;
+        if (negativePrompt) prompt += `\n- Avoid: ${negativePrompt}`;
+      }
+    } else if (request.style) {
       prompt += `\nPREFERRED STYLE: ${request.style}`;
     }
 
@@ -96,6 +243,14 @@ USER DESCRIPTION: "${request.userDescription}"`;
       prompt += `\nGENDER: ${request.gender}`;
     }
 
+    const characterSheet = request.attributes ? formatCharacterSheet(request.attributes) : [];
+    if (characterSheet.length > 0) {
+      prompt += `\n\nCHARACTER SHEET (established facts - keep every one of them exactly, do not contradict or omit them):`;
+      characterSheet.forEach(line => {
+        prompt += `\n- ${line}`;
+      });
+    }
+
     if (request.conversationHistory && request.conversationHistory.length > 0) {
       prompt += `\n\nPREVIOUS CONVERSATION:`;
       request.conversationHistory.forEach((entry, index) => {
@@ -113,42 +268,6 @@ USER DESCRIPTION: "${request.userDescription}"`;
   }
 
 
-  private parseGeminiResponse(
-    text: string, 
-    originalInput: string, 
-    conversationId?: string
-  ): PromptOptimizationResponse {
-    try {
-      // Try to extract JSON from the response
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      
-      return {
-        originalInput,
-        optimizedPrompt: parsed.optimizedPrompt || '',
-        reasoning: parsed.reasoning || 'No reasoning provided',
-        suggestions: parsed.suggestions || [],
-        conversationId: conversationId || this.generateConversationId()
-      };
-    } catch (error) {
-      console.error('Error parsing Gemini response:', error);
-      console.error('Raw response:', text);
-      
-      // Fallback response
-      return {
-        originalInput,
-        optimizedPrompt: originalInput, // Fallback to original
-        reasoning: 'Error processing response, using original description',
-        suggestions: ['Try rephrasing your description', 'Add more specific details', 'Specify the art style'],
-        conversationId: conversationId || this.generateConversationId()
-      };
-    }
-  }
-
   private generateConversationId(): string {
     return `conv_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
   }
@@ -161,11 +280,11 @@ USER DESCRIPTION: "${request.userDescription}"`;
     imageUrl: string;
     prompt: string;
     characterId?: string;
-  }): Promise<any> {
+  }): Promise<ImageEditResult> {
     const { imageUrl, prompt, characterId } = request;
 
     try {
-      console.log(`[GeminiTextService] Editing image with Gemini 2.5 Flash Image...`);
+      console.log(`[GeminiTextService] Editing image with ${this.imageProvider.name} (${this.imageProvider.model})...`);
       console.log(`Image URL: ${imageUrl.substring(0, 100)}...`);
       console.log(`Edit prompt: ${prompt}`);
 
@@ -194,33 +313,25 @@ USER DESCRIPTION: "${request.userDescription}"`;
         console.log(`[GeminiTextService] Image fetched and converted to base64`);
       }
 
-      // Use Gemini 2.5 Flash Image model for image editing
-      const result = await this.geminiClient.generateWithImage(
-        prompt,
-        imageBase64,
-        mimeType,
-        'gemini-2.5-flash-image-preview' // Use the image-capable model
-      );
-
-      if (!result.success) {
-        throw new Error(result.error || 'Failed to edit image with Gemini');
-      }
+      // Use the image-capable provider for image editing
+      const result = await this.imageProvider.generateWithImage(prompt, imageBase64, mimeType);
 
       console.log(`[GeminiTextService] Image editing successful!`);
 
       // Return the edited image result
       return {
-        editedImageUrl: result.data.imageUrl, // Base64 data URL
-        thumbnailUrl: result.data.thumbnailUrl,
+        editedImageUrl: result.imageUrl, // Base64 data URL
+        thumbnailUrl: result.thumbnailUrl,
         prompt: prompt,
         originalImageUrl: imageUrl,
         characterId: characterId,
-        model: 'gemini-2.5-flash-image-preview',
-        mimeType: result.data.mimeType
+        model: result.model,
+        mimeType: result.mimeType
       };
 
     } catch (error: any) {
       console.error(`[GeminiTextService] Image editing failed:`, error.message);
+      if (error instanceof GeminiError) throw error;
       throw new Error(`Image editing error: ${error.message || 'Unknown error'}`);
     }
   }
@@ -229,9 +340,9 @@ USER DESCRIPTION: "${request.userDescription}"`;
    * Health check for the service
    */
   async healthCheck(): Promise<boolean> {
-    return await this.geminiClient.healthCheck();
+    return await this.textProvider.healthCheck();
   }
 }
 
 export default GeminiTextService;
-export type { PromptOptimizationRequest, PromptOptimizationResponse };
\ No newline at end of file
+export type { PromptOptimizationRequest, PromptOptimizationResponse, ImageEditResult };
\ No newline at end of file
@@ -0,0 +1,57 @@
+/**
+ * Image Formats
+ * Aspect ratio presets and quality tiers for generated images: the pixel size each combination is stored at,
+ * what is sent to the model and which ApiCostConfig entry prices it
+ */
+
+import { AspectRatioPreset, ImageFormat, ImageQuality } from '../types/imageFormats';
+
+export const DEFAULT_ASPECT_RATIO: AspectRatioPreset = 'square';
+export const DEFAULT_IMAGE_QUALITY: ImageQuality = 'standard';
+
+// Sizes at standard quality are the model's native output for each ratio
+const ASPECT_RATIOS: Record<AspectRatioPreset, { ratio: string; width: number; height: number; description: string }> = {
+  square: { ratio: '1:1', width: 1024, height: 1024, description: 'Avatars and profile pictures' },
+  portrait: { ratio: '2:3', width: 832, height: 1248, description: 'Character cards and full-body art' },
+  landscape: { ratio: '3:2', width: 1248, height: 832, description: 'Scenes and thumbnails' },
+  banner: { ratio: '21:9', width: 1536, height: 672, description: 'Profile and channel banners' }
+};
+
+const QUALITY_TIERS: Record<ImageQuality, { scale: number; imageSize?: '1K' | '2K' }> = {
+  draft: { scale: 0.5 },
+  standard: { scale: 1 },
+  high: { scale: 2, imageSize: '2K' }
+};
+
+/**
+ * The output format for an aspect ratio preset and quality tier; missing values fall back to square, standard
+ */
+export function resolveImageFormat(aspectRatio?: AspectRatioPreset | null, quality?: ImageQuality | null): ImageFormat {
+  const preset = aspectRatio ?? DEFAULT_ASPECT_RATIO;
+  const tier = quality ?? DEFAULT_IMAGE_QUALITY;
+  const { ratio, width, height } = ASPECT_RATIOS[preset];
+  const { scale } = QUALITY_TIERS[tier];
+
+  return {
+    aspectRatio: preset,
+    ratio,
+    quality: tier,
+    width: Math.round(width * scale),
+    height: Math.round(height * scale)
+  };
+}
+
+/**
+ * The image size requested from the model for a quality tier, if it differs from the model's default
+ */
+export function modelImageSize(quality: ImageQuality): '1K' | '2K' | undefined {
+  return QUALITY_TIERS[quality].imageSize;
+}
+
+/**
+ * The ApiCostConfig endpoint that prices a generation at a quality tier: standard uses the endpoint itself,
+ * other tiers `<endpoint>:<quality>` (e.g. `/characters/generate-image:high`)
+ */
+export function qualityCostEndpoint(apiEndpoint: string, quality?: ImageQuality | null): string {
+  return !quality || quality === DEFAULT_IMAGE_QUALITY ? apiEndpoint : `${apiEndpoint}:${quality}`;
+}
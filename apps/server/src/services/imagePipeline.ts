@@ -0,0 +1,316 @@
+/**
+ * Image Pipeline
+ * Decodes generated images, detects their real type, optionally transcodes to WebP,
+ * renders thumbnails and stores everything through the StorageService
+ */
+
+import sharp from 'sharp';
+import { config } from '../../../../config/core';
+import { decodeImageData, getStorageService, StorageService, StorageVisibility } from './storage';
+import { ImageFormatAdjustments } from '../types/imageFormats';
+
+export interface ImagePipelineOptions {
+  thumbnailSizes: number[];
+  outputFormat: 'original' | 'webp';
+  webpQuality: number;
+}
+
+export interface ProcessedImage {
+  data: Buffer;
+  mimeType: string;
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+export interface StoredThumbnail {
+  size: number;
+  url: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+/**
+ * Recorded under `metadata.image` on characters and variants
+ */
+export interface StoredImageMetadata {
+  mimeType: string;
+  width: number;
+  height: number;
+  bytes: number;
+  originalMimeType: string;
+  originalBytes: number;
+  thumbnails: StoredThumbnail[];
+}
+
+export interface StoredImageSet {
+  imageUrl: string;
+  thumbnailUrl: string;
+  metadata: StoredImageMetadata;
+}
+
+export interface StoreImageOptions {
+  prefix: string;
+  visibility?: StorageVisibility;
+}
+
+/**
+ * Largest difference in width/height ratio still treated as the requested aspect ratio (rounding by the model)
+ */
+const ASPECT_RATIO_TOLERANCE = 0.01;
+
+/**
+ * Image fields of a character or variant row, as needed to release its files
+ */
+export interface ImageRecord {
+  imageUrl?: string | null;
+  thumbnailUrl?: string | null;
+  metadata?: unknown;
+}
+
+/**
+ * Sniff the image type from magic bytes; data URL headers from providers are not trusted
+ */
+export function detectMimeType(data: Buffer): string | null {
+  if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (data.length >= 12 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (data.length >= 6 && (data.toString('ascii', 0, 6) === 'GIF87a' || data.toString('ascii', 0, 6) === 'GIF89a')) {
+    return 'image/gif';
+  }
+  return null;
+}
+
+/**
+ * Storage URLs belonging to an image record: the main image plus every thumbnail derived from it
+ */
+export function imageRecordUrls(record: ImageRecord): { url: string | null; derived: string[] } {
+  const image = (record.metadata as { image?: Partial<StoredImageMetadata> } | null | undefined)?.image;
+  const derived = [
+    record.thumbnailUrl,
+    ...(Array.isArray(image?.thumbnails) ? image!.thumbnails.map(thumbnail => thumbnail.url) : [])
+  ].filter((url): url is string => !!url);
+
+  return { url: record.imageUrl || record.thumbnailUrl || null, derived };
+}
+
+export class ImagePipeline {
+  private options: ImagePipelineOptions;
+  private storage: StorageService;
+
+  constructor(options: ImagePipelineOptions = config.images, storage: StorageService = getStorageService()) {
+    this.options = options;
+    this.storage = storage;
+  }
+
+  /**
+   * Decode and normalize an image; transcodes to WebP when configured, otherwise keeps the original bytes
+   */
+  async normalize(image: string | Buffer): Promise<{ image: ProcessedImage; originalMimeType: string; originalBytes: number }> {
+    const data = typeof image === 'string' ? decodeImageData(image).data : image;
+    const originalMimeType = detectMimeType(data);
+
+    if (!originalMimeType) {
+      throw new Error('Unsupported or corrupt image data');
+    }
+
+    const info = await sharp(data).metadata();
+    if (!info.width || !info.height) {
+      throw new Error('Unable to read image dimensions');
+    }
+
+    if (this.options.outputFormat === 'webp' && originalMimeType !== 'image/webp') {
+      const { data: webp, info: webpInfo } = await sharp(data)
+        .rotate()
+        .webp({ quality: this.options.webpQuality })
+        .toBuffer({ resolveWithObject: true });
+
+      return {
+        image: { data: webp, mimeType: 'image/webp', width: webpInfo.width, height: webpInfo.height, bytes: webp.length },
+        originalMimeType,
+        originalBytes: data.length
+      };
+    }
+
+    return {
+      image: { data, mimeType: originalMimeType, width: info.width, height: info.height, bytes: data.length },
+      originalMimeType,
+      originalBytes: data.length
+    };
+  }
+
+  /**
+   * Render a thumbnail whose longest edge is at most `size`
+   */
+  async createThumbnail(image: ProcessedImage, size: number): Promise<ProcessedImage> {
+    let pipeline = sharp(image.data)
+      .rotate()
+      .resize({ width: size, height: size, fit: 'inside', withoutEnlargement: true });
+
+    let mimeType: string;
+    if (this.options.outputFormat === 'webp' || image.mimeType === 'image/webp') {
+      pipeline = pipeline.webp({ quality: this.options.webpQuality });
+      mimeType = 'image/webp';
+    } else if (image.mimeType === 'image/jpeg') {
+      pipeline = pipeline.jpeg({ quality: 85, mozjpeg: true });
+      mimeType = 'image/jpeg';
+    } else {
+      pipeline = pipeline.png({ compressionLevel: 9 });
+      mimeType = 'image/png';
+    }
+
+    const { data, info } = await pipeline.toBuffer({ resolveWithObject: true });
+    return { data, mimeType, width: info.width, height: info.height, bytes: data.length };
+  }
+
+  /**
+   * Make an image exactly width x height. Images of another aspect ratio are center-cropped, other sizes
+   * are resized; an image that already matches is returned unchanged. The format of the input is kept.
+   */
+  async conformToSize(image: string | Buffer, size: { width: number; height: number }): Promise<{ image: ProcessedImage; adjustments: ImageFormatAdjustments }> {
+    const data = typeof image === 'string' ? decodeImageData(image).data : image;
+    const mimeType = detectMimeType(data);
+
+    if (!mimeType) {
+      throw new Error('Unsupported or corrupt image data');
+    }
+
+    const info = await sharp(data).metadata();
+    if (!info.width || !info.height) {
+      throw new Error('Unable to read image dimensions');
+    }
+
+    const adjustments: ImageFormatAdjustments = {
+      originalWidth: info.width,
+      originalHeight: info.height,
+      cropped: Math.abs(info.width / info.height - size.width / size.height) > ASPECT_RATIO_TOLERANCE * (size.width / size.height),
+      resized: info.width !== size.width || info.height !== size.height
+    };
+
+    if (!adjustments.resized) {
+      return {
+        image: { data, mimeType, width: info.width, height: info.height, bytes: data.length },
+        adjustments
+      };
+    }
+
+    let pipeline = sharp(data)
+      .rotate()
+      .resize({ width: size.width, height: size.height, fit: 'cover', position: 'centre' });
+
+    if (mimeType === 'image/webp') {
+      pipeline = pipeline.webp({ quality: this.options.webpQuality });
+    } else if (mimeType === 'image/jpeg') {
+      pipeline = pipeline.jpeg({ quality: 90, mozjpeg: true });
+    } else {
+      pipeline = pipeline.png({ compressionLevel: 9 });
+    }
+
+    const { data: conformed, info: conformedInfo } = await pipeline.toBuffer({ resolveWithObject: true });
+    return {
+      image: {
+        data: conformed,
+        mimeType: mimeType === 'image/webp' || mimeType === 'image/jpeg' ? mimeType : 'image/png',
+        width: conformedInfo.width,
+        height: conformedInfo.height,
+        bytes: conformed.length
+      },
+      adjustments
+    };
+  }
+
+  /**
+   * Normalize an image, render all configured thumbnails and store them
+   */
+  async processAndStore(image: string | Buffer, options: StoreImageOptions): Promise<StoredImageSet> {
+    const { image: main, originalMimeType, originalBytes } = await this.normalize(image);
+
+    const saved = await this.storage.saveImage(main.data, {
+      prefix: options.prefix,
+      visibility: options.visibility,
+      contentType: main.mimeType
+    });
+
+    const thumbnails: StoredThumbnail[] = [];
+    for (const size of this.options.thumbnailSizes) {
+      const thumbnail = await this.createThumbnail(main, size);
+      const savedThumbnail = await this.storage.saveImage(thumbnail.data, {
+        prefix: `${options.prefix}/thumbs`,
+        visibility: options.visibility,
+        contentType: thumbnail.mimeType
+      });
+
+      thumbnails.push({
+        size,
+        url: savedThumbnail.url,
+        mimeType: thumbnail.mimeType,
+        width: thumbnail.width,
+        height: thumbnail.height,
+        bytes: thumbnail.bytes
+      });
+    }
+
+    return {
+      imageUrl: saved.url,
+      thumbnailUrl: thumbnails[0]?.url ?? saved.url,
+      metadata: {
+        mimeType: main.mimeType,
+        width: main.width,
+        height: main.height,
+        bytes: main.bytes,
+        originalMimeType,
+        originalBytes,
+        thumbnails
+      }
+    };
+  }
+
+  /**
+   * Normalize an image and store it without thumbnails, for images that are only read back by the server
+   * (e.g. reference photos sent to the image model)
+   */
+  async normalizeAndStore(image: string | Buffer, options: StoreImageOptions): Promise<{ url: string; metadata: Omit<StoredImageMetadata, 'thumbnails'> }> {
+    const { image: main, originalMimeType, originalBytes } = await this.normalize(image);
+
+    const saved = await this.storage.saveImage(main.data, {
+      prefix: options.prefix,
+      visibility: options.visibility,
+      contentType: main.mimeType
+    });
+
+    return {
+      url: saved.url,
+      metadata: {
+        mimeType: main.mimeType,
+        width: main.width,
+        height: main.height,
+        bytes: main.bytes,
+        originalMimeType,
+        originalBytes
+      }
+    };
+  }
+}
+
+// Singleton instance
+let defaultPipeline: ImagePipeline | null = null;
+
+/**
+ * Get the default image pipeline
+ */
+export const getDefaultImagePipeline = (): ImagePipeline => {
+  if (!defaultPipeline) {
+    defaultPipeline = new ImagePipeline();
+  }
+  return defaultPipeline;
+};
+
+export default ImagePipeline;
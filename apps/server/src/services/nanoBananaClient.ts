@@ -1,18 +1,26 @@
 /**
- * Google Gemini Official Image Generation Client
+ * Image Generation Client
  * 
- * Uses unified Gemini API client for image generation
+ * Uses the configured image provider (Gemini or the offline stub) for image generation
  */
 
-import { getDefaultGeminiClient } from '../api/geminiClient';
+import { GeminiError, getImageProvider, ImageGenerationResult, ImageProvider, InputImage } from './providers';
+import { StylePromptFragments } from '../types/styles';
+import { AspectRatioPreset, GeneratedImageFormat, ImageQuality } from '../types/imageFormats';
+import { modelImageSize, resolveImageFormat } from './imageFormats';
+import { getDefaultImagePipeline } from './imagePipeline';
 
 export interface GenerationRequest {
   type: string;
   prompt: string;
-  quality?: string;
-  width?: number;
-  height?: number;
+  /** Output shape and quality tier; the image is returned at exactly the format's size (default square, standard) */
+  aspectRatio?: AspectRatioPreset;
+  quality?: ImageQuality;
   style?: string;
+  /** Fragments of the chosen style preset wrapped around the prompt */
+  stylePreset?: StylePromptFragments | null;
+  /** Photo the character is derived from (image-to-image) */
+  referenceImage?: InputImage;
 }
 
 export interface GenerationResponse {
@@ -22,45 +30,105 @@ export interface GenerationResponse {
     imageUrl: string;
     thumbnailUrl: string;
   };
+  /** Format the image was generated in and what was done to match it */
+  format?: GeneratedImageFormat;
+}
+
+/**
+ * Wrap a prompt in a style preset's prefix and suffix and add its negative guidance.
+ * Fragments the prompt already contains (e.g. an optimized prompt written for the style) are not repeated.
+ */
+export function applyStylePreset(prompt: string, style?: StylePromptFragments | null): string {
+  if (!style) {
+    return prompt;
+  }
+
+  const contains = (fragment: string) => prompt.toLowerCase().includes(fragment.toLowerCase());
+  let styled = prompt.trim();
+  if (style.promptPrefix && !contains(style.promptPrefix)) {
+    styled = `${style.promptPrefix} ${styled}`;
+  }
+  if (style.promptSuffix && !contains(style.promptSuffix)) {
+    styled = `${styled}${/[.!?]$/.test(styled) ? '' : '.'} ${style.promptSuffix}`;
+  }
+
+  return style.negativePrompt ? `${styled}\nAvoid: ${style.negativePrompt}` : styled;
+}
+
+/**
+ * Wrap a character prompt so the model derives the character from the attached reference photo
+ */
+export function buildReferenceImagePrompt(prompt: string, style?: string): string {
+  return [
+    `Turn the person or character in the attached reference photo into a ${style ? `${style} style ` : ''}character illustration.`,
+    'Keep their recognizable features - face shape, hairstyle, skin tone and overall build - while fully adopting the new art style.',
+    `Character description: ${prompt}`
+  ].join('\n');
 }
 
 export class NanoBananaClient {
-  private geminiClient: any;
+  private imageProvider: ImageProvider;
 
-  constructor() {
-    this.geminiClient = getDefaultGeminiClient();
+  constructor(imageProvider: ImageProvider = getImageProvider()) {
+    this.imageProvider = imageProvider;
   }
 
   /**
-   * Generate image using Google's official gemini-2.5-flash-image-preview model
+   * Generate image using the configured image provider
    */
   async generateImage(request: GenerationRequest): Promise<GenerationResponse> {
-    console.log('🎨 Google Official Image Generation API call:', request);
+    console.log('🎨 Image Generation API call:', request);
     
     try {
-      console.log(`[GoogleImageClient] Generating image...`);
+      console.log(`[ImageClient] Generating image with ${this.imageProvider.name} (${this.imageProvider.model})...`);
       
-      const response = await this.geminiClient.generateImage(request.prompt);
+      const prompt = applyStylePreset(request.prompt, request.stylePreset);
+      const format = resolveImageFormat(request.aspectRatio, request.quality);
+      const imageSize = modelImageSize(format.quality);
+      const options = { aspectRatio: format.ratio, ...(imageSize && { imageSize }) };
+
+      const result: ImageGenerationResult = request.referenceImage
+        ? await this.imageProvider.generateWithImage(
+          buildReferenceImagePrompt(prompt, request.stylePreset?.name ?? request.style),
+          request.referenceImage.base64,
+          request.referenceImage.mimeType,
+          options
+        )
+        : await this.imageProvider.generateImage(prompt, options);
       
-      if (!response.success) {
-        throw new Error(response.error || 'Failed to generate image');
+      // Models only approximate the requested shape and size; crop and resize to the exact format
+      const { image, adjustments } = await getDefaultImagePipeline().conformToSize(result.imageUrl, format);
+      if (adjustments.resized) {
+        console.log(`[ImageClient] Adjusted ${adjustments.originalWidth}x${adjustments.originalHeight} image to ${format.width}x${format.height}${adjustments.cropped ? ' (cropped)' : ''}`);
       }
-      
-      console.log(`[GoogleImageClient] Image generation successful!`);
-      return response.data;
+      const imageUrl = adjustments.resized
+        ? `data:${image.mimeType};base64,${image.data.toString('base64')}`
+        : result.imageUrl;
+
+      console.log(`[ImageClient] Image generation successful!`);
+      return {
+        id: `gen_${Date.now()}`,
+        status: 'completed',
+        result: {
+          imageUrl,
+          thumbnailUrl: imageUrl
+        },
+        format: { ...format, adjustments }
+      };
       
     } catch (error) {
-      console.error('Google Official Image API call failed:', error);
-      throw new Error(`Google Official Image API call failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Image API call failed:', error);
+      if (error instanceof GeminiError) throw error;
+      throw new Error(`Image API call failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 }
 
-// Singleton instance for Google official client only
+// Singleton instance
 let defaultClient: NanoBananaClient | null = null;
 
 /**
- * Get the default Google Official Image Generation client
+ * Get the default image generation client
  */
 export const getDefaultNanoBananaClient = (): NanoBananaClient => {
   if (!defaultClient) {
@@ -0,0 +1,146 @@
+/**
+ * Gemini AI Provider
+ * Image and text providers backed by the unified Gemini API client
+ * Failed calls throw the client's typed GeminiError (safety block, quota, timeout, outage, ...)
+ */
+
+import { GeminiClient, GeminiGenerationConfig, getDefaultGeminiClient } from '../../api/geminiClient';
+import { ImageProvider, ImageGenerationOptions, ImageGenerationResult, InputImage, TextProvider, TextGenerationOptions, TextGenerationResult } from './types';
+
+const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+const GEMINI_TEXT_MODEL = 'gemini-2.5-flash';
+
+function mimeTypeFromDataUrl(dataUrl: string, fallback: string = 'image/png'): string {
+  const matches = dataUrl.match(/^data:([^;]+);base64,/);
+  return matches?.[1] ?? fallback;
+}
+
+/**
+ * The generationConfig carrying the requested aspect ratio and size, if any was requested
+ */
+function imageGenerationConfig(options: ImageGenerationOptions = {}): GeminiGenerationConfig | undefined {
+  if (!options.aspectRatio && !options.imageSize) {
+    return undefined;
+  }
+
+  return {
+    imageConfig: {
+      ...(options.aspectRatio && { aspectRatio: options.aspectRatio }),
+      ...(options.imageSize && { imageSize: options.imageSize })
+    }
+  };
+}
+
+export class GeminiImageProvider implements ImageProvider {
+  readonly name = 'gemini' as const;
+  readonly model = GEMINI_IMAGE_MODEL;
+  private client: GeminiClient;
+
+  constructor(client: GeminiClient = getDefaultGeminiClient()) {
+    this.client = client;
+  }
+
+  async generateImage(prompt: string, options?: ImageGenerationOptions): Promise<ImageGenerationResult> {
+    const response = await this.client.generateImage(prompt, imageGenerationConfig(options));
+
+    if (!response.success) {
+      throw response.failure ?? new Error(response.error || 'Gemini text-to-image request failed');
+    }
+
+    const imageUrl: string | undefined = response.data?.result?.imageUrl;
+    if (!imageUrl) {
+      throw new Error('Gemini text-to-image returned no image data');
+    }
+
+    return {
+      imageUrl,
+      thumbnailUrl: response.data.result.thumbnailUrl || imageUrl,
+      mimeType: mimeTypeFromDataUrl(imageUrl),
+      provider: this.name,
+      model: this.model
+    };
+  }
+
+  async generateWithImage(prompt: string, imageBase64: string, mimeType: string, options?: ImageGenerationOptions): Promise<ImageGenerationResult> {
+    const response = await this.client.generateWithImage(prompt, imageBase64, mimeType, GEMINI_IMAGE_MODEL, imageGenerationConfig(options));
+
+    if (!response.success) {
+      throw response.failure ?? new Error(response.error || 'Gemini image-to-image request failed');
+    }
+
+    const imageUrl: string | undefined = response.data?.imageUrl;
+    if (!imageUrl) {
+      throw new Error('Gemini image-to-image returned no image data');
+    }
+
+    return {
+      imageUrl,
+      thumbnailUrl: response.data.thumbnailUrl || imageUrl,
+      mimeType: response.data.mimeType || mimeTypeFromDataUrl(imageUrl),
+      provider: this.name,
+      model: this.model
+    };
+  }
+
+  async generateWithImages(prompt: string, images: InputImage[], options?: ImageGenerationOptions): Promise<ImageGenerationResult> {
+    const response = await this.client.generateWithImages(
+      prompt,
+      images.map(image => ({ data: image.base64, mimeType: image.mimeType })),
+      GEMINI_IMAGE_MODEL,
+      imageGenerationConfig(options)
+    );
+
+    if (!response.success) {
+      throw response.failure ?? new Error(response.error || 'Gemini multi-image request failed');
+    }
+
+    const imageUrl: string | undefined = response.data?.imageUrl;
+    if (!imageUrl) {
+      throw new Error('Gemini multi-image returned no image data');
+    }
+
+    return {
+      imageUrl,
+      thumbnailUrl: response.data.thumbnailUrl || imageUrl,
+      mimeType: response.data.mimeType || mimeTypeFromDataUrl(imageUrl),
+      provider: this.name,
+      model: this.model
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return this.client.healthCheck();
+  }
+}
+
+export class GeminiTextProvider implements TextProvider {
+  readonly name = 'gemini' as const;
+  readonly model = GEMINI_TEXT_MODEL;
+  private client: GeminiClient;
+
+  constructor(client: GeminiClient = getDefaultGeminiClient()) {
+    this.client = client;
+  }
+
+  async generateText(prompt: string, systemPrompt?: string, options: TextGenerationOptions = {}): Promise<TextGenerationResult> {
+    const response = await this.client.generateText(
+      prompt,
+      systemPrompt,
+      options.responseSchema ? { responseMimeType: 'application/json', responseSchema: options.responseSchema } : undefined
+    );
+
+    if (!response.success) {
+      throw response.failure ?? new Error(response.error || 'Failed to generate text');
+    }
+
+    return {
+      text: response.data?.text || 'No response generated',
+      provider: this.name,
+      model: this.model
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return this.client.healthCheck();
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * AI Providers
+ * Selects the image and text generation backends from configuration (AI_PROVIDER)
+ */
+
+import { config } from '../../../../../config/core';
+import { GeminiImageProvider, GeminiTextProvider } from './geminiProvider';
+import { StubImageProvider, StubTextProvider } from './stubProvider';
+import { AiProviderName, ImageProvider, TextProvider } from './types';
+
+export * from './types';
+export { GeminiImageProvider, GeminiTextProvider } from './geminiProvider';
+export { StubImageProvider, StubTextProvider } from './stubProvider';
+export { GeminiError } from '../../api/geminiClient';
+export type { GeminiErrorCode } from '../../api/geminiClient';
+
+let imageProvider: ImageProvider | null = null;
+let textProvider: TextProvider | null = null;
+
+/**
+ * Create an image provider by name
+ */
+export const createImageProvider = (name: AiProviderName = config.ai.provider): ImageProvider => {
+  switch (name) {
+    case 'gemini':
+      return new GeminiImageProvider();
+    case 'stub':
+      return new StubImageProvider();
+    default:
+      throw new Error(`Unknown AI provider: ${name}`);
+  }
+};
+
+/**
+ * Create a text provider by name
+ */
+export const createTextProvider = (name: AiProviderName = config.ai.provider): TextProvider => {
+  switch (name) {
+    case 'gemini':
+      return new GeminiTextProvider();
+    case 'stub':
+      return new StubTextProvider();
+    default:
+      throw new Error(`Unknown AI provider: ${name}`);
+  }
+};
+
+/**
+ * Get the configured image provider
+ */
+export const getImageProvider = (): ImageProvider => {
+  if (!imageProvider) {
+    imageProvider = createImageProvider();
+    console.log(`[AI Provider] Image provider: ${imageProvider.name} (${imageProvider.model})`);
+  }
+  return imageProvider;
+};
+
+/**
+ * Get the configured text provider
+ */
+export const getTextProvider = (): TextProvider => {
+  if (!textProvider) {
+    textProvider = createTextProvider();
+    console.log(`[AI Provider] Text provider: ${textProvider.name} (${textProvider.model})`);
+  }
+  return textProvider;
+};
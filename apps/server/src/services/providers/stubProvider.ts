@@ -0,0 +1,172 @@
+/**
+ * Stub AI Provider
+ * Offline providers for development, CI and demos - no API key or network needed.
+ * Output is deterministic: the same prompt always yields the same image and text.
+ */
+
+import { createHash } from 'crypto';
+import zlib from 'zlib';
+import { ImageProvider, ImageGenerationOptions, ImageGenerationResult, InputImage, TextProvider, TextGenerationResult } from './types';
+
+const STUB_IMAGE_SIZE = 512;
+const STUB_THUMBNAIL_SIZE = 128;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(buffer: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < buffer.length; i++) {
+    crc = crcTable[(crc ^ buffer[i]!) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData), 0);
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+/**
+ * Pixel size with the given longest edge for a "width:height" aspect ratio; square without one
+ */
+function placeholderSize(longestEdge: number, aspectRatio?: string): { width: number; height: number } {
+  const [ratioWidth, ratioHeight] = (aspectRatio ?? '1:1').split(':').map(Number);
+  if (!ratioWidth || !ratioHeight) {
+    return { width: longestEdge, height: longestEdge };
+  }
+
+  return ratioWidth >= ratioHeight
+    ? { width: longestEdge, height: Math.round((longestEdge * ratioHeight) / ratioWidth) }
+    : { width: Math.round((longestEdge * ratioWidth) / ratioHeight), height: longestEdge };
+}
+
+/**
+ * Encode a diagonal two-colour stripe pattern seeded by the digest as an RGB PNG
+ */
+function renderPlaceholderPng(digest: Buffer, width: number, height: number): Buffer {
+  const background = [digest[0]!, digest[1]!, digest[2]!];
+  const stripe = [digest[3]!, digest[4]!, digest[5]!];
+  const stripeWidth = Math.max(2, Math.round(((8 + (digest[6]! % 24)) * Math.max(width, height)) / STUB_IMAGE_SIZE));
+
+  const rowLength = width * 3 + 1;
+  const raw = Buffer.alloc(rowLength * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * rowLength] = 0; // Filter type: none
+    for (let x = 0; x < width; x++) {
+      const color = Math.floor((x + y) / stripeWidth) % 2 === 0 ? background : stripe;
+      const offset = y * rowLength + 1 + x * 3;
+      raw[offset] = color[0]!;
+      raw[offset + 1] = color[1]!;
+      raw[offset + 2] = color[2]!;
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // Bit depth
+  header[9] = 2; // Colour type: RGB
+  header[10] = 0; // Compression
+  header[11] = 0; // Filter
+  header[12] = 0; // Interlace
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+export class StubImageProvider implements ImageProvider {
+  readonly name = 'stub' as const;
+  readonly model = 'stub-image-v1';
+
+  async generateImage(prompt: string, options?: ImageGenerationOptions): Promise<ImageGenerationResult> {
+    return this.render(prompt, [], options);
+  }
+
+  async generateWithImage(prompt: string, imageBase64: string, _mimeType: string, options?: ImageGenerationOptions): Promise<ImageGenerationResult> {
+    return this.render(prompt, [imageBase64], options);
+  }
+
+  async generateWithImages(prompt: string, images: InputImage[], options?: ImageGenerationOptions): Promise<ImageGenerationResult> {
+    return this.render(prompt, images.map(image => image.base64), options);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Renders at the requested aspect ratio; the size stays small whatever imageSize asks for
+   */
+  private render(prompt: string, inputImages: string[] = [], options: ImageGenerationOptions = {}): ImageGenerationResult {
+    const hash = createHash('sha256').update(prompt);
+    for (const inputImage of inputImages) {
+      hash.update(inputImage);
+    }
+    const digest = hash.digest();
+
+    const imageSize = placeholderSize(STUB_IMAGE_SIZE, options.aspectRatio);
+    const thumbnailSize = placeholderSize(STUB_THUMBNAIL_SIZE, options.aspectRatio);
+    const image = renderPlaceholderPng(digest, imageSize.width, imageSize.height);
+    const thumbnail = renderPlaceholderPng(digest, thumbnailSize.width, thumbnailSize.height);
+
+    return {
+      imageUrl: `data:image/png;base64,${image.toString('base64')}`,
+      thumbnailUrl: `data:image/png;base64,${thumbnail.toString('base64')}`,
+      mimeType: 'image/png',
+      provider: this.name,
+      model: this.model
+    };
+  }
+}
+
+export class StubTextProvider implements TextProvider {
+  readonly name = 'stub' as const;
+  readonly model = 'stub-text-v1';
+
+  /**
+   * Returns a canned prompt optimization in the JSON format the services expect
+   */
+  async generateText(prompt: string, _systemPrompt?: string): Promise<TextGenerationResult> {
+    // Prompts quote the user's input; fall back to the whole prompt otherwise
+    const subject = (prompt.match(/"([^"]+)"/)?.[1] ?? prompt).trim();
+
+    const text = JSON.stringify({
+      optimizedPrompt: `${subject}, full body character portrait, expressive face, detailed clothing and accessories, soft studio lighting, clean background, high quality digital illustration`,
+      reasoning: 'Added framing, lighting and quality modifiers to the original description (offline stub provider).',
+      suggestions: [
+        'Describe the character\'s pose or action',
+        'Specify a color palette',
+        'Add a setting or background'
+      ]
+    }, null, 2);
+
+    return {
+      text,
+      provider: this.name,
+      model: this.model
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * AI Provider Interfaces
+ * Abstractions over the image and text generation backends
+ */
+
+export type AiProviderName = 'gemini' | 'stub';
+
+export interface ImageGenerationResult {
+  imageUrl: string; // Base64 data URL
+  thumbnailUrl: string;
+  mimeType: string;
+  provider: AiProviderName;
+  model: string;
+}
+
+export interface TextGenerationResult {
+  text: string;
+  provider: AiProviderName;
+  model: string;
+}
+
+/**
+ * Structured output request: the provider returns JSON matching `schema`
+ * (an OpenAPI-style object schema as accepted by Gemini's responseSchema)
+ */
+export interface TextGenerationOptions {
+  responseSchema?: Record<string, unknown>;
+}
+
+/**
+ * Requested output shape and size of a generated image; providers may only approximate it
+ */
+export interface ImageGenerationOptions {
+  /** Width:height, e.g. "2:3" */
+  aspectRatio?: string;
+  /** Resolution class of the longest edge; the model's default when omitted */
+  imageSize?: '1K' | '2K';
+}
+
+export interface InputImage {
+  base64: string;
+  mimeType: string;
+}
+
+export interface ImageProvider {
+  readonly name: AiProviderName;
+  readonly model: string;
+
+  /**
+   * Generate an image from a text prompt
+   */
+  generateImage(prompt: string, options?: ImageGenerationOptions): Promise<ImageGenerationResult>;
+
+  /**
+   * Generate an image from a text prompt and an input image (image-to-image)
+   */
+  generateWithImage(prompt: string, imageBase64: string, mimeType: string, options?: ImageGenerationOptions): Promise<ImageGenerationResult>;
+
+  /**
+   * Generate one image from a text prompt and several input images, e.g. composing characters into a scene
+   */
+  generateWithImages(prompt: string, images: InputImage[], options?: ImageGenerationOptions): Promise<ImageGenerationResult>;
+
+  healthCheck(): Promise<boolean>;
+}
+
+export interface TextProvider {
+  readonly name: AiProviderName;
+  readonly model: string;
+
+  /**
+   * Generate text, optionally guided by a system prompt; with a responseSchema the text is JSON
+   */
+  generateText(prompt: string, systemPrompt?: string, options?: TextGenerationOptions): Promise<TextGenerationResult>;
+
+  healthCheck(): Promise<boolean>;
+}
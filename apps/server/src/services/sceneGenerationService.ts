@@ -0,0 +1,264 @@
+/**
+ * Scene Generation Service
+ * Composes one prompt from a scene and its characters, renders it with the multi-image model
+ * using each character's image as a reference, and persists the result on the SceneGeneration
+ */
+
+import { PrismaClient, Prisma, SceneGenerationStatus } from '@prisma/client';
+import { getImageProvider, ImageGenerationResult, ImageProvider, InputImage } from './providers';
+import { getDefaultImagePipeline } from './imagePipeline';
+import { loadImageAsBase64 } from './themeVariantService';
+
+const prisma = new PrismaClient();
+
+/** Upper bound on characters per scene; the image model loses consistency with more references */
+export const MAX_SCENE_CHARACTERS = 5;
+
+export interface ScenePosition {
+  x: number;
+  y: number;
+  scale?: number;
+  rotation?: number;
+}
+
+export interface ScenePromptScene {
+  name: string;
+  description?: string | null;
+  environment?: string | null;
+  setting?: string | null;
+  mood?: string | null;
+  lighting?: string | null;
+}
+
+export interface ScenePromptCharacter {
+  name?: string | null;
+  prompt: string;
+  pose?: string | null;
+  expression?: string | null;
+  action?: string | null;
+  position?: ScenePosition | null;
+  /** Whether the character's image is sent along as a reference */
+  hasReferenceImage: boolean;
+}
+
+/**
+ * Recorded under `metadata` when a generation is created
+ */
+export interface SceneGenerationMetadata {
+  /** Characters in prompt order; the ones with `referenceImageUrl` are sent as reference images in this order */
+  characters: Array<{ id: string; name: string | null; referenceImageUrl: string | null }>;
+}
+
+export interface GenerateSceneOptions {
+  /** Called between generation stages so the caller can report progress */
+  onProgress?: (stage: 'preprocessing' | 'generating' | 'postprocessing', percentage: number) => Promise<void>;
+  /** Checked before the result is written; an aborted generation stores nothing */
+  signal?: AbortSignal;
+}
+
+export interface SceneGenerationResult {
+  generationId: string;
+  sceneId: string;
+  imageUrl: string;
+  thumbnailUrl: string;
+}
+
+/**
+ * Describe a normalized position (x/y from 0 to 1, top-left origin) in words the image model understands
+ */
+export function describePlacement(position?: ScenePosition | null): string | null {
+  if (!position) {
+    return null;
+  }
+
+  const horizontal = position.x < 0.34 ? 'on the left' : position.x > 0.66 ? 'on the right' : 'in the center';
+  const depth = position.y < 0.34 ? 'in the background' : position.y > 0.66 ? 'in the foreground' : 'in the middle ground';
+  const parts = [`${horizontal} of the frame, ${depth}`];
+
+  if (position.scale !== undefined && position.scale > 1.2) {
+    parts.push('appearing larger than the others');
+  } else if (position.scale !== undefined && position.scale < 0.8) {
+    parts.push('appearing smaller than the others');
+  }
+
+  if (position.rotation !== undefined && Math.abs(position.rotation) >= 15) {
+    parts.push(`turned ${position.rotation > 0 ? 'to their left' : 'to their right'}`);
+  }
+
+  return parts.join(', ');
+}
+
+/**
+ * Build the single prompt for a scene: setting first, then one entry per character.
+ * Reference images are numbered in the order they are attached to the request.
+ */
+export function buildScenePrompt(scene: ScenePromptScene, characters: ScenePromptCharacter[]): string {
+  const lines: string[] = [
+    `Create a single cohesive illustration that shows ${characters.length === 1 ? 'the following character' : `the following ${characters.length} characters together`} in one scene.`
+  ];
+
+  if (characters.some(character => character.hasReferenceImage)) {
+    lines.push('Each attached reference image shows one character; keep their face, hair, body and outfit consistent with it. Do not copy the reference backgrounds.');
+  }
+
+  lines.push('', `Scene: ${scene.name}${scene.description ? ` - ${scene.description}` : ''}`);
+
+  const sceneAttributes: Array<[string, string | null | undefined]> = [
+    ['Environment', scene.environment],
+    ['Setting', scene.setting],
+    ['Mood', scene.mood],
+    ['Lighting', scene.lighting]
+  ];
+  for (const [label, value] of sceneAttributes) {
+    if (value) {
+      lines.push(`${label}: ${value}`);
+    }
+  }
+
+  lines.push('', 'Characters:');
+
+  let referenceIndex = 0;
+  characters.forEach((character, index) => {
+    const details: string[] = [];
+    if (character.hasReferenceImage) {
+      referenceIndex += 1;
+      details.push(`shown in reference image ${referenceIndex}`);
+    }
+    if (character.pose) details.push(`pose: ${character.pose}`);
+    if (character.expression) details.push(`expression: ${character.expression}`);
+    if (character.action) details.push(`action: ${character.action}`);
+
+    const placement = describePlacement(character.position);
+    if (placement) details.push(`placement: ${placement}`);
+
+    const label = character.name ? `${character.name}: ` : '';
+    lines.push(`${index + 1}. ${label}${character.prompt}${details.length > 0 ? ` (${details.join('; ')})` : ''}`);
+  });
+
+  lines.push('', 'All characters share the same lighting, perspective and art style, and interact naturally with the environment and each other.');
+
+  return lines.join('\n');
+}
+
+export class SceneGenerationService {
+  private imageProvider: ImageProvider;
+
+  constructor(imageProvider: ImageProvider = getImageProvider()) {
+    this.imageProvider = imageProvider;
+  }
+
+  /**
+   * Render a pending scene generation and store the image
+   */
+  async generateScene(generationId: string, options: GenerateSceneOptions = {}): Promise<SceneGenerationResult> {
+    const { onProgress, signal } = options;
+
+    const generation = await prisma.sceneGeneration.findUnique({ where: { id: generationId } });
+    if (!generation) {
+      throw new Error('Scene generation not found');
+    }
+
+    await prisma.sceneGeneration.update({
+      where: { id: generationId },
+      data: { status: SceneGenerationStatus.PROCESSING, errorMessage: null }
+    });
+
+    const metadata = (generation.metadata as unknown as SceneGenerationMetadata | null) ?? { characters: [] };
+
+    // Reference images in prompt order; the prompt numbers them, so a missing one cannot simply be skipped
+    const referenceImages: InputImage[] = [];
+    for (const character of metadata.characters) {
+      if (!character.referenceImageUrl) continue;
+
+      const image = await loadImageAsBase64(character.referenceImageUrl);
+      if (!image) {
+        throw new Error(`Reference image for character ${character.name || character.id} could not be loaded`);
+      }
+      referenceImages.push({ base64: image.base64, mimeType: image.mimeType });
+    }
+
+    await onProgress?.('generating', 20);
+
+    let result: ImageGenerationResult;
+    let generationMode: 'multi-image' | 'text-to-image';
+
+    if (referenceImages.length > 0) {
+      result = await this.imageProvider.generateWithImages(generation.prompt, referenceImages);
+      generationMode = 'multi-image';
+    } else {
+      result = await this.imageProvider.generateImage(generation.prompt);
+      generationMode = 'text-to-image';
+    }
+
+    console.log(`[Scene Generation] ${generationMode} scene ${generation.sceneId} generated with ${result.provider} (${result.model}), ${referenceImages.length} reference image(s)`);
+
+    if (signal?.aborted) {
+      throw new Error('Scene generation was aborted');
+    }
+
+    if (!result.imageUrl) {
+      throw new Error('Image generation did not return image data');
+    }
+
+    await onProgress?.('postprocessing', 80);
+
+    const storedImage = await getDefaultImagePipeline().processAndStore(result.imageUrl, { prefix: 'scenes' });
+
+    await prisma.sceneGeneration.update({
+      where: { id: generationId },
+      data: {
+        status: SceneGenerationStatus.COMPLETED,
+        imageUrl: storedImage.imageUrl,
+        thumbnailUrl: storedImage.thumbnailUrl,
+        metadata: {
+          ...metadata,
+          image: storedImage.metadata,
+          generationMode,
+          referenceImageCount: referenceImages.length,
+          provider: result.provider,
+          model: result.model
+        } as unknown as Prisma.InputJsonValue,
+        completedAt: new Date()
+      }
+    });
+
+    return {
+      generationId,
+      sceneId: generation.sceneId,
+      imageUrl: storedImage.imageUrl,
+      thumbnailUrl: storedImage.thumbnailUrl
+    };
+  }
+
+  /**
+   * Mark the generation rendered by a job as failed once the job gives up or is cancelled
+   */
+  async markJobFailed(jobId: string, errorMessage: string): Promise<void> {
+    await prisma.sceneGeneration.updateMany({
+      where: {
+        jobId,
+        status: { in: [SceneGenerationStatus.PENDING, SceneGenerationStatus.PROCESSING] }
+      },
+      data: {
+        status: SceneGenerationStatus.FAILED,
+        errorMessage,
+        completedAt: new Date()
+      }
+    });
+  }
+}
+
+// Singleton instance
+let defaultService: SceneGenerationService | null = null;
+
+/**
+ * Get the default scene generation service
+ */
+export const getDefaultSceneGenerationService = (): SceneGenerationService => {
+  if (!defaultService) {
+    defaultService = new SceneGenerationService();
+  }
+  return defaultService;
+};
+
+export default SceneGenerationService;
@@ -0,0 +1,239 @@
+/**
+ * Storage Service
+ * Content-addressed object storage for generated and uploaded images.
+ * The driver is selected by `config.storage.provider` (STORAGE_PROVIDER).
+ */
+
+import { createHash } from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { config } from '../../../../../config/core';
+import { LocalStorageDriver } from './localDriver';
+import { S3StorageDriver } from './s3Driver';
+import { PutObjectOptions, StorageDriver, StorageProviderName, StorageVisibility, StoredObject } from './types';
+
+export * from './types';
+export { LocalStorageDriver, assertValidKey } from './localDriver';
+export { S3StorageDriver } from './s3Driver';
+
+const prisma = new PrismaClient();
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+export interface SaveImageOptions {
+  /** Key prefix, e.g. 'characters' or 'variants' */
+  prefix: string;
+  visibility?: StorageVisibility;
+  /** Used when `image` is a Buffer or bare base64 without a data URL header */
+  contentType?: string;
+}
+
+export interface SavedImage {
+  key: string;
+  url: string;
+  contentType: string;
+  size: number;
+}
+
+/**
+ * Split a data URL (or bare base64) into bytes and content type
+ */
+export function decodeImageData(image: string, fallbackContentType = 'image/png'): { data: Buffer; contentType: string } {
+  const matches = image.match(/^data:([^;]+);base64,(.+)$/);
+  const base64 = matches?.[2] ?? image;
+  const data = Buffer.from(base64, 'base64');
+
+  if (data.length === 0) {
+    throw new Error('Invalid base64 image data');
+  }
+
+  return { data, contentType: matches?.[1] ?? fallbackContentType };
+}
+
+/**
+ * Copy of a value with every inline data: URL replaced by null, for payloads sent to clients and integrations;
+ * stored images are referenced by URL instead
+ */
+export function withoutInlineImages(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.startsWith('data:') ? null : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(withoutInlineImages);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, withoutInlineImages(entry)]));
+  }
+  return value;
+}
+
+export class StorageService {
+  private driver: StorageDriver;
+
+  constructor(driver: StorageDriver) {
+    this.driver = driver;
+  }
+
+  get provider(): StorageProviderName {
+    return this.driver.name;
+  }
+
+  /**
+   * Store an image under a key derived from its content, so identical images share one object.
+   * For private images the returned URL is signed; it keeps resolving to the key after it expires,
+   * so it can be stored and signed again with getSignedUrl when handed out.
+   */
+  async saveImage(image: string | Buffer, options: SaveImageOptions): Promise<SavedImage> {
+    const { data, contentType } = typeof image === 'string'
+      ? decodeImageData(image, options.contentType)
+      : { data: image, contentType: options.contentType ?? 'image/png' };
+
+    const extension = IMAGE_EXTENSIONS[contentType];
+    if (!extension) {
+      throw new Error(`Unsupported image type: ${contentType}`);
+    }
+
+    const digest = createHash('sha256').update(data).digest('hex');
+    const key = `${options.prefix}/${digest}.${extension}`;
+    const visibility = options.visibility ?? 'public';
+
+    await this.driver.put(key, data, {
+      contentType,
+      visibility,
+      // Content-addressed objects never change
+      cacheControl: 'public, max-age=31536000, immutable'
+    });
+
+    return {
+      key,
+      url: await this.getUrl(key, visibility),
+      contentType,
+      size: data.length
+    };
+  }
+
+  async putObject(key: string, data: Buffer, options: PutObjectOptions): Promise<string> {
+    await this.driver.put(key, data, options);
+    return this.getUrl(key, options.visibility ?? 'public');
+  }
+
+  /**
+   * Read an object by key or by a URL this service produced
+   */
+  async getObject(keyOrUrl: string): Promise<StoredObject | null> {
+    const key = this.resolveKey(keyOrUrl);
+    return key ? this.driver.get(key) : null;
+  }
+
+  /**
+   * URL to hand to clients: stable for public objects, signed and expiring for private ones
+   */
+  async getUrl(key: string, visibility: StorageVisibility = 'public'): Promise<string> {
+    return visibility === 'private'
+      ? this.driver.getSignedUrl(key, config.storage.signedUrlTtlSeconds)
+      : this.driver.getPublicUrl(key);
+  }
+
+  async getSignedUrl(keyOrUrl: string, expiresInSeconds: number = config.storage.signedUrlTtlSeconds): Promise<string | null> {
+    const key = this.resolveKey(keyOrUrl);
+    return key ? this.driver.getSignedUrl(key, expiresInSeconds) : null;
+  }
+
+  /**
+   * Delete an object by key or URL. URLs this service does not own (data URLs, external links) are ignored.
+   */
+  async delete(keyOrUrl: string): Promise<void> {
+    const key = this.resolveKey(keyOrUrl);
+    if (key) {
+      await this.driver.delete(key);
+    }
+  }
+
+  /**
+   * Delete images once nothing references them any more, together with the files derived
+   * from them (thumbnails). Call after the owning rows are gone: content-addressed objects
+   * can be shared by several characters, variants or scene generations.
+   * References are matched by key, so a public URL, a signed URL or the bare key of the same object all count.
+   */
+  async releaseImages(images: Array<{ url: string | null; derived?: string[] }>): Promise<void> {
+    for (const { url, derived = [] } of images) {
+      if (!url) continue;
+
+      try {
+        const key = this.resolveKey(url);
+        const matches = key ? { contains: key } : { equals: url };
+        const [characterRefs, variantRefs, sceneRefs] = await Promise.all([
+          prisma.character.count({ where: { OR: [{ imageUrl: matches }, { thumbnailUrl: matches }, { referenceImageUrl: matches }] } }),
+          prisma.themeVariant.count({ where: { OR: [{ imageUrl: matches }, { thumbnailUrl: matches }] } }),
+          prisma.sceneGeneration.count({ where: { OR: [{ imageUrl: matches }, { thumbnailUrl: matches }] } })
+        ]);
+
+        if (characterRefs + variantRefs + sceneRefs > 0) {
+          continue;
+        }
+
+        for (const objectUrl of new Set([url, ...derived])) {
+          await this.delete(objectUrl);
+        }
+      } catch (error) {
+        console.warn(`[Storage] Failed to release ${url}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  /**
+   * Map a key or one of our URLs to a key; null for anything else
+   */
+  resolveKey(keyOrUrl: string): string | null {
+    const fromUrl = this.driver.keyFromUrl(keyOrUrl);
+    if (fromUrl) {
+      return fromUrl;
+    }
+    if (/^[a-z][a-z0-9+.-]*:/i.test(keyOrUrl) || keyOrUrl.startsWith('/')) {
+      return null;
+    }
+    return keyOrUrl;
+  }
+
+  getDriver(): StorageDriver {
+    return this.driver;
+  }
+}
+
+/**
+ * Create a storage driver by name
+ */
+export const createStorageDriver = (name: StorageProviderName = config.storage.provider): StorageDriver => {
+  switch (name) {
+    case 'local':
+      return new LocalStorageDriver({
+        rootDir: config.storage.uploadPath,
+        signingSecret: config.storage.signingSecret
+      });
+    case 's3':
+      if (!config.storage.s3) {
+        throw new Error('S3 storage requires S3_BUCKET to be set');
+      }
+      return new S3StorageDriver(config.storage.s3);
+    default:
+      throw new Error(`Unknown storage provider: ${name}`);
+  }
+};
+
+let storageService: StorageService | null = null;
+
+/**
+ * Get the configured storage service
+ */
+export const getStorageService = (): StorageService => {
+  if (!storageService) {
+    storageService = new StorageService(createStorageDriver());
+    console.log(`[Storage] Provider: ${storageService.provider}`);
+  }
+  return storageService;
+};
@@ -0,0 +1,140 @@
+/**
+ * Local Disk Storage Driver
+ * Public objects live under the upload directory and are served by express.static at /uploads.
+ * Private objects live under a dot-directory that express.static never serves; they are
+ * reachable only through HMAC-signed /api/v1/files URLs.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { PutObjectOptions, StorageDriver, StoredObject } from './types';
+
+const PRIVATE_DIR = '.private';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.json': 'application/json'
+};
+
+export interface LocalStorageOptions {
+  rootDir: string;
+  signingSecret: string;
+  /** URL prefix express.static serves the root directory under */
+  publicBaseUrl?: string;
+  /** Route that serves signed URLs */
+  signedBaseUrl?: string;
+}
+
+/**
+ * Reject keys that could escape the storage root
+ */
+export function assertValidKey(key: string): void {
+  if (!/^[A-Za-z0-9][A-Za-z0-9/_.-]*$/.test(key) || key.split('/').some(segment => segment === '..' || segment === '')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local' as const;
+  private rootDir: string;
+  private signingSecret: string;
+  private publicBaseUrl: string;
+  private signedBaseUrl: string;
+
+  constructor(options: LocalStorageOptions) {
+    this.rootDir = path.resolve(process.cwd(), options.rootDir);
+    this.signingSecret = options.signingSecret;
+    this.publicBaseUrl = options.publicBaseUrl ?? '/uploads';
+    this.signedBaseUrl = options.signedBaseUrl ?? '/api/v1/files';
+  }
+
+  async put(key: string, data: Buffer, options: PutObjectOptions): Promise<void> {
+    const filePath = this.resolvePath(key, options.visibility === 'private');
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+    // A copy with the other visibility is left alone: content-addressed keys are shared by every
+    // record with the same bytes, and those records may still link to it
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const filePath = await this.findPath(key);
+    if (!filePath) {
+      return null;
+    }
+
+    return {
+      data: await fs.promises.readFile(filePath),
+      contentType: CONTENT_TYPES[path.extname(key).toLowerCase()] ?? 'application/octet-stream'
+    };
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.findPath(key)) !== null;
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolvePath(key, false), { force: true });
+    await fs.promises.rm(this.resolvePath(key, true), { force: true });
+  }
+
+  getPublicUrl(key: string): string {
+    assertValidKey(key);
+    return `${this.publicBaseUrl}/${key}`;
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    assertValidKey(key);
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    return `${this.signedBaseUrl}/${key}?expires=${expires}&signature=${this.sign(key, expires)}`;
+  }
+
+  keyFromUrl(url: string): string | null {
+    for (const prefix of [`${this.publicBaseUrl}/`, `${this.signedBaseUrl}/`]) {
+      if (url.startsWith(prefix)) {
+        return url.slice(prefix.length).split('?')[0] || null;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check a signature produced by getSignedUrl
+   */
+  verifySignedUrl(key: string, expires: number, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(key, expires), 'hex');
+    const provided = Buffer.from(signature, 'hex');
+    return expected.length === provided.length && timingSafeEqual(expected, provided);
+  }
+
+  private sign(key: string, expires: number): string {
+    return createHmac('sha256', this.signingSecret).update(`${key}\n${expires}`).digest('hex');
+  }
+
+  private resolvePath(key: string, isPrivate: boolean): string {
+    assertValidKey(key);
+    return isPrivate
+      ? path.join(this.rootDir, PRIVATE_DIR, key)
+      : path.join(this.rootDir, key);
+  }
+
+  private async findPath(key: string): Promise<string | null> {
+    for (const candidate of [this.resolvePath(key, false), this.resolvePath(key, true)]) {
+      try {
+        await fs.promises.access(candidate);
+        return candidate;
+      } catch {
+        // Try the next location
+      }
+    }
+    return null;
+  }
+}
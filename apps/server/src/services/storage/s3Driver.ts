@@ -0,0 +1,237 @@
+/**
+ * S3 Storage Driver
+ * Works with AWS S3 and S3-compatible stores (MinIO, Cloudflare R2, ...).
+ * Requests are signed with AWS Signature Version 4; no AWS SDK required.
+ */
+
+import { createHash, createHmac } from 'crypto';
+import fetch from 'node-fetch';
+import { PutObjectOptions, StorageDriver, StoredObject } from './types';
+import { assertValidKey } from './localDriver';
+
+export interface S3StorageOptions {
+  /** Defaults to https://s3.<region>.amazonaws.com */
+  endpoint?: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Address the bucket as a path segment instead of a subdomain (needed for most self-hosted stores) */
+  forcePathStyle?: boolean;
+  /** Base URL public objects are served from (CDN or public bucket); defaults to the bucket URL */
+  publicUrl?: string;
+}
+
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+const sha256Hex = (data: string | Buffer): string => createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: string | Buffer, data: string): Buffer => createHmac('sha256', key).update(data).digest();
+
+/**
+ * RFC 3986 encoding as required by SigV4 (encodeURIComponent leaves !'()* unescaped)
+ */
+const encodeRfc3986 = (value: string): string =>
+  encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const encodeKey = (key: string): string => key.split('/').map(encodeRfc3986).join('/');
+
+/**
+ * 20130524T000000Z
+ */
+const toAmzDate = (date: Date): string => date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3' as const;
+  private options: S3StorageOptions;
+  private endpoint: URL;
+
+  constructor(options: S3StorageOptions) {
+    this.options = options;
+    this.endpoint = new URL(options.endpoint || `https://s3.${options.region}.amazonaws.com`);
+  }
+
+  async put(key: string, data: Buffer, options: PutObjectOptions): Promise<void> {
+    const headers: Record<string, string> = {
+      'content-type': options.contentType,
+      'content-length': String(data.length)
+    };
+    if (options.cacheControl) {
+      headers['cache-control'] = options.cacheControl;
+    }
+    // Buckets may have ACLs disabled; only ask for public-read when the object must be public
+    if (options.visibility === 'public') {
+      headers['x-amz-acl'] = 'public-read';
+    }
+
+    const response = await this.request('PUT', key, headers, data);
+    if (!response.ok) {
+      throw new Error(`S3 PUT ${key} failed: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`S3 GET ${key} failed: ${response.status} ${await response.text()}`);
+    }
+
+    return {
+      data: await response.buffer(),
+      contentType: response.headers.get('content-type') || 'application/octet-stream'
+    };
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const response = await this.request('HEAD', key);
+    if (response.status === 404) {
+      return false;
+    }
+    if (!response.ok) {
+      throw new Error(`S3 HEAD ${key} failed: ${response.status}`);
+    }
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    // S3 answers 204 for missing keys too; some compatible stores answer 404
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 DELETE ${key} failed: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  getPublicUrl(key: string): string {
+    assertValidKey(key);
+    return `${this.publicBaseUrl()}/${encodeKey(key)}`;
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number, now: Date = new Date()): Promise<string> {
+    const url = this.objectUrl(key);
+    const amzDate = toAmzDate(now);
+    const scope = this.credentialScope(amzDate);
+
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.options.accessKeyId}/${scope}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(Math.min(expiresInSeconds, 7 * 24 * 60 * 60)),
+      'X-Amz-SignedHeaders': 'host'
+    };
+
+    const canonicalQuery = this.canonicalQuery(query);
+    const canonicalRequest = [
+      'GET',
+      url.pathname,
+      canonicalQuery,
+      `host:${url.host}\n`,
+      'host',
+      UNSIGNED_PAYLOAD
+    ].join('\n');
+
+    const signature = this.signature(amzDate, canonicalRequest);
+    return `${url.origin}${url.pathname}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+  }
+
+  keyFromUrl(url: string): string | null {
+    // Public URLs may point at a CDN; signed URLs always point at the bucket
+    for (const base of [`${this.publicBaseUrl()}/`, this.bucketUrl()]) {
+      if (url.startsWith(base)) {
+        const encoded = url.slice(base.length).split('?')[0];
+        return encoded ? decodeURIComponent(encoded) : null;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Send a request signed with Authorization header SigV4
+   */
+  private async request(method: string, key: string, extraHeaders: Record<string, string> = {}, body?: Buffer) {
+    const url = this.objectUrl(key);
+    const amzDate = toAmzDate(new Date());
+    const payloadHash = body ? sha256Hex(body) : sha256Hex('');
+
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    };
+
+    const signedHeaderNames = Object.keys(headers).map(name => name.toLowerCase()).sort();
+    const canonicalHeaders = signedHeaderNames
+      .map(name => `${name}:${String(headers[name]).trim().replace(/\s+/g, ' ')}\n`)
+      .join('');
+    const signedHeaders = signedHeaderNames.join(';');
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      canonicalHeaders,
+      signedHeaders,
+      payloadHash
+    ].join('\n');
+
+    const signature = this.signature(amzDate, canonicalRequest);
+    const { host: _host, ...sendHeaders } = headers;
+
+    return fetch(url.toString(), {
+      method,
+      headers: {
+        ...sendHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${this.credentialScope(amzDate)}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+      },
+      body
+    });
+  }
+
+  private signature(amzDate: string, canonicalRequest: string): string {
+    const date = amzDate.slice(0, 8);
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      this.credentialScope(amzDate),
+      sha256Hex(canonicalRequest)
+    ].join('\n');
+
+    const dateKey = hmac(`AWS4${this.options.secretAccessKey}`, date);
+    const regionKey = hmac(dateKey, this.options.region);
+    const serviceKey = hmac(regionKey, 's3');
+    const signingKey = hmac(serviceKey, 'aws4_request');
+
+    return createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  }
+
+  private credentialScope(amzDate: string): string {
+    return `${amzDate.slice(0, 8)}/${this.options.region}/s3/aws4_request`;
+  }
+
+  private canonicalQuery(query: Record<string, string>): string {
+    return Object.keys(query)
+      .sort()
+      .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name]!)}`)
+      .join('&');
+  }
+
+  private bucketUrl(): string {
+    const base = this.endpoint.origin + this.endpoint.pathname.replace(/\/+$/, '');
+    if (this.options.forcePathStyle) {
+      return `${base}/${this.options.bucket}/`;
+    }
+    return `${this.endpoint.protocol}//${this.options.bucket}.${this.endpoint.host}${this.endpoint.pathname.replace(/\/+$/, '')}/`;
+  }
+
+  private publicBaseUrl(): string {
+    return (this.options.publicUrl ?? this.bucketUrl()).replace(/\/+$/, '');
+  }
+
+  private objectUrl(key: string): URL {
+    assertValidKey(key);
+    return new URL(`${this.bucketUrl()}${encodeKey(key)}`);
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Storage Driver Interfaces
+ * Abstractions over where uploaded and generated files are kept
+ */
+
+export type StorageProviderName = 'local' | 's3';
+
+export type StorageVisibility = 'public' | 'private';
+
+export interface PutObjectOptions {
+  contentType: string;
+  /** Private objects are only reachable through signed URLs */
+  visibility?: StorageVisibility;
+  cacheControl?: string;
+}
+
+export interface StoredObject {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface StorageDriver {
+  readonly name: StorageProviderName;
+
+  put(key: string, data: Buffer, options: PutObjectOptions): Promise<void>;
+
+  /**
+   * Read an object; resolves to null if it does not exist
+   */
+  get(key: string): Promise<StoredObject | null>;
+
+  exists(key: string): Promise<boolean>;
+
+  /**
+   * Delete an object; deleting a missing object is not an error
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Stable URL of a public object
+   */
+  getPublicUrl(key: string): string;
+
+  /**
+   * Time-limited URL for any object, public or private
+   */
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+
+  /**
+   * Map a URL produced by getPublicUrl or getSignedUrl (expired or not) back to its key; null for foreign URLs
+   */
+  keyFromUrl(url: string): string | null;
+}
@@ -0,0 +1,362 @@
+/**
+ * Theme Variant Generation Service
+ * 主题变体生成服务 - generates variant images for a theme and persists them
+ */
+
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import fetch from 'node-fetch';
+import { PrismaClient } from '@prisma/client';
+import { CharacterVariant, VariantAnchors, VariantBatchItem } from '../../../../shared/types/theme';
+import { PhysicalTraits } from '../types/character';
+import { GeminiError, getImageProvider, ImageGenerationResult, ImageProvider, InputImage } from './providers';
+import { getStorageService } from './storage';
+import { getDefaultImagePipeline } from './imagePipeline';
+import { formatCharacterSheet } from './geminiTextService';
+import { applyStylePreset } from './nanoBananaClient';
+import { StylePromptFragments } from '../types/styles';
+
+const prisma = new PrismaClient();
+
+/** Pinned variants per character sent along with the canonical image; more references dilute each other */
+export const MAX_IDENTITY_ANCHORS = 3;
+
+export interface GenerateVariantInput {
+  themeId: string;
+  prompt: string;
+  metadata?: any;
+  /** Style preset wrapped around the variant instruction */
+  stylePreset?: StylePromptFragments | null;
+}
+
+export interface GenerateVariantOptions {
+  /** Called between generation stages so the caller can report progress */
+  onProgress?: (stage: 'preprocessing' | 'generating' | 'postprocessing', percentage: number) => Promise<void>;
+  /** Checked before anything is written; an aborted generation leaves no variant behind */
+  signal?: AbortSignal;
+}
+
+export interface GenerateVariantBatchOptions {
+  /** Prompts generated at the same time */
+  concurrency: number;
+  /** Once aborted, prompts that have not started are reported as failed instead of generated */
+  signal?: AbortSignal;
+  /** Called after each prompt finishes, successfully or not */
+  onItemSettled?: (item: VariantBatchItem, settled: VariantBatchItem[]) => Promise<void>;
+}
+
+/**
+ * Wrap a variant instruction so the model keeps the character's identity from the attached images and sheet.
+ * With an input image, image 1 is the image to edit and the rest are identity references;
+ * otherwise every attached image is an identity reference, the canonical character image (if any) first.
+ */
+export function buildAnchoredVariantPrompt(
+  prompt: string,
+  options: { hasInputImage: boolean; hasCharacterImage: boolean; referenceCount: number; characterSheet: string[] }
+): string {
+  const { hasInputImage, hasCharacterImage, referenceCount, characterSheet } = options;
+  const lines: string[] = [];
+
+  if (hasInputImage) {
+    lines.push(`Edit attached image 1: ${prompt}`);
+    if (referenceCount > 0) {
+      const range = referenceCount === 1 ? 'Image 2 shows' : `Images 2-${referenceCount + 1} show`;
+      lines.push(`${range} the same character; keep their face, hair, body proportions and distinguishing marks identical to it.`);
+    }
+  } else if (referenceCount > 0) {
+    const range = referenceCount === 1 ? 'The attached image shows' : `The ${referenceCount} attached images show`;
+    lines.push(`${range} one character${referenceCount > 1 && hasCharacterImage ? '; image 1 is their canonical appearance' : ''}.`);
+    lines.push(`Create a new image of this exact character: ${prompt}`);
+    lines.push('Keep their face, hair, body proportions and distinguishing marks identical; only change what the instruction asks for.');
+  } else {
+    lines.push(prompt);
+  }
+
+  if (characterSheet.length > 0) {
+    lines.push('', 'Character facts that must stay consistent:', ...characterSheet.map(line => `- ${line}`));
+  }
+
+  return lines.join('\n');
+}
+
+export async function loadImageAsBase64(imageReference?: string): Promise<{ base64: string; mimeType: string } | null> {
+  if (!imageReference) {
+    return null;
+  }
+
+  try {
+    if (imageReference.startsWith('data:')) {
+      const matches = imageReference.match(/^data:([^;]+);base64,(.+)$/);
+      if (!matches || !matches[1] || !matches[2]) {
+        throw new Error('Invalid data URL format');
+      }
+      return { base64: matches[2], mimeType: matches[1] };
+    }
+
+    // Objects in our own storage are read through the driver, so this works for private objects
+    // and on instances that do not share a disk
+    const storage = getStorageService();
+    if (storage.getDriver().keyFromUrl(imageReference)) {
+      const stored = await storage.getObject(imageReference);
+      if (!stored) {
+        throw new Error(`Stored image not found: ${imageReference}`);
+      }
+      return { base64: stored.data.toString('base64'), mimeType: stored.contentType };
+    }
+
+    if (imageReference.startsWith('http://') || imageReference.startsWith('https://')) {
+      const response = await fetch(imageReference);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch remote image: ${response.statusText}`);
+      }
+      const arrayBuffer = await response.arrayBuffer();
+      let mimeType = 'image/jpeg';
+      const headerContentType = response.headers.get('content-type');
+      if (headerContentType) {
+        const [primaryType] = headerContentType.split(';');
+        if (primaryType) {
+          mimeType = primaryType;
+        }
+      }
+      return { base64: Buffer.from(arrayBuffer).toString('base64'), mimeType };
+    }
+
+    // Treat as local path (relative or absolute)
+    const normalizedPath = imageReference.startsWith('/')
+      ? path.resolve(process.cwd(), imageReference.slice(1))
+      : path.resolve(process.cwd(), imageReference);
+
+    if (!fs.existsSync(normalizedPath)) {
+      throw new Error(`Local image not found at ${normalizedPath}`);
+    }
+
+    const fileBuffer = fs.readFileSync(normalizedPath);
+    const ext = path.extname(normalizedPath).toLowerCase();
+    let mimeType = 'image/png';
+    if (ext === '.jpg' || ext === '.jpeg') mimeType = 'image/jpeg';
+    else if (ext === '.webp') mimeType = 'image/webp';
+    else if (ext === '.gif') mimeType = 'image/gif';
+
+    return { base64: fileBuffer.toString('base64'), mimeType };
+  } catch (error) {
+    console.warn(`[Variant Generation] Failed to load base image (${imageReference}):`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+export class ThemeVariantService {
+  private imageProvider: ImageProvider;
+
+  constructor(imageProvider: ImageProvider = getImageProvider()) {
+    this.imageProvider = imageProvider;
+  }
+
+  /**
+   * Generate a variant image for a theme and store it
+   * 生成变体图像并保存
+   */
+  async generateVariant(input: GenerateVariantInput, options: GenerateVariantOptions = {}): Promise<CharacterVariant> {
+    const { themeId, prompt, metadata, stylePreset } = input;
+    const { onProgress, signal } = options;
+
+    const theme = await prisma.characterTheme.findUnique({
+      where: { id: themeId },
+      include: { character: true }
+    });
+
+    if (!theme) {
+      throw new Error('Theme not found');
+    }
+
+    console.log(`[Variant Generation] Generating variant for theme ${themeId}`);
+    console.log(`[Variant Generation] Prompt: ${prompt}`);
+    console.log('[Variant Generation] Incoming metadata:', metadata);
+
+    const { character } = theme;
+    const anchorVariants = await prisma.themeVariant.findMany({
+      where: { characterId: character.id, isAnchor: true },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_IDENTITY_ANCHORS,
+      select: { id: true, imageUrl: true }
+    });
+
+    // An explicit input image is what gets edited; identity always comes from the canonical image and pinned anchors.
+    // Older clients send the character image itself as inputImage, which is already the first reference.
+    const inputImageUrl = metadata?.inputImage && metadata.inputImage !== character.imageUrl ? metadata.inputImage : undefined;
+    const inputImage = await loadImageAsBase64(inputImageUrl);
+
+    const references: InputImage[] = [];
+    const anchors: VariantAnchors = {
+      characterImageUrl: null,
+      variantIds: [],
+      attributes: formatCharacterSheet({
+        ...character,
+        physicalTraits: character.physicalTraits as PhysicalTraits | null
+      }),
+      inputImage: !!inputImage
+    };
+
+    const characterImage = await loadImageAsBase64(character.imageUrl ?? undefined);
+    if (characterImage) {
+      references.push(characterImage);
+      anchors.characterImageUrl = character.imageUrl;
+    }
+    for (const anchor of anchorVariants) {
+      const anchorImage = await loadImageAsBase64(anchor.imageUrl ?? undefined);
+      if (anchorImage) {
+        references.push(anchorImage);
+        anchors.variantIds.push(anchor.id);
+      }
+    }
+
+    const images = inputImage ? [inputImage, ...references] : references;
+    const anchoredPrompt = buildAnchoredVariantPrompt(applyStylePreset(prompt, stylePreset), {
+      hasInputImage: !!inputImage,
+      hasCharacterImage: !!anchors.characterImageUrl,
+      referenceCount: references.length,
+      characterSheet: anchors.attributes
+    });
+
+    let result: ImageGenerationResult;
+    let generationMode: 'multi-image' | 'image-to-image' | 'text-to-image';
+
+    await onProgress?.('generating', 20);
+
+    if (images.length > 1) {
+      console.log(`[Variant Generation] Using ${images.length} images (${anchors.variantIds.length} pinned anchor(s))`);
+      result = await this.imageProvider.generateWithImages(anchoredPrompt, images);
+      generationMode = 'multi-image';
+    } else if (images.length === 1) {
+      result = await this.imageProvider.generateWithImage(anchoredPrompt, images[0]!.base64, images[0]!.mimeType);
+      generationMode = 'image-to-image';
+    } else {
+      result = await this.imageProvider.generateImage(anchoredPrompt);
+      generationMode = 'text-to-image';
+    }
+
+    console.log(`[Variant Generation] ${generationMode} generated with ${result.provider} (${result.model})`);
+
+    if (signal?.aborted) {
+      throw new Error('Variant generation was aborted');
+    }
+
+    await onProgress?.('postprocessing', 80);
+
+    // Generate variant ID
+    const variantId = `variant_${Date.now()}_${randomUUID().slice(0, 8)}`;
+
+    if (!result.imageUrl) {
+      throw new Error('Image generation did not return image data');
+    }
+
+    // Normalize the image, render thumbnails and store everything
+    const storedImage = await getDefaultImagePipeline().processAndStore(result.imageUrl, { prefix: 'variants' });
+
+    // Create variant in database
+    const dbVariant = await prisma.themeVariant.create({
+      data: {
+        id: variantId,
+        themeId,
+        characterId: theme.characterId,
+        prompt,
+        imageUrl: storedImage.imageUrl,
+        thumbnailUrl: storedImage.thumbnailUrl,
+        metadata: {
+          ...(metadata || {}),
+          ...(stylePreset && { style: stylePreset.key }),
+          image: storedImage.metadata,
+          anchors,
+          generationMode,
+          provider: result.provider,
+          model: result.model
+        }
+      }
+    });
+
+    console.log(`[Variant Generation] Variant ${dbVariant.id} generated successfully`);
+
+    return {
+      id: dbVariant.id,
+      themeId: dbVariant.themeId,
+      prompt: dbVariant.prompt,
+      imageUrl: dbVariant.imageUrl || '',
+      thumbnailUrl: dbVariant.thumbnailUrl || undefined,
+      isAnchor: dbVariant.isAnchor,
+      metadata: {
+        ...(dbVariant.metadata as any),
+        generationMode
+      },
+      createdAt: dbVariant.createdAt
+    };
+  }
+
+  /**
+   * Generate one variant per prompt with at most `concurrency` generations in flight.
+   * A failing prompt does not stop the others; every prompt gets an item in input order.
+   * 批量生成变体 - 单个失败不影响其他
+   */
+  async generateVariantBatch(
+    input: { themeId: string; prompts: string[]; metadata?: any; stylePreset?: StylePromptFragments | null },
+    options: GenerateVariantBatchOptions
+  ): Promise<VariantBatchItem[]> {
+    const { themeId, prompts, metadata, stylePreset } = input;
+    const { concurrency, signal, onItemSettled } = options;
+    const items: VariantBatchItem[] = new Array(prompts.length);
+    const settled: VariantBatchItem[] = [];
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < prompts.length) {
+        const index = next++;
+        const prompt = prompts[index]!;
+        let item: VariantBatchItem;
+
+        if (signal?.aborted) {
+          item = { index, prompt, success: false, error: { code: 'ABORTED', message: 'Batch was aborted before this prompt started' } };
+        } else {
+          try {
+            const variant = await this.generateVariant({ themeId, prompt, metadata: { ...(metadata || {}), batchIndex: index }, stylePreset }, { signal });
+            item = { index, prompt, success: true, variant };
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            console.error(`[Variant Generation] Batch item ${index} for theme ${themeId} failed:`, message);
+            item = {
+              index,
+              prompt,
+              success: false,
+              error: {
+                code: error instanceof GeminiError ? error.code : message === 'Theme not found' ? 'NOT_FOUND' : 'GENERATION_FAILED',
+                message,
+                ...(error instanceof GeminiError && error.code === 'CONTENT_BLOCKED' && { details: { categories: error.details?.categories } })
+              }
+            };
+          }
+        }
+
+        items[index] = item;
+        settled.push(item);
+        await onItemSettled?.(item, settled);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), prompts.length) }, () => worker()));
+
+    return items;
+  }
+}
+
+// Singleton instance
+let defaultService: ThemeVariantService | null = null;
+
+/**
+ * Get the default theme variant service
+ */
+export const getDefaultThemeVariantService = (): ThemeVariantService => {
+  if (!defaultService) {
+    defaultService = new ThemeVariantService();
+  }
+  return defaultService;
+};
+
+export default ThemeVariantService;
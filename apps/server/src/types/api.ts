@@ -4,6 +4,8 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
+import { CharacterVisibility } from '@prisma/client';
+import { CharacterAttributes } from './character';
 
 // Base API Response Types
 export interface ApiResponse<T = any> {
@@ -58,18 +60,26 @@ export interface User {
   id: string;
   auth0Id: string | null;
   email: string;
+  emailVerified: boolean;
   name: string | null;
 }
 
 // Character Types (basic structure for API endpoints)
-export interface Character {
+export interface Character extends CharacterAttributes {
   id: string;
   name: string;
   description: string;
   enhancedDescription?: string;
   imageUrl?: string;
   thumbnailUrl?: string;
+  referenceImageUrl?: string; // Uploaded photo that image generation is conditioned on
   userId: string;
+  visibility: CharacterVisibility;
+  shareUrl?: string; // Set while the character is UNLISTED or PUBLIC
+  remixedFromId?: string; // Character this one was remixed from
+  likeCount?: number;
+  favoriteCount?: number;
+  isFavorite?: boolean; // Favorited by the owner
   tags: string[];
   createdAt: string;
   updatedAt: string;
@@ -112,9 +122,12 @@ export interface PaginatedResponse<T> {
 export interface SearchParams {
   query?: string;
   tags?: string[];
+  tagMode?: 'all' | 'any';
   userId?: string;
   dateFrom?: string;
   dateTo?: string;
+  sortBy?: 'createdAt' | 'updatedAt' | 'name';
+  sortOrder?: 'asc' | 'desc';
 }
 
 // API Route Configuration
@@ -336,6 +349,8 @@ export const API_CONSTANTS = {
     VALIDATION_ERROR: 'VALIDATION_ERROR',
     NOT_FOUND: 'NOT_FOUND',
     UNAUTHORIZED: 'UNAUTHORIZED',
+    TOKEN_EXPIRED: 'TOKEN_EXPIRED',
+    INVALID_TOKEN: 'INVALID_TOKEN',
     FORBIDDEN: 'FORBIDDEN',
     RATE_LIMITED: 'RATE_LIMITED',
     INTERNAL_ERROR: 'INTERNAL_ERROR',
@@ -14,6 +14,18 @@ export interface PhysicalTraits {
   distinguishingMarks?: string[];
 }
 
+// Structured character sheet persisted on the character and fed into prompt building;
+// null clears a field on update
+export interface CharacterAttributes {
+  age?: string | null;
+  gender?: string | null;
+  occupation?: string | null;
+  personality?: string[];
+  physicalTraits?: PhysicalTraits | null;
+  clothing?: string | null;
+  background?: string | null;
+}
+
 // Main Character interface based on Prisma model with comprehensive attributes
 export interface Character {
   id: string;
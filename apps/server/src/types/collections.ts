@@ -8,7 +8,8 @@ export interface CharacterCollection {
   name: string;
   description?: string;
   isPublic: boolean;
-  coverImageUrl?: string;
+  coverCharacterId?: string;
+  coverImageUrl?: string; // Image of the cover character
   createdAt: Date;
   updatedAt: Date;
   user?: {
@@ -22,6 +23,7 @@ export interface CharacterCollectionItem {
   id: string;
   collectionId: string;
   characterId: string;
+  position: number;
   addedAt: Date;
   collection?: CharacterCollection;
   character?: Character;
@@ -32,14 +34,23 @@ export interface CreateCollectionData {
   name: string;
   description?: string;
   isPublic?: boolean;
-  coverImageUrl?: string;
+  coverCharacterId?: string; // Must be one of the collection's characters
+  characterIds?: string[]; // Initial members, in order
 }
 
 export interface UpdateCollectionData {
   name?: string;
-  description?: string;
+  description?: string | null;
   isPublic?: boolean;
-  coverImageUrl?: string;
+  coverCharacterId?: string | null; // null clears the cover
+}
+
+// Lightweight character summary shown on collection cards
+export interface CollectionPreviewCharacter {
+  id: string;
+  name?: string;
+  imageUrl?: string;
+  thumbnailUrl?: string;
 }
 
 export interface CollectionDisplayData {
@@ -47,6 +58,7 @@ export interface CollectionDisplayData {
   name: string;
   description?: string;
   isPublic: boolean;
+  coverCharacterId?: string;
   coverImageUrl?: string;
   characterCount: number;
   author?: {
@@ -54,7 +66,8 @@ export interface CollectionDisplayData {
     name?: string;
   };
   createdAt: Date;
-  previewCharacters: Character[];
+  updatedAt: Date;
+  previewCharacters: CollectionPreviewCharacter[];
 }
 
 // Scene interfaces
@@ -67,6 +80,7 @@ export interface Scene {
   setting?: string;
   mood?: string;
   lighting?: string;
+  imageUrl?: string; // Latest completed generation
   thumbnailUrl?: string;
   isPublic: boolean;
   createdAt: Date;
@@ -103,6 +117,10 @@ export interface SceneGeneration {
   sceneId: string;
   status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
   prompt: string;
+  jobId?: string;
+  imageUrl?: string;
+  thumbnailUrl?: string;
+  metadata?: Record<string, any>;
   errorMessage?: string;
   completedAt?: Date;
   createdAt: Date;
@@ -127,11 +145,11 @@ export interface CreateSceneData {
 
 export interface UpdateSceneData {
   name?: string;
-  description?: string;
-  environment?: string;
-  setting?: string;
-  mood?: string;
-  lighting?: string;
+  description?: string | null;
+  environment?: string | null;
+  setting?: string | null;
+  mood?: string | null;
+  lighting?: string | null;
   isPublic?: boolean;
 }
 
@@ -148,6 +166,13 @@ export interface AddCharacterToSceneData {
   };
 }
 
+export interface UpdateSceneCharacterData {
+  pose?: string | null;
+  expression?: string | null;
+  action?: string | null;
+  position?: AddCharacterToSceneData['position'] | null;
+}
+
 // Scene attribute presets
 export interface SceneAttributePresets {
   environments: string[];
@@ -177,7 +202,8 @@ export interface SceneDisplayData {
     name?: string;
   };
   createdAt: Date;
-  previewCharacters: Character[];
+  updatedAt: Date;
+  previewCharacters: CollectionPreviewCharacter[];
 }
 
 // Workflow types for character → library → scene flow
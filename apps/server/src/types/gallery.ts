@@ -1,5 +1,5 @@
 // Gallery-specific types for layout and interaction
-import { CharacterDisplayData, CharacterFilters, CharacterSortOptions, CharacterActions } from './character';
+import { CharacterAttributes, CharacterDisplayData, CharacterFilters, CharacterSortOptions, CharacterActions } from './character';
 
 // Gallery view modes
 export type GalleryView = 'grid' | 'list';
@@ -147,4 +147,48 @@ export interface GalleryContextData {
   config: GalleryConfig;
   theme: GalleryTheme;
   actions: GalleryActions;
-}
\ No newline at end of file
+}
+
+// Public gallery API
+
+export type GallerySort = 'newest' | 'most-liked';
+
+export const GALLERY_SORTS: GallerySort[] = ['newest', 'most-liked'];
+
+// Character as other users see it: no prompt, reference photo, metadata or owner email
+export interface PublicCharacter extends CharacterAttributes {
+  id: string;
+  name: string;
+  description: string;
+  imageUrl?: string;
+  thumbnailUrl?: string;
+  tags: string[];
+  likeCount: number;
+  favoriteCount: number;
+  remixCount: number;
+  remixedFromId?: string; // Set while the original still exists
+  author: {
+    id: string;
+    name?: string;
+  };
+  isOwner: boolean; // The viewer created the character
+  isLiked: boolean; // By the viewer; false for anonymous viewers
+  isFavorite: boolean;
+  publishedAt?: string;
+  createdAt: string;
+}
+
+// Originals a character was remixed from, nearest first; stops at the first one the viewer cannot see
+export interface CharacterLineage {
+  character: PublicCharacter;
+  ancestors: PublicCharacter[];
+  remixCount: number;
+}
+
+// Result of liking, unliking, favoriting or unfavoriting a character or variant
+export interface ReactionState {
+  isLiked: boolean;
+  isFavorite: boolean;
+  likeCount: number;
+  favoriteCount: number;
+}
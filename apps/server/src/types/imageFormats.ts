@@ -0,0 +1,30 @@
+// Image format types: the shape and quality tier of generated images
+
+export type AspectRatioPreset = 'square' | 'portrait' | 'landscape' | 'banner';
+
+export const ASPECT_RATIO_PRESETS: readonly AspectRatioPreset[] = ['square', 'portrait', 'landscape', 'banner'];
+
+export type ImageQuality = 'draft' | 'standard' | 'high';
+
+export const IMAGE_QUALITIES: readonly ImageQuality[] = ['draft', 'standard', 'high'];
+
+// Requested output of a generation; stored under `metadata.generation` with the image
+export interface ImageFormat {
+  aspectRatio: AspectRatioPreset;
+  ratio: string; // Width:height as sent to the model, e.g. "2:3"
+  quality: ImageQuality;
+  width: number; // Exact pixel size of the stored image
+  height: number;
+}
+
+// What the pipeline did to make a generated image match its format
+export interface ImageFormatAdjustments {
+  originalWidth: number;
+  originalHeight: number;
+  cropped: boolean; // Center-cropped because the model returned another aspect ratio
+  resized: boolean;
+}
+
+export interface GeneratedImageFormat extends ImageFormat {
+  adjustments?: ImageFormatAdjustments;
+}
@@ -0,0 +1,44 @@
+// Style preset types
+
+// Prompt fragments of a style; applied to every prompt generated in it
+export interface StylePromptFragments {
+  key: string;
+  name: string;
+  promptPrefix?: string;
+  promptSuffix?: string;
+  negativePrompt?: string;
+}
+
+// Style preset as returned by /api/v1/styles
+export interface StylePreset extends StylePromptFragments {
+  description?: string;
+  exampleImages: string[];
+  isActive: boolean;
+  builtIn: boolean; // Shipped with the server; deleting the stored row of a built-in style restores its defaults
+  customized: boolean; // Stored in the database (added or edited by an admin)
+  sortOrder: number;
+}
+
+export interface CreateStylePresetData {
+  key: string;
+  name: string;
+  description?: string;
+  promptPrefix?: string;
+  promptSuffix?: string;
+  negativePrompt?: string;
+  exampleImages?: string[];
+  isActive?: boolean;
+  sortOrder?: number;
+}
+
+// null clears an optional text field
+export interface UpdateStylePresetData {
+  name?: string;
+  description?: string | null;
+  promptPrefix?: string | null;
+  promptSuffix?: string | null;
+  negativePrompt?: string | null;
+  exampleImages?: string[];
+  isActive?: boolean;
+  sortOrder?: number;
+}
@@ -0,0 +1,40 @@
+// Character template types
+import { StyleType } from '../../../../shared/types/enums';
+import { Character } from './api';
+import { AspectRatioPreset, ImageQuality } from './imageFormats';
+
+export type TemplateSort = 'popular' | 'name' | 'newest';
+
+export const TEMPLATE_SORTS: readonly TemplateSort[] = ['popular', 'name', 'newest'];
+
+// Template as returned by /api/v1/templates
+export interface CharacterTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  prompt: string;
+  styleType: StyleType;
+  tags: string[];
+  usageCount: number; // Characters created from the template
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Body of POST /api/v1/characters/from-template/:id; every field overrides the template's
+export interface CreateFromTemplateData {
+  name?: string;
+  description?: string;
+  prompt?: string;
+  tags?: string[];
+  generateImage?: boolean; // Queue the character's image right away
+  aspectRatio?: AspectRatioPreset; // Format of that image (default square, standard)
+  quality?: ImageQuality;
+}
+
+// Response of POST /api/v1/characters/from-template/:id
+export interface CharacterFromTemplateResult {
+  character: Character;
+  template: CharacterTemplate; // With the updated usage count
+  job: { jobId: string; status: 'queued'; statusUrl: string } | null; // Image generation, when requested
+  degraded?: boolean; // The image was requested but could not be queued; nothing is charged
+}
@@ -0,0 +1,33 @@
+// Outbound webhook types
+
+// Events a webhook endpoint can subscribe to; "ping" is only sent by the test endpoint
+export const WEBHOOK_EVENT_TYPES = [
+  'character.created',
+  'variant.generated',
+  'generation.completed',
+  'generation.failed',
+  'credits.low'
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number] | 'ping';
+
+// Body POSTed to the endpoint; signed in the X-Webhook-Signature header
+export interface WebhookEventPayload {
+  id: string; // Event id, the same for every delivery and redelivery of the event
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export interface CreateWebhookEndpointData {
+  url: string;
+  events: string[];
+  description?: string;
+}
+
+export interface UpdateWebhookEndpointData {
+  url?: string;
+  events?: string[];
+  description?: string | null;
+  enabled?: boolean;
+}
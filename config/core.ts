@@ -27,11 +27,70 @@ export interface CoreConfig {
     jwtExpiresIn: string;
   };
   
+  // AI providers
+  ai: {
+    provider: 'gemini' | 'stub';
+    /** Timeouts, retries and circuit breaker for Gemini API calls */
+    gemini: {
+      textTimeoutMs: number;
+      imageTimeoutMs: number;
+      /** Retries per call on 429, 5xx, timeouts and network errors */
+      maxRetries: number;
+      retryBaseDelayMs: number;
+      /** Longer Retry-After or backoff waits fail the call instead of blocking it */
+      retryMaxDelayMs: number;
+      /** Consecutive failed attempts that open the circuit */
+      circuitFailureThreshold: number;
+      circuitCooldownMs: number;
+    };
+  };
+  
   // Storage
   storage: {
-    provider: 'local';
+    provider: 'local' | 's3';
     uploadPath: string;
     maxFileSize: number;
+    /** Secret for local signed URLs (falls back to JWT_SECRET) */
+    signingSecret: string;
+    signedUrlTtlSeconds: number;
+    s3?: {
+      endpoint?: string;
+      region: string;
+      bucket: string;
+      accessKeyId: string;
+      secretAccessKey: string;
+      forcePathStyle: boolean;
+      publicUrl?: string;
+    };
+  };
+  
+  // Image processing
+  images: {
+    /** Longest edge of each thumbnail, smallest first; the first one becomes thumbnailUrl */
+    thumbnailSizes: number[];
+    outputFormat: 'original' | 'webp';
+    webpQuality: number;
+    /** Largest accepted reference photo upload in bytes */
+    referenceMaxBytes: number;
+  };
+  
+  // Content moderation
+  moderation: {
+    /** Pre-check prompts against the blocklist before they reach a provider */
+    enabled: boolean;
+    /** Extra blocklist entries, "term" or "category:term" */
+    blocklist: string[];
+    /** File with one blocklist entry per line (# starts a comment) */
+    blocklistFile?: string;
+    /** Gemini safetySettings threshold applied to every harm category */
+    safetyThreshold: 'BLOCK_LOW_AND_ABOVE' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_ONLY_HIGH';
+    /** Characters of rejected text kept in the moderation log */
+    excerptLength: number;
+  };
+  
+  // Accounts allowed to use admin endpoints (moderation review, ...)
+  admin: {
+    emails: string[];
   };
   
   // Server management
@@ -64,10 +123,68 @@ export const config: CoreConfig = {
     },
   }),
   
+  // Offline stub provider is the default when no Google API key is configured
+  ai: {
+    provider: (process.env['AI_PROVIDER'] || (process.env['GOOGLE_API_KEY'] ? 'gemini' : 'stub')) as 'gemini' | 'stub',
+    gemini: {
+      textTimeoutMs: parseInt(process.env['GEMINI_TEXT_TIMEOUT_MS'] || '30000', 10),
+      imageTimeoutMs: parseInt(process.env['GEMINI_IMAGE_TIMEOUT_MS'] || '120000', 10),
+      maxRetries: parseInt(process.env['GEMINI_MAX_RETRIES'] || '2', 10),
+      retryBaseDelayMs: parseInt(process.env['GEMINI_RETRY_BASE_DELAY_MS'] || '1000', 10),
+      retryMaxDelayMs: parseInt(process.env['GEMINI_RETRY_MAX_DELAY_MS'] || '20000', 10),
+      circuitFailureThreshold: parseInt(process.env['GEMINI_CIRCUIT_FAILURE_THRESHOLD'] || '5', 10),
+      circuitCooldownMs: parseInt(process.env['GEMINI_CIRCUIT_COOLDOWN_MS'] || '30000', 10),
+    },
+  },
+  
   storage: {
-    provider: 'local',
+    provider: (process.env['STORAGE_PROVIDER'] || 'local') as 'local' | 's3',
     uploadPath: process.env['UPLOAD_PATH'] || './uploads',
     maxFileSize: parseInt(process.env['MAX_FILE_SIZE'] || '10485760', 10), // 10MB
+    signingSecret: process.env['STORAGE_SIGNING_SECRET'] || process.env['JWT_SECRET'] || 'default-jwt-secret-change-in-production',
+    signedUrlTtlSeconds: parseInt(process.env['STORAGE_SIGNED_URL_TTL'] || '3600', 10), // 1 hour
+    // S3 or any S3-compatible store (MinIO, R2, ...); path-style addressing for custom endpoints
+    ...(process.env['S3_BUCKET'] && {
+      s3: {
+        endpoint: process.env['S3_ENDPOINT'],
+        region: process.env['S3_REGION'] || 'us-east-1',
+        bucket: process.env['S3_BUCKET'],
+        accessKeyId: process.env['S3_ACCESS_KEY_ID'] || '',
+        secretAccessKey: process.env['S3_SECRET_ACCESS_KEY'] || '',
+        forcePathStyle: (process.env['S3_FORCE_PATH_STYLE'] ?? (process.env['S3_ENDPOINT'] ? 'true' : 'false')) === 'true',
+        publicUrl: process.env['S3_PUBLIC_URL'],
+      },
+    }),
+  },
+  
+  images: {
+    thumbnailSizes: (process.env['IMAGE_THUMBNAIL_SIZES'] || '256,512')
+      .split(',')
+      .map(size => parseInt(size.trim(), 10))
+      .filter(size => size > 0)
+      .sort((a, b) => a - b),
+    outputFormat: (process.env['IMAGE_OUTPUT_FORMAT'] || 'original') as 'original' | 'webp',
+    webpQuality: parseInt(process.env['IMAGE_WEBP_QUALITY'] || '82', 10),
+    referenceMaxBytes: parseInt(process.env['IMAGE_REFERENCE_MAX_BYTES'] || String(10 * 1024 * 1024), 10),
+  },
+  
+  // Strict defaults: the platform is used by teenagers
+  moderation: {
+    enabled: process.env['MODERATION_ENABLED'] !== 'false',
+    blocklist: (process.env['MODERATION_BLOCKLIST'] || '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(entry => entry.length > 0),
+    blocklistFile: process.env['MODERATION_BLOCKLIST_FILE'] || undefined,
+    safetyThreshold: (process.env['MODERATION_SAFETY_THRESHOLD'] || 'BLOCK_LOW_AND_ABOVE') as 'BLOCK_LOW_AND_ABOVE' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_ONLY_HIGH',
+    excerptLength: parseInt(process.env['MODERATION_EXCERPT_LENGTH'] || '200', 10),
+  },
+  
+  admin: {
+    emails: (process.env['ADMIN_EMAILS'] || '')
+      .split(',')
+      .map(email => email.trim().toLowerCase())
+      .filter(email => email.length > 0),
   },
   
   gracefulShutdown: {
@@ -0,0 +1,73 @@
+/*
+  Brings the database created by the init migration in line with the credits
+  schema. Legacy character columns and the collection, scene and template tables
+  that the current schema still uses are kept here and reshaped in place by the
+  migrations that bring them back into the schema.
+
+  Warnings:
+
+  - You are about to drop the column `generation_status` on the `characters` table. All the data in the column will be lost.
+  - You are about to drop the column `is_in_library` on the `characters` table. All the data in the column will be lost.
+  - You are about to drop the column `style_type` on the `characters` table. All the data in the column will be lost.
+  - You are about to drop the `generations` table. If the table is not empty, all the data it contains will be lost.
+
+*/
+-- CreateEnum
+CREATE TYPE "TransactionType" AS ENUM ('PURCHASE', 'REWARD', 'USAGE', 'REFUND', 'ADMIN');
+
+-- DropForeignKey
+ALTER TABLE "generations" DROP CONSTRAINT "generations_user_id_fkey";
+
+-- DropForeignKey
+ALTER TABLE "generations" DROP CONSTRAINT "generations_character_id_fkey";
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "credits" INTEGER NOT NULL DEFAULT 50;
+
+-- AlterTable
+ALTER TABLE "characters" DROP COLUMN "generation_status",
+DROP COLUMN "is_in_library",
+DROP COLUMN "style_type";
+
+-- DropTable
+DROP TABLE "generations";
+
+-- CreateTable
+CREATE TABLE "api_cost_config" (
+    "id" TEXT NOT NULL,
+    "api_endpoint" TEXT NOT NULL,
+    "cost" INTEGER NOT NULL,
+    "description" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "api_cost_config_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "credit_transactions" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "balance" INTEGER NOT NULL,
+    "type" "TransactionType" NOT NULL,
+    "api_endpoint" TEXT,
+    "description" TEXT,
+    "metadata" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "credit_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_cost_config_api_endpoint_key" ON "api_cost_config"("api_endpoint");
+
+-- CreateIndex
+CREATE INDEX "credit_transactions_user_id_idx" ON "credit_transactions"("user_id");
+
+-- CreateIndex
+CREATE INDEX "credit_transactions_created_at_idx" ON "credit_transactions"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "credit_transactions" ADD CONSTRAINT "credit_transactions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "JobStatus" AS ENUM ('PENDING', 'QUEUED', 'PROCESSING', 'COMPLETED', 'FAILED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "JobPriority" AS ENUM ('LOW', 'NORMAL', 'HIGH', 'URGENT');
+
+-- CreateTable
+CREATE TABLE "generation_jobs" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'single',
+    "status" "JobStatus" NOT NULL DEFAULT 'QUEUED',
+    "priority" "JobPriority" NOT NULL DEFAULT 'NORMAL',
+    "payload" JSONB NOT NULL,
+    "result" JSONB,
+    "error" JSONB,
+    "progress" JSONB,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "credit_cost" INTEGER,
+    "api_endpoint" TEXT,
+    "scheduled_at" TIMESTAMP(3),
+    "started_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "generation_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "generation_jobs_status_priority_created_at_idx" ON "generation_jobs"("status", "priority", "created_at");
+
+-- CreateIndex
+CREATE INDEX "generation_jobs_user_id_idx" ON "generation_jobs"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "generation_jobs" ADD CONSTRAINT "generation_jobs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
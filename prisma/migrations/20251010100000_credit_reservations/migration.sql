@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "ReservationStatus" AS ENUM ('HELD', 'COMMITTED', 'RELEASED');
+
+-- AlterTable
+ALTER TABLE "credit_transactions" ADD COLUMN     "reservation_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "generation_jobs" ADD COLUMN     "reservation_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "credit_reservations" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "committed_amount" INTEGER NOT NULL DEFAULT 0,
+    "api_endpoint" TEXT NOT NULL,
+    "status" "ReservationStatus" NOT NULL DEFAULT 'HELD',
+    "release_reason" TEXT,
+    "metadata" JSONB,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "settled_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "credit_reservations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "credit_reservations_user_id_idx" ON "credit_reservations"("user_id");
+
+-- CreateIndex
+CREATE INDEX "credit_reservations_status_expires_at_idx" ON "credit_reservations"("status", "expires_at");
+
+-- CreateIndex
+CREATE INDEX "credit_transactions_reservation_id_idx" ON "credit_transactions"("reservation_id");
+
+-- AddForeignKey
+ALTER TABLE "credit_transactions" ADD CONSTRAINT "credit_transactions_reservation_id_fkey" FOREIGN KEY ("reservation_id") REFERENCES "credit_reservations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_reservations" ADD CONSTRAINT "credit_reservations_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "credit_reservations" ADD COLUMN     "quota_units" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,56 @@
+/*
+  Warnings:
+
+  - You are about to drop the column `tags` on the `characters` table. Its values are copied into `tags` / `_CharacterToTag` first.
+
+*/
+-- CreateTable
+CREATE TABLE "tags" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tags_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_CharacterToTag" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tags_name_key" ON "tags"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_CharacterToTag_AB_unique" ON "_CharacterToTag"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_CharacterToTag_B_index" ON "_CharacterToTag"("B");
+
+-- CreateIndex
+CREATE INDEX "characters_user_id_created_at_idx" ON "characters"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "_CharacterToTag" ADD CONSTRAINT "_CharacterToTag_A_fkey" FOREIGN KEY ("A") REFERENCES "characters"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_CharacterToTag" ADD CONSTRAINT "_CharacterToTag_B_fkey" FOREIGN KEY ("B") REFERENCES "tags"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- MigrateData
+INSERT INTO "tags" ("id", "name")
+SELECT gen_random_uuid()::text, "name"
+FROM (
+    SELECT DISTINCT lower(btrim("tag")) AS "name"
+    FROM "characters", unnest("characters"."tags") AS "tag"
+) AS "legacy"
+WHERE "name" <> '';
+
+-- MigrateData
+INSERT INTO "_CharacterToTag" ("A", "B")
+SELECT DISTINCT "characters"."id", "tags"."id"
+FROM "characters", unnest("characters"."tags") AS "tag"
+JOIN "tags" ON "tags"."name" = lower(btrim("tag"));
+
+-- AlterTable
+ALTER TABLE "characters" DROP COLUMN "tags";
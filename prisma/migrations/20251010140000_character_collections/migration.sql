@@ -0,0 +1,45 @@
+/*
+  Warnings:
+
+  - You are about to drop the column `cover_image_url` on the `character_collections` table. Covers that match a member's image are kept as `cover_character_id`.
+
+*/
+-- AlterTable
+ALTER TABLE "character_collections" ADD COLUMN     "cover_character_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "character_collection_items" ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
+
+-- MigrateData
+UPDATE "character_collections" AS "collection"
+SET "cover_character_id" = (
+    SELECT "item"."character_id"
+    FROM "character_collection_items" AS "item"
+    JOIN "characters" ON "characters"."id" = "item"."character_id"
+    WHERE "item"."collection_id" = "collection"."id"
+      AND "collection"."cover_image_url" IN ("characters"."image_url", "characters"."thumbnail_url")
+    ORDER BY "item"."added_at"
+    LIMIT 1
+)
+WHERE "cover_image_url" IS NOT NULL;
+
+-- MigrateData
+UPDATE "character_collection_items" AS "item"
+SET "position" = "ordered"."position"
+FROM (
+    SELECT "id", (row_number() OVER (PARTITION BY "collection_id" ORDER BY "added_at", "id") - 1)::integer AS "position"
+    FROM "character_collection_items"
+) AS "ordered"
+WHERE "ordered"."id" = "item"."id";
+
+-- AlterTable
+ALTER TABLE "character_collections" DROP COLUMN "cover_image_url";
+
+-- CreateIndex
+CREATE INDEX "character_collections_user_id_created_at_idx" ON "character_collections"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "character_collection_items_collection_id_position_idx" ON "character_collection_items"("collection_id", "position");
+
+-- AddForeignKey
+ALTER TABLE "character_collections" ADD CONSTRAINT "character_collections_cover_character_id_fkey" FOREIGN KEY ("cover_character_id") REFERENCES "characters"("id") ON DELETE SET NULL ON UPDATE CASCADE;
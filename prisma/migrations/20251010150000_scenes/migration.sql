@@ -0,0 +1,32 @@
+/*
+  Warnings:
+
+  - You are about to drop the column `thumbnail_url` on the `scenes` table. All the data in the column will be lost.
+
+*/
+-- CreateEnum
+CREATE TYPE "SceneGenerationStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "scenes" DROP COLUMN "thumbnail_url";
+
+-- AlterTable
+ALTER TABLE "scene_generations" ALTER COLUMN "status" DROP DEFAULT,
+ALTER COLUMN "status" TYPE "SceneGenerationStatus" USING ("status"::text::"SceneGenerationStatus"),
+ALTER COLUMN "status" SET DEFAULT 'PENDING',
+ADD COLUMN     "job_id" TEXT,
+ADD COLUMN     "image_url" TEXT,
+ADD COLUMN     "thumbnail_url" TEXT,
+ADD COLUMN     "metadata" JSONB;
+
+-- DropEnum
+DROP TYPE "GenerationStatus";
+
+-- CreateIndex
+CREATE INDEX "scenes_user_id_created_at_idx" ON "scenes"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "scene_generations_scene_id_created_at_idx" ON "scene_generations"("scene_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "scene_generations_job_id_idx" ON "scene_generations"("job_id");
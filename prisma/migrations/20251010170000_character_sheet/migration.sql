@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "characters" RENAME COLUMN "physicalTraits" TO "physical_traits";
+
+-- AlterTable
+ALTER TABLE "characters" ALTER COLUMN "personality" SET DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "theme_variants" ADD COLUMN     "is_anchor" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "theme_variants_character_id_is_anchor_idx" ON "theme_variants"("character_id", "is_anchor");
@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "prompt_sessions" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "character_id" TEXT,
+    "style" TEXT,
+    "gender" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "prompt_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "prompt_session_turns" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "turn_index" INTEGER NOT NULL,
+    "user_input" TEXT NOT NULL,
+    "generated_prompt" TEXT NOT NULL,
+    "reasoning" TEXT,
+    "suggestions" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "feedback" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "prompt_session_turns_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "prompt_sessions_user_id_updated_at_idx" ON "prompt_sessions"("user_id", "updated_at");
+
+-- CreateIndex
+CREATE INDEX "prompt_sessions_character_id_idx" ON "prompt_sessions"("character_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prompt_session_turns_session_id_turn_index_key" ON "prompt_session_turns"("session_id", "turn_index");
+
+-- AddForeignKey
+ALTER TABLE "prompt_sessions" ADD CONSTRAINT "prompt_sessions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "prompt_sessions" ADD CONSTRAINT "prompt_sessions_character_id_fkey" FOREIGN KEY ("character_id") REFERENCES "characters"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "prompt_session_turns" ADD CONSTRAINT "prompt_session_turns_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "prompt_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "prompt_session_turns" ADD COLUMN     "degraded" BOOLEAN NOT NULL DEFAULT false;
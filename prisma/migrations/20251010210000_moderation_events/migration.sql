@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "ModerationSource" AS ENUM ('BLOCKLIST', 'PROVIDER');
+
+-- CreateTable
+CREATE TABLE "moderation_events" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "source" "ModerationSource" NOT NULL,
+    "endpoint" TEXT,
+    "job_id" TEXT,
+    "categories" TEXT[],
+    "matched_terms" TEXT[],
+    "excerpt" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+    "reviewed_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "moderation_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "moderation_events_user_id_created_at_idx" ON "moderation_events"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "moderation_events_reviewed_at_created_at_idx" ON "moderation_events"("reviewed_at", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "moderation_events" ADD CONSTRAINT "moderation_events_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+/*
+  Warnings:
+
+  - You are about to drop the column `is_public` on the `characters` table. Public characters are published with a share token first.
+
+*/
+-- CreateEnum
+CREATE TYPE "CharacterVisibility" AS ENUM ('PRIVATE', 'UNLISTED', 'PUBLIC');
+
+-- AlterTable
+ALTER TABLE "characters" ADD COLUMN     "like_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "published_at" TIMESTAMP(3),
+ADD COLUMN     "share_token" TEXT,
+ADD COLUMN     "visibility" "CharacterVisibility" NOT NULL DEFAULT 'PRIVATE';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "characters_share_token_key" ON "characters"("share_token");
+
+-- CreateIndex
+CREATE INDEX "characters_visibility_published_at_idx" ON "characters"("visibility", "published_at");
+
+-- CreateIndex
+CREATE INDEX "characters_visibility_like_count_idx" ON "characters"("visibility", "like_count");
+
+-- MigrateData
+UPDATE "characters"
+SET "visibility" = 'PUBLIC',
+    "published_at" = "updated_at",
+    "share_token" = replace(gen_random_uuid()::text, '-', '')
+WHERE "is_public";
+
+-- AlterTable
+ALTER TABLE "characters" DROP COLUMN "is_public";
@@ -0,0 +1,111 @@
+/*
+  Warnings:
+
+  - You are about to drop the column `is_favorite` on the `characters` table. Favorites are copied into `character_favorites` for the owner first.
+
+*/
+-- AlterTable
+ALTER TABLE "characters" ADD COLUMN     "remixed_from_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "character_likes" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "character_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "character_likes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "character_favorites" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "character_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "character_favorites_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "variant_likes" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "variant_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "variant_likes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "variant_favorites" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "variant_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "variant_favorites_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "character_likes_character_id_idx" ON "character_likes"("character_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "character_likes_user_id_character_id_key" ON "character_likes"("user_id", "character_id");
+
+-- CreateIndex
+CREATE INDEX "character_favorites_user_id_created_at_idx" ON "character_favorites"("user_id", "created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "character_favorites_user_id_character_id_key" ON "character_favorites"("user_id", "character_id");
+
+-- CreateIndex
+CREATE INDEX "variant_likes_variant_id_idx" ON "variant_likes"("variant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "variant_likes_user_id_variant_id_key" ON "variant_likes"("user_id", "variant_id");
+
+-- CreateIndex
+CREATE INDEX "variant_favorites_user_id_created_at_idx" ON "variant_favorites"("user_id", "created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "variant_favorites_user_id_variant_id_key" ON "variant_favorites"("user_id", "variant_id");
+
+-- CreateIndex
+CREATE INDEX "characters_remixed_from_id_idx" ON "characters"("remixed_from_id");
+
+-- AddForeignKey
+ALTER TABLE "characters" ADD CONSTRAINT "characters_remixed_from_id_fkey" FOREIGN KEY ("remixed_from_id") REFERENCES "characters"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "character_likes" ADD CONSTRAINT "character_likes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "character_likes" ADD CONSTRAINT "character_likes_character_id_fkey" FOREIGN KEY ("character_id") REFERENCES "characters"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "character_favorites" ADD CONSTRAINT "character_favorites_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "character_favorites" ADD CONSTRAINT "character_favorites_character_id_fkey" FOREIGN KEY ("character_id") REFERENCES "characters"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "variant_likes" ADD CONSTRAINT "variant_likes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "variant_likes" ADD CONSTRAINT "variant_likes_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "theme_variants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "variant_favorites" ADD CONSTRAINT "variant_favorites_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "variant_favorites" ADD CONSTRAINT "variant_favorites_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "theme_variants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- MigrateData
+INSERT INTO "character_favorites" ("id", "user_id", "character_id", "created_at")
+SELECT gen_random_uuid()::text, "user_id", "id", "updated_at"
+FROM "characters"
+WHERE "is_favorite";
+
+-- AlterTable
+ALTER TABLE "characters" DROP COLUMN "is_favorite";
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "characters" ADD COLUMN     "template_id" TEXT;
+
+-- MigrateData
+UPDATE "character_templates" AS "template"
+SET "name" = "template"."name" || ' (' || "template"."id" || ')'
+WHERE EXISTS (
+    SELECT 1
+    FROM "character_templates" AS "other"
+    WHERE "other"."name" = "template"."name"
+      AND ("other"."created_at", "other"."id") < ("template"."created_at", "template"."id")
+);
+
+-- AlterTable
+ALTER TABLE "character_templates" ALTER COLUMN "style_type" DROP DEFAULT,
+ALTER COLUMN "style_type" TYPE TEXT USING ("style_type"::text),
+ALTER COLUMN "style_type" SET DEFAULT 'REALISTIC',
+ALTER COLUMN "tags" SET DEFAULT ARRAY[]::TEXT[];
+
+-- DropEnum
+DROP TYPE "StyleType";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "character_templates_name_key" ON "character_templates"("name");
+
+-- CreateIndex
+CREATE INDEX "character_templates_is_active_style_type_idx" ON "character_templates"("is_active", "style_type");
+
+-- CreateIndex
+CREATE INDEX "character_templates_is_active_usage_count_idx" ON "character_templates"("is_active", "usage_count");
+
+-- CreateIndex
+CREATE INDEX "characters_template_id_idx" ON "characters"("template_id");
+
+-- AddForeignKey
+ALTER TABLE "characters" ADD CONSTRAINT "characters_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "character_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
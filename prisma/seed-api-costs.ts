@@ -30,11 +30,29 @@ async function main() {
       description: 'AI image generation for character',
       enabled: true
     },
+    {
+      apiEndpoint: '/characters/generate-image:draft',
+      cost: 5,
+      description: 'AI image generation for character at draft quality',
+      enabled: true
+    },
+    {
+      apiEndpoint: '/characters/generate-image:high',
+      cost: 20,
+      description: 'AI image generation for character at high quality (2K)',
+      enabled: true
+    },
     {
       apiEndpoint: '/themes/variants/generate',
       cost: 10,
       description: 'AI image generation for theme variant',
       enabled: true
+    },
+    {
+      apiEndpoint: '/scenes/generate',
+      cost: 15,
+      description: 'Multi-character AI image generation for a scene',
+      enabled: true
     }
   ];
 
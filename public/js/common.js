@@ -187,6 +187,179 @@ async function loadCharacters() {
     }
 }
 
+// Live updates over Server-Sent Events (GET /api/v1/events). fetch is used instead of EventSource
+// so the bearer token can be sent in the Authorization header.
+const serverEventListeners = new Set();
+let eventStreamController = null;
+let eventStreamConnected = false;
+const EVENT_STREAM_RETRY_MS = 5000;
+
+// Register a callback for every pushed message; returns a function that removes it
+function onServerEvent(callback) {
+    serverEventListeners.add(callback);
+    return () => serverEventListeners.delete(callback);
+}
+
+function isEventStreamConnected() {
+    return eventStreamConnected;
+}
+
+function dispatchServerEvent(message) {
+    if (message.type === 'connected' || message.type === 'credits_balance') {
+        window.CreditsModule?.handleCreditDeduction({ newBalance: message.payload.balance });
+    }
+
+    serverEventListeners.forEach(callback => {
+        try {
+            callback(message);
+        } catch (error) {
+            console.error('[Events] Error in server event callback:', error);
+        }
+    });
+}
+
+// Open the event stream and keep it open; reconnects after network errors and stops when
+// the server has realtime updates disabled or the session is no longer valid
+async function openEventStream() {
+    if (eventStreamController) return;
+
+    const controller = new AbortController();
+    eventStreamController = controller;
+
+    while (eventStreamController === controller) {
+        try {
+            const response = await fetch(`${API_BASE}/events`, {
+                headers: {
+                    'Authorization': `Bearer ${getAuthToken()}`,
+                    'Accept': 'text/event-stream'
+                },
+                signal: controller.signal
+            });
+
+            if (response.status === 401 || response.status === 404 || response.status === 503) {
+                console.log(`[Events] Live updates unavailable (${response.status}), using polling`);
+                break;
+            }
+            if (!response.ok || !response.body) {
+                throw new Error(`HTTP ${response.status}`);
+            }
+
+            eventStreamConnected = true;
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+
+                buffer += decoder.decode(value, { stream: true });
+                let boundary;
+                while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+                    const block = buffer.slice(0, boundary);
+                    buffer = buffer.slice(boundary + 2);
+
+                    // Comment lines (heartbeats) and retry hints carry no data
+                    const data = block.split('\n')
+                        .filter(line => line.startsWith('data:'))
+                        .map(line => line.slice(5).trimStart())
+                        .join('\n');
+                    if (data) {
+                        dispatchServerEvent(JSON.parse(data));
+                    }
+                }
+            }
+        } catch (error) {
+            if (controller.signal.aborted) break;
+            console.warn('[Events] Event stream error:', error.message);
+        } finally {
+            eventStreamConnected = false;
+        }
+
+        if (eventStreamController === controller) {
+            await new Promise(resolve => setTimeout(resolve, EVENT_STREAM_RETRY_MS));
+        }
+    }
+
+    if (eventStreamController === controller) {
+        eventStreamController = null;
+    }
+}
+
+function closeEventStream() {
+    if (eventStreamController) {
+        eventStreamController.abort();
+        eventStreamController = null;
+    }
+}
+
+// Wait for a generation job to complete, fail or be cancelled. Pushed events settle it immediately;
+// the job is still polled (less often while the event stream is connected) so a missed event cannot hang it.
+async function waitForJob(jobId, { intervalMs = 2000, pushedIntervalMs = 15000, timeoutMs = 10 * 60 * 1000, onProgress } = {}) {
+    const deadline = Date.now() + timeoutMs;
+    let finished = null;
+    let wakeUp = () => {};
+
+    const unsubscribe = onServerEvent((message) => {
+        const payload = message.payload || {};
+        if (payload.jobId !== jobId) return;
+
+        if (message.type === 'job_progress' || (message.type === 'job_queued' && payload.retry)) {
+            if (onProgress) {
+                onProgress(message.type === 'job_progress' ? payload : { percentage: 0, stage: 'queued', message: 'Retrying' });
+            }
+            return;
+        }
+        if (message.type === 'job_failed' || message.type === 'job_cancelled') {
+            finished = { error: new Error(payload.error?.message || `Generation ${message.type === 'job_failed' ? 'failed' : 'cancelled'}`) };
+        } else if (message.type !== 'job_completed') {
+            return;
+        }
+        // A completed job is fetched right away: pushed results leave out inline images
+        wakeUp();
+    });
+
+    try {
+        while (Date.now() < deadline) {
+            if (!finished) {
+                const response = await fetch(`${API_BASE}/jobs/${jobId}`, {
+                    headers: {
+                        'Authorization': `Bearer ${getAuthToken()}`
+                    }
+                });
+                const data = await response.json();
+
+                if (!data.success) {
+                    throw new Error(data.error?.message || 'Failed to fetch job status');
+                }
+
+                const job = data.data;
+                if (job.status === 'completed') {
+                    finished = { result: job.result };
+                } else if (job.status === 'failed' || job.status === 'cancelled') {
+                    finished = { error: new Error(job.error?.message || `Generation ${job.status}`) };
+                } else if (onProgress && job.progress) {
+                    onProgress(job.progress);
+                }
+            }
+
+            if (finished) {
+                if (finished.error) throw finished.error;
+                return finished.result;
+            }
+
+            await new Promise(resolve => {
+                wakeUp = resolve;
+                setTimeout(resolve, isEventStreamConnected() ? pushedIntervalMs : intervalMs);
+            });
+        }
+
+        throw new Error('Timed out waiting for generation to finish');
+    } finally {
+        unsubscribe();
+    }
+}
+
 // Navigation setup
 document.querySelectorAll('.nav-item').forEach(item => {
     item.addEventListener('click', function(e) {
@@ -30,10 +30,19 @@
                 });
                 
                 const result = await response.json();
-                
+
+                // Blocked descriptions are not retried without optimization; they would be blocked again
+                if (result.error?.code === 'CONTENT_BLOCKED') {
+                    showNotification(result.error.message, 'error');
+                    return;
+                }
+
                 if (result.success) {
                     currentOptimizedPrompt = result.data;
                     currentConversationId = result.data.conversationId;
+                    if (result.data.degraded) {
+                        showNotification('The description could not be optimized, so it is shown unchanged. You were not charged.', 'warning');
+                    }
                     showPromptOptimization(result.data);
                 } else {
                     throw new Error(result.error?.message || 'Failed to optimize prompt');
@@ -154,14 +163,18 @@
                     throw new Error(imageResult.error?.message || 'Image generation failed');
                 }
 
+                // Generation runs as a background job; wait for its result
+                const generatedImage = await waitForJob(imageResult.data.jobId, { onProgress: showGenerationProgress });
+
                 const character = {
                     id: Date.now(),
                     name: name,
                     style: style || 'realistic',
                     description: currentOptimizedPrompt?.originalInput || editedPrompt,
                     enhancedDescription: editedPrompt,
-                    imageUrl: imageResult.data?.imageUrl || null,
-                    thumbnailUrl: imageResult.data?.thumbnailUrl || null,
+                    imageUrl: generatedImage?.imageUrl || null,
+                    thumbnailUrl: generatedImage?.thumbnailUrl || null,
+                    jobId: imageResult.data.jobId,
                     createdAt: new Date().toISOString(),
                     tags: [
                         style || 'generated',
@@ -194,8 +207,23 @@
             } finally {
                 // Hide loading
                 document.getElementById('loading-overlay').style.display = 'none';
+                document.getElementById('loading-text').textContent = 'Processing...';
             }
         }
+
+        // Show the job's stage and percentage in the loading overlay
+        function showGenerationProgress(progress) {
+            const stages = {
+                queued: 'Waiting in queue',
+                preprocessing: 'Preparing',
+                generating: 'Generating image',
+                postprocessing: 'Processing image',
+                uploading: 'Saving'
+            };
+            const label = progress.message || stages[progress.stage] || 'Processing';
+            const percentage = Math.round(progress.percentage || 0);
+            document.getElementById('loading-text').textContent = percentage > 0 ? `${label}... ${percentage}%` : `${label}...`;
+        }
         
         // Show modification options
         function showModificationOptions() {
@@ -265,6 +293,9 @@
                     throw new Error(imageResult.error?.message || 'Image generation failed');
                 }
 
+                // Generation runs as a background job; wait for its result
+                const generatedImage = await waitForJob(imageResult.data.jobId, { onProgress: showGenerationProgress });
+
                 // Create character data with generated image
                 const character = {
                     id: Date.now(),
@@ -272,7 +303,9 @@
                     style: style,
                     description: document.getElementById('character-description').value.trim(),
                     enhancedDescription: prompt,
-                    imageUrl: imageResult.data.result.imageUrl,
+                    imageUrl: generatedImage.imageUrl,
+                    thumbnailUrl: generatedImage.thumbnailUrl,
+                    jobId: imageResult.data.jobId,
                     createdAt: new Date().toISOString(),
                     tags: ['ai-generated'],
                     metadata: {
@@ -290,6 +323,7 @@
                 showNotification(`Failed to generate character image: ${error.message}`, 'error');
             } finally {
                 document.getElementById('loading-overlay').style.display = 'none';
+                document.getElementById('loading-text').textContent = 'Processing...';
             }
         }
         
@@ -467,11 +501,15 @@
                         name: currentGeneratedCharacter.name,
                         description: currentGeneratedCharacter.description,
                         enhancedDescription: currentGeneratedCharacter.enhancedDescription,
+                        // The server stores the image of the generation job and the format it was made in
+                        jobId: currentGeneratedCharacter.jobId,
                         imageUrl: currentGeneratedCharacter.imageUrl,
                         thumbnailUrl: currentGeneratedCharacter.thumbnailUrl,
                         style: currentGeneratedCharacter.style,
                         tags: currentGeneratedCharacter.tags,
-                        metadata: currentGeneratedCharacter.metadata
+                        metadata: currentGeneratedCharacter.metadata,
+                        // Links the prompt session the character was refined in
+                        conversationId: currentGeneratedCharacter.metadata?.conversationId
                     })
                 });
                 
@@ -121,11 +121,9 @@ async function createTheme(characterId, name, description = '') {
  */
 async function generateVariant(themeId, prompt, metadata = {}) {
     try {
-        const currentCharacterImage = window._themeEditor?.currentCharacter?.imageUrl;
+        // The server anchors every variant on the character image and pinned anchor variants;
+        // metadata.inputImage is only set to edit a different image
         const mergedMetadata = { ...metadata };
-        if (currentCharacterImage && !mergedMetadata.inputImage) {
-            mergedMetadata.inputImage = currentCharacterImage;
-        }
 
         if (window._appDebug) {
             console.log('[Variant] Request metadata:', mergedMetadata);
@@ -143,7 +141,8 @@ async function generateVariant(themeId, prompt, metadata = {}) {
         const data = await response.json();
 
         if (data.success) {
-            return data.data;
+            // Variant is generated by a background job; wait for the stored variant
+            return await waitForJob(data.data.jobId);
         } else {
             throw new Error(data.error?.message || 'Failed to generate variant');
         }
@@ -213,6 +212,39 @@ async function deleteVariant(variantId) {
     }
 }
 
+/**
+ * 固定/取消身份锚点 - pin or unpin a variant as an identity reference for new variants
+ */
+async function setVariantAnchor(variantId, pinned) {
+    const response = await fetch(`${API_BASE}/themes/variants/${variantId}/anchor`, {
+        method: pinned ? 'PUT' : 'DELETE',
+        headers: window.AuthModule.getAuthHeaders()
+    });
+
+    const data = await response.json();
+
+    if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to update anchor');
+    }
+
+    return data.data;
+}
+
+async function toggleVariantAnchor(variantId, pinned) {
+    try {
+        await setVariantAnchor(variantId, pinned);
+        await onThemeChange();
+
+        if (window.showNotification) {
+            window.showNotification(pinned ? 'Variant pinned as identity anchor' : 'Anchor removed', 'success');
+        }
+    } catch (error) {
+        if (window.showNotification) {
+            window.showNotification(error.message || 'Failed to update anchor', 'error');
+        }
+    }
+}
+
 /**
  * Edit页面 - 步骤1：选择角色
  */
@@ -837,6 +869,10 @@ function updateVariantsDisplay(variants) {
                     ${new Date(variant.createdAt).toLocaleString()}
                 </p>
                 <div style="display: flex; gap: 0.5rem;">
+                    ${variant.imageUrl ? `
+                    <button class="btn btn-sm ${variant.isAnchor ? 'btn-primary' : 'btn-outline'}" onclick="toggleVariantAnchor('${variant.id}', ${!variant.isAnchor})" style="flex: 1;" title="${variant.isAnchor ? 'Unpin identity anchor' : 'Pin as identity anchor'}">
+                        <i class="fas fa-thumbtack"></i>
+                    </button>` : ''}
                     <button class="btn btn-sm btn-outline" onclick="deleteVariantWithConfirm('${variant.id}')" style="flex: 1;">
                         <i class="fas fa-trash"></i>
                     </button>
@@ -1289,6 +1325,7 @@ window.showEditStep3_GenerateVariants = showEditStep3_GenerateVariants;
 window.addToVariantPrompt = addToVariantPrompt;
 window.generateVariantImage = generateVariantImage;
 window.deleteVariantWithConfirm = deleteVariantWithConfirm;
+window.toggleVariantAnchor = toggleVariantAnchor;
 window.renameTheme = renameTheme;
 window.showGenerateVariantsPage = showGenerateVariantsPage;
 window.onThemeChange = onThemeChange;
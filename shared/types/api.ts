@@ -57,6 +57,7 @@ export type AsyncApiHandler<T = any> = (
 export interface User {
   id: string;
   email: string;
+  emailVerified: boolean;
   auth0Id: string | null;
   name: string | null;
   role: 'user' | 'admin';
@@ -21,16 +21,30 @@ export interface CharacterVariant {
   prompt: string;  // 生成该变体的提示词
   imageUrl: string;  // 本地存储路径
   thumbnailUrl?: string;
+  isAnchor?: boolean;  // 身份锚点 - pinned as an identity reference for new variants
+  likeCount?: number;
+  favoriteCount?: number;
+  isLiked?: boolean;  // By the requesting user
+  isFavorite?: boolean;
   metadata?: {
     clothing?: string;
     pose?: string;
     expression?: string;
     setting?: string;
+    anchors?: VariantAnchors;  // Identity references the variant was generated from
     [key: string]: any;
   };
   createdAt: Date;
 }
 
+// Identity references used to generate a variant - 生成变体时使用的身份锚点
+export interface VariantAnchors {
+  characterImageUrl: string | null;  // The character's canonical image
+  variantIds: string[];  // Pinned anchor variants, in the order they were attached
+  attributes: string[];  // Character sheet facts included in the prompt
+  inputImage: boolean;  // Whether metadata.inputImage was edited instead of generating from the anchors
+}
+
 // Theme with variants - 包含变体的主题
 export interface ThemeWithVariants extends CharacterTheme {
   variants: CharacterVariant[];
@@ -67,6 +81,7 @@ export interface CreateVariantRequest {
     expression?: string;
     setting?: string;
   };
+  style?: string;  // Style preset key (see /api/v1/styles)
 }
 
 export interface CreateVariantResponse {
@@ -75,6 +90,36 @@ export interface CreateVariantResponse {
   error?: string;
 }
 
+export interface CreateVariantBatchRequest {
+  prompts: string[] | string;  // List, or one comma-separated string ("summer outfit, winter outfit")
+  metadata?: CreateVariantRequest['metadata'];
+  style?: string;
+}
+
+// Outcome of one prompt in a batch - 批量生成中单个提示词的结果
+export interface VariantBatchItem {
+  index: number;
+  prompt: string;
+  success: boolean;
+  variant?: CharacterVariant;
+  error?: {
+    code: string;
+    message: string;
+    // Blocked categories when code is CONTENT_BLOCKED
+    details?: { categories?: string[] };
+  };
+}
+
+// Result of a batch variant job; only successful items are charged
+export interface VariantBatchResult {
+  themeId: string;
+  totalRequests: number;
+  completedRequests: number;
+  failedRequests: number;
+  creditsCharged: number;
+  items: VariantBatchItem[];
+}
+
 export interface GetThemesRequest {
   characterId: string;
 }
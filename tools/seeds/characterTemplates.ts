@@ -1,4 +1,4 @@
-import { getDatabaseConnection } from '../database/connection';
+import { getDatabaseConnection } from '../../apps/server/src/database/connection';
 import { STYLE_TYPE } from '../../shared/types/enums';
 
 interface SeedOptions {
@@ -92,11 +92,14 @@ export async function seedCharacterTemplates(options: SeedOptions = {}): Promise
       console.log('   📝 Creating character templates...');
     }
     
-    // Use transaction to ensure all templates are created together
+    // Use transaction to ensure all templates are written together; re-running the seed
+    // updates the curated content by name and keeps usage counts
     await dbConnection.transaction(async (tx) => {
       for (const template of CHARACTER_TEMPLATES) {
-        await tx.characterTemplate.create({
-          data: template,
+        await tx.characterTemplate.upsert({
+          where: { name: template.name },
+          update: template,
+          create: template,
         });
         
         if (verbose) {
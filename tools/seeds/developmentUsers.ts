@@ -1,4 +1,4 @@
-import { getDatabaseConnection } from '../database/connection';
+import { getDatabaseConnection } from '../../apps/server/src/database/connection';
 import { SubscriptionTier } from '@prisma/client';
 
 interface SeedOptions {
@@ -1,4 +1,4 @@
-import { getDatabaseConnection } from '../database/connection';
+import { getDatabaseConnection } from '../../apps/server/src/database/connection';
 import { seedCharacterTemplates } from './characterTemplates';
 import { seedDevelopmentUsers } from './developmentUsers';
 import { seedSampleCharacters } from './sampleCharacters';
@@ -43,7 +43,7 @@ export async function seedDatabase(options: SeedOptions = { environment: 'develo
     
     // Clear data in correct order to avoid foreign key constraints
     if (force) {
-      await prisma.generation.deleteMany({});
+      await prisma.generationJob.deleteMany({});
       await prisma.character.deleteMany({});
       await prisma.characterTemplate.deleteMany({});
       if (environment === 'development' || environment === 'test') {
@@ -79,7 +79,7 @@ export async function seedDatabase(options: SeedOptions = { environment: 'develo
     console.log(`   Users: ${stats.users}`);
     console.log(`   Character Templates: ${stats.templates}`);
     console.log(`   Characters: ${stats.characters}`);
-    console.log(`   Generations: ${stats.generations}`);
+    console.log(`   Generation jobs: ${stats.generationJobs}`);
     
   } catch (error) {
     console.error('❌ Database seeding failed:', error);
@@ -104,8 +104,8 @@ export async function clearSeedData(options: { environment: string; verbose?: bo
     const prisma = dbConnection.getPrismaClient();
     
     // Clear in correct order to avoid foreign key constraints
-    await prisma.generation.deleteMany({});
-    if (verbose) console.log('   ✅ Cleared generations');
+    await prisma.generationJob.deleteMany({});
+    if (verbose) console.log('   ✅ Cleared generation jobs');
     
     await prisma.character.deleteMany({});
     if (verbose) console.log('   ✅ Cleared characters');
@@ -130,14 +130,14 @@ export async function clearSeedData(options: { environment: string; verbose?: bo
  * Get database statistics
  */
 async function getDatabaseStats(prisma: any) {
-  const [users, templates, characters, generations] = await Promise.all([
+  const [users, templates, characters, generationJobs] = await Promise.all([
     prisma.user.count(),
     prisma.characterTemplate.count(), 
     prisma.character.count(),
-    prisma.generation.count(),
+    prisma.generationJob.count(),
   ]);
   
-  return { users, templates, characters, generations };
+  return { users, templates, characters, generationJobs };
 }
 
 /**